@@ -0,0 +1,23 @@
+// Service worker for study reminders pushed by the send-study-reminders edge function
+
+self.addEventListener('push', (event) => {
+  const message = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'EduRank Study Reminder', {
+      body: message.body || 'Time to study! Keep your streak going.',
+      icon: '/edurank-logo.svg',
+      tag: message.tag,
+      data: { url: message.url || '/dashboard' },
+      actions: [{ action: 'snooze', title: 'Snooze 1 hour' }],
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  // The dashboard applies ?snooze=<minutes> to the student's reminder settings
+  const url = event.action === 'snooze' ? '/dashboard?snooze=60' : event.notification.data.url;
+  event.waitUntil(self.clients.openWindow(url));
+});
@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { FilterProvider } from "@/contexts/FilterContext";
+import { AiJobsProvider } from "@/contexts/AiJobsContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
@@ -12,6 +13,8 @@ import Dashboard from "./pages/Dashboard";
 import VideoPlayer from "./pages/VideoPlayer";
 import Notes from "./pages/Notes";
 import Quiz from "./pages/Quiz";
+import Review from "./pages/Review";
+import Flashcards from "./pages/Flashcards";
 import Profile from "./pages/Profile";
 import QuizHistory from "./pages/QuizHistory";
 import Leaderboard from "./pages/Leaderboard";
@@ -26,6 +29,7 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
+      <AiJobsProvider>
       <FilterProvider>
         <TooltipProvider>
           <Toaster />
@@ -75,6 +79,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/review"
+              element={
+                <ProtectedRoute>
+                  <Review />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/flashcards/:todoId"
+              element={
+                <ProtectedRoute>
+                  <Flashcards />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/profile"
               element={
@@ -129,6 +149,7 @@ const App = () => (
         </BrowserRouter>
         </TooltipProvider>
       </FilterProvider>
+      </AiJobsProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
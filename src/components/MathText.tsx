@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import 'katex/dist/katex.min.css';
+import { splitMath, renderMath } from '@/lib/math';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Plain text with LaTeX/mhchem between $...$, $$...$$, \(...\) or \[...\]
+ * rendered by KaTeX. Everything outside the delimiters stays plain text.
+ */
+const MathText = ({ text, className }: MathTextProps) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.type === 'math' ? (
+          <span
+            key={index}
+            className={segment.display ? 'block my-2 overflow-x-auto' : undefined}
+            // KaTeX escapes the source and has \href etc. disabled by default
+            dangerouslySetInnerHTML={{ __html: renderMath(segment.value, segment.display) }}
+          />
+        ) : (
+          <span key={index}>{segment.value}</span>
+        )
+      )}
+    </span>
+  );
+};
+
+export default MathText;
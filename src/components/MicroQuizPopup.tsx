@@ -6,6 +6,7 @@ import { CheckCircle, XCircle, Sparkles, Brain, Trophy } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import MathText from '@/components/MathText';
 
 interface MicroQuizQuestion {
   question: string;
@@ -20,9 +21,10 @@ interface MicroQuizPopupProps {
   topicName: string;
   topicId: string;
   todoId: string;
+  weaknessScore?: number;
 }
 
-const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId }: MicroQuizPopupProps) => {
+const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId, weaknessScore = 50 }: MicroQuizPopupProps) => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [questions, setQuestions] = useState<MicroQuizQuestion[]>([]);
@@ -50,7 +52,7 @@ const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId }: MicroQu
     try {
       const { data, error } = await supabase.functions.invoke('fix-weak-areas-quiz', {
         body: {
-          weakTopics: [{ topic_id: topicId, topic_name: topicName }],
+          topics: [{ name: topicName, weaknessScore }],
           questionsPerTopic: 3,
         },
       });
@@ -61,7 +63,7 @@ const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId }: MicroQu
         setQuestions(data.questions.map((q: any) => ({
           question: q.question,
           options: q.options,
-          correctIndex: q.correctIndex,
+          correctIndex: q.correctAnswer,
           explanation: q.explanation || 'Great job reviewing this concept!',
         })));
       }
@@ -139,7 +141,7 @@ const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId }: MicroQu
             </p>
 
             <div className="glass-card p-4 rounded-xl">
-              <p className="font-medium">{currentQuestion.question}</p>
+              <p className="font-medium"><MathText text={currentQuestion.question} /></p>
             </div>
 
             <div className="space-y-2">
@@ -166,7 +168,7 @@ const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId }: MicroQu
                     }`}
                   >
                     <div className="flex items-center justify-between">
-                      <span>{option}</span>
+                      <MathText text={option} />
                       {showResult && isCorrect && <CheckCircle className="h-5 w-5 text-green-500" />}
                       {showResult && isSelected && !isCorrect && <XCircle className="h-5 w-5 text-destructive" />}
                     </div>
@@ -181,7 +183,7 @@ const MicroQuizPopup = ({ isOpen, onClose, topicName, topicId, todoId }: MicroQu
                   ? 'bg-green-500/10 border border-green-500/30' 
                   : 'bg-destructive/10 border border-destructive/30'
               }`}>
-                <p className="text-sm">{currentQuestion.explanation}</p>
+                <p className="text-sm"><MathText text={currentQuestion.explanation} /></p>
               </div>
             )}
 
@@ -3,6 +3,7 @@ import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Play, Clock, Eye, Us
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import VideoThumbnail from '@/components/video/VideoThumbnail';
 
 interface SubtaskVideo {
   id: string;
@@ -161,8 +162,6 @@ interface VideoCardProps {
 }
 
 const VideoCard = ({ video, isActive, onSelect }: VideoCardProps) => {
-  const thumbnailUrl = `https://img.youtube.com/vi/${video.video_id}/mqdefault.jpg`;
-
   return (
     <button
       onClick={onSelect}
@@ -174,8 +173,8 @@ const VideoCard = ({ video, isActive, onSelect }: VideoCardProps) => {
     >
       {/* Thumbnail */}
       <div className="relative aspect-video rounded-md overflow-hidden mb-2">
-        <img
-          src={thumbnailUrl}
+        <VideoThumbnail
+          videoId={video.video_id}
           alt={video.title}
           className="w-full h-full object-cover"
           loading="lazy"
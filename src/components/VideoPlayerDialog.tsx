@@ -1,7 +1,12 @@
+import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { ExternalLink, X } from 'lucide-react';
-import YouTube, { YouTubeProps } from 'react-youtube';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { useResumePoint } from '@/hooks/useResumePoint';
+import { fetchResumePosition } from '@/lib/resumePoints';
+import type { MediaPlayerHandle } from '@/lib/mediaPlayer';
+import { videoExternalUrl } from '@/lib/videoSources';
+import MediaPlayer from '@/components/video/MediaPlayer';
 
 interface VideoPlayerDialogProps {
   open: boolean;
@@ -18,15 +23,27 @@ const VideoPlayerDialog = ({
   videoTitle,
   videoChannel,
 }: VideoPlayerDialogProps) => {
-  const opts: YouTubeProps['opts'] = {
-    width: '100%',
-    height: '100%',
-    playerVars: {
-      autoplay: 1,
-      modestbranding: 1,
-      rel: 0,
-    },
-  };
+  const [player, setPlayer] = useState<MediaPlayerHandle | null>(null);
+  // Where to start, once known; the video picks up where it was left
+  const [startAt, setStartAt] = useState<number | null>(null);
+
+  useResumePoint(open ? player : null, videoId, { title: videoTitle, channel: videoChannel });
+
+  useEffect(() => {
+    setPlayer(null);
+    setStartAt(null);
+    if (!open || !videoId) return;
+
+    let cancelled = false;
+    fetchResumePosition(videoId).then((position) => {
+      if (!cancelled) setStartAt(position);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, videoId]);
+
+  const externalLink = videoId ? videoExternalUrl(videoId) : null;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -41,25 +58,35 @@ const VideoPlayerDialog = ({
                 <p className="text-sm text-muted-foreground mt-1">{videoChannel}</p>
               )}
             </div>
-            <div className="flex items-center gap-2 flex-shrink-0">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => window.open(`https://www.youtube.com/watch?v=${videoId}`, '_blank')}
-              >
-                <ExternalLink className="h-3 w-3 mr-1" />
-                Open in YouTube
-              </Button>
-            </div>
+            {externalLink && (
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(externalLink.url, '_blank')}
+                >
+                  <ExternalLink className="h-3 w-3 mr-1" />
+                  {externalLink.label}
+                </Button>
+              </div>
+            )}
           </div>
         </DialogHeader>
         <div className="aspect-video w-full bg-black">
-          <YouTube
-            videoId={videoId}
-            opts={opts}
-            className="w-full h-full"
-            iframeClassName="w-full h-full"
-          />
+          {startAt === null ? (
+            <div className="w-full h-full flex items-center justify-center">
+              <Loader2 className="h-8 w-8 text-primary animate-spin" />
+            </div>
+          ) : (
+            <MediaPlayer
+              videoId={videoId}
+              startAt={startAt}
+              autoplay
+              onReady={setPlayer}
+              className="w-full h-full"
+              frameClassName="w-full h-full"
+            />
+          )}
         </div>
       </DialogContent>
     </Dialog>
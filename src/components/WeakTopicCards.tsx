@@ -16,6 +16,7 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import VideoPlayerDialog from './VideoPlayerDialog';
+import VideoThumbnail from './video/VideoThumbnail';
 
 interface WeakTopic {
   id: string;
@@ -229,8 +230,8 @@ const WeakTopicCards = () => {
                     })}
                     className="relative flex-shrink-0 w-40 h-24 group cursor-pointer"
                   >
-                    <img
-                      src={`https://img.youtube.com/vi/${rec.videoId}/mqdefault.jpg`}
+                    <VideoThumbnail
+                      videoId={rec.videoId}
                       alt={rec.videoTitle || 'Video thumbnail'}
                       className="w-full h-full object-cover"
                     />
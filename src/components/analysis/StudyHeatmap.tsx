@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { BookOpen, CalendarDays, FileQuestion, Loader2, PlayCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  useStudyActivity,
+  formatStudyDuration,
+  HEATMAP_WEEKS,
+  StudyActivityType,
+  StudyDay,
+  StudySession,
+} from '@/hooks/useStudyActivity';
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+const activityIcons: Record<StudyActivityType, React.ReactNode> = {
+  video: <PlayCircle className="h-4 w-4 text-primary" />,
+  quiz: <FileQuestion className="h-4 w-4 text-chart-2" />,
+  notes: <BookOpen className="h-4 w-4 text-chart-4" />,
+};
+
+const activityLabels: Record<StudyActivityType, string> = {
+  video: 'Watched video',
+  quiz: 'Took quiz',
+  notes: 'Read notes',
+};
+
+// Minutes thresholds for the four shades, GitHub style
+const levelFor = (seconds: number) => {
+  const minutes = seconds / 60;
+  if (minutes <= 0) return 0;
+  if (minutes < 15) return 1;
+  if (minutes < 30) return 2;
+  if (minutes < 60) return 3;
+  return 4;
+};
+
+const LEVEL_STYLES = [
+  'bg-muted/40',
+  'bg-primary/25',
+  'bg-primary/50',
+  'bg-primary/75',
+  'bg-primary',
+];
+
+const StudyHeatmap = () => {
+  const { days, today, loading, fetchDaySessions } = useStudyActivity();
+  const [selectedDay, setSelectedDay] = useState<StudyDay | null>(null);
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(false);
+
+  const handleSelectDay = async (day: StudyDay) => {
+    if (selectedDay?.date === day.date) {
+      setSelectedDay(null);
+      return;
+    }
+    setSelectedDay(day);
+    setSessions([]);
+    if (day.sessionCount === 0) return;
+
+    setLoadingSessions(true);
+    setSessions(await fetchDaySessions(day.date));
+    setLoadingSessions(false);
+  };
+
+  if (loading) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const weeks = Array.from({ length: HEATMAP_WEEKS }, (_, i) => days.slice(i * 7, i * 7 + 7));
+  const totalSeconds = days.reduce((sum, d) => sum + d.totalSeconds, 0);
+  const activeDays = days.filter(d => d.totalSeconds > 0).length;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Study Activity
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {formatStudyDuration(totalSeconds)} over {activeDays} day{activeDays === 1 ? '' : 's'} this year
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-1 overflow-x-auto pb-2">
+          <div className="flex flex-col gap-[3px] pr-1">
+            {WEEKDAY_LABELS.map((label, i) => (
+              <span key={i} className="h-3 text-[9px] leading-3 text-muted-foreground">{label}</span>
+            ))}
+          </div>
+          {weeks.map(week => (
+            <div key={week[0]?.date} className="flex flex-col gap-[3px]">
+              {week.map(day => {
+                const isFuture = !!today && day.date > today;
+                return (
+                  <Tooltip key={day.date}>
+                    <TooltipTrigger asChild>
+                      <button
+                        type="button"
+                        disabled={isFuture}
+                        onClick={() => handleSelectDay(day)}
+                        className={cn(
+                          'h-3 w-3 rounded-sm transition-all',
+                          isFuture ? 'bg-transparent' : LEVEL_STYLES[levelFor(day.totalSeconds)],
+                          selectedDay?.date === day.date && 'ring-1 ring-foreground'
+                        )}
+                      />
+                    </TooltipTrigger>
+                    {!isFuture && (
+                      <TooltipContent>
+                        {day.totalSeconds > 0 ? formatStudyDuration(day.totalSeconds) : 'No study'} on{' '}
+                        {format(parseISO(day.date), 'EEE, MMM d, yyyy')}
+                      </TooltipContent>
+                    )}
+                  </Tooltip>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-1 text-[10px] text-muted-foreground">
+          <span>Less</span>
+          {LEVEL_STYLES.map(style => (
+            <span key={style} className={cn('h-3 w-3 rounded-sm', style)} />
+          ))}
+          <span>More</span>
+        </div>
+
+        {selectedDay && (
+          <div className="pt-3 border-t border-border/50 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{format(parseISO(selectedDay.date), 'EEEE, MMMM d')}</p>
+              <p className="text-sm text-muted-foreground">{formatStudyDuration(selectedDay.totalSeconds)}</p>
+            </div>
+
+            {selectedDay.sessionCount === 0 ? (
+              <p className="text-sm text-muted-foreground">No study sessions on this day.</p>
+            ) : loadingSessions ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {sessions.map(session => (
+                  <li key={session.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/30">
+                    {activityIcons[session.activity]}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">
+                        {activityLabels[session.activity]}
+                        {session.todoTitle && <span className="text-muted-foreground">: {session.todoTitle}</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(session.startedAt), 'h:mm a')} – {format(parseISO(session.endedAt), 'h:mm a')}
+                      </p>
+                    </div>
+                    <span className="text-xs font-medium">{formatStudyDuration(session.durationSeconds)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudyHeatmap;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Play, PlayCircle } from 'lucide-react';
+import VideoPlayerDialog from '@/components/VideoPlayerDialog';
+import VideoThumbnail from '@/components/video/VideoThumbnail';
+import { useContinueWatching, ContinueWatchingVideo } from '@/hooks/useContinueWatching';
+import { formatTimestamp } from '@/lib/noteSections';
+
+export const ContinueWatchingCard = () => {
+  const navigate = useNavigate();
+  const { videos, loading, refetch } = useContinueWatching();
+  const [dialogVideo, setDialogVideo] = useState<ContinueWatchingVideo | null>(null);
+
+  if (loading || videos.length === 0) return null;
+
+  // Both players pick up from the saved position on their own
+  const handleResume = (video: ContinueWatchingVideo) => {
+    if (video.todoId) {
+      navigate(`/video/${video.todoId}?v=${encodeURIComponent(video.videoId)}`);
+    } else {
+      setDialogVideo(video);
+    }
+  };
+
+  const handleDialogChange = (open: boolean) => {
+    if (open) return;
+    setDialogVideo(null);
+    refetch();
+  };
+
+  return (
+    <Card className="glass-card animate-fade-in">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <PlayCircle className="h-5 w-5 text-primary" />
+          Continue Watching
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {videos.map((video) => {
+            const percent = video.durationSeconds
+              ? Math.min(100, (video.positionSeconds / video.durationSeconds) * 100)
+              : 0;
+            return (
+              <button
+                key={video.videoId}
+                onClick={() => handleResume(video)}
+                className="group w-56 flex-shrink-0 text-left"
+              >
+                <div className="relative aspect-video rounded-lg overflow-hidden bg-muted">
+                  <VideoThumbnail
+                    videoId={video.videoId}
+                    alt={video.title || 'Video thumbnail'}
+                    className="w-full h-full object-cover"
+                  />
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Play className="h-8 w-8 text-white fill-white" />
+                  </div>
+                  <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs font-mono text-white">
+                    {formatTimestamp(video.positionSeconds)}
+                  </span>
+                  <div className="absolute inset-x-0 bottom-0 h-1 bg-white/30">
+                    <div className="h-full gradient-bg" style={{ width: `${percent}%` }} />
+                  </div>
+                </div>
+                <p className="mt-2 text-sm font-medium line-clamp-2 group-hover:text-primary transition-colors">
+                  {video.title || 'Untitled video'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {video.channel ? `${video.channel} · ` : ''}
+                  {formatDistanceToNow(new Date(video.updatedAt), { addSuffix: true })}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      <VideoPlayerDialog
+        open={!!dialogVideo}
+        onOpenChange={handleDialogChange}
+        videoId={dialogVideo?.videoId || ''}
+        videoTitle={dialogVideo?.title ?? undefined}
+        videoChannel={dialogVideo?.channel ?? undefined}
+      />
+    </Card>
+  );
+};
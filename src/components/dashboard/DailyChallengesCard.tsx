@@ -1,9 +1,8 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useDailyChallenges, getDifficultyColor, getChallengeIcon, UserDailyChallenge } from '@/hooks/useDailyChallenges';
-import { useStreakFreeze } from '@/hooks/useStreakFreeze';
 import { 
   Loader2, 
   Zap, 
@@ -31,20 +30,19 @@ const iconMap: Record<string, React.ReactNode> = {
 
 export const DailyChallengesCard = () => {
   const { challenges, loading, completedCount, totalCount, totalXpEarned, getTimeRemaining } = useDailyChallenges();
-  const { addStreakProtection } = useStreakFreeze();
   const [timeRemaining, setTimeRemaining] = useState(getTimeRemaining());
   const [previousCompleted, setPreviousCompleted] = useState(0);
-  const hasAwardedProtection = useRef(false);
 
   // Update time remaining every minute
   useEffect(() => {
+    setTimeRemaining(getTimeRemaining());
     const interval = setInterval(() => {
       setTimeRemaining(getTimeRemaining());
     }, 60000);
     return () => clearInterval(interval);
   }, [getTimeRemaining]);
 
-  // Celebrate when a challenge is completed and award streak protection when all done
+  // Celebrate when a challenge is completed; the server awards a streak shield when all are done
   useEffect(() => {
     if (completedCount > previousCompleted && previousCompleted > 0) {
       confetti({
@@ -52,15 +50,9 @@ export const DailyChallengesCard = () => {
         spread: 60,
         origin: { y: 0.7 },
       });
-      
-      // Award streak protection when all challenges are completed
-      if (completedCount === totalCount && totalCount > 0 && !hasAwardedProtection.current) {
-        hasAwardedProtection.current = true;
-        addStreakProtection(1);
-      }
     }
     setPreviousCompleted(completedCount);
-  }, [completedCount, previousCompleted, totalCount, addStreakProtection]);
+  }, [completedCount, previousCompleted]);
 
   if (loading) {
     return (
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Settings } from 'lucide-react';
+import type { NotificationPreferences, NotificationPreferenceUpdates } from '@/hooks/useNotificationPreferences';
+import type { PushStatus } from '@/lib/pushNotifications';
+
+interface NotificationSettingsDialogProps {
+  preferences: NotificationPreferences | null;
+  pushStatus: PushStatus;
+  onEnablePush: () => Promise<boolean>;
+  onDisablePush: () => Promise<boolean>;
+  onUpdate: (updates: NotificationPreferenceUpdates) => Promise<boolean>;
+}
+
+const DEFAULT_QUIET_HOURS = { quiet_hours_start: '22:00', quiet_hours_end: '07:00' };
+
+// Postgres returns TIME columns as HH:MM:SS; time inputs want HH:MM
+const toInputTime = (time: string | null | undefined) => (time ?? '').slice(0, 5);
+
+export const NotificationSettingsDialog = ({
+  preferences,
+  pushStatus,
+  onEnablePush,
+  onDisablePush,
+  onUpdate,
+}: NotificationSettingsDialogProps) => {
+  const [updatingPush, setUpdatingPush] = useState(false);
+  const quietHoursOn = !!preferences?.quiet_hours_start;
+
+  const handlePushChange = async (checked: boolean) => {
+    setUpdatingPush(true);
+    await (checked ? onEnablePush() : onDisablePush());
+    setUpdatingPush(false);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Notification settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6 pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Push notifications on this device</Label>
+              <p className="text-xs text-muted-foreground">
+                {pushStatus === 'unsupported'
+                  ? "This browser can't receive push notifications"
+                  : pushStatus === 'denied'
+                    ? 'Notifications are blocked in your browser settings'
+                    : 'Get reminders even when EduRank is closed'}
+              </p>
+            </div>
+            <Switch
+              checked={pushStatus === 'subscribed'}
+              onCheckedChange={handlePushChange}
+              disabled={updatingPush || pushStatus === 'unsupported' || pushStatus === 'denied'}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Daily email digest</Label>
+                <p className="text-xs text-muted-foreground">Today's study sessions and open tasks</p>
+              </div>
+              <Switch
+                checked={preferences?.email_digest_enabled ?? false}
+                onCheckedChange={checked => onUpdate({ email_digest_enabled: checked })}
+              />
+            </div>
+            {preferences?.email_digest_enabled && (
+              <div className="flex items-center gap-3">
+                <Label className="text-xs text-muted-foreground w-20">Send at</Label>
+                <Input
+                  type="time"
+                  className="w-32"
+                  defaultValue={toInputTime(preferences.digest_time)}
+                  onBlur={e => e.target.value && onUpdate({ digest_time: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Quiet hours</Label>
+                <p className="text-xs text-muted-foreground">No reminders during this time</p>
+              </div>
+              <Switch
+                checked={quietHoursOn}
+                onCheckedChange={checked =>
+                  onUpdate(checked ? DEFAULT_QUIET_HOURS : { quiet_hours_start: null, quiet_hours_end: null })
+                }
+              />
+            </div>
+            {quietHoursOn && (
+              <div className="flex items-center gap-3">
+                <Input
+                  type="time"
+                  className="w-32"
+                  defaultValue={toInputTime(preferences?.quiet_hours_start)}
+                  onBlur={e => e.target.value && onUpdate({ quiet_hours_start: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  defaultValue={toInputTime(preferences?.quiet_hours_end)}
+                  onBlur={e => e.target.value && onUpdate({ quiet_hours_end: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          {preferences && (
+            <p className="text-xs text-muted-foreground">
+              Reminder times are in your timezone ({preferences.timezone}).
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useReviews } from '@/hooks/useReviews';
+import { Loader2, Repeat, CheckCircle, ArrowRight } from 'lucide-react';
+
+export const ReviewsDueCard = () => {
+  const navigate = useNavigate();
+  const { dueCount, dueReviews, nextDueAt, loading } = useReviews();
+
+  if (loading) {
+    return (
+      <Card className="bg-gradient-to-br from-violet-500/10 to-fuchsia-500/10 border-violet-500/20">
+        <CardContent className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-violet-500" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Nothing has been missed yet, so there is nothing to schedule
+  if (dueCount === 0 && !nextDueAt) return null;
+
+  const topics = [...new Set(dueReviews.map((item) => item.todo?.title).filter(Boolean))].slice(0, 3);
+
+  return (
+    <Card className="bg-gradient-to-br from-violet-500/10 to-fuchsia-500/10 border-violet-500/20 animate-fade-in">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-violet-500" />
+            Reviews Due
+          </CardTitle>
+          <Badge variant="outline" className="bg-violet-500/10 text-violet-500 border-violet-500/30">
+            {dueCount} due
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {dueCount > 0 ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <p className="text-sm text-foreground">
+                {dueCount} question{dueCount > 1 ? 's' : ''} you missed {dueCount > 1 ? 'are' : 'is'} ready for another try.
+              </p>
+              {topics.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">From: {topics.join(', ')}</p>
+              )}
+            </div>
+            <Button
+              onClick={() => navigate('/review')}
+              className="bg-gradient-to-r from-violet-500 to-fuchsia-500 hover:from-violet-600 hover:to-fuchsia-600"
+            >
+              Start Review
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        ) : nextDueAt && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-success" />
+            All caught up! Next review {formatDistanceToNow(new Date(nextDueAt), { addSuffix: true })}.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
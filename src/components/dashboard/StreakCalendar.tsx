@@ -0,0 +1,66 @@
+import { format, parseISO } from 'date-fns';
+import { Flame, Snowflake } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import type { StreakCalendarDay, StreakDayStatus } from '@/hooks/useStreakFreeze';
+
+interface StreakCalendarProps {
+  days: StreakCalendarDay[];
+}
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const STATUS_LABELS: Record<StreakDayStatus, string> = {
+  active: 'Studied',
+  frozen: 'Protected by a streak freeze',
+  missed: 'Missed',
+  upcoming: 'Upcoming',
+  none: 'No streak yet',
+};
+
+const STATUS_STYLES: Record<StreakDayStatus, string> = {
+  active: 'bg-orange-500/20 text-orange-500',
+  frozen: 'bg-cyan-500/20 text-cyan-500',
+  missed: 'bg-destructive/15 text-destructive',
+  upcoming: 'bg-muted/20 text-muted-foreground/40',
+  none: 'bg-muted/30 text-muted-foreground',
+};
+
+export const StreakCalendar = ({ days }: StreakCalendarProps) => (
+  <div className="space-y-2">
+    <div className="grid grid-cols-7 gap-1">
+      {WEEKDAYS.map((day, i) => (
+        <span key={i} className="text-center text-[10px] text-muted-foreground">{day}</span>
+      ))}
+      {days.map(day => (
+        <Tooltip key={day.date}>
+          <TooltipTrigger asChild>
+            <div
+              className={cn(
+                'aspect-square rounded-md flex items-center justify-center text-[10px] font-medium',
+                STATUS_STYLES[day.status],
+                day.isToday && 'ring-1 ring-primary'
+              )}
+            >
+              {day.status === 'active' ? (
+                <Flame className="h-3 w-3" />
+              ) : day.status === 'frozen' ? (
+                <Snowflake className="h-3 w-3" />
+              ) : (
+                format(parseISO(day.date), 'd')
+              )}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            {format(parseISO(day.date), 'EEE, MMM d')}: {day.isToday && day.status === 'none' ? 'Today' : STATUS_LABELS[day.status]}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+    <div className="flex items-center justify-center gap-3 text-[10px] text-muted-foreground">
+      <span className="flex items-center gap-1"><Flame className="h-3 w-3 text-orange-500" /> Studied</span>
+      <span className="flex items-center gap-1"><Snowflake className="h-3 w-3 text-cyan-500" /> Frozen</span>
+      <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-destructive/40" /> Missed</span>
+    </div>
+  </div>
+);
@@ -2,7 +2,10 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useStreakFreeze } from '@/hooks/useStreakFreeze';
+import { StreakCalendar } from '@/components/dashboard/StreakCalendar';
 import { Snowflake, Shield, AlertTriangle, Loader2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -14,43 +17,48 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 
-export const StreakFreezeCard = () => {
-  const streakFreezeHook = useStreakFreeze();
+interface StreakFreezeCardProps {
+  /** Called after a freeze is spent so other streak displays can refresh */
+  onStreakChange?: () => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const StreakFreezeCard = ({ onStreakChange }: StreakFreezeCardProps) => {
   const {
-    streakProtections,
+    status,
+    calendar,
     loading,
-    fetchProtections,
+    fetchStatus,
     useStreakFreeze: activateStreakFreeze,
-    checkYesterdayProgress,
-  } = streakFreezeHook;
+    setAutoFreeze,
+  } = useStreakFreeze();
 
   const [showFreezeDialog, setShowFreezeDialog] = useState(false);
-  const [yesterdayStatus, setYesterdayStatus] = useState<{
-    missedDay: boolean;
-    completedChallenges: number;
-    totalChallenges: number;
-  } | null>(null);
   const [checkingStatus, setCheckingStatus] = useState(true);
 
   useEffect(() => {
     const init = async () => {
       setCheckingStatus(true);
-      await fetchProtections();
-      const status = await checkYesterdayProgress();
-      setYesterdayStatus(status);
+      await fetchStatus();
       setCheckingStatus(false);
     };
     init();
-  }, [fetchProtections, checkYesterdayProgress]);
+  }, [fetchStatus]);
 
   const handleUseFreeze = async () => {
     const success = await activateStreakFreeze();
     if (success) {
       setShowFreezeDialog(false);
-      setYesterdayStatus(prev => prev ? { ...prev, missedDay: false } : null);
+      onStreakChange?.();
     }
   };
 
+  const handleAutoFreezeChange = async (enabled: boolean) => {
+    await setAutoFreeze(enabled);
+    if (enabled) onStreakChange?.();
+  };
+
   if (checkingStatus) {
     return (
       <Card className="bg-gradient-to-br from-cyan-500/10 to-blue-500/10 border-cyan-500/20">
@@ -61,7 +69,9 @@ export const StreakFreezeCard = () => {
     );
   }
 
-  const showWarning = yesterdayStatus?.missedDay && streakProtections > 0;
+  const streakProtections = status?.streakProtections ?? 0;
+  const missedDays = status?.missedDays ?? 0;
+  const showWarning = missedDays > 0;
 
   return (
     <>
@@ -84,7 +94,7 @@ export const StreakFreezeCard = () => {
         </CardHeader>
         <CardContent className="space-y-3">
           <AnimatePresence mode="wait">
-            {showWarning ? (
+            {showWarning && (
               <motion.div
                 key="warning"
                 initial={{ opacity: 0, y: -10 }}
@@ -96,10 +106,10 @@ export const StreakFreezeCard = () => {
                   <AlertTriangle className="h-5 w-5 text-amber-500 mt-0.5 shrink-0" />
                   <div>
                     <p className="text-sm font-medium text-foreground">
-                      You missed {yesterdayStatus.totalChallenges - yesterdayStatus.completedChallenges} challenge{yesterdayStatus.totalChallenges - yesterdayStatus.completedChallenges > 1 ? 's' : ''} yesterday!
+                      You missed {plural(missedDays, 'day')}!
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Use a streak freeze to protect your daily challenge streak.
+                      Use {plural(missedDays, 'streak freeze')} to keep your {status?.currentStreak}-day streak.
                     </p>
                   </div>
                 </div>
@@ -116,45 +126,26 @@ export const StreakFreezeCard = () => {
                   Use Streak Freeze
                 </Button>
               </motion.div>
-            ) : (
-              <motion.div
-                key="info"
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: 10 }}
-                className="text-center py-2"
-              >
-                <div className="flex justify-center gap-1 mb-2">
-                  {Array.from({ length: Math.min(streakProtections, 5) }).map((_, i) => (
-                    <motion.div
-                      key={i}
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      transition={{ delay: i * 0.1 }}
-                      className="p-2 rounded-full bg-cyan-500/20"
-                    >
-                      <Snowflake className="h-4 w-4 text-cyan-500" />
-                    </motion.div>
-                  ))}
-                  {streakProtections > 5 && (
-                    <div className="p-2 rounded-full bg-cyan-500/10 flex items-center justify-center">
-                      <span className="text-xs text-cyan-500 font-medium">+{streakProtections - 5}</span>
-                    </div>
-                  )}
-                  {streakProtections === 0 && (
-                    <div className="p-2 rounded-full bg-muted/20">
-                      <Snowflake className="h-4 w-4 text-muted-foreground" />
-                    </div>
-                  )}
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  {streakProtections > 0
-                    ? 'Streak freezes protect you when you miss a day'
-                    : 'Earn streak freezes by completing all daily challenges'}
-                </p>
-              </motion.div>
             )}
           </AnimatePresence>
+
+          <StreakCalendar days={calendar} />
+
+          <div className="flex items-center justify-between gap-4 pt-2 border-t border-border/50">
+            <div>
+              <Label htmlFor="auto-streak-freeze" className="text-sm">Freeze automatically</Label>
+              <p className="text-xs text-muted-foreground">
+                {streakProtections > 0
+                  ? 'Spend freezes on missed days without asking'
+                  : 'Earn streak freezes by completing all daily challenges'}
+              </p>
+            </div>
+            <Switch
+              id="auto-streak-freeze"
+              checked={status?.autoFreeze ?? true}
+              onCheckedChange={handleAutoFreezeChange}
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -166,20 +157,18 @@ export const StreakFreezeCard = () => {
               Use Streak Freeze?
             </DialogTitle>
             <DialogDescription>
-              This will use 1 of your {streakProtections} streak protection{streakProtections > 1 ? 's' : ''} to
-              prevent losing your daily challenge streak from yesterday.
+              This will use {plural(missedDays, 'streak freeze')} to cover the {plural(missedDays, 'day')} you
+              missed and keep your streak going.
             </DialogDescription>
           </DialogHeader>
           <div className="p-4 rounded-lg bg-muted/50 space-y-2">
             <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Challenges completed yesterday:</span>
-              <span className="font-medium">
-                {yesterdayStatus?.completedChallenges}/{yesterdayStatus?.totalChallenges}
-              </span>
+              <span className="text-muted-foreground">Current streak:</span>
+              <span className="font-medium">{status?.currentStreak} days</span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Streak protections remaining:</span>
-              <span className="font-medium text-cyan-500">{streakProtections - 1} after use</span>
+              <span className="font-medium text-cyan-500">{streakProtections - missedDays} after use</span>
             </div>
           </div>
           <DialogFooter className="flex gap-2 sm:gap-0">
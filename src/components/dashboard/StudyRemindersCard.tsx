@@ -1,4 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -7,8 +9,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useStudyReminders, formatDaysOfWeek, formatTime, StudyReminder } from '@/hooks/useStudyReminders';
-import { Bell, Plus, Trash2, Loader2, Clock, BellOff } from 'lucide-react';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { NotificationSettingsDialog } from './NotificationSettingsDialog';
+import { Bell, Plus, Trash2, Loader2, Clock, BellOff, AlarmClockOff } from 'lucide-react';
 
 const DAYS_OPTIONS = [
   { value: 1, label: 'Mon' },
@@ -20,6 +30,13 @@ const DAYS_OPTIONS = [
   { value: 0, label: 'Sun' },
 ];
 
+const SNOOZE_OPTIONS = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 3 * 60, label: '3 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '1 week' },
+];
+
 export const StudyRemindersCard = () => {
   const { reminders, loading, createReminder, deleteReminder, toggleReminder } = useStudyReminders();
   const [open, setOpen] = useState(false);
@@ -27,12 +44,38 @@ export const StudyRemindersCard = () => {
   const [newDays, setNewDays] = useState<number[]>([1, 2, 3, 4, 5]);
   const [newMessage, setNewMessage] = useState('');
   const [saving, setSaving] = useState(false);
+  const {
+    preferences,
+    pushStatus,
+    snoozedUntil,
+    updatePreferences,
+    enablePush,
+    disablePush,
+    snooze,
+    clearSnooze,
+  } = useNotificationPreferences();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // "Snooze" on a push notification opens the dashboard with ?snooze=<minutes>
+  const snoozeParam = Number(searchParams.get('snooze'));
+  useEffect(() => {
+    if (!snoozeParam || !preferences) return;
+    snooze(snoozeParam);
+    setSearchParams(params => {
+      params.delete('snooze');
+      return params;
+    }, { replace: true });
+  }, [snoozeParam, preferences, snooze, setSearchParams]);
 
   const handleCreate = async () => {
     setSaving(true);
     const success = await createReminder(newTime, newDays, newMessage || undefined);
     setSaving(false);
     if (success) {
+      // Reminders are delivered as push notifications, so offer them with the first one
+      if (pushStatus === 'unsubscribed') {
+        enablePush();
+      }
       setOpen(false);
       setNewTime('18:00');
       setNewDays([1, 2, 3, 4, 5]);
@@ -64,77 +107,118 @@ export const StudyRemindersCard = () => {
             <Bell className="h-4 w-4 text-primary" />
             Study Reminders
           </CardTitle>
-          <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="icon" className="h-8 w-8">
-                <Plus className="h-4 w-4" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add Study Reminder</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <div className="space-y-2">
-                  <Label>Time</Label>
-                  <Input
-                    type="time"
-                    value={newTime}
-                    onChange={e => setNewTime(e.target.value)}
-                  />
-                </div>
+          <div className="flex items-center">
+            {reminders.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Snooze reminders">
+                    <AlarmClockOff className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {SNOOZE_OPTIONS.map(option => (
+                    <DropdownMenuItem key={option.minutes} onClick={() => snooze(option.minutes)}>
+                      Snooze for {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <NotificationSettingsDialog
+              preferences={preferences}
+              pushStatus={pushStatus}
+              onEnablePush={enablePush}
+              onDisablePush={disablePush}
+              onUpdate={updatePreferences}
+            />
+            <Dialog open={open} onOpenChange={setOpen}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Study Reminder</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <div className="space-y-2">
+                    <Label>Time</Label>
+                    <Input
+                      type="time"
+                      value={newTime}
+                      onChange={e => setNewTime(e.target.value)}
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label>Days</Label>
-                  <div className="flex flex-wrap gap-2">
-                    {DAYS_OPTIONS.map(day => (
-                      <label
-                        key={day.value}
-                        className={`flex items-center justify-center w-10 h-10 rounded-full cursor-pointer transition-colors ${
-                          newDays.includes(day.value)
-                            ? 'bg-primary text-primary-foreground'
-                            : 'bg-muted text-muted-foreground hover:bg-muted/80'
-                        }`}
-                      >
-                        <input
-                          type="checkbox"
-                          className="sr-only"
-                          checked={newDays.includes(day.value)}
-                          onChange={() => toggleDay(day.value)}
-                        />
-                        <span className="text-xs font-medium">{day.label}</span>
-                      </label>
-                    ))}
+                  <div className="space-y-2">
+                    <Label>Days</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {DAYS_OPTIONS.map(day => (
+                        <label
+                          key={day.value}
+                          className={`flex items-center justify-center w-10 h-10 rounded-full cursor-pointer transition-colors ${
+                            newDays.includes(day.value)
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            className="sr-only"
+                            checked={newDays.includes(day.value)}
+                            onChange={() => toggleDay(day.value)}
+                          />
+                          <span className="text-xs font-medium">{day.label}</span>
+                        </label>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label>Custom Message (optional)</Label>
-                  <Input
-                    placeholder="Time to study! Keep your streak going."
-                    value={newMessage}
-                    onChange={e => setNewMessage(e.target.value)}
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label>Custom Message (optional)</Label>
+                    <Input
+                      placeholder="Time to study! Keep your streak going."
+                      value={newMessage}
+                      onChange={e => setNewMessage(e.target.value)}
+                    />
+                  </div>
 
-                <Button
-                  className="w-full"
-                  onClick={handleCreate}
-                  disabled={saving || newDays.length === 0}
-                >
-                  {saving ? (
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  ) : (
-                    <Bell className="h-4 w-4 mr-2" />
-                  )}
-                  Create Reminder
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+                  <Button
+                    className="w-full"
+                    onClick={handleCreate}
+                    disabled={saving || newDays.length === 0}
+                  >
+                    {saving ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : (
+                      <Bell className="h-4 w-4 mr-2" />
+                    )}
+                    Create Reminder
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {snoozedUntil && (
+          <div className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/30 text-xs text-muted-foreground">
+            <span>Snoozed until {format(snoozedUntil, 'EEE h:mm a')}</span>
+            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={clearSnooze}>
+              Resume
+            </Button>
+          </div>
+        )}
+        {reminders.length > 0 && pushStatus === 'unsubscribed' && (
+          <div className="flex items-center justify-between gap-2 p-2 rounded-lg bg-primary/10 text-xs">
+            <span className="text-muted-foreground">Get reminders even when EduRank is closed</span>
+            <Button variant="outline" size="sm" className="h-6 text-xs" onClick={enablePush}>
+              Turn on
+            </Button>
+          </div>
+        )}
         {reminders.length === 0 ? (
           <div className="text-center py-4">
             <BellOff className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
@@ -0,0 +1,43 @@
+import { motion } from 'framer-motion';
+import { Badge } from '@/components/ui/badge';
+
+interface FlipCardProps {
+  front: string;
+  back: string;
+  topicName?: string | null;
+  isFlipped: boolean;
+  onFlip: () => void;
+}
+
+const FlipCard = ({ front, back, topicName, isFlipped, onFlip }: FlipCardProps) => {
+  return (
+    <div className="w-full h-72 cursor-pointer [perspective:1200px]" onClick={onFlip}>
+      <motion.div
+        className="relative w-full h-full [transform-style:preserve-3d]"
+        animate={{ rotateY: isFlipped ? 180 : 0 }}
+        transition={{ duration: 0.4 }}
+      >
+        <div className="absolute inset-0 glass-card rounded-2xl p-6 flex flex-col [backface-visibility:hidden]">
+          {topicName && (
+            <Badge variant="outline" className="self-start mb-4 bg-primary/10 text-primary border-primary/30">
+              {topicName}
+            </Badge>
+          )}
+          <div className="flex-1 flex items-center justify-center text-center">
+            <p className="text-xl font-semibold">{front}</p>
+          </div>
+          <p className="text-xs text-muted-foreground text-center">Tap to reveal the answer</p>
+        </div>
+
+        <div className="absolute inset-0 glass-card neon-border rounded-2xl p-6 flex flex-col [backface-visibility:hidden] [transform:rotateY(180deg)]">
+          <p className="text-xs font-medium text-primary mb-4">Answer</p>
+          <div className="flex-1 flex items-center justify-center text-center overflow-y-auto">
+            <p className="text-lg">{back}</p>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default FlipCard;
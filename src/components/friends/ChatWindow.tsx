@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChat, ChatMessage } from '@/hooks/useChat';
 import { format } from 'date-fns';
+import MathText from '@/components/MathText';
 import ShareContentDialog from './ShareContentDialog';
 
 interface ChatWindowProps {
@@ -113,7 +114,7 @@ const ChatWindow = ({ friendUserId, friendName }: ChatWindowProps) => {
                     : 'bg-muted rounded-bl-sm'
                 }`}
               >
-                {msg.content && <p>{msg.content}</p>}
+                {msg.content && <p><MathText text={msg.content} /></p>}
                 {renderSharedContent(msg)}
                 <p className={`text-[10px] mt-1 ${isMe ? 'text-primary-foreground/60' : 'text-muted-foreground'}`}>
                   {format(new Date(msg.createdAt), 'HH:mm')}
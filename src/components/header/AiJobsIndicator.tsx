@@ -0,0 +1,140 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, CheckCircle2, Clock, ListTodo, Loader2, RotateCcw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { useAiJobs } from '@/hooks/useAiJobs';
+import { AI_JOB_LABELS, AiJob, AiJobKind, isActiveJob } from '@/lib/aiJobs';
+
+// Where a finished job's output can be opened
+const jobLink = (job: AiJob) => {
+  if (job.kind === 'analyze-weakness') return '/fix-weak-areas';
+  if (!job.todo_id) return null;
+  return job.kind === 'generate-quiz' ? `/quiz/${job.todo_id}` : `/notes/${job.todo_id}`;
+};
+
+const statusText = (job: AiJob) => {
+  if (job.status === 'running') return job.progress_message || 'Working on it...';
+  if (job.status === 'queued') {
+    if (job.depends_on) return 'Waiting for notes';
+    if (job.attempts > 0) return `Retrying ${formatDistanceToNow(new Date(job.run_after), { addSuffix: true })}`;
+    return 'Queued';
+  }
+  if (job.status === 'failed') return job.error_message || 'Failed';
+  return `Done ${formatDistanceToNow(new Date(job.completed_at ?? job.updated_at), { addSuffix: true })}`;
+};
+
+const AiJobsIndicator = () => {
+  const navigate = useNavigate();
+  const { jobs, cancelJob, retryJob, clearFinished } = useAiJobs();
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isActiveJob).length;
+  const hasFinished = jobs.some((job) => !isActiveJob(job));
+
+  const handleAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(failureMessage, error);
+      toast.error(failureMessage);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="My jobs">
+          {activeCount > 0 ? (
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          ) : (
+            <ListTodo className="h-5 w-5" />
+          )}
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-[10px] font-bold text-primary-foreground flex items-center justify-center">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+          <h3 className="font-semibold text-sm">My jobs</h3>
+          {hasFinished && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => handleAction(clearFinished, 'Failed to clear finished jobs')}
+            >
+              Clear finished
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto divide-y divide-border/50">
+          {jobs.map((job) => {
+            const link = jobLink(job);
+            return (
+              <div key={job.id} className="px-4 py-3 space-y-2">
+                <div className="flex items-start gap-2">
+                  {job.status === 'succeeded' ? (
+                    <CheckCircle2 className="h-4 w-4 text-success flex-shrink-0 mt-0.5" />
+                  ) : job.status === 'failed' ? (
+                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0 mt-0.5" />
+                  ) : job.status === 'running' ? (
+                    <Loader2 className="h-4 w-4 text-primary animate-spin flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <Clock className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {AI_JOB_LABELS[job.kind as AiJobKind] ?? job.kind}
+                      {job.title && <span className="text-muted-foreground font-normal"> · {job.title}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{statusText(job)}</p>
+                  </div>
+                  {job.status === 'queued' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Cancel"
+                      onClick={() => handleAction(() => cancelJob(job.id), 'Failed to cancel job')}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+
+                {job.status === 'running' && <Progress value={job.progress} className="h-1.5" />}
+
+                {job.status === 'succeeded' && link && (
+                  <Button variant="outline" size="sm" className="h-7 w-full text-xs" onClick={() => navigate(link)}>
+                    Open
+                  </Button>
+                )}
+                {job.status === 'failed' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 w-full text-xs"
+                    onClick={() => handleAction(() => retryJob(job), 'Failed to retry job')}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AiJobsIndicator;
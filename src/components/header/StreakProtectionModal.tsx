@@ -17,6 +17,8 @@ interface StreakProtectionModalProps {
   onOpenChange: (open: boolean) => void;
   currentStreak: number;
   streakProtections: number;
+  /** Days missed since the streak was last kept; each costs one shield */
+  missedDays: number;
   onUseProtection: () => Promise<boolean>;
 }
 
@@ -25,6 +27,7 @@ const StreakProtectionModal = ({
   onOpenChange,
   currentStreak,
   streakProtections,
+  missedDays,
   onUseProtection,
 }: StreakProtectionModalProps) => {
   const [isUsing, setIsUsing] = useState(false);
@@ -50,6 +53,7 @@ const StreakProtectionModal = ({
   };
 
   const hasProtection = streakProtections > 0;
+  const canProtect = missedDays > 0 && streakProtections >= missedDays;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -60,7 +64,9 @@ const StreakProtectionModal = ({
             Streak Protection
           </DialogTitle>
           <DialogDescription>
-            Use your Streak Shield to protect your progress when you miss a day.
+            {missedDays > 0
+              ? `You missed ${missedDays} day${missedDays > 1 ? 's' : ''}. Each missed day uses one Streak Shield.`
+              : 'Streak Shields protect your progress when you miss a day.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -121,13 +127,29 @@ const StreakProtectionModal = ({
                   </div>
                 </div>
 
+                {missedDays === 0 && (
+                  <p className="text-sm text-muted-foreground text-center">
+                    Your streak is on track. Shields are used on missed days, automatically
+                    unless you've turned that off on the Streak Freeze card.
+                  </p>
+                )}
+
+                {missedDays > 0 && hasProtection && !canProtect && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                    <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-destructive">
+                      You need {missedDays} shields to cover the days you missed.
+                    </p>
+                  </div>
+                )}
+
                 {!hasProtection && (
                   <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
                     <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
                     <div>
                       <p className="text-sm font-medium text-destructive">No shields available</p>
                       <p className="text-xs text-muted-foreground">
-                        Earn shields by unlocking achievements!
+                        Earn shields by completing all of your daily challenges!
                       </p>
                     </div>
                   </div>
@@ -144,11 +166,11 @@ const StreakProtectionModal = ({
             </Button>
             <Button 
               onClick={handleUseProtection} 
-              disabled={!hasProtection || isUsing}
+              disabled={!canProtect || isUsing}
               className="gap-2"
             >
               <ShieldCheck className="w-4 h-4" />
-              {isUsing ? 'Activating...' : 'Use Streak Shield'}
+              {isUsing ? 'Activating...' : missedDays > 1 ? `Use ${missedDays} Streak Shields` : 'Use Streak Shield'}
             </Button>
           </DialogFooter>
         )}
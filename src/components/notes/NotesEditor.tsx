@@ -0,0 +1,146 @@
+import { useRef } from 'react';
+import {
+  Bold,
+  Italic,
+  Heading2,
+  List,
+  ListOrdered,
+  Quote,
+  Code,
+  History,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MarkdownContent from '@/components/notes/MarkdownContent';
+import { SaveStatus } from '@/hooks/useStudentNotes';
+
+interface NotesEditorProps {
+  content: string;
+  saveStatus: SaveStatus;
+  onChange: (content: string) => void;
+  onBlur: () => void;
+  onShowHistory: () => void;
+}
+
+interface FormatAction {
+  label: string;
+  icon: typeof Bold;
+  /** Wrap the selection, or prefix each selected line */
+  wrap?: [string, string];
+  linePrefix?: string;
+}
+
+const FORMAT_ACTIONS: FormatAction[] = [
+  { label: 'Bold', icon: Bold, wrap: ['**', '**'] },
+  { label: 'Italic', icon: Italic, wrap: ['_', '_'] },
+  { label: 'Heading', icon: Heading2, linePrefix: '## ' },
+  { label: 'Bulleted list', icon: List, linePrefix: '- ' },
+  { label: 'Numbered list', icon: ListOrdered, linePrefix: '1. ' },
+  { label: 'Quote', icon: Quote, linePrefix: '> ' },
+  { label: 'Code', icon: Code, wrap: ['`', '`'] },
+];
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  idle: '',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  error: 'Not saved - retrying on next edit',
+};
+
+const NotesEditor = ({ content, saveStatus, onChange, onBlur, onShowHistory }: NotesEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormat = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    let next: string;
+    let cursorStart = start;
+    let cursorEnd = end;
+
+    if (action.wrap) {
+      const [before, after] = action.wrap;
+      next = content.slice(0, start) + before + content.slice(start, end) + after + content.slice(end);
+      cursorStart = start + before.length;
+      cursorEnd = end + before.length;
+    } else {
+      const prefix = action.linePrefix || '';
+      const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+      const selected = content.slice(lineStart, end);
+      const prefixed = selected.split('\n').map((line) => prefix + line).join('\n');
+      next = content.slice(0, lineStart) + prefixed + content.slice(end);
+      cursorStart = start + prefix.length;
+      cursorEnd = end + (prefixed.length - selected.length);
+    }
+
+    onChange(next);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursorStart, cursorEnd);
+    });
+  };
+
+  return (
+    <Tabs defaultValue="write" className="glass-card rounded-xl p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-muted-foreground flex items-center gap-1">
+            {saveStatus === 'saving' && <Loader2 className="h-3 w-3 animate-spin" />}
+            {saveStatus === 'saved' && <CheckCircle className="h-3 w-3 text-primary" />}
+            {saveStatus === 'error' && <AlertCircle className="h-3 w-3 text-destructive" />}
+            {SAVE_STATUS_LABELS[saveStatus]}
+          </span>
+          <Button variant="outline" size="sm" onClick={onShowHistory}>
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+        </div>
+      </div>
+
+      <TabsContent value="write" className="mt-0">
+        <div className="flex flex-wrap gap-1 mb-2">
+          {FORMAT_ACTIONS.map((action) => (
+            <Button
+              key={action.label}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={action.label}
+              aria-label={action.label}
+              onClick={() => applyFormat(action)}
+            >
+              <action.icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder="Write your notes in markdown..."
+          className="min-h-[400px] font-mono text-sm"
+        />
+      </TabsContent>
+
+      <TabsContent value="preview" className="mt-0 min-h-[400px]">
+        {content.trim() ? (
+          <MarkdownContent content={content} />
+        ) : (
+          <p className="text-muted-foreground text-center py-12">Nothing to preview yet</p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default NotesEditor;
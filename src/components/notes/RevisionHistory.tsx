@@ -0,0 +1,150 @@
+import { useState, useMemo } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { NoteRevision } from '@/hooks/useStudentNotes';
+import { diffLines } from '@/lib/lineDiff';
+import { cn } from '@/lib/utils';
+
+interface RevisionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  revisions: NoteRevision[];
+  loading: boolean;
+  currentContent: string;
+  onRestore: (revision: NoteRevision) => Promise<boolean>;
+}
+
+const RevisionHistory = ({
+  open,
+  onOpenChange,
+  revisions,
+  loading,
+  currentContent,
+  onRestore,
+}: RevisionHistoryProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  // Until one is picked, show the newest revision that differs from the editor
+  const selected = revisions.find((r) => r.id === selectedId)
+    || revisions.find((r) => r.content !== currentContent)
+    || revisions[0]
+    || null;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setSelectedId(null);
+    onOpenChange(isOpen);
+  };
+
+  // How the current notes differ from the selected revision
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.content, currentContent) : []),
+    [selected, currentContent]
+  );
+  const unchanged = diff.every((line) => line.type === 'same');
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    const restored = await onRestore(selected);
+    setRestoring(false);
+    if (restored) handleOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Revision History</SheetTitle>
+          <SheetDescription>
+            Compare an earlier version with your current notes and restore it if you need to.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 text-primary animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-muted-foreground text-center py-12">No revisions yet</p>
+        ) : (
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4 min-h-0 mt-4">
+            <ScrollArea className="md:h-full max-h-48 md:max-h-none">
+              <div className="space-y-1 pr-2">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      'w-full text-left p-2 rounded-lg text-sm transition-colors',
+                      revision.id === selected?.id ? 'bg-primary/20 text-primary' : 'hover:bg-muted'
+                    )}
+                  >
+                    <p className="font-medium">{format(new Date(revision.updated_at), 'MMM d, p')}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(revision.updated_at), { addSuffix: true })}
+                    </p>
+                    <div className="flex gap-1 mt-1">
+                      {index === 0 && <Badge variant="outline" className="text-[10px]">Latest</Badge>}
+                      {revision.is_restore && <Badge variant="outline" className="text-[10px]">Restored</Badge>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex gap-3 text-xs">
+                  <span className="text-destructive">− only in this version</span>
+                  <span className="text-primary">+ only in current notes</span>
+                </div>
+                <Button
+                  variant="neon"
+                  size="sm"
+                  onClick={handleRestore}
+                  disabled={!selected || unchanged || restoring}
+                >
+                  {restoring ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                  )}
+                  Restore This Version
+                </Button>
+              </div>
+              <ScrollArea className="flex-1 rounded-lg bg-muted/30 border border-border/50">
+                {unchanged ? (
+                  <p className="text-sm text-muted-foreground text-center py-12">
+                    This version matches your current notes
+                  </p>
+                ) : (
+                  <pre className="text-xs font-mono p-3 whitespace-pre-wrap break-words">
+                    {diff.map((line, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          line.type === 'removed' && 'bg-destructive/15 text-destructive',
+                          line.type === 'added' && 'bg-primary/15 text-primary'
+                        )}
+                      >
+                        {line.type === 'removed' ? '− ' : line.type === 'added' ? '+ ' : '  '}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,160 @@
+import {
+  CheckCircle,
+  XCircle,
+  Sparkles,
+  AlertCircle,
+  Lightbulb,
+  Brain,
+  Zap,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import MathText from '@/components/MathText';
+
+export interface QuizQuestion {
+  id: number;
+  type?: string;
+  difficulty?: string;
+  question: string;
+  options: string[];
+}
+
+export interface AnswerFeedback {
+  isCorrect: boolean;
+  /** null while a quiz attempt is open; the key arrives once it is submitted */
+  correctAnswer: number | null;
+  explanation: string | null;
+}
+
+interface QuestionCardProps {
+  question: QuizQuestion;
+  selectedAnswer: number | null;
+  feedback?: AnswerFeedback;
+  isSubmitted: boolean;
+  disabled?: boolean;
+  onSelectAnswer: (index: number) => void;
+}
+
+const getDifficultyColor = (diff?: string) => {
+  switch (diff) {
+    case 'easy': return 'bg-success/20 text-success border-success/30';
+    case 'hard': return 'bg-destructive/20 text-destructive border-destructive/30';
+    default: return 'bg-primary/20 text-primary border-primary/30';
+  }
+};
+
+const getTypeIcon = (type?: string) => {
+  switch (type) {
+    case 'concept_check': return <Lightbulb className="h-4 w-4" />;
+    case 'mechanism_check': return <Brain className="h-4 w-4" />;
+    case 'application_check': return <Zap className="h-4 w-4" />;
+    case 'misconception_trap': return <AlertCircle className="h-4 w-4" />;
+    case 'why_question': return <Sparkles className="h-4 w-4" />;
+    default: return <Sparkles className="h-4 w-4" />;
+  }
+};
+
+const getTypeLabel = (type?: string) => {
+  switch (type) {
+    case 'concept_check': return 'Concept Check';
+    case 'mechanism_check': return 'How It Works';
+    case 'application_check': return 'Real-World Application';
+    case 'misconception_trap': return 'Common Misconception';
+    case 'why_question': return 'Understanding Why';
+    case 'adaptive': return 'Adaptive Question';
+    default: return 'Question';
+  }
+};
+
+/**
+ * Question, answer options and explanation, shared by quizzes and reviews
+ */
+const QuestionCard = ({
+  question,
+  selectedAnswer,
+  feedback,
+  isSubmitted,
+  disabled = false,
+  onSelectAnswer,
+}: QuestionCardProps) => {
+  return (
+    <>
+      <div className="glass-card rounded-2xl p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2 text-primary">
+            {getTypeIcon(question.type)}
+            <span className="text-sm font-medium">{getTypeLabel(question.type)}</span>
+          </div>
+          {question.difficulty && (
+            <Badge variant="outline" className={getDifficultyColor(question.difficulty)}>
+              {question.difficulty.charAt(0).toUpperCase() + question.difficulty.slice(1)}
+            </Badge>
+          )}
+        </div>
+        <h2 className="text-xl font-semibold"><MathText text={question.question} /></h2>
+      </div>
+
+      <div className="space-y-3 mb-6">
+        {question.options.map((option, index) => {
+          const isSelected = selectedAnswer === index;
+          const isKey = index === feedback?.correctAnswer;
+          const showCorrect = isSubmitted && (isKey || (isSelected && !!feedback?.isCorrect));
+          const showWrong = isSubmitted && isSelected && feedback?.isCorrect === false;
+
+          return (
+            <button
+              key={index}
+              onClick={() => onSelectAnswer(index)}
+              disabled={isSubmitted || disabled}
+              className={`w-full p-4 rounded-xl text-left transition-all duration-300 ${
+                showCorrect
+                  ? 'bg-success/20 border-2 border-success'
+                  : showWrong
+                  ? 'bg-destructive/20 border-2 border-destructive'
+                  : isSelected
+                  ? 'glass-card neon-border'
+                  : 'glass-card hover:neon-glow border-2 border-transparent'
+              }`}
+            >
+              <div className="flex items-center gap-4">
+                <div
+                  className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                    showCorrect
+                      ? 'bg-success text-success-foreground'
+                      : showWrong
+                      ? 'bg-destructive text-destructive-foreground'
+                      : isSelected
+                      ? 'gradient-bg text-primary-foreground'
+                      : 'bg-muted text-muted-foreground'
+                  }`}
+                >
+                  {showCorrect ? (
+                    <CheckCircle className="h-4 w-4" />
+                  ) : showWrong ? (
+                    <XCircle className="h-4 w-4" />
+                  ) : (
+                    String.fromCharCode(65 + index)
+                  )}
+                </div>
+                <MathText text={option} />
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {isSubmitted && feedback?.explanation && (
+        <div className="glass-card rounded-xl p-4 mb-6 border border-primary/30 bg-primary/5">
+          <div className="flex items-start gap-3">
+            <Lightbulb className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-primary mb-1">Explanation</p>
+              <p className="text-sm text-muted-foreground"><MathText text={feedback.explanation} /></p>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default QuestionCard;
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, Flag, Loader2, Play, RotateCcw, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import MathText from '@/components/MathText';
+import { VideoCheckpoint, CheckpointFeedback } from '@/hooks/useVideoCheckpoints';
+import { formatTimestamp } from '@/lib/noteSections';
+
+interface CheckpointDialogProps {
+  checkpoint: VideoCheckpoint | null;
+  onSubmit: (
+    checkpointId: string,
+    questionId: number,
+    selectedAnswer: number,
+    timeTakenSeconds: number
+  ) => Promise<CheckpointFeedback | null>;
+  onRewind: (checkpoint: VideoCheckpoint) => void;
+  onContinue: () => void;
+}
+
+const CheckpointDialog = ({ checkpoint, onSubmit, onRewind, onContinue }: CheckpointDialogProps) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<CheckpointFeedback | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [questionStartTime, setQuestionStartTime] = useState(Date.now());
+
+  // Every pause starts from the first question
+  useEffect(() => {
+    setCurrentIndex(0);
+    setSelectedAnswer(null);
+    setFeedback(null);
+    setQuestionStartTime(Date.now());
+  }, [checkpoint]);
+
+  if (!checkpoint) return null;
+
+  const question = checkpoint.questions[currentIndex];
+  const isLast = currentIndex === checkpoint.questions.length - 1;
+
+  const handleAnswer = async (index: number) => {
+    if (feedback || submitting || !question) return;
+
+    setSelectedAnswer(index);
+    setSubmitting(true);
+    const timeTakenSeconds = Math.round((Date.now() - questionStartTime) / 100) / 10;
+    const result = await onSubmit(checkpoint.id, question.id, index, timeTakenSeconds);
+    setSubmitting(false);
+
+    if (result) {
+      setFeedback(result);
+    } else {
+      setSelectedAnswer(null);
+    }
+  };
+
+  const handleNext = () => {
+    if (isLast) {
+      onContinue();
+      return;
+    }
+    setCurrentIndex((prev) => prev + 1);
+    setSelectedAnswer(null);
+    setFeedback(null);
+    setQuestionStartTime(Date.now());
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onContinue()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-primary" />
+            Checkpoint: {checkpoint.title}
+          </DialogTitle>
+          <DialogDescription>
+            Question {currentIndex + 1} of {checkpoint.questions.length} on the part you just watched
+          </DialogDescription>
+        </DialogHeader>
+
+        {question && (
+          <div className="space-y-4">
+            <div className="glass-card p-4 rounded-xl">
+              <p className="font-medium"><MathText text={question.question} /></p>
+            </div>
+
+            <div className="space-y-2">
+              {question.options.map((option, index) => {
+                const isCorrect = feedback?.correctAnswer === index;
+                const isSelected = selectedAnswer === index;
+                let optionClass = 'glass-card';
+
+                if (feedback) {
+                  if (isCorrect) {
+                    optionClass = 'bg-green-500/20 border-green-500';
+                  } else if (isSelected) {
+                    optionClass = 'bg-destructive/20 border-destructive';
+                  }
+                }
+
+                return (
+                  <button
+                    key={index}
+                    onClick={() => handleAnswer(index)}
+                    disabled={!!feedback || submitting}
+                    className={`w-full p-3 rounded-xl border text-left transition-all ${optionClass} ${
+                      !feedback ? 'hover:border-primary cursor-pointer' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <MathText text={option} />
+                      {submitting && isSelected && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+                      {feedback && isCorrect && <CheckCircle className="h-5 w-5 text-green-500" />}
+                      {feedback && isSelected && !isCorrect && <XCircle className="h-5 w-5 text-destructive" />}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            {feedback?.explanation && (
+              <div className={`p-3 rounded-xl ${
+                feedback.isCorrect
+                  ? 'bg-green-500/10 border border-green-500/30'
+                  : 'bg-destructive/10 border border-destructive/30'
+              }`}>
+                <p className="text-sm"><MathText text={feedback.explanation} /></p>
+              </div>
+            )}
+
+            {feedback && (
+              <div className="flex gap-2">
+                {!feedback.isCorrect && (
+                  <Button variant="outline" onClick={() => onRewind(checkpoint)} className="flex-1">
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Rewind to {formatTimestamp(feedback.rewindToSeconds)}
+                  </Button>
+                )}
+                <Button onClick={handleNext} className="flex-1">
+                  {isLast ? (
+                    <>
+                      <Play className="h-4 w-4 mr-2" />
+                      Keep Watching
+                    </>
+                  ) : (
+                    'Next Question'
+                  )}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckpointDialog;
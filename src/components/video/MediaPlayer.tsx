@@ -0,0 +1,137 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import YouTube, { YouTubeProps } from 'react-youtube';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { MediaPlayerHandle, createHtml5PlayerHandle } from '@/lib/mediaPlayer';
+import { FileVideoSource, isHlsSource, parseVideoRef, resolvePlaybackUrl } from '@/lib/videoSources';
+
+interface MediaPlayerProps {
+  /** Video ref, as stored in video_id */
+  videoId: string;
+  startAt: number;
+  autoplay?: boolean;
+  onReady: (player: MediaPlayerHandle) => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onEnd?: () => void;
+  className?: string;
+  frameClassName?: string;
+}
+
+/**
+ * Plays a video from any source: YouTube through its embedded player, and
+ * direct links, lecture uploads and fixtures through a <video> element.
+ * Like react-youtube, a new videoId gets a new player and a new onReady.
+ */
+const MediaPlayer = ({ videoId, startAt, autoplay = false, className, frameClassName, ...events }: MediaPlayerProps) => {
+  const source = useMemo(() => parseVideoRef(videoId), [videoId]);
+
+  if (source.provider === 'youtube') {
+    const opts: YouTubeProps['opts'] = {
+      width: '100%',
+      height: '100%',
+      playerVars: {
+        autoplay: autoplay ? 1 : 0,
+        start: startAt,
+        modestbranding: 1,
+        rel: 0,
+      },
+    };
+
+    return (
+      <YouTube
+        videoId={source.id}
+        opts={opts}
+        onReady={(event) => events.onReady(event.target)}
+        onPlay={events.onPlay}
+        onPause={events.onPause}
+        onEnd={events.onEnd}
+        className={className}
+        iframeClassName={frameClassName}
+      />
+    );
+  }
+
+  return (
+    <div className={className}>
+      <FileVideo
+        key={videoId}
+        source={source}
+        startAt={startAt}
+        autoplay={autoplay}
+        className={frameClassName}
+        {...events}
+      />
+    </div>
+  );
+};
+
+interface FileVideoProps extends Omit<MediaPlayerProps, 'videoId' | 'className' | 'frameClassName'> {
+  source: FileVideoSource;
+  className?: string;
+}
+
+const FileVideo = ({ source, startAt, autoplay, onReady, onPlay, onPause, onEnd, className }: FileVideoProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isHlsSource(source) && !videoRef.current?.canPlayType('application/vnd.apple.mpegurl')) {
+      setError("This browser can't play HLS streams. Try Safari or a recent version of Chrome or Edge.");
+      return;
+    }
+
+    let cancelled = false;
+    resolvePlaybackUrl(source)
+      .then((url) => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch((resolveError) => {
+        console.error('Error loading video:', resolveError);
+        if (!cancelled) setError('This video could not be loaded.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (startAt > 0) video.currentTime = startAt;
+    onReady(createHtml5PlayerHandle(video));
+  };
+
+  return (
+    <div className="relative w-full h-full bg-black">
+      <video
+        ref={videoRef}
+        src={src ?? undefined}
+        controls
+        playsInline
+        autoPlay={autoplay}
+        onLoadedMetadata={handleLoadedMetadata}
+        onPlay={onPlay}
+        onPause={onPause}
+        onEnded={onEnd}
+        onError={() => src && setError('This video could not be played.')}
+        className={className}
+      />
+      {(error || !src) && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center">
+          {error ? (
+            <>
+              <AlertCircle className="h-8 w-8 text-destructive" />
+              <p className="text-sm text-white/80">{error}</p>
+            </>
+          ) : (
+            <Loader2 className="h-8 w-8 text-primary animate-spin" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaPlayer;
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Clock, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Annotation } from '@/hooks/useAnnotations';
+import { formatTimestamp } from '@/lib/noteSections';
+
+interface TimestampedNotesProps {
+  annotations: Annotation[];
+  currentTime: number;
+  onAdd: (body: string) => Promise<boolean>;
+  onSeek: (annotation: Annotation) => void;
+  onDelete: (id: string) => void;
+}
+
+const TimestampedNotes = ({ annotations, currentTime, onAdd, onSeek, onDelete }: TimestampedNotesProps) => {
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Pin the note to the moment the student started typing, not when they hit save
+  const [pinnedTime, setPinnedTime] = useState<number | null>(null);
+
+  const noteTime = pinnedTime ?? currentTime;
+
+  const handleChange = (value: string) => {
+    if (pinnedTime === null && value.trim()) {
+      setPinnedTime(currentTime);
+    } else if (!value.trim()) {
+      setPinnedTime(null);
+    }
+    setDraft(value);
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    const saved = await onAdd(draft);
+    setSaving(false);
+    if (saved) {
+      setDraft('');
+      setPinnedTime(null);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-4">
+      <h2 className="font-semibold flex items-center gap-2 mb-3">
+        <Clock className="h-4 w-4 text-primary" />
+        My Timestamped Notes
+      </h2>
+
+      <div className="space-y-2 mb-4">
+        <Textarea
+          value={draft}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && draft.trim()) {
+              handleAdd();
+            }
+          }}
+          placeholder="Write a note about this moment..."
+          maxLength={2000}
+          rows={2}
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground font-mono">at {formatTimestamp(noteTime)}</span>
+          <Button size="sm" variant="neon" onClick={handleAdd} disabled={!draft.trim() || saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+            Add Note
+          </Button>
+        </div>
+      </div>
+
+      {annotations.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-2">
+          Notes you add here link back to this moment in the video.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {annotations.map((annotation) => (
+            <div key={annotation.id} className="group flex items-start gap-2 p-2 rounded-lg bg-muted/50">
+              <button
+                onClick={() => onSeek(annotation)}
+                className="text-xs font-mono text-primary hover:underline flex-shrink-0 mt-0.5"
+              >
+                {formatTimestamp(annotation.timestamp_seconds)}
+              </button>
+              <p className="text-sm flex-1 whitespace-pre-wrap break-words">{annotation.body}</p>
+              <button
+                onClick={() => onDelete(annotation.id)}
+                className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label="Delete note"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimestampedNotes;
@@ -0,0 +1,79 @@
+import { ThumbsUp, ThumbsDown, FlagTriangleRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  useVideoFeedback,
+  VIDEO_FLAG_REASONS,
+  VideoFlagReason,
+  VideoReplacement,
+} from '@/hooks/useVideoFeedback';
+
+interface VideoFeedbackBarProps {
+  /** Video ref, as stored in video_id */
+  videoId: string;
+  todoId: string | undefined;
+  onReplaced: (flaggedVideoId: string, replacements: VideoReplacement[]) => void;
+}
+
+/** Thumbs up or down for the video playing, and a menu to report a bad one */
+const VideoFeedbackBar = ({ videoId, todoId, onReplaced }: VideoFeedbackBarProps) => {
+  const { rating, flagReason, flagging, rate, flagVideo } = useVideoFeedback(videoId, todoId);
+
+  const handleFlag = async (reason: VideoFlagReason) => {
+    const replacements = await flagVideo(reason);
+    if (replacements && replacements.length > 0) onReplaced(videoId, replacements);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-sm text-muted-foreground mr-1">Helpful?</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Helpful"
+        aria-pressed={rating === 1}
+        onClick={() => rate(1)}
+      >
+        <ThumbsUp className={cn('h-4 w-4', rating === 1 && 'fill-primary text-primary')} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Not helpful"
+        aria-pressed={rating === -1}
+        onClick={() => rate(-1)}
+      >
+        <ThumbsDown className={cn('h-4 w-4', rating === -1 && 'fill-destructive text-destructive')} />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={flagging || !!flagReason}>
+            {flagging ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <FlagTriangleRight className="h-4 w-4 mr-1" />
+            )}
+            {flagReason ? 'Reported' : 'Report'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Replace this video because it's…</DropdownMenuLabel>
+          {(Object.keys(VIDEO_FLAG_REASONS) as VideoFlagReason[]).map((reason) => (
+            <DropdownMenuItem key={reason} onClick={() => handleFlag(reason)}>
+              {VIDEO_FLAG_REASONS[reason]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default VideoFeedbackBar;
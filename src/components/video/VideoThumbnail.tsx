@@ -0,0 +1,28 @@
+import { Film } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { videoThumbnailUrl } from '@/lib/videoSources';
+
+interface VideoThumbnailProps {
+  /** Video ref, as stored in video_id */
+  videoId: string;
+  alt: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+}
+
+/** The video's thumbnail, or a placeholder for sources that have none */
+const VideoThumbnail = ({ videoId, alt, className, loading }: VideoThumbnailProps) => {
+  const url = videoThumbnailUrl(videoId);
+
+  if (!url) {
+    return (
+      <div role="img" aria-label={alt} className={cn('flex items-center justify-center bg-muted', className)}>
+        <Film className="h-6 w-6 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return <img src={url} alt={alt} className={className} loading={loading} />;
+};
+
+export default VideoThumbnail;
@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useRef, useState, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { AI_JOB_LABELS, AiJob, AiJobKind, isActiveJob, NewAiJob } from '@/lib/aiJobs';
+import { AiJobsContext } from '@/hooks/useAiJobs';
+import { useAuth } from './AuthContext';
+
+interface AiJobsProviderProps {
+  children: ReactNode;
+}
+
+const RECENT_JOBS_LIMIT = 30;
+// Matches claim_ai_job: a job running longer than this lost its worker
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+const successMessage = (job: AiJob) => {
+  const label = AI_JOB_LABELS[job.kind as AiJobKind] ?? 'Job';
+  if (job.kind === 'analyze-weakness') {
+    const weakTopics = (job.result as { weakTopics?: unknown[] } | null)?.weakTopics ?? [];
+    return weakTopics.length > 0
+      ? `Found ${weakTopics.length} topic${weakTopics.length === 1 ? '' : 's'} to improve`
+      : 'No weak topics found, nice work!';
+  }
+  return job.title ? `${label} ready: ${job.title}` : `${label} ready`;
+};
+
+export const AiJobsProvider: React.FC<AiJobsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<AiJob[]>([]);
+  const jobsRef = useRef<AiJob[]>([]);
+  const kicking = useRef(false);
+
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  // Ask process-ai-jobs to work through the queue; it returns straight away
+  // and keeps running in the background
+  const kickWorker = useCallback(async () => {
+    if (kicking.current) return;
+    kicking.current = true;
+    try {
+      const { error } = await supabase.functions.invoke('process-ai-jobs', { body: {} });
+      if (error) console.error('Error starting job worker:', error);
+    } finally {
+      kicking.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setJobs([]);
+      return;
+    }
+
+    const fetchJobs = async () => {
+      const { data, error } = await supabase
+        .from('ai_jobs')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_JOBS_LIMIT);
+
+      if (error) {
+        console.error('Error fetching jobs:', error);
+        return;
+      }
+      setJobs(data || []);
+    };
+
+    fetchJobs();
+
+    const channel = supabase
+      .channel(`ai-jobs-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ai_jobs', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as Partial<AiJob>).id;
+            setJobs((prev) => prev.filter((job) => job.id !== removedId));
+            return;
+          }
+
+          const job = payload.new as AiJob;
+          const previous = jobsRef.current.find((j) => j.id === job.id);
+          if (previous && previous.status !== job.status) {
+            if (job.status === 'succeeded') toast.success(successMessage(job));
+            else if (job.status === 'failed') {
+              toast.error(`${AI_JOB_LABELS[job.kind as AiJobKind] ?? 'Job'} failed`, {
+                description: job.error_message ?? undefined,
+              });
+            }
+          }
+
+          setJobs((prev) =>
+            prev.some((j) => j.id === job.id)
+              ? prev.map((j) => (j.id === job.id ? job : j))
+              : [job, ...prev].slice(0, RECENT_JOBS_LIMIT)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // Keep the worker going while the app is open: start it for jobs that are
+  // due and nobody is running (e.g. queued while offline or left behind by a
+  // worker that died), and wake it up again when a retry's backoff runs out
+  const queuedJobs = jobs.filter((job) => job.status === 'queued');
+  const hasRunningJob = jobs.some(
+    (job) => job.status === 'running' && Date.now() - new Date(job.started_at ?? job.updated_at).getTime() < STALE_RUNNING_MS
+  );
+  const nextRunAt = queuedJobs.length > 0
+    ? Math.min(...queuedJobs.map((job) => new Date(job.run_after).getTime()))
+    : null;
+
+  useEffect(() => {
+    if (nextRunAt === null || hasRunningJob) return;
+
+    const timer = setTimeout(kickWorker, Math.max(0, nextRunAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [nextRunAt, hasRunningJob, kickWorker]);
+
+  const enqueueJob = useCallback(async ({ kind, payload, todoId, title, dependsOn }: NewAiJob) => {
+    if (!user) throw new Error('You must be signed in to queue a job');
+
+    const { data, error } = await supabase
+      .from('ai_jobs')
+      .insert({
+        user_id: user.id,
+        kind,
+        payload: payload as Json,
+        todo_id: todoId ?? null,
+        title: title?.slice(0, 200) ?? null,
+        depends_on: dependsOn ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    setJobs((prev) => (prev.some((j) => j.id === data.id) ? prev : [data, ...prev].slice(0, RECENT_JOBS_LIMIT)));
+    kickWorker();
+    return data;
+  }, [user, kickWorker]);
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    const { error } = await supabase.from('ai_jobs').delete().eq('id', jobId);
+    if (error) throw error;
+    setJobs((prev) => prev.filter((job) => job.id !== jobId));
+  }, []);
+
+  // Failed jobs are read-only for the client, so a retry queues a copy
+  const retryJob = useCallback(async (job: AiJob) => {
+    const retried = await enqueueJob({
+      kind: job.kind as AiJobKind,
+      payload: job.payload as Record<string, unknown>,
+      todoId: job.todo_id,
+      title: job.title,
+    });
+    await cancelJob(job.id);
+    return retried;
+  }, [enqueueJob, cancelJob]);
+
+  const clearFinished = useCallback(async () => {
+    if (!user) return;
+    const { error } = await supabase
+      .from('ai_jobs')
+      .delete()
+      .eq('user_id', user.id)
+      .in('status', ['succeeded', 'failed']);
+
+    if (error) throw error;
+    setJobs((prev) => prev.filter(isActiveJob));
+  }, [user]);
+
+  return (
+    <AiJobsContext.Provider value={{ jobs, enqueueJob, cancelJob, retryJob, clearFinished }}>
+      {children}
+    </AiJobsContext.Provider>
+  );
+};
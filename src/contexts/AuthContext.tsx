@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { syncBrowserTimezone } from '@/lib/timezone';
 
 interface Profile {
   id: string;
@@ -77,6 +78,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (session?.user) {
           setTimeout(() => {
             fetchProfile(session.user.id).then(setProfile);
+            if (event === 'SIGNED_IN' || event === 'INITIAL_SESSION') {
+              syncBrowserTimezone(session.user.id).catch(error =>
+                console.error('Error syncing timezone:', error)
+              );
+            }
           }, 0);
         } else {
           setProfile(null);
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { AiJob, NewAiJob } from '@/lib/aiJobs';
+
+export interface AiJobsContextType {
+  /** The student's recent jobs, newest first */
+  jobs: AiJob[];
+  enqueueJob: (job: NewAiJob) => Promise<AiJob>;
+  cancelJob: (jobId: string) => Promise<void>;
+  retryJob: (job: AiJob) => Promise<AiJob>;
+  clearFinished: () => Promise<void>;
+}
+
+// Provided by AiJobsProvider in contexts/AiJobsContext.tsx
+export const AiJobsContext = createContext<AiJobsContextType | undefined>(undefined);
+
+export const useAiJobs = () => {
+  const context = useContext(AiJobsContext);
+  if (!context) {
+    throw new Error('useAiJobs must be used within an AiJobsProvider');
+  }
+  return context;
+};
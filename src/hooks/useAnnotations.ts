@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface Annotation {
+  id: string;
+  todo_id: string;
+  video_id: string;
+  timestamp_seconds: number;
+  body: string;
+  created_at: string;
+}
+
+const MAX_ANNOTATION_LENGTH = 2000;
+
+const byTimestamp = (a: Annotation, b: Annotation) => a.timestamp_seconds - b.timestamp_seconds;
+
+export const useAnnotations = (todoId: string | undefined) => {
+  const { user } = useAuth();
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnnotations = useCallback(async () => {
+    if (!user || !todoId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('note_annotations')
+        .select('id, todo_id, video_id, timestamp_seconds, body, created_at')
+        .eq('todo_id', todoId)
+        .eq('user_id', user.id)
+        .order('timestamp_seconds', { ascending: true });
+
+      if (error) throw error;
+      setAnnotations(data || []);
+    } catch (error) {
+      console.error('Error fetching annotations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, todoId]);
+
+  useEffect(() => {
+    fetchAnnotations();
+  }, [fetchAnnotations]);
+
+  const addAnnotation = useCallback(async (
+    videoId: string,
+    timestampSeconds: number,
+    body: string
+  ): Promise<boolean> => {
+    const text = body.trim().slice(0, MAX_ANNOTATION_LENGTH);
+    if (!user || !todoId || !text) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('note_annotations')
+        .insert({
+          user_id: user.id,
+          todo_id: todoId,
+          video_id: videoId,
+          timestamp_seconds: Math.max(0, Math.floor(timestampSeconds)),
+          body: text,
+        })
+        .select('id, todo_id, video_id, timestamp_seconds, body, created_at')
+        .single();
+
+      if (error) throw error;
+      setAnnotations((prev) => [...prev, data].sort(byTimestamp));
+      return true;
+    } catch (error) {
+      console.error('Error adding annotation:', error);
+      toast.error('Failed to save note');
+      return false;
+    }
+  }, [user, todoId]);
+
+  const deleteAnnotation = useCallback(async (id: string) => {
+    const previous = annotations;
+    setAnnotations((prev) => prev.filter((a) => a.id !== id));
+
+    const { error } = await supabase.from('note_annotations').delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting annotation:', error);
+      toast.error('Failed to delete note');
+      setAnnotations(previous);
+    }
+  }, [annotations]);
+
+  return {
+    annotations,
+    loading,
+    addAnnotation,
+    deleteAnnotation,
+    refetch: fetchAnnotations,
+  };
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { MIN_RESUME_SECONDS, isResumable } from '@/lib/resumePoints';
+
+export interface ContinueWatchingVideo {
+  videoId: string;
+  todoId: string | null;
+  title: string | null;
+  channel: string | null;
+  positionSeconds: number;
+  durationSeconds: number | null;
+  updatedAt: string;
+}
+
+const SHELF_SIZE = 8;
+
+export const useContinueWatching = () => {
+  const { user } = useAuth();
+  const [videos, setVideos] = useState<ContinueWatchingVideo[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchVideos = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // Fetch a few extra, since videos stopped near the end don't make the shelf
+      const { data, error } = await supabase
+        .from('video_resume_points')
+        .select('video_id, todo_id, title, channel, position_seconds, duration_seconds, updated_at')
+        .eq('user_id', user.id)
+        .gte('position_seconds', MIN_RESUME_SECONDS)
+        .order('updated_at', { ascending: false })
+        .limit(SHELF_SIZE * 2);
+
+      if (error) throw error;
+
+      setVideos((data || [])
+        .filter((point) => isResumable(point.position_seconds, point.duration_seconds))
+        .slice(0, SHELF_SIZE)
+        .map((point) => ({
+          videoId: point.video_id,
+          todoId: point.todo_id,
+          title: point.title,
+          channel: point.channel,
+          positionSeconds: point.position_seconds,
+          durationSeconds: point.duration_seconds,
+          updatedAt: point.updated_at,
+        })));
+    } catch (error) {
+      console.error('Error fetching continue watching:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchVideos();
+  }, [fetchVideos]);
+
+  return { videos, loading, refetch: fetchVideos };
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { fetchLocalDay } from '@/lib/timezone';
 
 export interface DailyChallenge {
   id: string;
@@ -47,8 +48,10 @@ export const useDailyChallenges = () => {
         console.error('Error assigning challenges:', assignError);
       }
 
+      // Challenge days follow the student's timezone, not the browser's UTC date
+      const today = assignedData?.[0]?.challenge_date ?? (await fetchLocalDay()).localDate;
+
       // Fetch user's daily challenges with challenge details
-      const today = new Date().toISOString().split('T')[0];
       const { data: userChallenges, error: fetchError } = await supabase
         .from('user_daily_challenges')
         .select(`
@@ -76,16 +79,17 @@ export const useDailyChallenges = () => {
   }, [user]);
 
   const getTimeRemaining = useCallback(() => {
+    // Challenges expire at the student's local midnight; fall back to the browser's
     const now = new Date();
-    const endOfDay = new Date(now);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    const diff = endOfDay.getTime() - now.getTime();
+    const endOfDay = challenges[0] ? new Date(challenges[0].expires_at) : new Date(now);
+    if (!challenges[0]) endOfDay.setHours(23, 59, 59, 999);
+
+    const diff = Math.max(0, endOfDay.getTime() - now.getTime());
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    
+
     return { hours, minutes, totalMs: diff };
-  }, []);
+  }, [challenges]);
 
   useEffect(() => {
     fetchChallenges();
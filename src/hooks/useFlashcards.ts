@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { showFunctionError } from '@/lib/functionErrors';
+
+export interface Flashcard {
+  id: string;
+  todo_id: string;
+  topic_id: string | null;
+  topic_name: string | null;
+  front: string;
+  back: string;
+  order_index: number;
+  interval_days: number;
+  repetitions: number;
+  review_count: number;
+  last_rating: string | null;
+  due_at: string;
+}
+
+export type FlashcardRating = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * Due cards first; among those, cards on the student's weakest topics
+ * (from user_topic_performance) come first.
+ */
+const prioritiseCards = (cards: Flashcard[], weaknessByTopic: Map<string, number>): Flashcard[] => {
+  const now = Date.now();
+  const weakness = (card: Flashcard) => (card.topic_id ? weaknessByTopic.get(card.topic_id) ?? 0 : 0);
+
+  return [...cards].sort((a, b) => {
+    const aDue = new Date(a.due_at).getTime() <= now;
+    const bDue = new Date(b.due_at).getTime() <= now;
+    if (aDue !== bDue) return aDue ? -1 : 1;
+    if (weakness(b) !== weakness(a)) return weakness(b) - weakness(a);
+    return new Date(a.due_at).getTime() - new Date(b.due_at).getTime() || a.order_index - b.order_index;
+  });
+};
+
+export const useFlashcards = (todoId: string | undefined) => {
+  const { user } = useAuth();
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [weaknessByTopic, setWeaknessByTopic] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  const fetchCards = useCallback(async () => {
+    if (!user || !todoId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [cardsResult, performanceResult] = await Promise.all([
+        supabase
+          .from('flashcards')
+          .select('*')
+          .eq('todo_id', todoId)
+          .eq('user_id', user.id)
+          .order('order_index', { ascending: true }),
+        supabase
+          .from('user_topic_performance')
+          .select('topic_id, weakness_score')
+          .eq('user_id', user.id),
+      ]);
+
+      if (cardsResult.error) throw cardsResult.error;
+
+      const weakness = new Map(
+        (performanceResult.data || []).map((p) => [p.topic_id, Number(p.weakness_score) || 0])
+      );
+      setWeaknessByTopic(weakness);
+      setCards(prioritiseCards(cardsResult.data || [], weakness));
+    } catch (error) {
+      console.error('Error fetching flashcards:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, todoId]);
+
+  useEffect(() => {
+    fetchCards();
+  }, [fetchCards]);
+
+  const generateCards = useCallback(async (regenerate = false): Promise<boolean> => {
+    if (!todoId) return false;
+
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-flashcards', {
+        body: { todoId, regenerate },
+      });
+
+      if (error) throw error;
+
+      setCards(prioritiseCards(data.cards || [], weaknessByTopic));
+      return true;
+    } catch (error) {
+      console.error('Error generating flashcards:', error);
+      await showFunctionError(error, 'Failed to generate flashcards');
+      return false;
+    } finally {
+      setGenerating(false);
+    }
+  }, [todoId, weaknessByTopic]);
+
+  const rateCard = useCallback(async (
+    card: Flashcard,
+    rating: FlashcardRating
+  ): Promise<{ intervalDays: number; dueAt: string } | null> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('rate-flashcard', {
+        body: { cardId: card.id, rating },
+      });
+
+      if (error) throw error;
+
+      setCards((prev) => prev.map((c) => (
+        c.id === card.id ? { ...c, due_at: data.dueAt, interval_days: data.intervalDays, last_rating: rating } : c
+      )));
+      return data;
+    } catch (error) {
+      console.error('Error rating flashcard:', error);
+      await showFunctionError(error, 'Failed to save rating');
+      return null;
+    }
+  }, []);
+
+  const dueCount = cards.filter((card) => new Date(card.due_at).getTime() <= Date.now()).length;
+
+  return {
+    cards,
+    dueCount,
+    loading,
+    generating,
+    generateCards,
+    rateCard,
+    refetch: fetchCards,
+  };
+};
@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { getPushStatus, PushStatus, subscribeToPush, unsubscribeFromPush } from '@/lib/pushNotifications';
+import { toast } from 'sonner';
+
+export type NotificationPreferences = Tables<'user_preferences'>;
+
+export type NotificationPreferenceUpdates = Pick<
+  TablesUpdate<'user_preferences'>,
+  'push_enabled' | 'email_digest_enabled' | 'digest_time' | 'quiet_hours_start' | 'quiet_hours_end' | 'reminders_snoozed_until'
+>;
+
+export const useNotificationPreferences = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [pushStatus, setPushStatus] = useState<PushStatus>('unsubscribed');
+  const [loading, setLoading] = useState(true);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPreferences(data);
+      setPushStatus(await getPushStatus());
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const updatePreferences = useCallback(async (updates: NotificationPreferenceUpdates): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .upsert({ user_id: user.id, ...updates }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setPreferences(data);
+      return true;
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      toast.error('Failed to save notification settings');
+      return false;
+    }
+  }, [user]);
+
+  const enablePush = useCallback(async (): Promise<boolean> => {
+    try {
+      const status = await subscribeToPush();
+      setPushStatus(status);
+
+      if (status === 'denied') {
+        toast.error('Notifications are blocked. Allow them in your browser settings.');
+      } else if (status === 'unsupported') {
+        toast.error("This browser can't receive push notifications");
+      }
+      if (status !== 'subscribed') return false;
+
+      if (preferences && !preferences.push_enabled) {
+        await updatePreferences({ push_enabled: true });
+      }
+      return true;
+    } catch (error) {
+      console.error('Error enabling push notifications:', error);
+      toast.error('Failed to turn on notifications');
+      return false;
+    }
+  }, [preferences, updatePreferences]);
+
+  const disablePush = useCallback(async (): Promise<boolean> => {
+    try {
+      setPushStatus(await unsubscribeFromPush());
+      return true;
+    } catch (error) {
+      console.error('Error disabling push notifications:', error);
+      toast.error('Failed to turn off notifications');
+      return false;
+    }
+  }, []);
+
+  const snooze = useCallback(async (minutes: number): Promise<boolean> => {
+    const until = new Date(Date.now() + minutes * 60 * 1000);
+    const success = await updatePreferences({ reminders_snoozed_until: until.toISOString() });
+    if (success) {
+      toast.success(`Reminders snoozed until ${until.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`);
+    }
+    return success;
+  }, [updatePreferences]);
+
+  const clearSnooze = useCallback(
+    () => updatePreferences({ reminders_snoozed_until: null }),
+    [updatePreferences]
+  );
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const snoozedUntil = preferences?.reminders_snoozed_until
+    && new Date(preferences.reminders_snoozed_until) > new Date()
+    ? new Date(preferences.reminders_snoozed_until)
+    : null;
+
+  return {
+    preferences,
+    pushStatus,
+    snoozedUntil,
+    loading,
+    updatePreferences,
+    enablePush,
+    disablePush,
+    snooze,
+    clearSnooze,
+  };
+};
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ResumeDetails } from '@/lib/resumePoints';
+import { MediaPlayerHandle, PLAYER_STATE } from '@/lib/mediaPlayer';
+
+const SAMPLE_MS = 1000;
+const SAVE_MS = 10 * 1000;
+
+/**
+ * Saves the student's place in videoId to video_resume_points every few
+ * seconds of playback, and straight away on pause, hidden tab or close.
+ * Positions are only taken once playback has started, so opening a video
+ * never overwrites its resume point with the start time.
+ */
+export const useResumePoint = (
+  player: MediaPlayerHandle | null,
+  videoId: string | null | undefined,
+  details: ResumeDetails
+) => {
+  const { user } = useAuth();
+  const detailsRef = useRef(details);
+
+  useEffect(() => {
+    detailsRef.current = details;
+  }, [details]);
+
+  useEffect(() => {
+    if (!user || !player || !videoId) return;
+
+    let position: number | null = null;
+    let duration: number | null = null;
+    let savedPosition: number | null = null;
+
+    const save = () => {
+      if (position === null || position === savedPosition) return;
+      savedPosition = position;
+
+      // Only send what is known, so a dialog without a task keeps the task
+      // a video was last opened from
+      const { todoId, title, channel } = detailsRef.current;
+      supabase
+        .from('video_resume_points')
+        .upsert({
+          user_id: user.id,
+          video_id: videoId,
+          position_seconds: position,
+          ...(duration ? { duration_seconds: duration } : {}),
+          ...(todoId ? { todo_id: todoId } : {}),
+          ...(title ? { title } : {}),
+          ...(channel ? { channel } : {}),
+        }, {
+          onConflict: 'user_id,video_id',
+        })
+        .then(({ error }) => {
+          if (error) console.error('Error saving resume point:', error);
+        });
+    };
+
+    const sample = () => {
+      const state: number = player.getPlayerState();
+      if (state === PLAYER_STATE.UNSTARTED || state === PLAYER_STATE.CUED) return;
+
+      position = Math.floor(player.getCurrentTime());
+      duration = player.getDuration() || duration;
+      if (state === PLAYER_STATE.PAUSED) save();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+
+    const sampleInterval = setInterval(sample, SAMPLE_MS);
+    const saveInterval = setInterval(save, SAVE_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(sampleInterval);
+      clearInterval(saveInterval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      save();
+    };
+  }, [user, player, videoId]);
+};
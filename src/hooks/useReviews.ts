@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { QuizQuestion } from '@/components/quiz/QuestionCard';
+
+const MAX_REVIEWS_PER_SESSION = 20;
+
+export interface ReviewItem {
+  id: string;
+  quiz_id: string;
+  todo_id: string;
+  question_id: number;
+  question: QuizQuestion;
+  due_at: string;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  todo: { title: string } | null;
+}
+
+export const useReviews = () => {
+  const { user } = useAuth();
+  const [dueReviews, setDueReviews] = useState<ReviewItem[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [nextDueAt, setNextDueAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReviews = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const now = new Date().toISOString();
+
+      const [dueResult, countResult, nextResult] = await Promise.all([
+        supabase
+          .from('review_items')
+          .select('id, quiz_id, todo_id, question_id, question, due_at, interval_days, repetitions, lapses, todo:todos(title)')
+          .eq('user_id', user.id)
+          .lte('due_at', now)
+          .order('due_at', { ascending: true })
+          .limit(MAX_REVIEWS_PER_SESSION),
+        supabase
+          .from('review_items')
+          .select('*', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .lte('due_at', now),
+        supabase
+          .from('review_items')
+          .select('due_at')
+          .eq('user_id', user.id)
+          .gt('due_at', now)
+          .order('due_at', { ascending: true })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (dueResult.error) throw dueResult.error;
+
+      setDueReviews((dueResult.data || []).map((item) => ({
+        ...item,
+        question: item.question as unknown as QuizQuestion,
+      })));
+      setDueCount(countResult.count ?? dueResult.data?.length ?? 0);
+      setNextDueAt(nextResult.data?.due_at ?? null);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  return {
+    dueReviews,
+    dueCount,
+    nextDueAt,
+    loading,
+    refetch: fetchReviews,
+  };
+};
@@ -1,70 +1,118 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { fetchLocalDay } from '@/lib/timezone';
+import { addDays, format, parseISO, subWeeks } from 'date-fns';
 import { toast } from 'sonner';
 
 export interface StreakFreezeStatus {
+  currentStreak: number;
+  longestStreak: number;
   streakProtections: number;
-  canUseFreeze: boolean;
-  lastMissedDate: string | null;
+  /** Missed days waiting for the student to decide whether to spend shields */
+  missedDays: number;
+  autoFreeze: boolean;
 }
 
+export type StreakDayStatus = 'active' | 'frozen' | 'missed' | 'upcoming' | 'none';
+
+export interface StreakCalendarDay {
+  date: string;
+  status: StreakDayStatus;
+  isToday: boolean;
+}
+
+const CALENDAR_WEEKS = 5;
+
+// Monday-aligned weeks ending with the current one. Days without a record
+// count as missed once the student has started a streak.
+const buildCalendar = (
+  weekStart: string,
+  today: string,
+  keptDays: Map<string, StreakDayStatus>,
+  firstKeptDay: string | null
+): StreakCalendarDay[] => {
+  const start = subWeeks(parseISO(weekStart), CALENDAR_WEEKS - 1);
+
+  return Array.from({ length: CALENDAR_WEEKS * 7 }, (_, i) => {
+    const date = format(addDays(start, i), 'yyyy-MM-dd');
+    let status: StreakDayStatus = keptDays.get(date) ?? 'none';
+    if (status === 'none') {
+      if (date > today) status = 'upcoming';
+      else if (firstKeptDay && date > firstKeptDay && date < today) status = 'missed';
+    }
+    return { date, status, isToday: date === today };
+  });
+};
+
 export const useStreakFreeze = () => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
-  const [streakProtections, setStreakProtections] = useState(0);
+  const [status, setStatus] = useState<StreakFreezeStatus | null>(null);
+  const [calendar, setCalendar] = useState<StreakCalendarDay[]>([]);
 
-  const fetchProtections = useCallback(async () => {
-    if (!user) return 0;
+  const fetchStatus = useCallback(async (): Promise<StreakFreezeStatus | null> => {
+    if (!user) return null;
 
     try {
-      const { data: profile, error } = await supabase
-        .from('profiles')
-        .select('streak_protections')
-        .eq('user_id', user.id)
-        .single();
-
+      // Settles missed days first, so the calendar below includes any frozen days
+      const { data, error } = await supabase.rpc('get_streak_status');
       if (error) throw error;
-      setStreakProtections(profile?.streak_protections || 0);
-      return profile?.streak_protections || 0;
+
+      const row = data?.[0];
+      const nextStatus: StreakFreezeStatus = {
+        currentStreak: row?.current_streak ?? 0,
+        longestStreak: row?.longest_streak ?? 0,
+        streakProtections: row?.streak_protections ?? 0,
+        missedDays: row?.missed_days ?? 0,
+        autoFreeze: row?.auto_freeze ?? true,
+      };
+
+      const { localDate, weekStart } = await fetchLocalDay();
+      const rangeStart = format(subWeeks(parseISO(weekStart), CALENDAR_WEEKS - 1), 'yyyy-MM-dd');
+
+      const [{ data: days, error: daysError }, { data: firstDay, error: firstDayError }] = await Promise.all([
+        supabase
+          .from('streak_days')
+          .select('day, status')
+          .eq('user_id', user.id)
+          .gte('day', rangeStart),
+        supabase
+          .from('streak_days')
+          .select('day')
+          .eq('user_id', user.id)
+          .order('day', { ascending: true })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (daysError) throw daysError;
+      if (firstDayError) throw firstDayError;
+
+      const keptDays = new Map((days || []).map(d => [d.day, d.status as StreakDayStatus]));
+      setCalendar(buildCalendar(weekStart, localDate, keptDays, firstDay?.day ?? null));
+      setStatus(nextStatus);
+      return nextStatus;
     } catch (error) {
-      console.error('Error fetching streak protections:', error);
-      return 0;
+      console.error('Error fetching streak status:', error);
+      return null;
     }
   }, [user]);
 
   const useStreakFreezeAction = useCallback(async (): Promise<boolean> => {
     if (!user) return false;
-    
+
     setLoading(true);
     try {
-      const { data: profile, error: fetchError } = await supabase
-        .from('profiles')
-        .select('streak_protections')
-        .eq('user_id', user.id)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      if (!profile || profile.streak_protections <= 0) {
-        toast.error('No streak protections available!');
+      const { error } = await supabase.rpc('use_streak_freeze');
+      if (error) {
+        toast.error(error.message || 'Failed to use streak freeze');
         return false;
       }
 
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ 
-          streak_protections: profile.streak_protections - 1,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
-
-      if (updateError) throw updateError;
-
-      setStreakProtections(profile.streak_protections - 1);
       toast.success('Streak freeze activated! Your streak is protected.');
+      await fetchStatus();
       return true;
-
     } catch (error) {
       console.error('Error using streak freeze:', error);
       toast.error('Failed to use streak freeze');
@@ -72,83 +120,34 @@ export const useStreakFreeze = () => {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, fetchStatus]);
 
-  const addStreakProtection = useCallback(async (amount: number = 1): Promise<boolean> => {
+  const setAutoFreeze = useCallback(async (enabled: boolean): Promise<boolean> => {
     if (!user) return false;
 
     try {
-      const { data: profile, error: fetchError } = await supabase
-        .from('profiles')
-        .select('streak_protections')
-        .eq('user_id', user.id)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      const newAmount = (profile?.streak_protections || 0) + amount;
-      
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ 
-          streak_protections: newAmount,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
-
-      if (updateError) throw updateError;
-
-      setStreakProtections(newAmount);
-      toast.success(`+${amount} streak protection${amount > 1 ? 's' : ''} earned!`);
-      return true;
-
-    } catch (error) {
-      console.error('Error adding streak protection:', error);
-      return false;
-    }
-  }, [user]);
-
-  const checkYesterdayProgress = useCallback(async (): Promise<{
-    missedDay: boolean;
-    completedChallenges: number;
-    totalChallenges: number;
-  }> => {
-    if (!user) return { missedDay: false, completedChallenges: 0, totalChallenges: 0 };
-
-    try {
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-      const { data: challenges, error } = await supabase
-        .from('user_daily_challenges')
-        .select('is_completed')
-        .eq('user_id', user.id)
-        .eq('challenge_date', yesterdayStr);
+      const { error } = await supabase
+        .from('user_preferences')
+        .upsert({ user_id: user.id, auto_streak_freeze: enabled }, { onConflict: 'user_id' });
 
       if (error) throw error;
 
-      if (!challenges || challenges.length === 0) {
-        return { missedDay: false, completedChallenges: 0, totalChallenges: 0 };
-      }
-
-      const completed = challenges.filter(c => c.is_completed).length;
-      const total = challenges.length;
-      const missedDay = completed < total;
-
-      return { missedDay, completedChallenges: completed, totalChallenges: total };
+      setStatus(prev => prev ? { ...prev, autoFreeze: enabled } : prev);
+      if (enabled) await fetchStatus();
+      return true;
     } catch (error) {
-      console.error('Error checking yesterday progress:', error);
-      return { missedDay: false, completedChallenges: 0, totalChallenges: 0 };
+      console.error('Error updating streak freeze setting:', error);
+      toast.error('Failed to update streak freeze setting');
+      return false;
     }
-  }, [user]);
+  }, [user, fetchStatus]);
 
   return {
-    streakProtections,
+    status,
+    calendar,
     loading,
-    fetchProtections,
+    fetchStatus,
     useStreakFreeze: useStreakFreezeAction,
-    addStreakProtection,
-    checkYesterdayProgress,
+    setAutoFreeze,
   };
 };
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface StudentNote {
+  id: string;
+  content: string;
+  updated_at: string;
+}
+
+export interface NoteRevision {
+  id: string;
+  content: string;
+  is_restore: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+/**
+ * The student's own notes for a todo (the notes row with is_ai_generated =
+ * false), autosaved while typing. Revisions are recorded by a database trigger.
+ */
+export const useStudentNotes = (todoId: string | undefined) => {
+  const { user } = useAuth();
+  const [note, setNote] = useState<StudentNote | null>(null);
+  const [content, setContentState] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+
+  // Latest draft and note id for the debounced save and the unmount flush
+  const pendingContent = useRef<string | null>(null);
+  const noteIdRef = useRef<string | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchNote = useCallback(async () => {
+    if (!user || !todoId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('notes')
+        .select('id, content, updated_at')
+        .eq('todo_id', todoId)
+        .eq('user_id', user.id)
+        .eq('is_ai_generated', false)
+        .maybeSingle();
+
+      if (error) throw error;
+      setNote(data);
+      setContentState(data?.content || '');
+      noteIdRef.current = data?.id || null;
+    } catch (error) {
+      console.error('Error fetching student notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, todoId]);
+
+  useEffect(() => {
+    fetchNote();
+  }, [fetchNote]);
+
+  const flush = useCallback(async () => {
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    const value = pendingContent.current;
+    const noteId = noteIdRef.current;
+    if (value === null || !noteId) return;
+
+    pendingContent.current = null;
+    setSaveStatus('saving');
+    const { data, error } = await supabase
+      .from('notes')
+      .update({ content: value })
+      .eq('id', noteId)
+      .select('id, content, updated_at')
+      .single();
+
+    if (error) {
+      console.error('Error saving notes:', error);
+      // Keep the draft so the next keystroke or flush retries it
+      pendingContent.current ??= value;
+      setSaveStatus('error');
+      return;
+    }
+    setNote(data);
+    setSaveStatus(pendingContent.current === null ? 'saved' : 'saving');
+  }, []);
+
+  useEffect(() => () => {
+    flush();
+  }, [flush]);
+
+  const setContent = useCallback((value: string) => {
+    setContentState(value);
+    pendingContent.current = value;
+    setSaveStatus('saving');
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [flush]);
+
+  const createNote = useCallback(async (videoId: string, initialContent: string): Promise<boolean> => {
+    if (!user || !todoId) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('notes')
+        .insert({
+          user_id: user.id,
+          todo_id: todoId,
+          video_id: videoId,
+          content: initialContent,
+          is_ai_generated: false,
+        })
+        .select('id, content, updated_at')
+        .single();
+
+      if (error) throw error;
+      setNote(data);
+      setContentState(data.content);
+      noteIdRef.current = data.id;
+      setSaveStatus('saved');
+      return true;
+    } catch (error) {
+      console.error('Error creating notes:', error);
+      toast.error('Failed to create your notes');
+      return false;
+    }
+  }, [user, todoId]);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!note) return;
+
+    setRevisionsLoading(true);
+    try {
+      // Make sure the latest keystrokes are part of the history being shown
+      await flush();
+      const { data, error } = await supabase
+        .from('note_revisions')
+        .select('id, content, is_restore, created_at, updated_at')
+        .eq('note_id', note.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRevisions(data || []);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      toast.error('Failed to load revision history');
+    } finally {
+      setRevisionsLoading(false);
+    }
+  }, [note, flush]);
+
+  const restoreRevision = useCallback(async (revision: NoteRevision): Promise<boolean> => {
+    await flush();
+    const { data, error } = await supabase.rpc('restore_note_revision', { p_revision_id: revision.id });
+
+    if (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore this version');
+      return false;
+    }
+
+    setContentState(data);
+    setSaveStatus('saved');
+    await fetchRevisions();
+    return true;
+  }, [flush, fetchRevisions]);
+
+  return {
+    note,
+    content,
+    loading,
+    saveStatus,
+    setContent,
+    saveNow: flush,
+    createNote,
+    revisions,
+    revisionsLoading,
+    fetchRevisions,
+    restoreRevision,
+  };
+};
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { addDays, format, parseISO, subWeeks } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchLocalDay } from '@/lib/timezone';
+
+export type StudyActivityType = 'video' | 'quiz' | 'notes';
+
+export interface StudyDay {
+  date: string;
+  videoSeconds: number;
+  quizSeconds: number;
+  notesSeconds: number;
+  totalSeconds: number;
+  sessionCount: number;
+}
+
+export interface StudySession {
+  id: string;
+  activity: StudyActivityType;
+  todoId: string | null;
+  todoTitle: string | null;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+}
+
+export const HEATMAP_WEEKS = 53;
+
+const emptyDay = (date: string): StudyDay => ({
+  date,
+  videoSeconds: 0,
+  quizSeconds: 0,
+  notesSeconds: 0,
+  totalSeconds: 0,
+  sessionCount: 0,
+});
+
+export const useStudyActivity = () => {
+  const { user } = useAuth();
+  const [days, setDays] = useState<StudyDay[]>([]);
+  const [today, setToday] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchActivity = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // A full year of Monday-aligned weeks, ending with the student's current week
+      const { localDate, weekStart } = await fetchLocalDay();
+      const start = subWeeks(parseISO(weekStart), HEATMAP_WEEKS - 1);
+      const from = format(start, 'yyyy-MM-dd');
+
+      const { data, error } = await supabase.rpc('get_study_activity', { p_from: from, p_to: localDate });
+      if (error) throw error;
+
+      const byDate = new Map((data || []).map(row => [row.day, row]));
+      setDays(Array.from({ length: HEATMAP_WEEKS * 7 }, (_, i) => {
+        const date = format(addDays(start, i), 'yyyy-MM-dd');
+        const row = byDate.get(date);
+        if (!row) return emptyDay(date);
+        return {
+          date,
+          videoSeconds: row.video_seconds,
+          quizSeconds: row.quiz_seconds,
+          notesSeconds: row.notes_seconds,
+          totalSeconds: row.video_seconds + row.quiz_seconds + row.notes_seconds,
+          sessionCount: row.session_count,
+        };
+      }));
+      setToday(localDate);
+    } catch (error) {
+      console.error('Error fetching study activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const fetchDaySessions = useCallback(async (date: string): Promise<StudySession[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('study_sessions')
+        .select('id, activity, todo_id, started_at, ended_at, duration_seconds, todo:todos(title)')
+        .eq('user_id', user.id)
+        .eq('local_date', date)
+        .gt('duration_seconds', 0)
+        .order('started_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(s => ({
+        id: s.id,
+        activity: s.activity as StudyActivityType,
+        todoId: s.todo_id,
+        todoTitle: s.todo?.title ?? null,
+        startedAt: s.started_at,
+        endedAt: s.ended_at,
+        durationSeconds: s.duration_seconds,
+      }));
+    } catch (error) {
+      console.error('Error fetching study sessions:', error);
+      return [];
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  return { days, today, loading, refetch: fetchActivity, fetchDaySessions };
+};
+
+export const formatStudyDuration = (seconds: number) => {
+  const minutes = seconds > 0 ? Math.max(1, Math.round(seconds / 60)) : 0;
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
@@ -10,6 +10,7 @@ export interface StudyReminder {
   days_of_week: number[];
   is_enabled: boolean;
   message: string;
+  last_sent_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -66,10 +67,6 @@ export const useStudyReminders = () => {
 
       setReminders(prev => [...prev, data as StudyReminder]);
       toast.success('Reminder created!');
-      
-      // Request notification permission
-      requestNotificationPermission();
-      
       return true;
     } catch (error) {
       console.error('Error creating reminder:', error);
@@ -138,31 +135,6 @@ export const useStudyReminders = () => {
     fetchReminders();
   }, [fetchReminders]);
 
-  // Check for active reminders and show notifications
-  useEffect(() => {
-    if (reminders.length === 0) return;
-
-    const checkReminders = () => {
-      const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-      const currentDay = now.getDay();
-
-      reminders.forEach(reminder => {
-        if (!reminder.is_enabled) return;
-        if (!reminder.days_of_week.includes(currentDay)) return;
-        
-        // Check if time matches (within the same minute)
-        if (reminder.reminder_time.startsWith(currentTime)) {
-          showNotification(reminder.message);
-        }
-      });
-    };
-
-    const interval = setInterval(checkReminders, 60000); // Check every minute
-    
-    return () => clearInterval(interval);
-  }, [reminders]);
-
   return {
     reminders,
     loading,
@@ -174,30 +146,6 @@ export const useStudyReminders = () => {
   };
 };
 
-const requestNotificationPermission = async () => {
-  if (!('Notification' in window)) return;
-  
-  if (Notification.permission === 'default') {
-    await Notification.requestPermission();
-  }
-};
-
-const showNotification = (message: string) => {
-  if (!('Notification' in window)) {
-    toast.info(message);
-    return;
-  }
-
-  if (Notification.permission === 'granted') {
-    new Notification('EduRank Study Reminder', {
-      body: message,
-      icon: '/favicon.ico',
-    });
-  } else {
-    toast.info(message);
-  }
-};
-
 export const formatDaysOfWeek = (days: number[]): string => {
   if (days.length === 7) return 'Every day';
   if (days.length === 5 && !days.includes(0) && !days.includes(6)) return 'Weekdays';
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type TimedStudyActivity = 'video' | 'notes';
+
+const HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Records study time for one visit to a video or notes page. Time counts
+ * while `active` is true and the tab is visible, and is reported to
+ * record_study_time every 30 seconds and when the student leaves.
+ */
+export const useStudyTimer = (activity: TimedStudyActivity, todoId: string | undefined, active: boolean) => {
+  const { user } = useAuth();
+  const sessionId = useRef<string>(crypto.randomUUID());
+  const activeSince = useRef<number | null>(null);
+  const unsentMs = useRef(0);
+  const activeRef = useRef(active);
+  const updateActiveRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    activeRef.current = active;
+    updateActiveRef.current();
+  }, [active]);
+
+  useEffect(() => {
+    if (!user || !todoId) return;
+
+    // Each visit is its own session
+    sessionId.current = crypto.randomUUID();
+    unsentMs.current = 0;
+
+    const collect = () => {
+      if (activeSince.current !== null) {
+        const now = Date.now();
+        unsentMs.current += now - activeSince.current;
+        activeSince.current = now;
+      }
+    };
+
+    const flush = () => {
+      collect();
+      const seconds = Math.floor(unsentMs.current / 1000);
+      if (seconds <= 0) return;
+
+      unsentMs.current -= seconds * 1000;
+      supabase
+        .rpc('record_study_time', {
+          p_session_id: sessionId.current,
+          p_activity: activity,
+          p_todo_id: todoId,
+          p_seconds: seconds,
+        })
+        .then(({ error }) => {
+          if (error) console.error('Error recording study time:', error);
+        });
+    };
+
+    const updateActive = () => {
+      const counting = activeRef.current && document.visibilityState === 'visible';
+      if (counting && activeSince.current === null) {
+        activeSince.current = Date.now();
+      } else if (!counting && activeSince.current !== null) {
+        collect();
+        activeSince.current = null;
+        flush();
+      }
+    };
+
+    updateActiveRef.current = updateActive;
+    updateActive();
+    document.addEventListener('visibilitychange', updateActive);
+    const interval = setInterval(flush, HEARTBEAT_MS);
+
+    return () => {
+      updateActiveRef.current = () => {};
+      document.removeEventListener('visibilitychange', updateActive);
+      clearInterval(interval);
+      flush();
+      activeSince.current = null;
+    };
+  }, [user, activity, todoId]);
+};
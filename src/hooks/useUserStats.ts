@@ -8,6 +8,8 @@ interface UserStats {
   streakProtections: number;
   currentStreak: number;
   longestStreak: number;
+  /** Missed days the student can still cover with shields */
+  missedDays: number;
   level: number;
   xpToNextLevel: number;
   xpProgress: number;
@@ -49,22 +51,16 @@ export const useUserStats = () => {
       // Fetch profile data
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
-        .select('total_xp, xp_multiplier, streak_protections')
+        .select('total_xp, xp_multiplier')
         .eq('user_id', user.id)
         .maybeSingle();
 
       if (profileError) throw profileError;
 
-      // Fetch leaderboard stats for streak info
-      const { data: leaderboardData, error: leaderboardError } = await supabase
-        .from('leaderboard_stats')
-        .select('current_streak, longest_streak')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (leaderboardError && leaderboardError.code !== 'PGRST116') {
-        throw leaderboardError;
-      }
+      // Streak and shields come from the server, which settles missed days first
+      const { data: streakData, error: streakError } = await supabase.rpc('get_streak_status');
+      if (streakError) throw streakError;
+      const streak = streakData?.[0];
 
       const totalXp = profileData?.total_xp || 0;
       const { level, xpInCurrentLevel, xpToNextLevel } = getLevelFromXp(totalXp);
@@ -72,9 +68,10 @@ export const useUserStats = () => {
       setStats({
         totalXp,
         xpMultiplier: profileData?.xp_multiplier || 1,
-        streakProtections: profileData?.streak_protections || 0,
-        currentStreak: leaderboardData?.current_streak || 0,
-        longestStreak: leaderboardData?.longest_streak || 0,
+        streakProtections: streak?.streak_protections || 0,
+        currentStreak: streak?.current_streak || 0,
+        longestStreak: streak?.longest_streak || 0,
+        missedDays: streak?.missed_days || 0,
         level,
         xpToNextLevel,
         xpProgress: (xpInCurrentLevel / xpToNextLevel) * 100,
@@ -87,19 +84,15 @@ export const useUserStats = () => {
   };
 
   const useStreakProtection = async (): Promise<boolean> => {
-    if (!user || !stats || stats.streakProtections <= 0) {
+    if (!user || !stats || stats.missedDays <= 0 || stats.streakProtections < stats.missedDays) {
       return false;
     }
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ streak_protections: stats.streakProtections - 1 })
-        .eq('user_id', user.id);
-
+      const { data: remaining, error } = await supabase.rpc('use_streak_freeze');
       if (error) throw error;
 
-      setStats(prev => prev ? { ...prev, streakProtections: prev.streakProtections - 1 } : null);
+      setStats(prev => prev ? { ...prev, streakProtections: remaining, missedDays: 0 } : null);
       return true;
     } catch (error) {
       console.error('Error using streak protection:', error);
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { showFunctionError } from '@/lib/functionErrors';
+
+export interface CheckpointQuestion {
+  id: number;
+  difficulty?: string;
+  question: string;
+  options: string[];
+}
+
+export interface VideoCheckpoint {
+  id: string;
+  title: string;
+  pauseAtSeconds: number;
+  rewindToSeconds: number;
+  questions: CheckpointQuestion[];
+}
+
+export interface CheckpointFeedback {
+  isCorrect: boolean;
+  correctAnswer: number;
+  explanation: string | null;
+  rewindToSeconds: number;
+}
+
+/**
+ * Checkpoint questions for a task's video. They are generated from the
+ * chapters of its AI notes, so nothing loads until `hasNotes` is true.
+ */
+export const useVideoCheckpoints = (todoId: string | undefined, hasNotes: boolean) => {
+  const [checkpoints, setCheckpoints] = useState<VideoCheckpoint[]>([]);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!todoId || !hasNotes) return;
+
+    let cancelled = false;
+    supabase.functions
+      .invoke('generate-checkpoints', { body: { todoId, existingOnly: true } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching checkpoints:', error);
+          return;
+        }
+        setCheckpoints(data?.checkpoints || []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [todoId, hasNotes]);
+
+  const generateCheckpoints = useCallback(async (): Promise<boolean> => {
+    if (!todoId) return false;
+
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-checkpoints', {
+        body: { todoId },
+      });
+      if (error) throw error;
+
+      setCheckpoints(data?.checkpoints || []);
+      toast.success(`The video will pause for ${data?.checkpoints?.length ?? 0} quick checks`);
+      return true;
+    } catch (error) {
+      console.error('Error generating checkpoints:', error);
+      await showFunctionError(error, 'Failed to create checkpoint questions');
+      return false;
+    } finally {
+      setGenerating(false);
+    }
+  }, [todoId]);
+
+  const submitAnswer = useCallback(async (
+    checkpointId: string,
+    questionId: number,
+    selectedAnswer: number,
+    timeTakenSeconds: number
+  ): Promise<CheckpointFeedback | null> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('submit-checkpoint-answer', {
+        body: { checkpointId, questionId, selectedAnswer, timeTakenSeconds },
+      });
+      if (error) throw error;
+      return data as CheckpointFeedback;
+    } catch (error) {
+      console.error('Error submitting checkpoint answer:', error);
+      toast.error('Failed to check your answer');
+      return null;
+    }
+  }, []);
+
+  return { checkpoints, generating, generateCheckpoints, submitAnswer };
+};
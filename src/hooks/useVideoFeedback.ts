@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useFilters } from '@/contexts/FilterContext';
+import { showFunctionError } from '@/lib/functionErrors';
+
+// Matches the reasons flag-video accepts
+export const VIDEO_FLAG_REASONS = {
+  off_topic: 'Off-topic',
+  poor_quality: 'Poor quality',
+  wrong_language: 'Wrong language',
+  broken: "Doesn't play",
+} as const;
+
+export type VideoFlagReason = keyof typeof VIDEO_FLAG_REASONS;
+
+/** 1 for thumbs up, -1 for thumbs down */
+export type VideoRating = 1 | -1;
+
+export interface VideoReplacement {
+  /** null when the task's main video was replaced */
+  subtaskVideoId: string | null;
+  videoId: string;
+  title: string;
+  channel: string;
+  engagementScore: number;
+  reason: string;
+}
+
+/**
+ * The student's thumbs up or down and flag for one video in a task's plan.
+ * Ratings are saved directly; flagging goes through flag-video, which swaps
+ * the video out of the plan for one matching the current filters and returns
+ * what replaced it.
+ */
+export const useVideoFeedback = (videoId: string | null | undefined, todoId: string | undefined) => {
+  const { user } = useAuth();
+  const { filters } = useFilters();
+  const [rating, setRating] = useState<VideoRating | null>(null);
+  const [flagReason, setFlagReason] = useState<VideoFlagReason | null>(null);
+  const [flagging, setFlagging] = useState(false);
+
+  useEffect(() => {
+    setRating(null);
+    setFlagReason(null);
+    if (!user || !videoId) return;
+
+    let cancelled = false;
+    supabase
+      .from('video_feedback')
+      .select('rating, flag_reason')
+      .eq('user_id', user.id)
+      .eq('video_id', videoId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching video feedback:', error);
+          return;
+        }
+        setRating((data?.rating as VideoRating | null) ?? null);
+        setFlagReason((data?.flag_reason as VideoFlagReason | null) ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, videoId]);
+
+  /** Picking the current rating again clears it */
+  const rate = useCallback(async (value: VideoRating): Promise<boolean> => {
+    if (!user || !videoId) return false;
+
+    const previous = rating;
+    const next = previous === value ? null : value;
+    setRating(next);
+
+    const { error } = await supabase
+      .from('video_feedback')
+      .upsert(
+        { user_id: user.id, video_id: videoId, todo_id: todoId ?? null, rating: next },
+        { onConflict: 'user_id,video_id' }
+      );
+
+    if (error) {
+      console.error('Error saving video rating:', error);
+      setRating(previous);
+      toast.error('Failed to save your rating');
+      return false;
+    }
+    return true;
+  }, [user, videoId, todoId, rating]);
+
+  const flagVideo = useCallback(async (reason: VideoFlagReason): Promise<VideoReplacement[] | null> => {
+    if (!videoId || !todoId) return null;
+
+    setFlagging(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('flag-video', {
+        body: {
+          videoId,
+          todoId,
+          reason,
+          classLevel: filters.class,
+          subject: filters.subject,
+          board: filters.board,
+          language: filters.language,
+          videoType: filters.videoType,
+          videoDuration: filters.videoDuration,
+        },
+      });
+      if (error) throw error;
+
+      setFlagReason(reason);
+      const replacements: VideoReplacement[] = data?.replacements || [];
+      if (replacements.length > 0) {
+        toast.success(`Thanks for the report. We swapped in "${replacements[0].title}"`);
+      } else if (data?.keptMainVideo) {
+        toast.success("Thanks for the report. Your notes follow this video, so it stays, but we won't suggest it again");
+      } else {
+        toast.success("Thanks for the report. We couldn't find another video yet, but we won't suggest this one again");
+      }
+      return replacements;
+    } catch (error) {
+      console.error('Error flagging video:', error);
+      await showFunctionError(error, 'Failed to report the video');
+      return null;
+    } finally {
+      setFlagging(false);
+    }
+  }, [videoId, todoId, filters]);
+
+  return { rating, flagReason, flagging, rate, flagVideo };
+};
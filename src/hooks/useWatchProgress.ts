@@ -0,0 +1,181 @@
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  WatchSegment,
+  mergeWatchSegments,
+  subtractWatchSegments,
+  toWatchSegments,
+  watchedSeconds,
+} from '@/lib/watchSegments';
+import { MediaPlayerHandle, PLAYER_STATE } from '@/lib/mediaPlayer';
+
+const SAMPLE_MS = 1000;
+const REPORT_MS = 15 * 1000;
+// YouTube's fastest speed; record_video_watch caps credit at the same rate
+const MAX_COUNTED_RATE = 2;
+// Allowance for timer jitter before a jump in the playhead counts as a seek
+const SEEK_TOLERANCE_SECONDS = 1;
+
+const percentOf = (segments: WatchSegment[], duration: number) =>
+  duration > 0 ? Math.min(100, (watchedSeconds(segments) / duration) * 100) : 0;
+
+/**
+ * Tracks which parts of a task's video the student has actually watched.
+ * The playhead is sampled every second; playback that moved no further than
+ * the wall clock and playback speed allow becomes a watched range, while
+ * seeks, paused playback and hidden tabs add nothing. Ranges are reported
+ * to record_video_watch, which owns completion and the completion XP.
+ */
+export const useWatchProgress = (
+  player: MediaPlayerHandle | null,
+  todoId: string | undefined,
+  videoId: string | null | undefined,
+  tracking: boolean
+) => {
+  const { user } = useAuth();
+  const [segments, setSegments] = useState<WatchSegment[]>([]);
+  const [duration, setDuration] = useState(0);
+  const [savedPercent, setSavedPercent] = useState<number | null>(null);
+  const [completed, setCompleted] = useState(false);
+
+  const saved = useRef<WatchSegment[]>([]);
+  const visit = useRef<WatchSegment[]>([]);
+  const durationRef = useRef(0);
+  const position = useRef(0);
+  const lastSample = useRef<{ time: number; at: number } | null>(null);
+  const unsent = useRef(false);
+
+  useEffect(() => {
+    if (!user || !todoId || !videoId) return;
+
+    saved.current = [];
+    visit.current = [];
+    setSegments([]);
+    setSavedPercent(null);
+    setCompleted(false);
+
+    let cancelled = false;
+    supabase
+      .from('video_progress')
+      .select('video_id, watched_segments, duration_seconds, progress_percent, completed')
+      .eq('todo_id', todoId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error fetching video progress:', error);
+
+        if (data && data.video_id === videoId) {
+          saved.current = toWatchSegments(data.watched_segments);
+          durationRef.current = data.duration_seconds ?? durationRef.current;
+          setSegments(mergeWatchSegments([...saved.current, ...visit.current]));
+          setDuration(durationRef.current);
+          setCompleted(data.completed);
+          setSavedPercent(data.progress_percent);
+        } else {
+          setSavedPercent(0);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, todoId, videoId]);
+
+  useEffect(() => {
+    if (!user || !player || !todoId || !videoId || !tracking) return;
+
+    const report = async () => {
+      if (!unsent.current || durationRef.current <= 0) return;
+      unsent.current = false;
+
+      // Everything played since the last accepted report is sent; the server
+      // merges it, so a lost report is simply covered by the next one
+      const sent = visit.current;
+      const { data, error } = await supabase.rpc('record_video_watch', {
+        p_todo_id: todoId,
+        p_video_id: videoId,
+        p_segments: sent,
+        p_duration_seconds: durationRef.current,
+        p_position_seconds: position.current,
+      });
+
+      if (error) {
+        unsent.current = true;
+        console.error('Error recording watch progress:', error);
+        return;
+      }
+
+      const result = data?.[0];
+      if (!result) return;
+      // The server keeps only as much new coverage as the time since its last
+      // report allows. Its ranges replace what was sent, so anything it
+      // dropped isn't resent and pushed over the cap again next time.
+      saved.current = toWatchSegments(result.watched_segments);
+      visit.current = subtractWatchSegments(visit.current, sent);
+      setSegments(mergeWatchSegments([...saved.current, ...visit.current]));
+      setCompleted(result.completed);
+      if (result.xp_awarded > 0) {
+        toast.success(`Video completed! +${result.xp_awarded} XP`);
+      }
+    };
+
+    const sample = () => {
+      const counting = document.visibilityState === 'visible' && player.getPlayerState() === PLAYER_STATE.PLAYING;
+      if (!counting) {
+        // Report as soon as playback stops rather than waiting for the next interval
+        if (lastSample.current) report();
+        lastSample.current = null;
+        return;
+      }
+
+      const at = performance.now();
+      const time: number = player.getCurrentTime();
+      const rate: number = player.getPlaybackRate();
+      const total: number = player.getDuration();
+      const previous = lastSample.current;
+      lastSample.current = { time, at };
+      position.current = time;
+      if (total > 0 && total !== durationRef.current) {
+        durationRef.current = total;
+        setDuration(total);
+      }
+
+      if (!previous || rate > MAX_COUNTED_RATE) return;
+      const advanced = time - previous.time;
+      const expected = ((at - previous.at) / 1000) * rate;
+      if (advanced <= 0 || advanced > expected + SEEK_TOLERANCE_SECONDS) return;
+
+      visit.current = mergeWatchSegments([...visit.current, [previous.time, time]]);
+      unsent.current = true;
+      setSegments(mergeWatchSegments([...saved.current, ...visit.current]));
+    };
+
+    const handleVisibilityChange = () => {
+      lastSample.current = null;
+      if (document.visibilityState === 'hidden') report();
+    };
+
+    const sampleInterval = setInterval(sample, SAMPLE_MS);
+    const reportInterval = setInterval(report, REPORT_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(sampleInterval);
+      clearInterval(reportInterval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      lastSample.current = null;
+      report();
+    };
+  }, [user, player, todoId, videoId, tracking]);
+
+  return {
+    segments,
+    duration,
+    watchedPercent: percentOf(segments, duration),
+    /** Progress stored before this visit, null until loaded */
+    savedPercent,
+    completed,
+  };
+};
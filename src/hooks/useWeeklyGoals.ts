@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { fetchLocalDay } from '@/lib/timezone';
 import { toast } from 'sonner';
 
 export type GoalType = 'quizzes' | 'questions' | 'topics' | 'study_time' | 'accuracy';
@@ -26,13 +27,8 @@ export interface WeeklyStreak {
   total_weeks_completed: number;
 }
 
-const getWeekStart = (date: Date = new Date()): string => {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust for Monday start
-  const monday = new Date(d.setDate(diff));
-  return monday.toISOString().split('T')[0];
-};
+// Weeks are counted in the student's timezone, the same way the server credits quizzes
+const getWeekStart = async (): Promise<string> => (await fetchLocalDay()).weekStart;
 
 export const useWeeklyGoals = () => {
   const { user } = useAuth();
@@ -47,7 +43,7 @@ export const useWeeklyGoals = () => {
     }
 
     try {
-      const weekStart = getWeekStart();
+      const weekStart = await getWeekStart();
       
       // Fetch current week's goals
       const { data: goalsData, error: goalsError } = await supabase
@@ -80,7 +76,7 @@ export const useWeeklyGoals = () => {
     if (!user) return false;
 
     try {
-      const weekStart = getWeekStart();
+      const weekStart = await getWeekStart();
       const xpReward = calculateXpReward(goalType, targetValue);
 
       const { data, error } = await supabase
@@ -178,9 +174,8 @@ export const useWeeklyGoals = () => {
   const updateWeeklyStreak = async () => {
     if (!user) return;
 
-    const weekStart = getWeekStart();
-    
     try {
+      const weekStart = await getWeekStart();
       const currentStreak = streak?.current_week_streak || 0;
       const newStreak = currentStreak + 1;
       const longestStreak = Math.max(streak?.longest_week_streak || 0, newStreak);
@@ -110,7 +110,12 @@ export async function findVideoWithBytez(
     const { data, error } = await supabase.functions.invoke('find-video', {
       body: {
         topic,
-        filters
+        classLevel: filters.class,
+        subject: filters.subject,
+        board: filters.board,
+        language: filters.language,
+        videoType: filters.videoType,
+        videoDuration: filters.videoDuration,
       }
     });
 
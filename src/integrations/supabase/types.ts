@@ -109,6 +109,90 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          depends_on: string | null
+          error_code: string | null
+          error_message: string | null
+          id: string
+          kind: string
+          max_attempts: number
+          payload: Json
+          progress: number
+          progress_message: string | null
+          result: Json | null
+          run_after: string
+          started_at: string | null
+          status: string
+          title: string | null
+          todo_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          depends_on?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          kind: string
+          max_attempts?: number
+          payload?: Json
+          progress?: number
+          progress_message?: string | null
+          result?: Json | null
+          run_after?: string
+          started_at?: string | null
+          status?: string
+          title?: string | null
+          todo_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          depends_on?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          kind?: string
+          max_attempts?: number
+          payload?: Json
+          progress?: number
+          progress_message?: string | null
+          result?: Json | null
+          run_after?: string
+          started_at?: string | null
+          status?: string
+          title?: string | null
+          todo_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_jobs_depends_on_fkey"
+            columns: ["depends_on"]
+            isOneToOne: false
+            referencedRelation: "ai_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_jobs_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       call_signals: {
         Row: {
           callee_id: string
@@ -175,6 +259,94 @@ export type Database = {
         }
         Relationships: []
       }
+      flashcards: {
+        Row: {
+          back: string
+          created_at: string
+          due_at: string
+          ease_factor: number
+          front: string
+          id: string
+          interval_days: number
+          lapses: number
+          last_rating: string | null
+          last_reviewed_at: string | null
+          note_id: string | null
+          order_index: number
+          repetitions: number
+          review_count: number
+          todo_id: string
+          topic_id: string | null
+          topic_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          back: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          front: string
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_rating?: string | null
+          last_reviewed_at?: string | null
+          note_id?: string | null
+          order_index?: number
+          repetitions?: number
+          review_count?: number
+          todo_id: string
+          topic_id?: string | null
+          topic_name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          back?: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          front?: string
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_rating?: string | null
+          last_reviewed_at?: string | null
+          note_id?: string | null
+          order_index?: number
+          repetitions?: number
+          review_count?: number
+          todo_id?: string
+          topic_id?: string | null
+          topic_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcards_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flashcards_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flashcards_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       friend_invite_codes: {
         Row: {
           code: string
@@ -318,6 +490,54 @@ export type Database = {
         }
         Relationships: []
       }
+      lecture_videos: {
+        Row: {
+          channel: string | null
+          created_at: string
+          description: string | null
+          duration_seconds: number | null
+          id: string
+          language: string | null
+          search_vector: unknown
+          source_url: string | null
+          storage_path: string | null
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel?: string | null
+          created_at?: string
+          description?: string | null
+          duration_seconds?: number | null
+          id?: string
+          language?: string | null
+          search_vector?: unknown
+          source_url?: string | null
+          storage_path?: string | null
+          thumbnail_url?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string | null
+          created_at?: string
+          description?: string | null
+          duration_seconds?: number | null
+          id?: string
+          language?: string | null
+          search_vector?: unknown
+          source_url?: string | null
+          storage_path?: string | null
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           content: string | null
@@ -351,13 +571,95 @@ export type Database = {
         }
         Relationships: []
       }
+      note_annotations: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          timestamp_seconds: number
+          todo_id: string
+          updated_at: string
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          timestamp_seconds: number
+          todo_id: string
+          updated_at?: string
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          timestamp_seconds?: number
+          todo_id?: string
+          updated_at?: string
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_annotations_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          is_restore: boolean
+          note_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          is_restore?: boolean
+          note_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          is_restore?: boolean
+          note_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
           content: string
           created_at: string
+          document: Json | null
           id: string
           is_ai_generated: boolean
+          sections: Json
           todo_id: string
+          transcript_source: string | null
           updated_at: string
           user_id: string
           video_id: string
@@ -365,9 +667,12 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          document?: Json | null
           id?: string
           is_ai_generated?: boolean
+          sections?: Json
           todo_id: string
+          transcript_source?: string | null
           updated_at?: string
           user_id: string
           video_id: string
@@ -375,9 +680,12 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          document?: Json | null
           id?: string
           is_ai_generated?: boolean
+          sections?: Json
           todo_id?: string
+          transcript_source?: string | null
           updated_at?: string
           user_id?: string
           video_id?: string
@@ -437,50 +745,112 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_success_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_success_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_success_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       question_attempts: {
         Row: {
           attempt_number: number
+          checkpoint_id: string | null
           created_at: string
           difficulty_level: string
           id: string
           is_correct: boolean
+          question_id: number | null
           question_text: string
-          quiz_id: string
+          quiz_attempt_id: string | null
+          quiz_id: string | null
+          selected_answer: number | null
           time_taken_seconds: number
           todo_id: string
           topic_id: string | null
           user_id: string
           video_id: string
+          video_timestamp_seconds: number | null
         }
         Insert: {
           attempt_number?: number
+          checkpoint_id?: string | null
           created_at?: string
           difficulty_level?: string
           id?: string
           is_correct: boolean
+          question_id?: number | null
           question_text: string
-          quiz_id: string
+          quiz_attempt_id?: string | null
+          quiz_id?: string | null
+          selected_answer?: number | null
           time_taken_seconds?: number
           todo_id: string
           topic_id?: string | null
           user_id: string
           video_id: string
+          video_timestamp_seconds?: number | null
         }
         Update: {
           attempt_number?: number
+          checkpoint_id?: string | null
           created_at?: string
           difficulty_level?: string
           id?: string
           is_correct?: boolean
+          question_id?: number | null
           question_text?: string
-          quiz_id?: string
+          quiz_attempt_id?: string | null
+          quiz_id?: string | null
+          selected_answer?: number | null
           time_taken_seconds?: number
           todo_id?: string
           topic_id?: string | null
           user_id?: string
           video_id?: string
+          video_timestamp_seconds?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "question_attempts_checkpoint_id_fkey"
+            columns: ["checkpoint_id"]
+            isOneToOne: false
+            referencedRelation: "video_checkpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_attempts_quiz_attempt_id_fkey"
+            columns: ["quiz_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "question_attempts_quiz_id_fkey"
             columns: ["quiz_id"]
@@ -504,6 +874,64 @@ export type Database = {
           },
         ]
       }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          completed_at: string | null
+          id: string
+          quiz_id: string
+          quiz_result_id: string | null
+          started_at: string
+          status: string
+          todo_id: string
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          completed_at?: string | null
+          id?: string
+          quiz_id: string
+          quiz_result_id?: string | null
+          started_at?: string
+          status?: string
+          todo_id: string
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          completed_at?: string | null
+          id?: string
+          quiz_id?: string
+          quiz_result_id?: string | null
+          started_at?: string
+          status?: string
+          todo_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_quiz_result_id_fkey"
+            columns: ["quiz_result_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_results: {
         Row: {
           answers: Json
@@ -559,6 +987,7 @@ export type Database = {
       }
       quizzes: {
         Row: {
+          adaptive_questions: Json
           created_at: string
           id: string
           questions: Json
@@ -567,6 +996,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          adaptive_questions?: Json
           created_at?: string
           id?: string
           questions?: Json
@@ -575,6 +1005,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          adaptive_questions?: Json
           created_at?: string
           id?: string
           questions?: Json
@@ -642,27 +1073,148 @@ export type Database = {
           todo_id?: string | null
           topic_id?: string
           user_id?: string
-          video_channel?: string | null
-          video_id?: string | null
-          video_title?: string | null
-          weakness_score?: number | null
+          video_channel?: string | null
+          video_id?: string | null
+          video_title?: string | null
+          weakness_score?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recommendation_queue_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recommendation_queue_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_items: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_quality: number | null
+          last_reviewed_at: string | null
+          question: Json
+          question_id: number
+          quiz_id: string
+          repetitions: number
+          review_count: number
+          todo_id: string
+          topic_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_quality?: number | null
+          last_reviewed_at?: string | null
+          question: Json
+          question_id: number
+          quiz_id: string
+          repetitions?: number
+          review_count?: number
+          todo_id: string
+          topic_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_quality?: number | null
+          last_reviewed_at?: string | null
+          question?: Json
+          question_id?: number
+          quiz_id?: string
+          repetitions?: number
+          review_count?: number
+          todo_id?: string
+          topic_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_roles: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      streak_days: {
+        Row: {
+          created_at: string
+          day: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          day: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          day?: string
+          status?: string
+          user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "recommendation_queue_todo_id_fkey"
-            columns: ["todo_id"]
-            isOneToOne: false
-            referencedRelation: "todos"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "recommendation_queue_topic_id_fkey"
-            columns: ["topic_id"]
-            isOneToOne: false
-            referencedRelation: "topics"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       study_reminders: {
         Row: {
@@ -670,6 +1222,7 @@ export type Database = {
           days_of_week: number[]
           id: string
           is_enabled: boolean
+          last_sent_at: string | null
           message: string | null
           reminder_time: string
           updated_at: string
@@ -680,6 +1233,7 @@ export type Database = {
           days_of_week?: number[]
           id?: string
           is_enabled?: boolean
+          last_sent_at?: string | null
           message?: string | null
           reminder_time: string
           updated_at?: string
@@ -690,6 +1244,7 @@ export type Database = {
           days_of_week?: number[]
           id?: string
           is_enabled?: boolean
+          last_sent_at?: string | null
           message?: string | null
           reminder_time?: string
           updated_at?: string
@@ -697,6 +1252,50 @@ export type Database = {
         }
         Relationships: []
       }
+      study_sessions: {
+        Row: {
+          activity: string
+          created_at: string
+          duration_seconds: number
+          ended_at: string
+          id: string
+          local_date: string
+          started_at: string
+          todo_id: string | null
+          user_id: string
+        }
+        Insert: {
+          activity: string
+          created_at?: string
+          duration_seconds?: number
+          ended_at?: string
+          id?: string
+          local_date: string
+          started_at?: string
+          todo_id?: string | null
+          user_id: string
+        }
+        Update: {
+          activity?: string
+          created_at?: string
+          duration_seconds?: number
+          ended_at?: string
+          id?: string
+          local_date?: string
+          started_at?: string
+          todo_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_sessions_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subtask_videos: {
         Row: {
           channel: string
@@ -784,35 +1383,50 @@ export type Database = {
       }
       todos: {
         Row: {
+          board: string | null
+          class_level: string | null
           completed: boolean
           created_at: string
           description: string | null
           id: string
+          request_id: string | null
+          subject: string | null
           title: string
           updated_at: string
           user_id: string
+          video_duration_seconds: number | null
           video_id: string | null
           video_url: string | null
         }
         Insert: {
+          board?: string | null
+          class_level?: string | null
           completed?: boolean
           created_at?: string
           description?: string | null
           id?: string
+          request_id?: string | null
+          subject?: string | null
           title: string
           updated_at?: string
           user_id: string
+          video_duration_seconds?: number | null
           video_id?: string | null
           video_url?: string | null
         }
         Update: {
+          board?: string | null
+          class_level?: string | null
           completed?: boolean
           created_at?: string
           description?: string | null
           id?: string
+          request_id?: string | null
+          subject?: string | null
           title?: string
           updated_at?: string
           user_id?: string
+          video_duration_seconds?: number | null
           video_id?: string | null
           video_url?: string | null
         }
@@ -1016,6 +1630,54 @@ export type Database = {
           },
         ]
       }
+      user_preferences: {
+        Row: {
+          auto_streak_freeze: boolean
+          created_at: string
+          digest_time: string
+          email_digest_enabled: boolean
+          last_digest_on: string | null
+          push_enabled: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          reminders_snoozed_until: string | null
+          timezone: string
+          timezone_auto: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_streak_freeze?: boolean
+          created_at?: string
+          digest_time?: string
+          email_digest_enabled?: boolean
+          last_digest_on?: string | null
+          push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          reminders_snoozed_until?: string | null
+          timezone?: string
+          timezone_auto?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_streak_freeze?: boolean
+          created_at?: string
+          digest_time?: string
+          email_digest_enabled?: boolean
+          last_digest_on?: string | null
+          push_enabled?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          reminders_snoozed_until?: string | null
+          timezone?: string
+          timezone_auto?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_rewards: {
         Row: {
           achievement_id: string
@@ -1125,10 +1787,103 @@ export type Database = {
           },
         ]
       }
+      video_checkpoints: {
+        Row: {
+          created_at: string
+          id: string
+          pause_at_seconds: number
+          questions: Json
+          rewind_to_seconds: number
+          section_index: number
+          title: string
+          todo_id: string
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          pause_at_seconds: number
+          questions?: Json
+          rewind_to_seconds: number
+          section_index: number
+          title: string
+          todo_id: string
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          pause_at_seconds?: number
+          questions?: Json
+          rewind_to_seconds?: number
+          section_index?: number
+          title?: string
+          todo_id?: string
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_checkpoints_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_feedback: {
+        Row: {
+          created_at: string
+          flag_reason: string | null
+          flagged_at: string | null
+          id: string
+          rating: number | null
+          todo_id: string | null
+          updated_at: string
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          flag_reason?: string | null
+          flagged_at?: string | null
+          id?: string
+          rating?: number | null
+          todo_id?: string | null
+          updated_at?: string
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          flag_reason?: string | null
+          flagged_at?: string | null
+          id?: string
+          rating?: number | null
+          todo_id?: string | null
+          updated_at?: string
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_feedback_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_progress: {
         Row: {
           completed: boolean
+          completed_at: string | null
           created_at: string
+          duration_seconds: number | null
           id: string
           last_position_seconds: number
           progress_percent: number
@@ -1136,10 +1891,14 @@ export type Database = {
           updated_at: string
           user_id: string
           video_id: string
+          watched_seconds: number
+          watched_segments: Json
         }
         Insert: {
           completed?: boolean
+          completed_at?: string | null
           created_at?: string
+          duration_seconds?: number | null
           id?: string
           last_position_seconds?: number
           progress_percent?: number
@@ -1147,10 +1906,14 @@ export type Database = {
           updated_at?: string
           user_id: string
           video_id: string
+          watched_seconds?: number
+          watched_segments?: Json
         }
         Update: {
           completed?: boolean
+          completed_at?: string | null
           created_at?: string
+          duration_seconds?: number | null
           id?: string
           last_position_seconds?: number
           progress_percent?: number
@@ -1158,6 +1921,8 @@ export type Database = {
           updated_at?: string
           user_id?: string
           video_id?: string
+          watched_seconds?: number
+          watched_segments?: Json
         }
         Relationships: [
           {
@@ -1169,6 +1934,53 @@ export type Database = {
           },
         ]
       }
+      video_resume_points: {
+        Row: {
+          channel: string | null
+          created_at: string
+          duration_seconds: number | null
+          id: string
+          position_seconds: number
+          title: string | null
+          todo_id: string | null
+          updated_at: string
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          channel?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          position_seconds?: number
+          title?: string | null
+          todo_id?: string | null
+          updated_at?: string
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          channel?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          position_seconds?: number
+          title?: string | null
+          todo_id?: string | null
+          updated_at?: string
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_resume_points_todo_id_fkey"
+            columns: ["todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_topic_analysis: {
         Row: {
           correct_count: number
@@ -1359,11 +2171,202 @@ export type Database = {
           was_reset: boolean
         }[]
       }
+      claim_ai_job: {
+        Args: { p_user_id: string }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          depends_on: string | null
+          error_code: string | null
+          error_message: string | null
+          id: string
+          kind: string
+          max_attempts: number
+          payload: Json
+          progress: number
+          progress_message: string | null
+          result: Json | null
+          run_after: string
+          started_at: string | null
+          status: string
+          title: string | null
+          todo_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "ai_jobs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      claim_due_digests: {
+        Args: { p_now: string }
+        Returns: {
+          local_date: string
+          local_dow: number
+          user_id: string
+        }[]
+      }
+      claim_due_study_reminders: {
+        Args: { p_now: string }
+        Returns: {
+          message: string
+          reminder_id: string
+          user_id: string
+        }[]
+      }
       consume_credits: {
         Args: { amount?: number; uid: string }
         Returns: boolean
       }
+      create_learning_plan: {
+        Args: {
+          p_board: string
+          p_class_level: string
+          p_description: string
+          p_request_id: string
+          p_subject: string
+          p_subtasks: Json
+          p_title: string
+          p_user_id: string
+          p_video_id: string
+        }
+        Returns: Json
+      }
+      finish_ai_job: {
+        Args: {
+          p_error_code: string
+          p_error_message: string
+          p_job_id: string
+          p_result: Json
+          p_retryable: boolean
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          depends_on: string | null
+          error_code: string | null
+          error_message: string | null
+          id: string
+          kind: string
+          max_attempts: number
+          payload: Json
+          progress: number
+          progress_message: string | null
+          result: Json | null
+          run_after: string
+          started_at: string | null
+          status: string
+          title: string | null
+          todo_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "ai_jobs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      get_local_day: {
+        Args: never
+        Returns: {
+          local_date: string
+          timezone: string
+          week_start: string
+        }[]
+      }
+      get_streak_status: {
+        Args: never
+        Returns: {
+          auto_freeze: boolean
+          current_streak: number
+          longest_streak: number
+          missed_days: number
+          streak_protections: number
+        }[]
+      }
+      get_study_activity: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          day: string
+          notes_seconds: number
+          quiz_seconds: number
+          session_count: number
+          video_seconds: number
+        }[]
+      }
       get_week_start: { Args: { d?: string }; Returns: string }
+      has_staff_role: {
+        Args: { p_roles: string[]; p_user_id: string }
+        Returns: boolean
+      }
+      is_quiet_time: {
+        Args: { p_end: string; p_local: string; p_start: string }
+        Returns: boolean
+      }
+      merge_watch_segments: {
+        Args: { p_duration: number; p_segments: Json }
+        Returns: Json
+      }
+      record_quiz_answer: {
+        Args: { p_answer: Json; p_attempt_id: string }
+        Returns: boolean
+      }
+      record_study_time: {
+        Args: {
+          p_activity: string
+          p_seconds: number
+          p_session_id: string
+          p_todo_id: string
+        }
+        Returns: number
+      }
+      record_video_watch: {
+        Args: {
+          p_duration_seconds: number
+          p_position_seconds: number
+          p_segments: Json
+          p_todo_id: string
+          p_video_id: string
+        }
+        Returns: {
+          completed: boolean
+          progress_percent: number
+          watched_segments: Json
+          watched_seconds: number
+          xp_awarded: number
+        }[]
+      }
+      refund_ai_usage: { Args: { p_usage_id: string }; Returns: undefined }
+      reserve_ai_usage: {
+        Args: {
+          p_cost: number
+          p_daily_limit: number
+          p_hourly_limit: number
+          p_operation: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      restore_note_revision: {
+        Args: { p_revision_id: string }
+        Returns: string
+      }
+      save_push_subscription: {
+        Args: {
+          p_auth: string
+          p_endpoint: string
+          p_p256dh: string
+          p_user_agent: string
+        }
+        Returns: undefined
+      }
       update_achievement_progress: {
         Args: {
           p_achievement_id: string
@@ -1374,6 +2377,23 @@ export type Database = {
         }
         Returns: undefined
       }
+      use_streak_freeze: { Args: never; Returns: number }
+      video_outcome_stats: {
+        Args: { p_video_ids: string[] }
+        Returns: {
+          completions: number
+          flags: number
+          quiz_answers: number
+          quiz_correct: number
+          quiz_score_avg: number
+          quiz_takers: number
+          thumbs_down: number
+          thumbs_up: number
+          video_id: string
+          watchers: number
+        }[]
+      }
+      watch_segments_seconds: { Args: { p_segments: Json }; Returns: number }
     }
     Enums: {
       [_ in never]: never
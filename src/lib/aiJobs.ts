@@ -0,0 +1,22 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AiJob = Tables<'ai_jobs'>;
+export type AiJobKind = 'generate-notes' | 'generate-quiz' | 'analyze-weakness';
+
+export interface NewAiJob {
+  kind: AiJobKind;
+  /** Request body for the matching edge function */
+  payload: Record<string, unknown>;
+  todoId?: string | null;
+  title?: string | null;
+  /** Wait for this job to succeed first (e.g. a quiz waiting for its notes) */
+  dependsOn?: string | null;
+}
+
+export const AI_JOB_LABELS: Record<AiJobKind, string> = {
+  'generate-notes': 'Notes',
+  'generate-quiz': 'Quiz',
+  'analyze-weakness': 'Weak-area analysis',
+};
+
+export const isActiveJob = (job: AiJob) => job.status === 'queued' || job.status === 'running';
@@ -0,0 +1,38 @@
+import { downloadFile } from '@/lib/download';
+
+export type DeckExportFormat = 'anki' | 'csv';
+
+interface ExportableCard {
+  front: string;
+  back: string;
+  topic_name: string | null;
+}
+
+const toTag = (topic: string | null) => (topic ? topic.trim().replace(/\s+/g, '_') : '');
+
+// Anki's text importer reads these header lines to pick the separator and tag column
+const toAnkiText = (cards: ExportableCard[]) => {
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+  return [
+    '#separator:tab',
+    '#html:false',
+    '#tags column:3',
+    ...cards.map((card) => [clean(card.front), clean(card.back), toTag(card.topic_name)].join('\t')),
+  ].join('\n');
+};
+
+const toCsv = (cards: ExportableCard[]) => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  return [
+    'front,back,topic',
+    ...cards.map((card) => [card.front, card.back, card.topic_name || ''].map(quote).join(',')),
+  ].join('\n');
+};
+
+export const exportDeck = (cards: ExportableCard[], title: string, format: DeckExportFormat) => {
+  const content = format === 'anki' ? toAnkiText(cards) : toCsv(cards);
+  const type = format === 'anki' ? 'text/plain' : 'text/csv';
+  const extension = format === 'anki' ? 'txt' : 'csv';
+
+  downloadFile(content, `${title || 'flashcards'}.${extension}`, type);
+};
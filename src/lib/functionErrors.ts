@@ -0,0 +1,84 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { format, formatDistanceToNow, isToday } from 'date-fns';
+import { toast } from 'sonner';
+
+/**
+ * Error envelope returned by every edge function:
+ * { error, code, details? }
+ */
+export interface FunctionErrorInfo {
+  status?: number;
+  code?: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export const getFunctionError = async (error: unknown): Promise<FunctionErrorInfo> => {
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    try {
+      const body = await response.clone().json();
+      return {
+        status: response.status,
+        code: body.code,
+        message: body.error || error.message,
+        details: body.details,
+      };
+    } catch {
+      return { status: response.status, message: error.message };
+    }
+  }
+
+  return { message: error instanceof Error ? error.message : 'Unknown error' };
+};
+
+/**
+ * "in 23 minutes (3:15 PM)" for resets later today, "on Mar 12" otherwise
+ */
+export const formatResetTime = (resetAt: unknown): string | null => {
+  if (typeof resetAt !== 'string') return null;
+  const date = new Date(resetAt);
+  if (Number.isNaN(date.getTime())) return null;
+
+  if (isToday(date)) {
+    return `${formatDistanceToNow(date, { addSuffix: true })} (${format(date, 'p')})`;
+  }
+  return `on ${format(date, 'MMM d')}`;
+};
+
+/**
+ * Show a toast for rate limit (429) and out-of-credits (402) responses.
+ * Returns false for any other error so callers can handle it themselves.
+ */
+export const showUsageLimitError = async (error: unknown): Promise<boolean> => {
+  const info = await getFunctionError(error);
+  const resetTime = formatResetTime(info.details?.resetAt);
+
+  if (info.status === 429 || info.code === 'rate_limited') {
+    const window = info.details?.limit;
+    toast.error(window === 'daily' ? 'Daily limit reached' : window === 'hourly' ? 'Hourly limit reached' : 'Rate limit exceeded', {
+      description: resetTime ? `${info.message} Try again ${resetTime}.` : 'Please try again later.',
+    });
+    return true;
+  }
+
+  if (info.status === 402 || info.code === 'insufficient_credits' || info.code === 'payment_required') {
+    toast.error('Not enough credits', {
+      description: resetTime
+        ? `${info.message} Your credits reset ${resetTime}.`
+        : 'Please add credits to continue using AI features.',
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Toast for a failed edge function call: usage limits get their own
+ * message, everything else falls back to `fallbackMessage`.
+ */
+export const showFunctionError = async (error: unknown, fallbackMessage: string): Promise<void> => {
+  if (await showUsageLimitError(error)) return;
+  toast.error(fallbackMessage);
+};
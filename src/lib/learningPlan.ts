@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface LearningPlanInput {
+  /** Reuse the same id when retrying so a plan is never built twice */
+  requestId: string;
+  topic: string;
+  classLevel: string | null;
+  subject: string | null;
+  board: string | null;
+  language: string | null;
+  videoType: string | null;
+  videoDuration: string | null;
+}
+
+export interface LearningPlanResult {
+  todo: Tables<'todos'>;
+  videoFound: boolean;
+}
+
+type PlanEvent =
+  | { type: 'progress'; step: string; message: string }
+  | { type: 'done'; todo: Tables<'todos'>; videoFound: boolean }
+  | { type: 'error'; code: string; message: string };
+
+/**
+ * Build a todo with its subtasks and videos through create-learning-plan,
+ * calling onProgress for each step the function reports. Usage-limit and
+ * validation errors are thrown as the usual FunctionsHttpError.
+ */
+export const createLearningPlan = async (
+  input: LearningPlanInput,
+  onProgress: (message: string) => void
+): Promise<LearningPlanResult> => {
+  const { data, error } = await supabase.functions.invoke('create-learning-plan', { body: input });
+  if (error) throw error;
+
+  // Server-sent events: "data: {...}" blocks separated by blank lines
+  const reader = (data as Response).body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      if (!block.startsWith('data: ')) continue;
+
+      const event = JSON.parse(block.slice('data: '.length)) as PlanEvent;
+      if (event.type === 'progress') onProgress(event.message);
+      else if (event.type === 'done') return { todo: event.todo, videoFound: event.videoFound };
+      else throw new Error(event.message);
+    }
+  }
+
+  throw new Error('Connection closed before the learning plan was saved');
+};
@@ -0,0 +1,49 @@
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+
+export interface TextSegment {
+  type: 'text' | 'math';
+  value: string;
+  display?: boolean;
+}
+
+// $$...$$ and \[...\] are display math; $...$ and \(...\) are inline.
+// A $ followed by a digit and whitespace is treated as currency, not math.
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?!\d+(?:\.\d+)?\s)((?:\\\$|[^$\n])+?)\$/g;
+
+/**
+ * Split text into plain and math segments using the delimiters the AI
+ * prompts ask for. Chemistry goes through mhchem, e.g. $\ce{2H2 + O2 -> 2H2O}$.
+ */
+export const splitMath = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+    const [, displayDollar, displayBracket, inlineParen, inlineDollar] = match;
+    segments.push({
+      type: 'math',
+      value: (displayDollar ?? displayBracket ?? inlineParen ?? inlineDollar).trim(),
+      display: displayDollar !== undefined || displayBracket !== undefined,
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+export const hasMath = (text: string): boolean => splitMath(text).some((segment) => segment.type === 'math');
+
+/**
+ * KaTeX markup for one expression; malformed TeX renders in red instead of
+ * throwing. 'mathml' output needs no stylesheet or fonts, for exported files.
+ */
+export const renderMath = (tex: string, display = false, output: 'htmlAndMathml' | 'mathml' = 'htmlAndMathml'): string =>
+  katex.renderToString(tex, { displayMode: display, throwOnError: false, strict: 'ignore', output });
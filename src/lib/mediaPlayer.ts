@@ -0,0 +1,45 @@
+/**
+ * The part of the YouTube IFrame player API the app relies on. YouTube
+ * players provide it as is; <video> elements are wrapped to match, so watch
+ * progress, resume points and checkpoints work the same for every source.
+ */
+export interface MediaPlayerHandle {
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlaybackRate(): number;
+  /** One of PLAYER_STATE */
+  getPlayerState(): number;
+  seekTo(seconds: number, allowSeekAhead?: boolean): void;
+  playVideo(): void;
+  pauseVideo(): void;
+}
+
+// YouTube's player state codes
+export const PLAYER_STATE = {
+  UNSTARTED: -1,
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+  BUFFERING: 3,
+  CUED: 5,
+} as const;
+
+export const createHtml5PlayerHandle = (video: HTMLVideoElement): MediaPlayerHandle => ({
+  getCurrentTime: () => video.currentTime,
+  getDuration: () => (Number.isFinite(video.duration) ? video.duration : 0),
+  getPlaybackRate: () => video.playbackRate,
+  getPlayerState: () => {
+    if (video.ended) return PLAYER_STATE.ENDED;
+    if (video.played.length === 0) return video.paused ? PLAYER_STATE.UNSTARTED : PLAYER_STATE.BUFFERING;
+    if (video.paused) return PLAYER_STATE.PAUSED;
+    return video.readyState < HTMLMediaElement.HAVE_FUTURE_DATA ? PLAYER_STATE.BUFFERING : PLAYER_STATE.PLAYING;
+  },
+  seekTo: (seconds) => {
+    video.currentTime = seconds;
+  },
+  playVideo: () => {
+    // Rejected when the browser blocks autoplay; the controls still work
+    video.play().catch(() => undefined);
+  },
+  pauseVideo: () => video.pause(),
+});
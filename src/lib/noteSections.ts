@@ -0,0 +1,34 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * A generated notes section and the part of the video it came from
+ * (notes.sections, written by generate-notes)
+ */
+export interface NoteSection {
+  title: string;
+  content: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export const toNoteSections = (value: Json | undefined): NoteSection[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((section): section is Json & NoteSection => (
+    typeof section === 'object' &&
+    section !== null &&
+    !Array.isArray(section) &&
+    typeof section.title === 'string' &&
+    typeof section.content === 'string' &&
+    typeof section.startSeconds === 'number' &&
+    typeof section.endSeconds === 'number'
+  ));
+};
+
+/** 75 -> "1:15", 3725 -> "1:02:05" */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,130 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { NoteSection } from '@/lib/noteSections';
+
+/**
+ * Versioned notes document (notes.document), written by generate-notes.
+ * Keep in sync with supabase/functions/_shared/notesDocument.ts.
+ */
+export const NOTES_DOCUMENT_VERSION = 1;
+
+export interface NotesDocumentSection {
+  title: string;
+  content: string;
+  points: string[];
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export interface NotesDocument {
+  version: typeof NOTES_DOCUMENT_VERSION;
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  sections: NotesDocumentSection[];
+  definitions: { term: string; meaning: string }[];
+  formulas: { name: string; expression: string; explanation?: string }[];
+  examples: { title: string; description: string }[];
+  misconceptions: { misconception: string; correction: string }[];
+}
+
+const emptyDocument = (title: string): NotesDocument => ({
+  version: NOTES_DOCUMENT_VERSION,
+  title,
+  summary: '',
+  keyPoints: [],
+  sections: [],
+  definitions: [],
+  formulas: [],
+  examples: [],
+  misconceptions: [],
+});
+
+const listOf = <T,>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+/**
+ * Read a stored document. Returns null for rows without one or with a
+ * version this client doesn't know, so callers fall back to the markdown.
+ */
+export const toNotesDocument = (value: Json | null | undefined): NotesDocument | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  if (value.version !== NOTES_DOCUMENT_VERSION) return null;
+
+  return {
+    ...emptyDocument(typeof value.title === 'string' ? value.title : 'Study Notes'),
+    summary: typeof value.summary === 'string' ? value.summary : '',
+    keyPoints: listOf<string>(value.keyPoints),
+    sections: listOf<NotesDocumentSection>(value.sections).map((section) => ({
+      ...section,
+      content: section.content || '',
+      points: listOf<string>(section.points),
+    })),
+    definitions: listOf(value.definitions),
+    formulas: listOf(value.formulas),
+    examples: listOf(value.examples),
+    misconceptions: listOf(value.misconceptions),
+  };
+};
+
+const stripInline = (text: string) => text.replace(/\*\*/g, '').trim();
+
+/**
+ * Convert notes stored before documents existed. Transcript notes keep their
+ * timed sections; older markdown notes are split on headings, with bullet and
+ * numbered lines as points and everything else as section text. Nothing is
+ * dropped.
+ */
+export const notesDocumentFromLegacy = (
+  content: string,
+  timedSections: NoteSection[],
+  title: string
+): NotesDocument => {
+  const doc = emptyDocument(title);
+
+  if (timedSections.length > 0) {
+    doc.summary = content.split('\n\n')[0]?.trim() || '';
+    doc.sections = timedSections.map((section) => ({
+      title: section.title,
+      content: '',
+      points: section.content.split('\n').map((line) => stripInline(line.replace(/^[-*]\s*/, ''))).filter(Boolean),
+      startSeconds: section.startSeconds,
+      endSeconds: section.endSeconds,
+    }));
+    return doc;
+  }
+
+  let current: NotesDocumentSection | null = null;
+  const intro: string[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || /^#\s/.test(line)) continue;
+
+    if (/^#{2,}\s/.test(line)) {
+      current = { title: stripInline(line.replace(/^#+\s*/, '')), content: '', points: [] };
+      doc.sections.push(current);
+      continue;
+    }
+
+    const bullet = line.match(/^(?:[-*]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      const point = stripInline(bullet[1]);
+      if (current) current.points.push(point);
+      else doc.keyPoints.push(point);
+    } else if (current) {
+      current.content += `${current.content ? '\n' : ''}${stripInline(line)}`;
+    } else {
+      intro.push(stripInline(line));
+    }
+  }
+
+  doc.summary = intro.join(' ');
+
+  // Old prompts asked for a "## Summary" section; promote it when there's no intro
+  const summarySection = doc.sections.find((section) => /^summary$/i.test(section.title));
+  if (!doc.summary && summarySection) {
+    doc.summary = [summarySection.content, ...summarySection.points].filter(Boolean).join(' ');
+    doc.sections = doc.sections.filter((section) => section !== summarySection);
+  }
+
+  return doc;
+};
@@ -0,0 +1,286 @@
+import { createElement } from 'react';
+import { format } from 'date-fns';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { downloadFile } from '@/lib/download';
+import { splitMath, renderMath } from '@/lib/math';
+import type { NotesDocument } from '@/lib/notesDocument';
+
+export type NotesExportFormat = 'pdf' | 'html' | 'anki' | 'markdown';
+
+export interface NotesExport {
+  title: string;
+  classLevel: string | null;
+  subject: string | null;
+  board: string | null;
+  /** The AI notes document; null when exporting the student's own markdown notes */
+  document: NotesDocument | null;
+  markdown: string;
+  weakTopics: string[];
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Exported files use MathML so they render without KaTeX's stylesheet and fonts
+const inlineHtml = (text: string) =>
+  splitMath(text)
+    .map((segment) =>
+      segment.type === 'math' ? renderMath(segment.value, segment.display, 'mathml') : escapeHtml(segment.value)
+    )
+    .join('');
+
+const paragraphs = (text: string) =>
+  text
+    .split(/\n+/)
+    .filter((line) => line.trim())
+    .map((line) => `<p>${inlineHtml(line)}</p>`)
+    .join('');
+
+const findWeakTopic = (text: string, weakTopics: string[]) => {
+  const lower = text.toLowerCase();
+  return weakTopics.find((topic) => lower.includes(topic.toLowerCase())) || null;
+};
+
+const weakTopicCallout = (topic: string) =>
+  `<aside class="callout"><strong>Weak area: ${escapeHtml(topic)}</strong> — your quiz results show this needs more practice. Revise it before your exam.</aside>`;
+
+const documentBody = (doc: NotesDocument, weakTopics: string[]) => {
+  const blocks: string[] = [];
+
+  if (doc.summary) blocks.push(`<p class="summary">${inlineHtml(doc.summary)}</p>`);
+
+  if (doc.keyPoints.length > 0) {
+    blocks.push(`<h2>Key Takeaways</h2><ol class="key-points">${doc.keyPoints
+      .map((point) => `<li>${inlineHtml(point)}</li>`)
+      .join('')}</ol>`);
+  }
+
+  if (doc.sections.length > 0) {
+    blocks.push('<h2>Detailed Notes</h2>');
+    for (const section of doc.sections) {
+      const weakTopic = findWeakTopic([section.title, section.content, ...section.points].join('\n'), weakTopics);
+      blocks.push(`<section class="card${weakTopic ? ' weak' : ''}">
+<h3>${inlineHtml(section.title)}</h3>
+${weakTopic ? weakTopicCallout(weakTopic) : ''}
+${section.content ? paragraphs(section.content) : ''}
+${section.points.length > 0 ? `<ul>${section.points.map((point) => `<li>${inlineHtml(point)}</li>`).join('')}</ul>` : ''}
+</section>`);
+    }
+  }
+
+  if (doc.definitions.length > 0) {
+    blocks.push(`<h2>Definitions</h2><dl>${doc.definitions
+      .map((definition) => `<dt>${inlineHtml(definition.term)}</dt><dd>${inlineHtml(definition.meaning)}</dd>`)
+      .join('')}</dl>`);
+  }
+
+  if (doc.formulas.length > 0) {
+    blocks.push(`<h2>Formulas</h2>${doc.formulas
+      .map((formula) => `<div class="card">
+<p><strong>${inlineHtml(formula.name)}</strong></p>
+<div class="formula">${inlineHtml(formula.expression)}</div>
+${formula.explanation ? `<p class="muted">${inlineHtml(formula.explanation)}</p>` : ''}
+</div>`)
+      .join('')}`);
+  }
+
+  if (doc.examples.length > 0) {
+    blocks.push(`<h2>Examples</h2>${doc.examples
+      .map((example) => `<div class="card"><p><strong>${inlineHtml(example.title)}</strong></p>${paragraphs(example.description)}</div>`)
+      .join('')}`);
+  }
+
+  if (doc.misconceptions.length > 0) {
+    blocks.push(`<h2>Common Misconceptions</h2>${doc.misconceptions
+      .map((item) => `<div class="card">
+<p class="wrong">✗ ${inlineHtml(item.misconception)}</p>
+<p>✓ ${inlineHtml(item.correction)}</p>
+</div>`)
+      .join('')}`);
+  }
+
+  return blocks.join('\n');
+};
+
+const markdownBody = async (markdown: string) => {
+  // Only pulled in when exporting, so the server renderer stays out of the main bundle
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  return renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      remarkPlugins: [remarkGfm, remarkMath],
+      rehypePlugins: [[rehypeKatex, { output: 'mathml' }]],
+      children: markdown,
+    })
+  );
+};
+
+const STYLES = `
+@page { size: A4; margin: 18mm; }
+* { box-sizing: border-box; }
+body { font-family: Georgia, 'Times New Roman', serif; color: #1a1a1a; line-height: 1.6; max-width: 760px; margin: 0 auto; padding: 24px; }
+h1, h2, h3 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.25; }
+h2 { border-bottom: 2px solid #0ea5a4; padding-bottom: 4px; margin-top: 32px; break-after: avoid; }
+h3 { margin: 0 0 8px; break-after: avoid; }
+.title-page { min-height: 90vh; display: flex; flex-direction: column; justify-content: center; text-align: center; break-after: page; }
+.title-page h1 { font-size: 36px; margin-bottom: 24px; }
+.title-page dl { display: inline-grid; grid-template-columns: auto auto; gap: 6px 16px; margin: 0 auto; text-align: left; }
+.title-page dt { font-weight: bold; }
+.title-page dd { margin: 0; }
+.title-page .footer { margin-top: 48px; color: #666; font-size: 14px; }
+.summary { font-size: 18px; }
+.card { border: 1px solid #ddd; border-radius: 8px; padding: 12px 16px; margin: 12px 0; break-inside: avoid; }
+.card.weak { border-left: 6px solid #dc2626; }
+.callout { background: #fef2f2; border: 1px solid #fca5a5; border-radius: 6px; padding: 8px 12px; margin-bottom: 8px; color: #991b1b; font-size: 14px; }
+.formula { background: #f4f4f5; border-radius: 6px; padding: 8px 12px; overflow-x: auto; }
+.muted { color: #555; font-size: 14px; }
+.wrong { color: #b91c1c; }
+dt { font-weight: bold; margin-top: 8px; }
+dd { margin-left: 0; color: #333; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; }
+pre, code { font-family: Menlo, Consolas, monospace; font-size: 13px; }
+math[display="block"] { margin: 8px 0; }
+`;
+
+/** A standalone, print-ready HTML page: title page followed by the notes */
+export const buildNotesHtml = async (notes: NotesExport) => {
+  const details = [
+    ['Class', notes.classLevel],
+    ['Subject', notes.subject],
+    ['Board', notes.board],
+  ].filter((entry): entry is [string, string] => Boolean(entry[1]));
+
+  const weakTopicsInNotes = notes.weakTopics.filter((topic) => findWeakTopic(notes.markdown, [topic]));
+
+  const body = notes.document
+    ? documentBody(notes.document, notes.weakTopics)
+    : await markdownBody(notes.markdown);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(notes.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="title-page">
+<h1>${escapeHtml(notes.title)}</h1>
+${details.length > 0 ? `<dl>${details.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>` : ''}
+${weakTopicsInNotes.length > 0 ? `<p>Focus areas: ${weakTopicsInNotes.map(escapeHtml).join(', ')}</p>` : ''}
+<p class="footer">Study notes from EduRank · ${format(new Date(), 'PPP')}</p>
+</div>
+${body}
+</body>
+</html>`;
+};
+
+// Anki renders MathJax between \( \) and \[ \], not dollar signs
+const toAnkiField = (text: string) =>
+  splitMath(text)
+    .map((segment) =>
+      segment.type === 'math'
+        ? segment.display ? `\\[${segment.value}\\]` : `\\(${segment.value}\\)`
+        : escapeHtml(segment.value)
+    )
+    .join('')
+    .replace(/[\t\r\n]+/g, '<br>')
+    .trim();
+
+/**
+ * Question/answer pairs for Anki: definitions, formulas, misconceptions and
+ * one card per section. Markdown notes get one card per heading.
+ */
+const toAnkiCards = (notes: NotesExport): [string, string][] => {
+  const doc = notes.document;
+  if (!doc) {
+    return notes.markdown
+      .split(/^#{1,3}\s+/m)
+      .slice(1)
+      .map((block) => {
+        const [heading, ...rest] = block.split('\n');
+        return [heading.trim(), rest.join('\n').trim()] as [string, string];
+      })
+      .filter(([heading, answer]) => heading && answer);
+  }
+
+  return [
+    ...doc.definitions.map((d): [string, string] => [`Define: ${d.term}`, d.meaning]),
+    ...doc.formulas.map((f): [string, string] => [
+      `Formula: ${f.name}`,
+      f.explanation ? `${f.expression}\n${f.explanation}` : f.expression,
+    ]),
+    ...doc.misconceptions.map((m): [string, string] => [`True or false? ${m.misconception}`, `False. ${m.correction}`]),
+    ...doc.sections
+      .filter((section) => section.points.length > 0 || section.content)
+      .map((section): [string, string] => [
+        section.title,
+        section.points.length > 0 ? section.points.map((point) => `• ${point}`).join('\n') : section.content,
+      ]),
+  ];
+};
+
+const toAnkiText = (notes: NotesExport, cards: [string, string][]) => {
+  const tag = [notes.subject, notes.title]
+    .filter(Boolean)
+    .map((value) => value!.trim().replace(/\s+/g, '_'))
+    .join(' ');
+  return [
+    '#separator:tab',
+    '#html:true',
+    '#tags column:3',
+    ...cards.map(([front, back]) => [toAnkiField(front), toAnkiField(back), tag].join('\t')),
+  ].join('\n');
+};
+
+/** Print the page through a hidden frame so the browser can save it as a PDF */
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
+
+/**
+ * Export notes in the chosen format. Returns false when there is nothing to
+ * export in that format (e.g. no card-worthy content for Anki).
+ */
+export const exportNotes = async (notes: NotesExport, exportFormat: NotesExportFormat): Promise<boolean> => {
+  const filename = notes.title || 'notes';
+
+  switch (exportFormat) {
+    case 'pdf':
+      printHtml(await buildNotesHtml(notes));
+      return true;
+    case 'html':
+      downloadFile(await buildNotesHtml(notes), `${filename}.html`, 'text/html');
+      return true;
+    case 'anki': {
+      const cards = toAnkiCards(notes);
+      if (cards.length === 0) return false;
+      downloadFile(toAnkiText(notes, cards), `${filename} (Anki).txt`, 'text/plain');
+      return true;
+    }
+    case 'markdown':
+      downloadFile(notes.markdown, `${filename}.md`, 'text/markdown');
+      return true;
+  }
+};
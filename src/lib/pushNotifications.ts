@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type PushStatus = 'unsupported' | 'denied' | 'subscribed' | 'unsubscribed';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+const currentSubscription = async () => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const getPushStatus = async (): Promise<PushStatus> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  return (await currentSubscription()) ? 'subscribed' : 'unsubscribed';
+};
+
+/**
+ * Ask for notification permission, subscribe this browser and store the
+ * subscription so send-study-reminders can reach it while the app is closed
+ */
+export const subscribeToPush = async (): Promise<PushStatus> => {
+  if (!isPushSupported()) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'unsubscribed';
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const subscription = (await registration.pushManager.getSubscription())
+    ?? (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc('save_push_subscription', {
+    p_endpoint: endpoint!,
+    p_p256dh: keys!.p256dh,
+    p_auth: keys!.auth,
+    p_user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+  return 'subscribed';
+};
+
+export const unsubscribeFromPush = async (): Promise<PushStatus> => {
+  const subscription = isPushSupported() ? await currentSubscription() : null;
+  if (!subscription) return getPushStatus();
+
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+
+  await subscription.unsubscribe();
+  return 'unsubscribed';
+};
@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Any earlier and there is nothing worth resuming
+export const MIN_RESUME_SECONDS = 10;
+// Stopping this close to the end counts as finished, so the video starts over
+const END_MARGIN_SECONDS = 15;
+
+/** Where a video was watched from, shown on the Continue Watching shelf */
+export interface ResumeDetails {
+  todoId?: string | null;
+  title?: string | null;
+  channel?: string | null;
+}
+
+export const isResumable = (positionSeconds: number, durationSeconds: number | null) =>
+  positionSeconds >= MIN_RESUME_SECONDS &&
+  (!durationSeconds || positionSeconds < durationSeconds - END_MARGIN_SECONDS);
+
+/** Second to start videoId from for the signed-in student, 0 for the beginning */
+export const fetchResumePosition = async (videoId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('video_resume_points')
+    .select('position_seconds, duration_seconds')
+    .eq('video_id', videoId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching resume point:', error);
+    return 0;
+  }
+  if (!data || !isResumable(data.position_seconds, data.duration_seconds)) return 0;
+  return Math.floor(data.position_seconds);
+};
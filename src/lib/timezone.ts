@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LocalDay {
+  /** The student's calendar date, YYYY-MM-DD */
+  localDate: string;
+  /** Monday of the student's current week, YYYY-MM-DD */
+  weekStart: string;
+  timezone: string;
+}
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** IANA timezones the browser knows about, for the profile timezone picker */
+export const supportedTimezones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  return [...new Set(['UTC', browserTimezone(), ...zones])].sort();
+};
+
+/**
+ * Streaks, daily challenges and weekly goals are counted in the student's
+ * timezone. Keep it following the browser unless they picked one themselves.
+ */
+export const syncBrowserTimezone = async (userId: string) => {
+  const timezone = browserTimezone();
+
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('timezone, timezone_auto')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data && (!data.timezone_auto || data.timezone === timezone)) return;
+
+  const { error: saveError } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: userId, timezone }, { onConflict: 'user_id' });
+
+  if (saveError) throw saveError;
+};
+
+/** Today and this week as the server counts them for the signed-in student */
+export const fetchLocalDay = async (): Promise<LocalDay> => {
+  const { data, error } = await supabase.rpc('get_local_day');
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) throw new Error('Not signed in');
+
+  return { localDate: row.local_date, weekStart: row.week_start, timezone: row.timezone };
+};
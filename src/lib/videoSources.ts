@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const LECTURE_VIDEOS_BUCKET = 'lecture-videos';
+// Long enough to finish a lecture without the stream expiring
+const SIGNED_URL_SECONDS = 6 * 60 * 60;
+
+/**
+ * Where a video plays from, read from the video ref stored as video_id
+ * (the format is described in supabase/functions/_shared/videoProviders.ts):
+ * a bare YouTube id, "url:<https URL>", "storage:<object in the
+ * lecture-videos bucket>" or "fixture:<slug>" for local test videos.
+ */
+export type VideoSource =
+  | { provider: 'youtube'; id: string }
+  | { provider: 'url'; url: string }
+  | { provider: 'storage'; path: string }
+  | { provider: 'fixture'; id: string };
+
+export type FileVideoSource = Exclude<VideoSource, { provider: 'youtube' }>;
+
+export const parseVideoRef = (ref: string): VideoSource => {
+  const separator = ref.indexOf(':');
+  const value = ref.slice(separator + 1);
+
+  switch (separator === -1 ? 'youtube' : ref.slice(0, separator)) {
+    case 'url':
+      return { provider: 'url', url: value };
+    case 'storage':
+      return { provider: 'storage', path: value };
+    case 'fixture':
+      return { provider: 'fixture', id: value };
+    default:
+      return { provider: 'youtube', id: ref };
+  }
+};
+
+// HLS only works as a link: a signed playlist URL wouldn't sign its segments
+export const isHlsSource = (source: FileVideoSource) =>
+  source.provider === 'url' && source.url.split(/[?#]/)[0].toLowerCase().endsWith('.m3u8');
+
+/** Thumbnail image for a video, or null when its source has none */
+export const videoThumbnailUrl = (ref: string): string | null => {
+  const source = parseVideoRef(ref);
+  return source.provider === 'youtube' ? `https://img.youtube.com/vi/${source.id}/mqdefault.jpg` : null;
+};
+
+/** Where to watch the video outside the app, if anywhere */
+export const videoExternalUrl = (ref: string): { url: string; label: string } | null => {
+  const source = parseVideoRef(ref);
+  if (source.provider === 'youtube') {
+    return { url: `https://www.youtube.com/watch?v=${source.id}`, label: 'Open in YouTube' };
+  }
+  if (source.provider === 'url') {
+    return { url: source.url, label: 'Open original' };
+  }
+  return null;
+};
+
+/** A URL a <video> element can play, signing lecture uploads on the way */
+export const resolvePlaybackUrl = async (source: FileVideoSource): Promise<string> => {
+  switch (source.provider) {
+    case 'url':
+      return source.url;
+    case 'fixture':
+      return `/video-fixtures/${source.id}.mp4`;
+    case 'storage': {
+      const { data, error } = await supabase.storage
+        .from(LECTURE_VIDEOS_BUCKET)
+        .createSignedUrl(source.path, SIGNED_URL_SECONDS);
+      if (error || !data) throw error ?? new Error('Could not sign the lecture video URL');
+      return data.signedUrl;
+    }
+  }
+};
@@ -0,0 +1,56 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * A [start, end] range of a video in seconds that actually played
+ * (video_progress.watched_segments, merged by record_video_watch)
+ */
+export type WatchSegment = [number, number];
+
+export const toWatchSegments = (value: Json | undefined): WatchSegment[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((segment): segment is WatchSegment => (
+    Array.isArray(segment) &&
+    segment.length === 2 &&
+    typeof segment[0] === 'number' &&
+    typeof segment[1] === 'number'
+  ));
+};
+
+/** Sorts ranges and merges the ones that overlap or touch */
+export const mergeWatchSegments = (segments: WatchSegment[]): WatchSegment[] => {
+  const sorted = segments
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  const merged: WatchSegment[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+};
+
+/** The parts of merged ranges that the merged covered ranges leave out */
+export const subtractWatchSegments = (segments: WatchSegment[], covered: WatchSegment[]): WatchSegment[] => {
+  const remaining: WatchSegment[] = [];
+  for (const [start, end] of segments) {
+    let cursor = start;
+    for (const [coveredStart, coveredEnd] of covered) {
+      if (coveredEnd <= cursor) continue;
+      if (coveredStart >= end) break;
+      if (coveredStart > cursor) remaining.push([cursor, coveredStart]);
+      cursor = Math.max(cursor, coveredEnd);
+      if (cursor >= end) break;
+    }
+    if (cursor < end) remaining.push([cursor, end]);
+  }
+  return remaining;
+};
+
+/** Seconds covered by merged ranges */
+export const watchedSeconds = (segments: WatchSegment[]): number =>
+  segments.reduce((sum, [start, end]) => sum + (end - start), 0);
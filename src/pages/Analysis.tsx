@@ -39,6 +39,7 @@ import StudyRecommendations from '@/components/analysis/StudyRecommendations';
 import QuizHistory from '@/components/analysis/QuizHistorySummary';
 import { WeeklyGoalTracker } from '@/components/analysis/WeeklyGoalTracker';
 import { TopicComparison } from '@/components/analysis/TopicComparison';
+import StudyHeatmap from '@/components/analysis/StudyHeatmap';
 
 const Analysis = () => {
   const navigate = useNavigate();
@@ -278,6 +279,7 @@ const Analysis = () => {
 
           <TabsContent value="overview" className="space-y-6">
             <PerformanceOverview overallStats={overallStats} />
+            <StudyHeatmap />
             <QuizHistory />
           </TabsContent>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Plus,
@@ -16,6 +16,7 @@ import {
   Search,
   User,
   Users,
+  Wand2,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -23,17 +24,25 @@ import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import Logo from '@/components/Logo';
 import { useAuth } from '@/contexts/AuthContext';
+import { useFilters } from '@/contexts/FilterContext';
+import { useAiJobs } from '@/hooks/useAiJobs';
+import { isActiveJob } from '@/lib/aiJobs';
 import { supabase } from '@/integrations/supabase/client';
 import { useRateLimiter } from '@/hooks/useRateLimiter';
+import { showFunctionError } from '@/lib/functionErrors';
+import { createLearningPlan } from '@/lib/learningPlan';
 import WeakTopicCards from '@/components/WeakTopicCards';
 import XpLevelBar from '@/components/header/XpLevelBar';
 import StreakDisplay from '@/components/header/StreakDisplay';
+import AiJobsIndicator from '@/components/header/AiJobsIndicator';
 import StreakProtectionModal from '@/components/header/StreakProtectionModal';
 import { useUserStats } from '@/hooks/useUserStats';
 import { WeeklyGoalsWidget } from '@/components/dashboard/WeeklyGoalsWidget';
 import { StudyRemindersCard } from '@/components/dashboard/StudyRemindersCard';
 import { DailyChallengesCard } from '@/components/dashboard/DailyChallengesCard';
 import { StreakFreezeCard } from '@/components/dashboard/StreakFreezeCard';
+import { ReviewsDueCard } from '@/components/dashboard/ReviewsDueCard';
+import { ContinueWatchingCard } from '@/components/dashboard/ContinueWatchingCard';
 import FriendsWidget from '@/components/friends/FriendsWidget';
 
 interface Todo {
@@ -48,8 +57,9 @@ interface Todo {
 const Dashboard = () => {
   const navigate = useNavigate();
   const { user, profile, logout } = useAuth();
+  const { filters } = useFilters();
   const { canMakeRequest, isRateLimited } = useRateLimiter();
-  const { stats, useStreakProtection } = useUserStats();
+  const { stats, refetch: refetchStats, useStreakProtection } = useUserStats();
   const [todos, setTodos] = useState<Todo[]>([]);
   const [newTodoTitle, setNewTodoTitle] = useState('');
   const [showInput, setShowInput] = useState(false);
@@ -57,6 +67,9 @@ const Dashboard = () => {
   const [adding, setAdding] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [streakModalOpen, setStreakModalOpen] = useState(false);
+  const pendingPlan = useRef<{ topic: string; requestId: string } | null>(null);
+  const { jobs, enqueueJob } = useAiJobs();
+  const [todosWithNotes, setTodosWithNotes] = useState<Set<string>>(new Set());
 
   const completedCount = todos.filter((t) => t.completed).length;
   const progress = todos.length > 0 ? (completedCount / todos.length) * 100 : 0;
@@ -69,6 +82,14 @@ const Dashboard = () => {
     }
   }, [user]);
 
+  // With automatic freezes off, ask whether to spend shields on missed days
+  const pendingMissedDays = stats?.missedDays ?? 0;
+  useEffect(() => {
+    if (pendingMissedDays > 0) {
+      setStreakModalOpen(true);
+    }
+  }, [pendingMissedDays]);
+
   const fetchTodos = async () => {
     try {
       const { data, error } = await supabase
@@ -78,6 +99,13 @@ const Dashboard = () => {
 
       if (error) throw error;
       setTodos(data || []);
+
+      const { data: notesData } = await supabase
+        .from('notes')
+        .select('todo_id')
+        .eq('is_ai_generated', true);
+
+      setTodosWithNotes(new Set((notesData || []).map((n) => n.todo_id)));
     } catch (error) {
       console.error('Error fetching todos:', error);
       toast.error('Failed to load tasks');
@@ -86,6 +114,37 @@ const Dashboard = () => {
     }
   };
 
+  const hasNotes = (todoId: string) =>
+    todosWithNotes.has(todoId)
+    || jobs.some((job) => job.kind === 'generate-notes' && job.todo_id === todoId && job.status === 'succeeded');
+
+  // Queue notes and then a quiz built from them, so both are ready by the time the student gets to them
+  const handlePrepare = async (todo: Todo) => {
+    if (!todo.video_id) return;
+
+    try {
+      const notesJob = await enqueueJob({
+        kind: 'generate-notes',
+        payload: { videoId: todo.video_id, videoTitle: todo.title, todoId: todo.id },
+        todoId: todo.id,
+        title: todo.title,
+      });
+      await enqueueJob({
+        kind: 'generate-quiz',
+        payload: { todoId: todo.id },
+        todoId: todo.id,
+        title: todo.title,
+        dependsOn: notesJob.id,
+      });
+      toast.success('Notes and quiz queued', {
+        description: "We'll let you know when they're ready",
+      });
+    } catch (error) {
+      console.error('Error queueing notes and quiz:', error);
+      toast.error('Failed to queue notes and quiz');
+    }
+  };
+
   const handleAddTodo = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTodoTitle.trim() || !user) return;
@@ -97,105 +156,49 @@ const Dashboard = () => {
     }
 
     setAdding(true);
-    
-    try {
-      // First, use AI to find the best video for this topic
-      toast.info('Finding the best video for your topic...', {
-        icon: <Search className="h-4 w-4 text-primary animate-pulse" />,
-      });
-
-      let videoId: string | null = null;
-      let videoDescription: string | null = null;
-      let subtasksData: any[] = [];
 
-      try {
-        const { data: videoData, error: videoError } = await supabase.functions.invoke('find-video', {
-          body: { topic: newTodoTitle.trim() },
-        });
-
-        if (!videoError && videoData && !videoData.error) {
-          videoId = videoData.videoId;
-          videoDescription = `${videoData.title} by ${videoData.channel} - ${videoData.reason}`;
-          subtasksData = videoData.subtasks || [];
-        }
-      } catch (aiError) {
-        console.error('AI video search failed:', aiError);
-        // Continue without video if AI fails
-      }
-
-      const { data, error } = await supabase
-        .from('todos')
-        .insert({
-          title: newTodoTitle.trim(),
-          video_id: videoId,
-          description: videoDescription,
-          user_id: user.id,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Save subtasks and their videos to the database
-      if (data && subtasksData.length > 0) {
-        for (let i = 0; i < subtasksData.length; i++) {
-          const subtask = subtasksData[i];
-          
-          // Insert subtask
-          const { data: subtaskRow, error: subtaskError } = await supabase
-            .from('subtasks')
-            .insert({
-              todo_id: data.id,
-              user_id: user.id,
-              title: subtask.title,
-              order_index: i,
-            })
-            .select()
-            .single();
-
-          if (subtaskError) {
-            console.error('Error saving subtask:', subtaskError);
-            continue;
-          }
+    const topic = newTodoTitle.trim();
+    // Retrying the same topic after a failure reuses the request id, so a plan
+    // that was saved before the connection dropped isn't built twice
+    if (pendingPlan.current?.topic !== topic) {
+      pendingPlan.current = { topic, requestId: crypto.randomUUID() };
+    }
+    const progressToast = toast.loading('Finding the best video for your topic...', {
+      icon: <Search className="h-4 w-4 text-primary animate-pulse" />,
+    });
 
-          // Insert videos for this subtask
-          if (subtaskRow && subtask.videos?.length > 0) {
-            const videosToInsert = subtask.videos.map((video: any, idx: number) => ({
-              subtask_id: subtaskRow.id,
-              user_id: user.id,
-              video_id: video.videoId,
-              title: video.title,
-              channel: video.channel,
-              engagement_score: video.engagementScore,
-              reason: video.reason,
-              order_index: idx,
-            }));
-
-            const { error: videosError } = await supabase
-              .from('subtask_videos')
-              .insert(videosToInsert);
-
-            if (videosError) {
-              console.error('Error saving subtask videos:', videosError);
-            }
-          }
-        }
-      }
+    try {
+      const { todo, videoFound } = await createLearningPlan(
+        {
+          requestId: pendingPlan.current.requestId,
+          topic,
+          classLevel: filters.class,
+          subject: filters.subject,
+          board: filters.board,
+          language: filters.language,
+          videoType: filters.videoType,
+          videoDuration: filters.videoDuration,
+        },
+        (message) => toast.loading(message, { id: progressToast })
+      );
 
-      setTodos([data, ...todos]);
+      pendingPlan.current = null;
+      setTodos((current) => (current.some((t) => t.id === todo.id) ? current : [todo, ...current]));
       setNewTodoTitle('');
       setShowInput(false);
-      
-      if (videoId) {
+
+      if (videoFound) {
         toast.success('Task added with AI-recommended video!', {
+          id: progressToast,
           icon: <Sparkles className="h-4 w-4 text-primary" />,
         });
       } else {
-        toast.success('Task added!');
+        toast.success('Task added!', { id: progressToast });
       }
     } catch (error) {
       console.error('Error adding todo:', error);
-      toast.error('Failed to add task');
+      toast.dismiss(progressToast);
+      await showFunctionError(error, 'Failed to add task. Please try again.');
     } finally {
       setAdding(false);
     }
@@ -298,6 +301,7 @@ const Dashboard = () => {
             <span className="text-sm text-muted-foreground hidden lg:block">
               Hi, {displayName}!
             </span>
+            <AiJobsIndicator />
             <Button variant="ghost" size="icon" onClick={() => navigate('/analysis')} title="Your Analysis">
               <TrendingUp className="h-5 w-5" />
             </Button>
@@ -324,6 +328,7 @@ const Dashboard = () => {
           onOpenChange={setStreakModalOpen}
           currentStreak={stats.currentStreak}
           streakProtections={stats.streakProtections}
+          missedDays={stats.missedDays}
           onUseProtection={useStreakProtection}
         />
       )}
@@ -348,13 +353,19 @@ const Dashboard = () => {
           <Progress value={progress} className="h-3" />
         </section>
 
+        {/* Partially watched videos */}
+        <ContinueWatchingCard />
+
+        {/* Spaced-repetition reviews */}
+        <ReviewsDueCard />
+
         {/* Daily Challenges */}
         <DailyChallengesCard />
 
         {/* Weekly Goals Widget + Study Reminders + Streak Freeze + Friends */}
         <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 animate-fade-in">
           <WeeklyGoalsWidget />
-          <StreakFreezeCard />
+          <StreakFreezeCard onStreakChange={refetchStats} />
           <StudyRemindersCard />
           <FriendsWidget />
         </section>
@@ -419,6 +430,24 @@ const Dashboard = () => {
                     )}
                   </div>
                   <div className="flex gap-2 flex-shrink-0">
+                    {todo.video_id && !hasNotes(todo.id) && (
+                      jobs.some((job) => job.todo_id === todo.id && isActiveJob(job)) ? (
+                        <Button variant="ghost" size="sm" disabled>
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          Preparing
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handlePrepare(todo)}
+                          title="Generate notes and a quiz in the background"
+                        >
+                          <Wand2 className="h-4 w-4 mr-1" />
+                          Prepare
+                        </Button>
+                      )
+                    )}
                     {todo.video_id && (
                       <Button
                         variant="outline"
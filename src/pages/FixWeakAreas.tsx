@@ -20,6 +20,7 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import Logo from '@/components/Logo';
+import MathText from '@/components/MathText';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -462,7 +463,7 @@ const FixWeakAreas = () => {
                 </Badge>
               )}
             </div>
-            <h2 className="text-xl font-semibold">{question.question}</h2>
+            <h2 className="text-xl font-semibold"><MathText text={question.question} /></h2>
           </div>
 
           <div className="space-y-3 mb-6">
@@ -507,7 +508,7 @@ const FixWeakAreas = () => {
                         String.fromCharCode(65 + index)
                       )}
                     </div>
-                    <span>{option}</span>
+                    <MathText text={option} />
                   </div>
                 </button>
               );
@@ -520,7 +521,7 @@ const FixWeakAreas = () => {
                 <Lightbulb className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
                 <div>
                   <p className="font-medium text-primary mb-1">Explanation</p>
-                  <p className="text-sm text-muted-foreground">{question.explanation}</p>
+                  <p className="text-sm text-muted-foreground"><MathText text={question.explanation} /></p>
                 </div>
               </div>
             </div>
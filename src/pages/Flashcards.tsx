@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  Download,
+  Layers,
+  Loader2,
+  RefreshCw,
+  Sparkles,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import Logo from '@/components/Logo';
+import FlipCard from '@/components/flashcards/FlipCard';
+import { supabase } from '@/integrations/supabase/client';
+import { exportDeck, DeckExportFormat } from '@/lib/deckExport';
+import { useFlashcards, Flashcard, FlashcardRating } from '@/hooks/useFlashcards';
+
+const RATING_BUTTONS: { rating: FlashcardRating; label: string; className: string }[] = [
+  { rating: 'again', label: 'Again', className: 'border-destructive text-destructive hover:bg-destructive/10' },
+  { rating: 'hard', label: 'Hard', className: 'border-orange-500 text-orange-500 hover:bg-orange-500/10' },
+  { rating: 'good', label: 'Good', className: 'border-primary text-primary hover:bg-primary/10' },
+  { rating: 'easy', label: 'Easy', className: 'border-green-500 text-green-500 hover:bg-green-500/10' },
+];
+
+const Flashcards = () => {
+  const { todoId } = useParams();
+  const navigate = useNavigate();
+  const { cards, dueCount, loading, generating, generateCards, rateCard } = useFlashcards(todoId);
+  const [title, setTitle] = useState('');
+  // Snapshot the session so cards don't reshuffle as they are rescheduled
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [rating, setRating] = useState(false);
+  const [finished, setFinished] = useState(false);
+
+  useEffect(() => {
+    if (!todoId) return;
+    supabase
+      .from('todos')
+      .select('title')
+      .eq('id', todoId)
+      .maybeSingle()
+      .then(({ data }) => setTitle(data?.title || ''));
+  }, [todoId]);
+
+  const startSession = (dueOnly: boolean) => {
+    const now = Date.now();
+    setQueue(dueOnly ? cards.filter((card) => new Date(card.due_at).getTime() <= now) : cards);
+    setCurrentIndex(0);
+    setIsFlipped(false);
+    setFinished(false);
+  };
+
+  const handleGenerate = async (regenerate: boolean) => {
+    const ok = await generateCards(regenerate);
+    if (ok) {
+      setQueue(null);
+      setFinished(false);
+    }
+  };
+
+  const handleRate = async (value: FlashcardRating) => {
+    const card = queue?.[currentIndex];
+    if (!card) return;
+
+    setRating(true);
+    const result = await rateCard(card, value);
+    setRating(false);
+    if (!result) return;
+
+    if (!queue || currentIndex >= queue.length - 1) {
+      setFinished(true);
+      return;
+    }
+    setCurrentIndex(currentIndex + 1);
+    setIsFlipped(false);
+  };
+
+  const handleExport = (format: DeckExportFormat) => {
+    exportDeck(cards, title, format);
+  };
+
+  const header = (
+    <header className="sticky top-0 z-50 glass-card border-b border-border/50">
+      <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <Logo size="sm" />
+        </div>
+        {cards.length > 0 && (
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('anki')}>Anki (.txt)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={() => handleGenerate(true)} disabled={generating}>
+              {generating ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-1" />
+              )}
+              Regenerate
+            </Button>
+          </div>
+        )}
+      </div>
+    </header>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        <p className="text-muted-foreground">Loading flashcards...</p>
+      </div>
+    );
+  }
+
+  if (cards.length === 0) {
+    return (
+      <div className="min-h-screen">
+        {header}
+        <main className="container mx-auto px-4 py-16 max-w-lg text-center">
+          <div className="glass-card rounded-2xl p-8 animate-slide-up">
+            <div className="w-20 h-20 rounded-full mx-auto mb-6 flex items-center justify-center gradient-bg">
+              <Layers className="h-10 w-10 text-primary-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold mb-2">No flashcards yet</h1>
+            <p className="text-muted-foreground mb-6">
+              Turn your notes into a deck, with extra cards on the topics you find hardest.
+            </p>
+            <Button variant="neon" className="w-full" onClick={() => handleGenerate(false)} disabled={generating}>
+              {generating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4 mr-2" />
+              )}
+              {generating ? 'Generating...' : 'Generate Flashcards'}
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (queue === null || finished) {
+    return (
+      <div className="min-h-screen">
+        {header}
+        <main className="container mx-auto px-4 py-16 max-w-lg text-center">
+          <div className="glass-card rounded-2xl p-8 animate-slide-up">
+            <div className="w-20 h-20 rounded-full mx-auto mb-6 flex items-center justify-center gradient-bg">
+              {finished ? (
+                <CheckCircle className="h-10 w-10 text-primary-foreground" />
+              ) : (
+                <Layers className="h-10 w-10 text-primary-foreground" />
+              )}
+            </div>
+            <h1 className="text-2xl font-bold mb-2">{finished ? 'Session Complete!' : title || 'Flashcards'}</h1>
+            <p className="text-muted-foreground mb-6">
+              {cards.length} card{cards.length === 1 ? '' : 's'} in this deck, {dueCount} due now.
+            </p>
+            <div className="space-y-3">
+              {dueCount > 0 && (
+                <Button variant="neon" className="w-full" onClick={() => startSession(true)}>
+                  Study {dueCount} Due Card{dueCount === 1 ? '' : 's'}
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              )}
+              <Button
+                variant={dueCount > 0 ? 'outline' : 'neon'}
+                className="w-full"
+                onClick={() => startSession(false)}
+              >
+                Study All Cards
+              </Button>
+              <Button variant="ghost" className="w-full" onClick={() => navigate(`/notes/${todoId}`)}>
+                Back to Notes
+              </Button>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const card = queue[currentIndex];
+  const progress = ((currentIndex + 1) / queue.length) * 100;
+
+  return (
+    <div className="min-h-screen">
+      {header}
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <div className="flex items-center justify-between text-sm text-muted-foreground mb-2">
+          <span className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Card {currentIndex + 1} of {queue.length}
+          </span>
+          {title && <span className="truncate ml-4">{title}</span>}
+        </div>
+        <Progress value={progress} className="h-2 mb-8" />
+
+        <div className="animate-fade-in" key={card.id}>
+          <FlipCard
+            front={card.front}
+            back={card.back}
+            topicName={card.topic_name}
+            isFlipped={isFlipped}
+            onFlip={() => setIsFlipped(!isFlipped)}
+          />
+
+          <div className="mt-8">
+            {isFlipped ? (
+              <div className="grid grid-cols-4 gap-2">
+                {RATING_BUTTONS.map(({ rating: value, label, className }) => (
+                  <Button
+                    key={value}
+                    variant="outline"
+                    className={className}
+                    onClick={() => handleRate(value)}
+                    disabled={rating}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <div className="flex justify-center">
+                <Button variant="neon" size="lg" onClick={() => setIsFlipped(true)}>
+                  Show Answer
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Flashcards;
@@ -11,23 +11,47 @@ import {
   AlertCircle,
   AlertTriangle,
   Brain,
+  Layers,
+  Clock,
+  PlayCircle,
+  BookMarked,
+  Sigma,
+  Lightbulb,
+  XCircle,
+  PenLine,
+  Copy,
+  FilePlus,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import Logo from '@/components/Logo';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import MicroQuizPopup from '@/components/MicroQuizPopup';
-
-interface ParsedNotes {
-  title: string;
-  summary: string;
-  keyPoints: string[];
-  sections: Array<{
-    title: string;
-    content: string;
-  }>;
+import MathText from '@/components/MathText';
+import NotesEditor from '@/components/notes/NotesEditor';
+import RevisionHistory from '@/components/notes/RevisionHistory';
+import { useAnnotations } from '@/hooks/useAnnotations';
+import { useStudentNotes } from '@/hooks/useStudentNotes';
+import { useStudyTimer } from '@/hooks/useStudyTimer';
+import { toNoteSections, formatTimestamp } from '@/lib/noteSections';
+import { NotesDocument, toNotesDocument, notesDocumentFromLegacy } from '@/lib/notesDocument';
+import { hasMath } from '@/lib/math';
+import { exportNotes, NotesExportFormat } from '@/lib/notesExport';
+
+interface StudyContext {
+  classLevel: string | null;
+  subject: string | null;
+  board: string | null;
 }
 
 interface WeakTopic {
@@ -40,14 +64,23 @@ const Notes = () => {
   const { todoId } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { annotations } = useAnnotations(todoId);
+  const studentNotes = useStudentNotes(todoId);
   const [loading, setLoading] = useState(true);
-  const [notes, setNotes] = useState<ParsedNotes | null>(null);
+  const [activeTab, setActiveTab] = useState<'ai' | 'mine'>('ai');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [notes, setNotes] = useState<NotesDocument | null>(null);
   const [rawNotes, setRawNotes] = useState<string>('');
   const [todoTitle, setTodoTitle] = useState('');
+  const [todoVideoId, setTodoVideoId] = useState('');
+  const [studyContext, setStudyContext] = useState<StudyContext>({ classLevel: null, subject: null, board: null });
   const [weakTopics, setWeakTopics] = useState<WeakTopic[]>([]);
   const [microQuizOpen, setMicroQuizOpen] = useState(false);
   const [selectedQuizTopic, setSelectedQuizTopic] = useState<WeakTopic | null>(null);
 
+  // Reading time counts towards study sessions while the notes are on screen
+  useStudyTimer('notes', todoId, !loading && (!!notes || !!rawNotes));
+
   useEffect(() => {
     if (todoId && user) {
       fetchNotes();
@@ -60,18 +93,20 @@ const Notes = () => {
       // Fetch todo for title
       const { data: todoData } = await supabase
         .from('todos')
-        .select('title')
+        .select('title, video_id, class_level, subject, board')
         .eq('id', todoId)
         .maybeSingle();
 
       if (todoData) {
         setTodoTitle(todoData.title);
+        setTodoVideoId(todoData.video_id || '');
+        setStudyContext({ classLevel: todoData.class_level, subject: todoData.subject, board: todoData.board });
       }
 
       // Fetch notes
       const { data: notesData, error } = await supabase
         .from('notes')
-        .select('content')
+        .select('id, content, sections, document')
         .eq('todo_id', todoId)
         .eq('is_ai_generated', true)
         .maybeSingle();
@@ -80,7 +115,24 @@ const Notes = () => {
 
       if (notesData?.content) {
         setRawNotes(notesData.content);
-        parseNotes(notesData.content, todoData?.title || 'Study Notes');
+
+        let notesDocument = toNotesDocument(notesData.document);
+        if (!notesDocument) {
+          // Notes from before structured documents: convert once and save the result
+          notesDocument = notesDocumentFromLegacy(
+            notesData.content,
+            toNoteSections(notesData.sections),
+            todoData?.title || 'Study Notes'
+          );
+          const { error: upgradeError } = await supabase
+            .from('notes')
+            .update({ document: notesDocument as unknown as Json })
+            .eq('id', notesData.id);
+          if (upgradeError) {
+            console.error('Error saving converted notes:', upgradeError);
+          }
+        }
+        setNotes(notesDocument);
       }
     } catch (error) {
       console.error('Error fetching notes:', error);
@@ -118,60 +170,10 @@ const Notes = () => {
     }
   };
 
-  const parseNotes = (content: string, title: string) => {
-    const lines = content.split('\n').filter(line => line.trim());
-    const keyPoints: string[] = [];
-    const sections: Array<{ title: string; content: string }> = [];
-    let currentSection: { title: string; content: string } | null = null;
-    let summary = '';
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Check for headers
-      if (trimmed.startsWith('## ') || trimmed.startsWith('### ')) {
-        if (currentSection) {
-          sections.push(currentSection);
-        }
-        currentSection = { title: trimmed.replace(/^#+\s*/, ''), content: '' };
-      } else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-        const point = trimmed.replace(/^[-*]\s*/, '').replace(/\*\*/g, '');
-        if (point.length > 10) {
-          keyPoints.push(point);
-        }
-        if (currentSection) {
-          currentSection.content += point + '\n';
-        }
-      } else if (trimmed.startsWith('**') && trimmed.endsWith('**')) {
-        // Bold line - might be a key point
-        const point = trimmed.replace(/\*\*/g, '');
-        if (point.length > 10) {
-          keyPoints.push(point);
-        }
-      } else if (!trimmed.startsWith('#') && trimmed.length > 50) {
-        if (!summary && !currentSection) {
-          summary = trimmed.replace(/\*\*/g, '');
-        } else if (currentSection) {
-          currentSection.content += trimmed + '\n';
-        }
-      }
-    }
-
-    if (currentSection) {
-      sections.push(currentSection);
-    }
-
-    // If no summary found, create one from key points
-    if (!summary && keyPoints.length > 0) {
-      summary = keyPoints[0];
-    }
-
-    setNotes({
-      title,
-      summary: summary || 'Study notes generated from your video content.',
-      keyPoints: keyPoints.slice(0, 7),
-      sections: sections.slice(0, 5),
-    });
+  const openVideoAt = (seconds: number, videoId?: string) => {
+    const params = new URLSearchParams({ t: String(Math.floor(seconds)) });
+    if (videoId) params.set('v', videoId);
+    navigate(`/video/${todoId}?${params.toString()}`);
   };
 
   // Check if text contains a weak topic
@@ -211,17 +213,46 @@ const Notes = () => {
     return <p>{text}</p>;
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([rawNotes], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${todoTitle || 'notes'}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    toast.success('Notes downloaded!');
+  const renderTimestamp = (seconds: number) => (
+    <span className="inline-flex items-center gap-1 ml-2 text-xs font-mono text-primary align-middle">
+      <PlayCircle className="h-3 w-3" />
+      {formatTimestamp(seconds)}
+    </span>
+  );
+
+  const handleStartOwnNotes = async (fromAiNotes: boolean) => {
+    const created = await studentNotes.createNote(todoVideoId, fromAiNotes ? rawNotes : '');
+    if (created) {
+      setActiveTab('mine');
+    }
+  };
+
+  const handleShowHistory = () => {
+    setHistoryOpen(true);
+    studentNotes.fetchRevisions();
+  };
+
+  const handleExport = async (format: NotesExportFormat) => {
+    // Export whichever notes are on screen
+    const exportingOwn = (activeTab === 'mine' || !notes) && !!studentNotes.note;
+    try {
+      const exported = await exportNotes({
+        title: todoTitle || notes?.title || 'Study Notes',
+        ...studyContext,
+        document: exportingOwn ? null : notes,
+        markdown: exportingOwn ? studentNotes.content : rawNotes,
+        weakTopics: weakTopics.map((topic) => topic.topic_name),
+      }, format);
+
+      if (!exported) {
+        toast.error('Nothing to turn into flashcards yet');
+      } else if (format !== 'pdf') {
+        toast.success('Notes downloaded!');
+      }
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      toast.error('Failed to export notes');
+    }
   };
 
   const handleShare = () => {
@@ -237,7 +268,7 @@ const Notes = () => {
     }
   };
 
-  if (loading) {
+  if (loading || studentNotes.loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 text-primary animate-spin" />
@@ -245,13 +276,19 @@ const Notes = () => {
     );
   }
 
-  if (!notes || !rawNotes) {
+  if ((!notes || !rawNotes) && !studentNotes.note) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center gap-4">
         <AlertCircle className="h-12 w-12 text-muted-foreground" />
         <p className="text-muted-foreground">No notes found for this task</p>
         <p className="text-sm text-muted-foreground">Watch at least 50% of the video to generate notes</p>
-        <Button onClick={() => navigate(`/video/${todoId}`)}>Watch Video</Button>
+        <div className="flex gap-2">
+          <Button onClick={() => navigate(`/video/${todoId}`)}>Watch Video</Button>
+          <Button variant="outline" onClick={() => handleStartOwnNotes(false)}>
+            <PenLine className="h-4 w-4 mr-2" />
+            Write Your Own
+          </Button>
+        </div>
       </div>
     );
   }
@@ -268,10 +305,20 @@ const Notes = () => {
             <Logo size="sm" />
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={handleDownload}>
-              <Download className="h-4 w-4 mr-1" />
-              Save
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('pdf')}>PDF (print)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('html')}>HTML</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('anki')}>Anki (.txt)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('markdown')}>Markdown</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="outline" size="sm" onClick={handleShare}>
               <Share2 className="h-4 w-4 mr-1" />
               Share
@@ -312,121 +359,327 @@ const Notes = () => {
           </div>
         )}
 
-        {/* Title */}
-        <div className="mb-8 animate-fade-in">
-          <div className="flex items-center gap-2 text-primary mb-2">
-            <Sparkles className="h-5 w-5" />
-            <span className="text-sm font-medium">AI-Generated Notes</span>
-          </div>
-          <h1 className="text-3xl font-bold mb-4">{notes.title}</h1>
-          <p className="text-lg text-muted-foreground">{notes.summary}</p>
-        </div>
+        <Tabs
+          value={notes ? activeTab : 'mine'}
+          onValueChange={(value) => setActiveTab(value as 'ai' | 'mine')}
+          className="mb-2"
+        >
+          <TabsList className="mb-6">
+            <TabsTrigger value="ai" disabled={!notes}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              AI Notes
+            </TabsTrigger>
+            <TabsTrigger value="mine">
+              <PenLine className="h-4 w-4 mr-1" />
+              My Notes
+            </TabsTrigger>
+          </TabsList>
+
+          {notes && (
+            <TabsContent value="ai" className="mt-0">
+            {/* Title */}
+            <div className="mb-8 animate-fade-in">
+              <div className="flex items-center gap-2 text-primary mb-2">
+                <Sparkles className="h-5 w-5" />
+                <span className="text-sm font-medium">AI-Generated Notes</span>
+              </div>
+              <h1 className="text-3xl font-bold mb-4">{notes.title}</h1>
+              <p className="text-lg text-muted-foreground"><MathText text={notes.summary} /></p>
+            </div>
 
-        {/* Key Points */}
-        {notes.keyPoints.length > 0 && (
-          <section className="mb-8 animate-slide-up">
-            <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
-              <CheckCircle className="h-5 w-5 text-primary" />
-              Key Takeaways
-            </h2>
-            <div className="space-y-3">
-              {notes.keyPoints.map((point, index) => {
-                const weakTopic = containsWeakTopic(point);
+            {/* Key Points */}
+            {notes.keyPoints.length > 0 && (
+              <section className="mb-8 animate-slide-up">
+                <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+                  <CheckCircle className="h-5 w-5 text-primary" />
+                  Key Takeaways
+                </h2>
+                <div className="space-y-3">
+                  {notes.keyPoints.map((point, index) => {
+                    const weakTopic = containsWeakTopic(point);
                 
-                return (
-                  <div
-                    key={index}
-                    className={`flex gap-3 p-4 glass-card rounded-xl hover:neon-glow transition-all duration-300 ${
-                      weakTopic ? 'border-l-4 border-destructive bg-destructive/5' : ''
-                    }`}
-                  >
-                    <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                      weakTopic ? 'bg-destructive text-destructive-foreground' : 'gradient-bg text-primary-foreground'
-                    }`}>
-                      {weakTopic ? <AlertTriangle className="h-3 w-3" /> : index + 1}
-                    </div>
-                    <div className="flex-1">
-                      <p>{point}</p>
+                    return (
+                      <div
+                        key={index}
+                        className={`flex gap-3 p-4 glass-card rounded-xl hover:neon-glow transition-all duration-300 ${
+                          weakTopic ? 'border-l-4 border-destructive bg-destructive/5' : ''
+                        }`}
+                      >
+                        <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
+                          weakTopic ? 'bg-destructive text-destructive-foreground' : 'gradient-bg text-primary-foreground'
+                        }`}>
+                          {weakTopic ? <AlertTriangle className="h-3 w-3" /> : index + 1}
+                        </div>
+                        <div className="flex-1">
+                          <p><MathText text={point} /></p>
+                          {weakTopic && (
+                            <button
+                              onClick={() => {
+                                setSelectedQuizTopic(weakTopic);
+                                setMicroQuizOpen(true);
+                              }}
+                              className="inline-flex items-center gap-1 mt-2 text-xs text-destructive hover:underline font-medium"
+                            >
+                              <Brain className="h-3 w-3" />
+                              Quick Quiz: {weakTopic.topic_name}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+
+            {/* Detailed Sections */}
+            {notes.sections.length > 0 && (
+              <section className="space-y-6 animate-slide-up">
+                <h2 className="text-xl font-bold flex items-center gap-2">
+                  <BookOpen className="h-5 w-5 text-primary" />
+                  Detailed Notes
+                </h2>
+                {notes.sections.map((section, index) => {
+                  const weakTopic = containsWeakTopic(section.title)
+                    || containsWeakTopic([section.content, ...section.points].join('\n'));
+              
+                  return (
+                    <div 
+                      key={index} 
+                      className={`glass-card rounded-xl p-6 ${
+                        weakTopic ? 'border-l-4 border-destructive bg-destructive/5' : ''
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-3">
+                        <h3 className={`text-lg font-semibold ${weakTopic ? 'text-destructive' : 'neon-text'}`}>
+                          {section.title}
+                          {section.startSeconds !== undefined && (
+                            <button
+                              onClick={() => openVideoAt(section.startSeconds!)}
+                              className="hover:underline"
+                            >
+                              {renderTimestamp(section.startSeconds)}
+                              {section.endSeconds !== undefined && (
+                                <span className="text-xs font-mono text-primary">–{formatTimestamp(section.endSeconds)}</span>
+                              )}
+                            </button>
+                          )}
+                        </h3>
+                        {weakTopic && (
+                          <Badge variant="outline" className="border-destructive text-destructive text-xs">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Weak Area
+                          </Badge>
+                        )}
+                      </div>
+                      {section.content && (
+                        <p className="text-muted-foreground leading-relaxed whitespace-pre-wrap mb-3">
+                          <MathText text={section.content} />
+                        </p>
+                      )}
+                      {section.points.length > 0 && (
+                        <ul className="space-y-1">
+                          {section.points.map((point, pointIndex) => (
+                            <li key={pointIndex} className="text-muted-foreground leading-relaxed">
+                              {section.startSeconds !== undefined ? (
+                                <button
+                                  onClick={() => openVideoAt(section.startSeconds!)}
+                                  className="text-left hover:text-foreground transition-colors"
+                                >
+                                  • <MathText text={point} />
+                                </button>
+                              ) : (
+                                <>• <MathText text={point} /></>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       {weakTopic && (
-                        <button
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mt-4 border-destructive text-destructive hover:bg-destructive/10"
                           onClick={() => {
                             setSelectedQuizTopic(weakTopic);
                             setMicroQuizOpen(true);
                           }}
-                          className="inline-flex items-center gap-1 mt-2 text-xs text-destructive hover:underline font-medium"
                         >
-                          <Brain className="h-3 w-3" />
-                          Quick Quiz: {weakTopic.topic_name}
-                        </button>
+                          <Brain className="h-4 w-4 mr-2" />
+                          Practice This Topic
+                        </Button>
                       )}
                     </div>
-                  </div>
-                );
-              })}
-            </div>
-          </section>
-        )}
+                  );
+                })}
+              </section>
+            )}
+
+            {/* Definitions */}
+            {notes.definitions.length > 0 && (
+              <section className="mt-8 animate-slide-up">
+                <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+                  <BookMarked className="h-5 w-5 text-primary" />
+                  Definitions
+                </h2>
+                <dl className="glass-card rounded-xl p-6 space-y-4">
+                  {notes.definitions.map((definition, index) => (
+                    <div key={index}>
+                      <dt className="font-semibold"><MathText text={definition.term} /></dt>
+                      <dd className="text-muted-foreground"><MathText text={definition.meaning} /></dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+            )}
+
+            {/* Formulas */}
+            {notes.formulas.length > 0 && (
+              <section className="mt-8 animate-slide-up">
+                <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+                  <Sigma className="h-5 w-5 text-primary" />
+                  Formulas
+                </h2>
+                <div className="space-y-3">
+                  {notes.formulas.map((formula, index) => (
+                    <div key={index} className="glass-card rounded-xl p-4">
+                      <p className="font-semibold mb-2">{formula.name}</p>
+                      {hasMath(formula.expression) ? (
+                        <MathText
+                          text={formula.expression}
+                          className="block text-primary bg-muted/50 rounded-lg px-3 py-2 overflow-x-auto"
+                        />
+                      ) : (
+                        <p className="font-mono text-primary bg-muted/50 rounded-lg px-3 py-2 overflow-x-auto">
+                          {formula.expression}
+                        </p>
+                      )}
+                      {formula.explanation && (
+                        <p className="text-sm text-muted-foreground mt-2"><MathText text={formula.explanation} /></p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Examples */}
+            {notes.examples.length > 0 && (
+              <section className="mt-8 animate-slide-up">
+                <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+                  <Lightbulb className="h-5 w-5 text-primary" />
+                  Examples
+                </h2>
+                <div className="space-y-3">
+                  {notes.examples.map((example, index) => (
+                    <div key={index} className="glass-card rounded-xl p-4">
+                      <p className="font-semibold mb-2">{example.title}</p>
+                      <p className="text-muted-foreground whitespace-pre-wrap"><MathText text={example.description} /></p>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Misconceptions */}
+            {notes.misconceptions.length > 0 && (
+              <section className="mt-8 animate-slide-up">
+                <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+                  <XCircle className="h-5 w-5 text-destructive" />
+                  Common Misconceptions
+                </h2>
+                <div className="space-y-3">
+                  {notes.misconceptions.map((item, index) => (
+                    <div key={index} className="glass-card rounded-xl p-4 border-l-4 border-destructive/50">
+                      <p className="text-destructive font-medium mb-1">✗ <MathText text={item.misconception} /></p>
+                      <p className="text-muted-foreground">✓ <MathText text={item.correction} /></p>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+            </TabsContent>
+          )}
+
+          <TabsContent value="mine" className="mt-0">
+            {studentNotes.note ? (
+              <NotesEditor
+                content={studentNotes.content}
+                saveStatus={studentNotes.saveStatus}
+                onChange={studentNotes.setContent}
+                onBlur={studentNotes.saveNow}
+                onShowHistory={handleShowHistory}
+              />
+            ) : (
+              <div className="glass-card rounded-xl p-8 text-center animate-fade-in">
+                <PenLine className="h-10 w-10 text-primary mx-auto mb-4" />
+                <h2 className="text-xl font-bold mb-2">Make these notes your own</h2>
+                <p className="text-muted-foreground mb-6">
+                  Correct, extend or rewrite the AI notes. Your version is saved as you type, and
+                  quizzes for this task are generated from it.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2 justify-center">
+                  <Button variant="neon" onClick={() => handleStartOwnNotes(true)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Start From AI Notes
+                  </Button>
+                  <Button variant="outline" onClick={() => handleStartOwnNotes(false)}>
+                    <FilePlus className="h-4 w-4 mr-2" />
+                    Start Blank
+                  </Button>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
 
-        {/* Detailed Sections */}
-        {notes.sections.length > 0 && (
-          <section className="space-y-6 animate-slide-up">
-            <h2 className="text-xl font-bold flex items-center gap-2">
-              <BookOpen className="h-5 w-5 text-primary" />
-              Detailed Notes
+        {/* Timestamped annotations */}
+        {annotations.length > 0 && (
+          <section className="mt-8 animate-slide-up">
+            <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+              <Clock className="h-5 w-5 text-primary" />
+              My Timestamped Notes
             </h2>
-            {notes.sections.map((section, index) => {
-              const weakTopic = containsWeakTopic(section.title) || containsWeakTopic(section.content);
-              
-              return (
-                <div 
-                  key={index} 
-                  className={`glass-card rounded-xl p-6 ${
-                    weakTopic ? 'border-l-4 border-destructive bg-destructive/5' : ''
-                  }`}
+            <div className="space-y-2">
+              {annotations.map((annotation) => (
+                <button
+                  key={annotation.id}
+                  onClick={() => openVideoAt(annotation.timestamp_seconds, annotation.video_id)}
+                  className="w-full flex gap-3 p-4 glass-card rounded-xl text-left hover:neon-glow transition-all duration-300"
                 >
-                  <div className="flex items-start justify-between gap-2 mb-3">
-                    <h3 className={`text-lg font-semibold ${weakTopic ? 'text-destructive' : 'neon-text'}`}>
-                      {section.title}
-                    </h3>
-                    {weakTopic && (
-                      <Badge variant="outline" className="border-destructive text-destructive text-xs">
-                        <AlertTriangle className="h-3 w-3 mr-1" />
-                        Weak Area
-                      </Badge>
-                    )}
-                  </div>
-                  <p className="text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                    {section.content}
-                  </p>
-                  {weakTopic && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="mt-4 border-destructive text-destructive hover:bg-destructive/10"
-                      onClick={() => {
-                        setSelectedQuizTopic(weakTopic);
-                        setMicroQuizOpen(true);
-                      }}
-                    >
-                      <Brain className="h-4 w-4 mr-2" />
-                      Practice This Topic
-                    </Button>
-                  )}
-                </div>
-              );
-            })}
+                  <span className="flex items-center gap-1 text-xs font-mono text-primary flex-shrink-0 mt-1">
+                    <PlayCircle className="h-3 w-3" />
+                    {formatTimestamp(annotation.timestamp_seconds)}
+                  </span>
+                  <p className="flex-1 whitespace-pre-wrap break-words">{annotation.body}</p>
+                </button>
+              ))}
+            </div>
           </section>
         )}
 
         {/* CTA */}
-        <div className="mt-8 text-center">
+        <div className="mt-8 flex flex-wrap justify-center gap-3">
           <Button variant="neon" size="lg" onClick={() => navigate(`/quiz/${todoId}`)}>
             <Sparkles className="h-5 w-5 mr-2" />
             Take the Quiz
           </Button>
+          <Button variant="outline" size="lg" onClick={() => navigate(`/flashcards/${todoId}`)}>
+            <Layers className="h-5 w-5 mr-2" />
+            Flashcards
+          </Button>
         </div>
       </main>
 
+      <RevisionHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        revisions={studentNotes.revisions}
+        loading={studentNotes.revisionsLoading}
+        currentContent={studentNotes.content}
+        onRestore={studentNotes.restoreRevision}
+      />
+
       {/* Micro Quiz Popup */}
       <MicroQuizPopup
         isOpen={microQuizOpen}
@@ -436,6 +689,7 @@ const Notes = () => {
         }}
         topicName={selectedQuizTopic?.topic_name || ''}
         topicId={selectedQuizTopic?.topic_id || ''}
+        weaknessScore={selectedQuizTopic?.weakness_score}
         todoId={todoId || ''}
       />
     </div>
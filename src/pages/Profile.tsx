@@ -1,15 +1,18 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, User, Coins, RefreshCw, Loader2, Trophy, Award, TrendingUp, Camera } from 'lucide-react';
+import { ArrowLeft, User, Coins, RefreshCw, Loader2, Trophy, Award, TrendingUp, Camera, Globe } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import Logo from '@/components/Logo';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import AchievementsPanel from '@/components/achievements/AchievementsPanel';
 import ImprovementChart from '@/components/ImprovementChart';
+import StudyHeatmap from '@/components/analysis/StudyHeatmap';
+import { browserTimezone, supportedTimezones } from '@/lib/timezone';
 
 interface UserCredits {
   credits_remaining: number;
@@ -18,6 +21,7 @@ interface UserCredits {
 }
 
 const TOTAL_MONTHLY_CREDITS = 50;
+const AUTO_TIMEZONE = 'auto';
 
 const Profile = () => {
   const navigate = useNavigate();
@@ -27,6 +31,8 @@ const Profile = () => {
   const [wasReset, setWasReset] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(profile?.avatar_url || null);
+  const [timezone, setTimezone] = useState<string>(AUTO_TIMEZONE);
+  const [savingTimezone, setSavingTimezone] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const displayName = profile?.name || user?.user_metadata?.name || user?.email?.split('@')[0] || 'Student';
@@ -35,6 +41,7 @@ const Profile = () => {
   useEffect(() => {
     if (user) {
       fetchCredits();
+      fetchTimezone();
     }
   }, [user]);
 
@@ -95,6 +102,49 @@ const Profile = () => {
     }
   };
 
+  const fetchTimezone = async () => {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('timezone, timezone_auto')
+      .eq('user_id', user?.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching timezone:', error);
+      return;
+    }
+    if (data && !data.timezone_auto) {
+      setTimezone(data.timezone);
+    }
+  };
+
+  const handleTimezoneChange = async (value: string) => {
+    if (!user) return;
+
+    const previous = timezone;
+    setTimezone(value);
+    setSavingTimezone(true);
+    try {
+      const isAuto = value === AUTO_TIMEZONE;
+      const { error } = await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: user.id,
+          timezone: isAuto ? browserTimezone() : value,
+          timezone_auto: isAuto,
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      toast.success('Timezone updated');
+    } catch (error) {
+      console.error('Error updating timezone:', error);
+      setTimezone(previous);
+      toast.error('Failed to update timezone');
+    } finally {
+      setSavingTimezone(false);
+    }
+  };
+
   const fetchCredits = async () => {
     try {
       // Use the check_and_reset_credits function which handles monthly reset
@@ -206,6 +256,9 @@ const Profile = () => {
           </div>
         </section>
 
+        {/* Study Activity Heatmap */}
+        <StudyHeatmap />
+
         {/* Improvement Tracking Chart */}
         <section className="glass-card rounded-2xl p-6 animate-slide-up">
           <div className="flex items-center gap-3 mb-6">
@@ -267,6 +320,8 @@ const Profile = () => {
                 <li>• Find Video: 1 credit</li>
                 <li>• AI Notes: 4 credits</li>
                 <li>• Quiz: 4 credits</li>
+                <li>• Weak Areas Practice: 4 credits</li>
+                <li>• Flashcards: 2 credits</li>
               </ul>
             </div>
 
@@ -279,6 +334,32 @@ const Profile = () => {
           </div>
         </section>
 
+        {/* Timezone Section */}
+        <section className="glass-card rounded-2xl p-6 animate-slide-up">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Globe className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="font-semibold">Timezone</h2>
+              <p className="text-sm text-muted-foreground">
+                Streaks, daily challenges, weekly goals and reminders follow your local day
+              </p>
+            </div>
+          </div>
+          <Select value={timezone} onValueChange={handleTimezoneChange} disabled={savingTimezone}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_TIMEZONE}>Automatic ({browserTimezone()})</SelectItem>
+              {supportedTimezones().map(zone => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </section>
+
         {/* Achievements Section */}
         <section className="glass-card rounded-2xl p-6 animate-slide-up">
           <div className="flex items-center gap-3 mb-6">
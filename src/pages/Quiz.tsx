@@ -10,35 +10,37 @@ import {
   RotateCcw,
   Loader2,
   AlertCircle,
-  Lightbulb,
   Brain,
-  Zap,
   User,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import Logo from '@/components/Logo';
+import QuestionCard, { AnswerFeedback, QuizQuestion } from '@/components/quiz/QuestionCard';
 import { supabase } from '@/integrations/supabase/client';
+import { showFunctionError, showUsageLimitError } from '@/lib/functionErrors';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAiJobs } from '@/hooks/useAiJobs';
+import { isActiveJob } from '@/lib/aiJobs';
 
-interface Question {
-  id: number;
-  type?: string;
-  difficulty?: string;
-  question: string;
-  options: string[];
+interface QuizSummary {
+  score: number;
+  correctAnswers: number;
+  totalQuestions: number;
+}
+
+interface QuestionReview {
+  questionId: number;
   correctAnswer: number;
-  explanation?: string;
+  explanation: string | null;
 }
 
-interface QuestionTiming {
-  questionIndex: number;
-  startTime: number;
-  endTime?: number;
-  timeTakenSeconds: number;
+interface OpenAttemptAnswer {
+  questionId: number;
+  selectedAnswer: number;
+  isCorrect: boolean;
 }
 
 const Quiz = () => {
@@ -46,11 +48,11 @@ const Quiz = () => {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const [loading, setLoading] = useState(true);
-  const [generating, setGenerating] = useState(false);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [answers, setAnswers] = useState<number[]>([]);
+  // Selected option per question id
+  const [answers, setAnswers] = useState<Record<number, number>>({});
   const [showResult, setShowResult] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [noNotes, setNoNotes] = useState(false);
@@ -58,10 +60,18 @@ const Quiz = () => {
   const [adaptiveMode, setAdaptiveMode] = useState(false);
   const [currentDifficulty, setCurrentDifficulty] = useState<string>('medium');
   const [generatingAdaptive, setGeneratingAdaptive] = useState(false);
-  const [videoId, setVideoId] = useState<string | null>(null);
   const [savedQuizId, setSavedQuizId] = useState<string | null>(null);
-  const [questionTimings, setQuestionTimings] = useState<QuestionTiming[]>([]);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Record<number, AnswerFeedback>>({});
+  const [submittingAnswer, setSubmittingAnswer] = useState(false);
+  const [summary, setSummary] = useState<QuizSummary | null>(null);
   const [questionStartTime, setQuestionStartTime] = useState<number>(Date.now());
+  const { jobs, enqueueJob } = useAiJobs();
+  const [quizJobId, setQuizJobId] = useState<string | null>(null);
+
+  // New quizzes are generated by a background job the student can walk away from
+  const quizJob = quizJobId ? jobs.find((job) => job.id === quizJobId) : undefined;
+  const generating = !!quizJobId && (!quizJob || isActiveJob(quizJob));
 
   useEffect(() => {
     if (quizId && user) {
@@ -69,53 +79,76 @@ const Quiz = () => {
     }
   }, [quizId, user]);
 
+  useEffect(() => {
+    if (!quizJob || isActiveJob(quizJob)) return;
+    setQuizJobId(null);
+    if (quizJob.status !== 'succeeded') return;
+
+    const result = quizJob.result as { quiz?: QuizQuestion[]; quizId?: string } | null;
+    setQuestions(result?.quiz || []);
+    if (result?.quizId) {
+      setSavedQuizId(result.quizId);
+    }
+    setQuestionStartTime(Date.now());
+  }, [quizJob]);
+
+  // The server keeps answering into a quiz's open attempt, so after a reload
+  // carry on from the first question it has no answer for
+  const resumeOpenAttempt = async (openQuizId: string, loaded: QuizQuestion[]) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('quiz_attempts')
+      .select('id, answers')
+      .eq('quiz_id', openQuizId)
+      .eq('user_id', user.id)
+      .eq('status', 'in_progress')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching open quiz attempt:', error);
+      return;
+    }
+    if (!data) return;
+
+    const graded = (data.answers as unknown as OpenAttemptAnswer[]) || [];
+    const byQuestion = new Map(graded.map((answer) => [answer.questionId, answer]));
+    const firstOpen = loaded.findIndex((q) => !byQuestion.has(q.id));
+    const index = firstOpen === -1 ? loaded.length - 1 : firstOpen;
+
+    setAttemptId(data.id);
+    setAnswers(Object.fromEntries(graded.map((answer) => [answer.questionId, answer.selectedAnswer])));
+    setFeedback(Object.fromEntries(graded.map((answer) => [
+      answer.questionId,
+      { isCorrect: answer.isCorrect, correctAnswer: null, explanation: null },
+    ])));
+    setCurrentQuestion(index);
+    if (firstOpen === -1) {
+      setSelectedAnswer(byQuestion.get(loaded[index].id)?.selectedAnswer ?? null);
+      setIsSubmitted(true);
+    }
+  };
+
   const fetchOrGenerateQuiz = async () => {
     try {
-      // Get video_id from todo
-      const { data: todoData } = await supabase
-        .from('todos')
-        .select('video_id')
-        .eq('id', quizId)
-        .maybeSingle();
-      
-      if (todoData?.video_id) {
-        setVideoId(todoData.video_id);
-      }
-
-      const { data: existingQuiz } = await supabase
-        .from('quizzes')
-        .select('id, questions')
-        .eq('todo_id', quizId)
-        .maybeSingle();
-
-      if (existingQuiz?.questions) {
-        const parsedQuestions = existingQuiz.questions as unknown as Question[];
-        setQuestions(parsedQuestions);
-        setSavedQuizId(existingQuiz.id);
-        setQuestionStartTime(Date.now());
-        setLoading(false);
-        return;
-      }
-
-      const { data: notesData } = await supabase
+      const { data: noteRows } = await supabase
         .from('notes')
-        .select('content')
-        .eq('todo_id', quizId)
-        .eq('is_ai_generated', true)
-        .maybeSingle();
+        .select('content, is_ai_generated')
+        .eq('todo_id', quizId);
 
-      if (!notesData?.content) {
-        setNoNotes(true);
-        setLoading(false);
-        return;
+      // Same preference as generate-quiz: the student's edited notes, then the AI notes
+      const studyNotes = noteRows?.find((n) => !n.is_ai_generated && n.content.trim())?.content
+        || noteRows?.find((n) => n.is_ai_generated)?.content;
+
+      if (studyNotes) {
+        setNotes(studyNotes);
       }
 
-      setNotes(notesData.content);
-      setGenerating(true);
+      // Answer keys stay server-side; a quiz saved earlier comes back without them
       const { data, error } = await supabase.functions.invoke('generate-quiz', {
         body: {
           todoId: quizId,
-          notes: notesData.content,
+          existingOnly: true,
         },
       });
 
@@ -125,24 +158,53 @@ const Quiz = () => {
         throw new Error(data.error);
       }
 
-      setQuestions(data.quiz || []);
-      if (data.quizId) {
+      if (data.quiz) {
+        setQuestions(data.quiz);
         setSavedQuizId(data.quizId);
+        setQuestionStartTime(Date.now());
+        await resumeOpenAttempt(data.quizId, data.quiz);
+        return;
       }
-      setQuestionStartTime(Date.now());
-    } catch (error: any) {
-      console.error('Error fetching quiz:', error);
-      
-      if (error.message?.includes('429') || error.message?.includes('Rate limit')) {
-        toast.error('Rate limit exceeded. Please try again later.');
-      } else if (error.message?.includes('402')) {
-        toast.error('Please add credits to continue using AI features.');
-      } else {
-        toast.error('Failed to generate quiz');
+
+      // Follow a quiz job that is already queued (e.g. from the dashboard) before starting one
+      const { data: activeJob } = await supabase
+        .from('ai_jobs')
+        .select('id')
+        .eq('todo_id', quizId)
+        .eq('kind', 'generate-quiz')
+        .in('status', ['queued', 'running'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (activeJob) {
+        setQuizJobId(activeJob.id);
+        return;
       }
+
+      if (!studyNotes) {
+        setNoNotes(true);
+        return;
+      }
+
+      const { data: todo } = await supabase
+        .from('todos')
+        .select('title')
+        .eq('id', quizId)
+        .maybeSingle();
+
+      const job = await enqueueJob({
+        kind: 'generate-quiz',
+        payload: { todoId: quizId },
+        todoId: quizId,
+        title: todo?.title,
+      });
+      setQuizJobId(job.id);
+    } catch (error) {
+      console.error('Error fetching quiz:', error);
+      await showFunctionError(error, 'Failed to generate quiz');
     } finally {
       setLoading(false);
-      setGenerating(false);
     }
   };
 
@@ -155,32 +217,54 @@ const Quiz = () => {
     }
   };
 
-  const handleSubmitAnswer = () => {
+  const currentFeedback = question ? feedback[question.id] : undefined;
+
+  const handleSubmitAnswer = async () => {
     if (selectedAnswer === null) {
       toast.error('Please select an answer');
       return;
     }
+    if (!savedQuizId) return;
 
-    // Record time taken for this question
-    const endTime = Date.now();
-    const timeTakenSeconds = (endTime - questionStartTime) / 1000;
-    
-    setQuestionTimings(prev => [...prev, {
-      questionIndex: currentQuestion,
-      startTime: questionStartTime,
-      endTime,
-      timeTakenSeconds: Math.round(timeTakenSeconds * 10) / 10, // Round to 1 decimal
-    }]);
-
-    setIsSubmitted(true);
-    const newAnswers = [...answers, selectedAnswer];
-    setAnswers(newAnswers);
-
-    const isCorrect = selectedAnswer === question.correctAnswer;
-    if (isCorrect) {
-      toast.success('Correct!');
-    } else {
-      toast.error('Not quite right');
+    const timeTakenSeconds = Math.round((Date.now() - questionStartTime) / 100) / 10;
+
+    setSubmittingAnswer(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('submit-quiz-answer', {
+        body: {
+          quizId: savedQuizId,
+          attemptId,
+          questionId: question.id,
+          selectedAnswer,
+          timeTakenSeconds,
+        },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      setAttemptId(data.attemptId);
+      setFeedback(prev => ({
+        ...prev,
+        [question.id]: {
+          isCorrect: data.isCorrect,
+          correctAnswer: null,
+          explanation: null,
+        },
+      }));
+      setIsSubmitted(true);
+      setAnswers({ ...answers, [question.id]: selectedAnswer });
+
+      if (data.isCorrect) {
+        toast.success('Correct!');
+      } else {
+        toast.error('Not quite right');
+      }
+    } catch (error) {
+      console.error('Error submitting answer:', error);
+      toast.error('Failed to submit answer');
+    } finally {
+      setSubmittingAnswer(false);
     }
   };
 
@@ -191,6 +275,7 @@ const Quiz = () => {
     try {
       const { data, error } = await supabase.functions.invoke('adaptive-question', {
         body: {
+          quizId: savedQuizId,
           notes,
           previousQuestion: question.question,
           wasCorrect,
@@ -202,9 +287,11 @@ const Quiz = () => {
       if (data.error) throw new Error(data.error);
 
       setCurrentDifficulty(data.difficulty);
-      return data.question as Question;
+      return data.question as QuizQuestion;
     } catch (error) {
       console.error('Error generating adaptive question:', error);
+      // The quiz carries on with its base questions either way
+      await showUsageLimitError(error);
       return null;
     } finally {
       setGeneratingAdaptive(false);
@@ -212,12 +299,11 @@ const Quiz = () => {
   };
 
   const handleNextQuestion = async () => {
-    const wasCorrect = selectedAnswer === question.correctAnswer;
+    const wasCorrect = currentFeedback?.isCorrect ?? false;
 
     if (adaptiveMode && notes) {
       const adaptiveQuestion = await generateAdaptiveQuestion(wasCorrect);
       if (adaptiveQuestion) {
-        adaptiveQuestion.id = questions.length + 1;
         setQuestions([...questions, adaptiveQuestion]);
         setCurrentQuestion(currentQuestion + 1);
         setSelectedAnswer(null);
@@ -239,114 +325,81 @@ const Quiz = () => {
   };
 
   const saveResults = async () => {
-    if (!user || !quizId) return;
-
-    const score = calculateScore();
-    const percentage = (score / questions.length) * 100;
+    if (!user || !attemptId) return;
 
     try {
-      await supabase.from('quiz_results').insert({
-        user_id: user.id,
-        todo_id: quizId,
-        score: percentage,
-        correct_answers: score,
-        total_questions: questions.length,
-        answers: answers,
+      const { data, error } = await supabase.functions.invoke('submit-quiz', {
+        body: { attemptId },
       });
 
-      // Analyze weakness after saving results
-      if (videoId && savedQuizId) {
-        const questionAttempts = questions.map((q, index) => ({
-          questionText: q.question,
-          isCorrect: answers[index] === q.correctAnswer,
-          timeTakenSeconds: questionTimings[index]?.timeTakenSeconds || 0,
-          difficulty: q.difficulty || 'medium',
-        }));
-
-        try {
-          const { data, error } = await supabase.functions.invoke('analyze-weakness', {
-            body: {
-              todoId: quizId,
-              videoId,
-              quizId: savedQuizId,
-              questions: questionAttempts,
-            },
-          });
-
-          if (error) {
-            console.error('Weakness analysis error:', error);
-          } else if (data?.weakTopics?.length > 0) {
-            toast.info(`Found ${data.weakTopics.length} topic(s) to improve`, {
-              icon: <AlertCircle className="h-4 w-4 text-primary" />,
-            });
-          }
-        } catch (analysisError) {
-          console.error('Weakness analysis failed:', analysisError);
-        }
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      setSummary({
+        score: data.score,
+        correctAnswers: data.correctAnswers,
+        totalQuestions: data.totalQuestions,
+      });
+      // Answer keys are only handed out once the attempt is graded
+      setFeedback(Object.fromEntries(((data.review || []) as QuestionReview[]).map((review) => [
+        review.questionId,
+        {
+          isCorrect: answers[review.questionId] === review.correctAnswer,
+          correctAnswer: review.correctAnswer,
+          explanation: review.explanation,
+        },
+      ])));
+
+      // Weakness analysis runs in the background; its result arrives as a notification
+      try {
+        await enqueueJob({
+          kind: 'analyze-weakness',
+          payload: { attemptId },
+          todoId: quizId,
+        });
+      } catch (analysisError) {
+        console.error('Failed to queue weakness analysis:', analysisError);
       }
     } catch (error) {
       console.error('Error saving results:', error);
+      toast.error('Failed to submit quiz');
     }
   };
 
-  const calculateScore = () => {
-    let correct = 0;
-    answers.forEach((answer, index) => {
-      if (answer === questions[index]?.correctAnswer) {
-        correct++;
-      }
-    });
-    return correct;
-  };
-
   const resetQuiz = () => {
     setCurrentQuestion(0);
     setSelectedAnswer(null);
-    setAnswers([]);
+    setAnswers({});
+    setAttemptId(null);
+    setFeedback({});
+    setSummary(null);
     setShowResult(false);
     setIsSubmitted(false);
     setAdaptiveMode(false);
     setCurrentDifficulty('medium');
   };
 
-  const getDifficultyColor = (diff?: string) => {
-    switch (diff) {
-      case 'easy': return 'bg-success/20 text-success border-success/30';
-      case 'hard': return 'bg-destructive/20 text-destructive border-destructive/30';
-      default: return 'bg-primary/20 text-primary border-primary/30';
-    }
-  };
-
-  const getTypeIcon = (type?: string) => {
-    switch (type) {
-      case 'concept_check': return <Lightbulb className="h-4 w-4" />;
-      case 'mechanism_check': return <Brain className="h-4 w-4" />;
-      case 'application_check': return <Zap className="h-4 w-4" />;
-      case 'misconception_trap': return <AlertCircle className="h-4 w-4" />;
-      case 'why_question': return <Sparkles className="h-4 w-4" />;
-      default: return <Sparkles className="h-4 w-4" />;
-    }
-  };
-
-  const getTypeLabel = (type?: string) => {
-    switch (type) {
-      case 'concept_check': return 'Concept Check';
-      case 'mechanism_check': return 'How It Works';
-      case 'application_check': return 'Real-World Application';
-      case 'misconception_trap': return 'Common Misconception';
-      case 'why_question': return 'Understanding Why';
-      case 'adaptive': return 'Adaptive Question';
-      default: return 'Question';
-    }
-  };
-
-  if (loading || generating) {
+  if (generating) {
     return (
-      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4">
         <Loader2 className="h-8 w-8 text-primary animate-spin" />
         <p className="text-muted-foreground">
-          {generating ? 'Generating conceptual quiz questions...' : 'Loading quiz...'}
+          {quizJob?.progress_message || 'Generating conceptual quiz questions...'}
+        </p>
+        {quizJob && quizJob.progress > 0 && <Progress value={quizJob.progress} className="h-1.5 w-56" />}
+        <p className="text-sm text-muted-foreground text-center">
+          This keeps going if you leave, we'll let you know when your quiz is ready.
         </p>
+        <Button variant="outline" onClick={() => navigate('/dashboard')}>Back to Dashboard</Button>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        <p className="text-muted-foreground">Loading quiz...</p>
       </div>
     );
   }
@@ -372,8 +425,10 @@ const Quiz = () => {
     );
   }
 
-  const score = calculateScore();
-  const percentage = (score / questions.length) * 100;
+  const score = summary?.correctAnswers ?? 0;
+  const totalAnswered = summary?.totalQuestions ?? Object.keys(answers).length;
+  const reviewedQuestions = questions.filter((q) => typeof feedback[q.id]?.correctAnswer === 'number');
+  const percentage = summary?.score ?? 0;
   const isPassing = percentage >= 60;
 
   if (showResult) {
@@ -405,7 +460,7 @@ const Quiz = () => {
             </p>
 
             <div className="text-5xl font-bold neon-text mb-2">
-              {score}/{questions.length}
+              {score}/{totalAnswered}
             </div>
             <p className="text-muted-foreground mb-8">{Math.round(percentage)}% correct</p>
 
@@ -444,6 +499,22 @@ const Quiz = () => {
               </Button>
             </div>
           </div>
+
+          {reviewedQuestions.length > 0 && (
+            <div className="mt-8 text-left">
+              <h2 className="text-xl font-semibold mb-4">Review your answers</h2>
+              {reviewedQuestions.map((q) => (
+                <QuestionCard
+                  key={q.id}
+                  question={q}
+                  selectedAnswer={answers[q.id] ?? null}
+                  feedback={feedback[q.id]}
+                  isSubmitted
+                  onSelectAnswer={() => undefined}
+                />
+              ))}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -491,81 +562,14 @@ const Quiz = () => {
 
       <main className="container mx-auto px-4 py-8 max-w-2xl">
         <div className="animate-fade-in">
-          <div className="glass-card rounded-2xl p-6 mb-6">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-2 text-primary">
-                {getTypeIcon(question.type)}
-                <span className="text-sm font-medium">{getTypeLabel(question.type)}</span>
-              </div>
-              {question.difficulty && (
-                <Badge variant="outline" className={getDifficultyColor(question.difficulty)}>
-                  {question.difficulty.charAt(0).toUpperCase() + question.difficulty.slice(1)}
-                </Badge>
-              )}
-            </div>
-            <h2 className="text-xl font-semibold">{question.question}</h2>
-          </div>
-
-          <div className="space-y-3 mb-6">
-            {question.options.map((option, index) => {
-              const isSelected = selectedAnswer === index;
-              const isCorrect = index === question.correctAnswer;
-              const showCorrect = isSubmitted && isCorrect;
-              const showWrong = isSubmitted && isSelected && !isCorrect;
-
-              return (
-                <button
-                  key={index}
-                  onClick={() => handleSelectAnswer(index)}
-                  disabled={isSubmitted}
-                  className={`w-full p-4 rounded-xl text-left transition-all duration-300 ${
-                    showCorrect
-                      ? 'bg-success/20 border-2 border-success'
-                      : showWrong
-                      ? 'bg-destructive/20 border-2 border-destructive'
-                      : isSelected
-                      ? 'glass-card neon-border'
-                      : 'glass-card hover:neon-glow border-2 border-transparent'
-                  }`}
-                >
-                  <div className="flex items-center gap-4">
-                    <div
-                      className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
-                        showCorrect
-                          ? 'bg-success text-success-foreground'
-                          : showWrong
-                          ? 'bg-destructive text-destructive-foreground'
-                          : isSelected
-                          ? 'gradient-bg text-primary-foreground'
-                          : 'bg-muted text-muted-foreground'
-                      }`}
-                    >
-                      {showCorrect ? (
-                        <CheckCircle className="h-4 w-4" />
-                      ) : showWrong ? (
-                        <XCircle className="h-4 w-4" />
-                      ) : (
-                        String.fromCharCode(65 + index)
-                      )}
-                    </div>
-                    <span>{option}</span>
-                  </div>
-                </button>
-              );
-            })}
-          </div>
-
-          {isSubmitted && question.explanation && (
-            <div className="glass-card rounded-xl p-4 mb-6 border border-primary/30 bg-primary/5">
-              <div className="flex items-start gap-3">
-                <Lightbulb className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
-                <div>
-                  <p className="font-medium text-primary mb-1">Explanation</p>
-                  <p className="text-sm text-muted-foreground">{question.explanation}</p>
-                </div>
-              </div>
-            </div>
-          )}
+          <QuestionCard
+            question={question}
+            selectedAnswer={selectedAnswer}
+            feedback={currentFeedback}
+            isSubmitted={isSubmitted}
+            disabled={submittingAnswer}
+            onSelectAnswer={handleSelectAnswer}
+          />
 
           <div className="flex justify-center">
             {!isSubmitted ? (
@@ -573,8 +577,9 @@ const Quiz = () => {
                 variant="neon"
                 size="lg"
                 onClick={handleSubmitAnswer}
-                disabled={selectedAnswer === null}
+                disabled={selectedAnswer === null || submittingAnswer}
               >
+                {submittingAnswer && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Submit Answer
               </Button>
             ) : generatingAdaptive ? (
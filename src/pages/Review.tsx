@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  Loader2,
+  Repeat,
+  CalendarClock,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import Logo from '@/components/Logo';
+import QuestionCard, { AnswerFeedback } from '@/components/quiz/QuestionCard';
+import { supabase } from '@/integrations/supabase/client';
+import { showFunctionError } from '@/lib/functionErrors';
+import { useReviews, ReviewItem } from '@/hooks/useReviews';
+
+interface ReviewFeedback extends AnswerFeedback {
+  intervalDays: number;
+}
+
+const Review = () => {
+  const navigate = useNavigate();
+  const { dueReviews, nextDueAt, loading } = useReviews();
+  // Snapshot the queue so items don't disappear as they are rescheduled
+  const [queue, setQueue] = useState<ReviewItem[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<ReviewFeedback | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [questionStartTime, setQuestionStartTime] = useState<number>(Date.now());
+
+  useEffect(() => {
+    if (!loading && queue === null) {
+      setQueue(dueReviews);
+      setQuestionStartTime(Date.now());
+    }
+  }, [loading, dueReviews, queue]);
+
+  const item = queue?.[currentIndex];
+
+  const handleSubmit = async () => {
+    if (!item || selectedAnswer === null) {
+      toast.error('Please select an answer');
+      return;
+    }
+
+    const timeTakenSeconds = Math.round((Date.now() - questionStartTime) / 100) / 10;
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('submit-review', {
+        body: {
+          reviewItemId: item.id,
+          selectedAnswer,
+          timeTakenSeconds,
+        },
+      });
+
+      if (error) throw error;
+
+      setFeedback({
+        isCorrect: data.isCorrect,
+        correctAnswer: data.correctAnswer,
+        explanation: data.explanation,
+        intervalDays: data.intervalDays,
+      });
+      if (data.isCorrect) {
+        setCorrectCount((count) => count + 1);
+      }
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      await showFunctionError(error, 'Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (!queue || currentIndex >= queue.length - 1) {
+      setFinished(true);
+      return;
+    }
+    setCurrentIndex(currentIndex + 1);
+    setSelectedAnswer(null);
+    setFeedback(null);
+    setQuestionStartTime(Date.now());
+  };
+
+  if (loading || queue === null) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        <p className="text-muted-foreground">Loading reviews...</p>
+      </div>
+    );
+  }
+
+  if (queue.length === 0 || finished) {
+    const reviewed = finished ? queue.length : 0;
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="w-full max-w-lg text-center animate-slide-up">
+          <div className="glass-card rounded-2xl p-8">
+            <div className="w-20 h-20 rounded-full mx-auto mb-6 flex items-center justify-center gradient-bg">
+              <CheckCircle className="h-10 w-10 text-primary-foreground" />
+            </div>
+            <h1 className="text-3xl font-bold mb-2">
+              {reviewed > 0 ? 'Review Complete!' : 'All Caught Up!'}
+            </h1>
+            {reviewed > 0 ? (
+              <p className="text-muted-foreground mb-6">
+                You got {correctCount} of {reviewed} right. Missed questions will come back tomorrow.
+              </p>
+            ) : (
+              <p className="text-muted-foreground mb-6">
+                {nextDueAt
+                  ? `Your next review is due ${formatDistanceToNow(new Date(nextDueAt), { addSuffix: true })}.`
+                  : 'Questions you miss in quizzes will show up here for review.'}
+              </p>
+            )}
+            <Button variant="neon" className="w-full" onClick={() => navigate('/dashboard')}>
+              Dashboard
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const progress = ((currentIndex + 1) / queue.length) * 100;
+  const isSubmitted = feedback !== null;
+
+  return (
+    <div className="min-h-screen">
+      <header className="sticky top-0 z-50 glass-card border-b border-border/50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <Logo size="sm" />
+            </div>
+            <span className="text-sm text-muted-foreground flex items-center gap-2">
+              <Repeat className="h-4 w-4" />
+              Review {currentIndex + 1} of {queue.length}
+            </span>
+          </div>
+          <Progress value={progress} className="h-2" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <div className="animate-fade-in" key={item.id}>
+          {item.todo?.title && (
+            <p className="text-sm text-muted-foreground mb-3">From: {item.todo.title}</p>
+          )}
+
+          <QuestionCard
+            question={item.question}
+            selectedAnswer={selectedAnswer}
+            feedback={feedback ?? undefined}
+            isSubmitted={isSubmitted}
+            disabled={submitting}
+            onSelectAnswer={setSelectedAnswer}
+          />
+
+          {feedback && (
+            <p className="text-center text-sm text-muted-foreground mb-6 flex items-center justify-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Next review in {feedback.intervalDays} day{feedback.intervalDays === 1 ? '' : 's'}
+            </p>
+          )}
+
+          <div className="flex justify-center">
+            {!isSubmitted ? (
+              <Button
+                variant="neon"
+                size="lg"
+                onClick={handleSubmit}
+                disabled={selectedAnswer === null || submitting}
+              >
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit Answer
+              </Button>
+            ) : (
+              <Button variant="neon" size="lg" onClick={handleNext}>
+                {currentIndex < queue.length - 1 ? 'Next Review' : 'Finish'}
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Review;
@@ -1,6 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import YouTube, { YouTubeEvent, YouTubePlayer } from 'react-youtube';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   ArrowLeft,
   FileText,
@@ -10,13 +9,34 @@ import {
   CheckCircle,
   AlertCircle,
   User,
+  Upload,
+  Search,
+  Flag,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import Logo from '@/components/Logo';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { NoteSection, toNoteSections, formatTimestamp } from '@/lib/noteSections';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAiJobs } from '@/hooks/useAiJobs';
+import { isActiveJob } from '@/lib/aiJobs';
 import SubtasksSidebar from '@/components/SubtasksSidebar';
+import TimestampedNotes from '@/components/video/TimestampedNotes';
+import AiJobsIndicator from '@/components/header/AiJobsIndicator';
+import { useAnnotations, Annotation } from '@/hooks/useAnnotations';
+import { useStudyTimer } from '@/hooks/useStudyTimer';
+import { useWatchProgress } from '@/hooks/useWatchProgress';
+import { useResumePoint } from '@/hooks/useResumePoint';
+import { useVideoCheckpoints, VideoCheckpoint } from '@/hooks/useVideoCheckpoints';
+import CheckpointDialog from '@/components/video/CheckpointDialog';
+import MediaPlayer from '@/components/video/MediaPlayer';
+import VideoFeedbackBar from '@/components/video/VideoFeedbackBar';
+import type { VideoReplacement } from '@/hooks/useVideoFeedback';
+import type { MediaPlayerHandle } from '@/lib/mediaPlayer';
+import { fetchResumePosition } from '@/lib/resumePoints';
 
 interface Todo {
   id: string;
@@ -35,6 +55,15 @@ interface SubtaskVideo {
   order_index: number;
 }
 
+// Matches the generate-notes limit on uploaded caption files
+const MAX_CAPTIONS_BYTES = 400 * 1024;
+
+// Share of the video that must actually be watched before AI notes unlock
+const NOTES_UNLOCK_PERCENT = 50;
+
+// The playhead moves about a second per tick; bigger jumps are seeks
+const CHECKPOINT_MAX_STEP_SECONDS = 3;
+
 interface Subtask {
   id: string;
   title: string;
@@ -45,18 +74,94 @@ interface Subtask {
 const VideoPlayer = () => {
   const { todoId } = useParams();
   const navigate = useNavigate();
+  // ?t=<seconds>&v=<videoId> opens the video at a moment linked from Notes;
+  // without t the video resumes where the student left it
+  const [searchParams] = useSearchParams();
+  const [startAt, setStartAt] = useState(() => Math.max(0, Math.floor(Number(searchParams.get('t')) || 0)));
   const { user, profile } = useAuth();
-  const [player, setPlayer] = useState<YouTubePlayer | null>(null);
-  const [progress, setProgress] = useState(0);
+  const { annotations, addAnnotation, deleteAnnotation } = useAnnotations(todoId);
+  const [player, setPlayer] = useState<MediaPlayerHandle | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(startAt);
   const [showNotesButton, setShowNotesButton] = useState(false);
   const [showNotes, setShowNotes] = useState(false);
-  const [isGeneratingNotes, setIsGeneratingNotes] = useState(false);
+  const [queueingNotes, setQueueingNotes] = useState(false);
   const [notes, setNotes] = useState<string[]>([]);
+  const [noteSections, setNoteSections] = useState<NoteSection[]>([]);
+  const [captionsNeeded, setCaptionsNeeded] = useState(false);
+  const captionsInputRef = useRef<HTMLInputElement>(null);
   const [todo, setTodo] = useState<Todo | null>(null);
   const [loading, setLoading] = useState(true);
-  const [lastSavedProgress, setLastSavedProgress] = useState(0);
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [currentVideoId, setCurrentVideoId] = useState<string | null>(null);
+  const { jobs, enqueueJob } = useAiJobs();
+  const watchedNotesJob = useRef<string | null>(null);
+
+  // Watch time counts towards study sessions only while the video plays
+  useStudyTimer('video', todoId, isPlaying);
+
+  // Progress and notes follow the task's own video, not subtask videos
+  const { segments: watchedSegments, duration, watchedPercent, savedPercent } = useWatchProgress(
+    player,
+    todoId,
+    todo?.video_id,
+    !!todo?.video_id && currentVideoId === todo.video_id
+  );
+
+  const currentSubtaskVideo = subtasks
+    .flatMap((subtask) => subtask.videos)
+    .find((video) => video.video_id === currentVideoId);
+  useResumePoint(player, currentVideoId, {
+    todoId,
+    title: currentSubtaskVideo?.title ?? todo?.title,
+    channel: currentSubtaskVideo?.channel,
+  });
+
+  const {
+    checkpoints,
+    generating: generatingCheckpoints,
+    generateCheckpoints,
+    submitAnswer: submitCheckpointAnswer,
+  } = useVideoCheckpoints(todoId, notes.length > 0);
+  const [activeCheckpoint, setActiveCheckpoint] = useState<VideoCheckpoint | null>(null);
+  const askedCheckpoints = useRef(new Set<string>());
+  const lastPlayedTime = useRef(startAt);
+
+  useEffect(() => {
+    if (savedPercent === null || showNotesButton || watchedPercent < NOTES_UNLOCK_PERCENT) return;
+    setShowNotesButton(true);
+    // Announce unlocks earned on this visit, not ones carried over from before
+    if (savedPercent < NOTES_UNLOCK_PERCENT) {
+      toast.success('AI Notes available!', {
+        icon: <Sparkles className="h-4 w-4 text-primary" />,
+      });
+    }
+  }, [savedPercent, watchedPercent, showNotesButton]);
+
+  // Notes are generated in the background; follow the latest job for this todo
+  const notesJob = jobs.find((job) => job.kind === 'generate-notes' && job.todo_id === todoId);
+  const isGeneratingNotes = queueingNotes || (!!notesJob && isActiveJob(notesJob));
+
+  useEffect(() => {
+    if (!notesJob) return;
+    if (isActiveJob(notesJob)) {
+      watchedNotesJob.current = notesJob.id;
+      return;
+    }
+    // Only react to jobs that finished while this page was open
+    if (watchedNotesJob.current !== notesJob.id) return;
+    watchedNotesJob.current = null;
+
+    if (notesJob.status === 'succeeded') {
+      const result = notesJob.result as { notes?: string; sections?: Json } | null;
+      setNotes((result?.notes ?? '').split('\n').filter((n: string) => n.trim()));
+      setNoteSections(toNoteSections(result?.sections));
+      setShowNotesButton(true);
+    } else if (notesJob.error_code === 'transcript_unavailable') {
+      setCaptionsNeeded(true);
+      setShowNotes(true);
+    }
+  }, [notesJob]);
 
   useEffect(() => {
     if (todoId && user) {
@@ -80,7 +185,13 @@ const VideoPlayer = () => {
         return;
       }
       setTodo(todoData);
-      setCurrentVideoId(todoData.video_id);
+      const initialVideoId = searchParams.get('v') || todoData.video_id;
+      setCurrentVideoId(initialVideoId);
+      if (initialVideoId && !searchParams.has('t')) {
+        const resumeAt = await fetchResumePosition(initialVideoId);
+        setStartAt(resumeAt);
+        setCurrentTime(resumeAt);
+      }
 
       // Fetch subtasks with their videos
       const { data: subtasksData, error: subtasksError } = await supabase
@@ -114,31 +225,17 @@ const VideoPlayer = () => {
         setSubtasks(formattedSubtasks);
       }
 
-      // Fetch existing progress
-      const { data: progressData } = await supabase
-        .from('video_progress')
-        .select('progress_percent')
-        .eq('todo_id', todoId)
-        .maybeSingle();
-
-      if (progressData) {
-        setProgress(progressData.progress_percent);
-        setLastSavedProgress(progressData.progress_percent);
-        if (progressData.progress_percent >= 50) {
-          setShowNotesButton(true);
-        }
-      }
-
       // Fetch existing notes
       const { data: notesData } = await supabase
         .from('notes')
-        .select('content')
+        .select('content, sections')
         .eq('todo_id', todoId)
         .eq('is_ai_generated', true)
         .maybeSingle();
 
       if (notesData) {
         setNotes(notesData.content.split('\n').filter((n: string) => n.trim()));
+        setNoteSections(toNoteSections(notesData.sections));
         setShowNotesButton(true);
       }
     } catch (error) {
@@ -149,123 +246,152 @@ const VideoPlayer = () => {
     }
   };
 
-  const saveProgress = async (currentProgress: number) => {
-    if (!user || !todoId || !todo?.video_id) return;
-    
-    // Only save if progress changed significantly (every 5%)
-    if (Math.abs(currentProgress - lastSavedProgress) < 5) return;
+  useEffect(() => {
+    if (!player) return;
+    const interval = setInterval(() => setCurrentTime(player.getCurrentTime()), 1000);
+    return () => clearInterval(interval);
+  }, [player]);
 
-    try {
-      const { error } = await supabase
-        .from('video_progress')
-        .upsert({
-          user_id: user.id,
-          todo_id: todoId,
-          video_id: todo.video_id,
-          progress_percent: currentProgress,
-          completed: currentProgress >= 90,
-        }, {
-          onConflict: 'todo_id,user_id',
-        });
-
-      if (error) throw error;
-      setLastSavedProgress(currentProgress);
-    } catch (error) {
-      console.error('Error saving progress:', error);
+  // Playing into a checkpoint pauses for its questions; seeking past one skips it
+  useEffect(() => {
+    const previous = lastPlayedTime.current;
+    lastPlayedTime.current = currentTime;
+    if (!player || activeCheckpoint || currentVideoId !== todo?.video_id) return;
+    if (currentTime <= previous || currentTime - previous > CHECKPOINT_MAX_STEP_SECONDS) return;
+
+    const reached = checkpoints.find((checkpoint) =>
+      !askedCheckpoints.current.has(checkpoint.id) &&
+      previous < checkpoint.pauseAtSeconds &&
+      currentTime >= checkpoint.pauseAtSeconds - 1
+    );
+    if (!reached) return;
+
+    askedCheckpoints.current.add(reached.id);
+    player.pauseVideo();
+    setActiveCheckpoint(reached);
+  }, [currentTime, player, activeCheckpoint, currentVideoId, todo, checkpoints]);
+
+  // A new videoId makes MediaPlayer recreate the player, which starts at startAt
+  const switchVideo = (videoId: string, startSeconds: number) => {
+    setPlayer(null);
+    setStartAt(startSeconds);
+    setCurrentTime(startSeconds);
+    setCurrentVideoId(videoId);
+  };
+
+  // Flagged videos are swapped out of the plan; if one was playing, its
+  // replacement takes over from the start
+  const handleVideoReplaced = (flaggedVideoId: string, replacements: VideoReplacement[]) => {
+    setSubtasks((current) => current.map((subtask) => ({
+      ...subtask,
+      videos: subtask.videos.map((video) => {
+        const replacement = replacements.find((r) => r.subtaskVideoId === video.id);
+        return replacement ? {
+          ...video,
+          video_id: replacement.videoId,
+          title: replacement.title,
+          channel: replacement.channel,
+          engagement_score: replacement.engagementScore,
+          reason: replacement.reason,
+        } : video;
+      }),
+    })));
+
+    const mainReplacement = replacements.find((r) => r.subtaskVideoId === null);
+    if (mainReplacement) {
+      setTodo((current) => current && { ...current, video_id: mainReplacement.videoId });
+    }
+    if ((currentVideoId || todo?.video_id) === flaggedVideoId) {
+      switchVideo(replacements[0].videoId, 0);
     }
   };
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (player && todo?.video_id) {
-        const currentTime = player.getCurrentTime();
-        const duration = player.getDuration();
-        if (duration > 0) {
-          const currentProgress = (currentTime / duration) * 100;
-          setProgress(currentProgress);
-          saveProgress(currentProgress);
-
-          if (currentProgress >= 50 && !showNotesButton) {
-            setShowNotesButton(true);
-            toast.success('AI Notes available!', {
-              icon: <Sparkles className="h-4 w-4 text-primary" />,
-            });
-          }
-        }
-      }
-    }, 1000);
+  const handleVideoSelect = async (videoId: string) => {
+    if (videoId === currentVideoId) return;
+    switchVideo(videoId, await fetchResumePosition(videoId));
+  };
 
-    return () => clearInterval(interval);
-  }, [player, showNotesButton, todo, lastSavedProgress]);
+  const seekTo = (seconds: number, videoId = todo?.video_id) => {
+    if (!player || !videoId) return;
 
-  const onReady = (event: YouTubeEvent) => {
-    setPlayer(event.target);
+    // AI sections belong to the main video and annotations to the video they
+    // were written against, so switch videos first if needed
+    if (currentVideoId !== videoId) {
+      switchVideo(videoId, seconds);
+      return;
+    }
+    player.seekTo(seconds, true);
+    player.playVideo();
   };
 
-  const handleVideoSelect = (videoId: string) => {
-    setCurrentVideoId(videoId);
-    setProgress(0);
-    setLastSavedProgress(0);
-    if (player) {
-      player.loadVideoById(videoId);
-    }
+  const handleCheckpointRewind = (checkpoint: VideoCheckpoint) => {
+    // Ask again once the chapter has been watched a second time
+    askedCheckpoints.current.delete(checkpoint.id);
+    setActiveCheckpoint(null);
+    seekTo(checkpoint.rewindToSeconds);
+  };
+
+  const handleCheckpointContinue = () => {
+    setActiveCheckpoint(null);
+    player?.playVideo();
   };
 
-  const handleGenerateNotes = async () => {
+  const handleAddAnnotation = (body: string) => {
+    const videoId = currentVideoId || todo?.video_id;
+    if (!videoId) return Promise.resolve(false);
+    return addAnnotation(videoId, currentTime, body);
+  };
+
+  const handleSeekAnnotation = (annotation: Annotation) => {
+    seekTo(annotation.timestamp_seconds, annotation.video_id);
+  };
+
+  const handleGenerateNotes = async (
+    source: { captions?: string; allowResearchFallback?: boolean } = {}
+  ) => {
     if (!user || !todoId || !todo?.video_id) return;
 
-    // Check if notes already exist
-    if (notes.length > 0) {
+    // Check if notes already exist or are on their way
+    if (notes.length > 0 || isGeneratingNotes) {
       setShowNotes(true);
       return;
     }
 
-    setIsGeneratingNotes(true);
+    setQueueingNotes(true);
+    setCaptionsNeeded(false);
     setShowNotes(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('generate-notes', {
-        body: {
+      await enqueueJob({
+        kind: 'generate-notes',
+        payload: {
           videoId: todo.video_id,
           videoTitle: todo.title,
           todoId: todoId,
+          ...source,
         },
+        todoId,
+        title: todo.title,
       });
-
-      if (error) throw error;
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      const generatedNotes = data.notes as string;
-      const noteLines = generatedNotes.split('\n').filter((n: string) => n.trim());
-      setNotes(noteLines);
-
-      toast.success('Notes generated successfully!');
-    } catch (error: any) {
-      console.error('Error generating notes:', error);
-      
-      if (error.message?.includes('429') || error.message?.includes('Rate limit')) {
-        toast.error('Rate limit exceeded. Please try again later.');
-      } else if (error.message?.includes('402')) {
-        toast.error('Please add credits to continue using AI features.');
-      } else {
-        toast.error('Failed to generate notes. Please try again.');
-      }
+    } catch (error) {
+      console.error('Error queueing notes:', error);
+      toast.error('Failed to start generating notes. Please try again.');
     } finally {
-      setIsGeneratingNotes(false);
+      setQueueingNotes(false);
     }
   };
 
-  const opts = {
-    width: '100%',
-    height: '100%',
-    playerVars: {
-      autoplay: 0,
-      modestbranding: 1,
-      rel: 0,
-    },
+  const handleCaptionsFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_CAPTIONS_BYTES) {
+      toast.error('Caption file is too large (max 400 KB)');
+      return;
+    }
+
+    await handleGenerateNotes({ captions: await file.text() });
   };
 
   if (loading) {
@@ -318,14 +444,15 @@ const VideoPlayer = () => {
           </div>
           <div className="flex items-center gap-3">
             <span className="text-sm text-muted-foreground">
-              {Math.round(progress)}% watched
+              {Math.round(watchedPercent)}% watched
             </span>
             {showNotesButton && (
-              <Button variant="neon" size="sm" onClick={handleGenerateNotes}>
+              <Button variant="neon" size="sm" onClick={() => handleGenerateNotes()}>
                 <Sparkles className="h-4 w-4 mr-1" />
                 AI Notes
               </Button>
             )}
+            <AiJobsIndicator />
             {/* Profile Picture */}
             <button
               onClick={() => navigate('/profile')}
@@ -352,32 +479,54 @@ const VideoPlayer = () => {
         {/* Video Player */}
         <div className="flex-1 bg-background lg:ml-0">
           <div className="aspect-video w-full max-w-5xl mx-auto">
-            <YouTube
+            <MediaPlayer
               videoId={currentVideoId || todo.video_id}
-              opts={opts}
-              onReady={onReady}
+              startAt={startAt}
+              onReady={setPlayer}
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              onEnd={() => setIsPlaying(false)}
               className="w-full h-full"
-              iframeClassName="w-full h-full rounded-lg"
+              frameClassName="w-full h-full rounded-lg"
             />
           </div>
 
           {/* Progress Bar */}
           <div className="max-w-5xl mx-auto px-4 py-4">
-            <div className="h-2 bg-muted rounded-full overflow-hidden">
-              <div
-                className="h-full gradient-bg transition-all duration-300"
-                style={{ width: `${progress}%` }}
-              />
+            {/* Only the parts actually played are filled in, so skipped stretches show as gaps */}
+            <div className="relative h-2 bg-muted rounded-full overflow-hidden">
+              {duration > 0 && watchedSegments.map(([start, end]) => (
+                <div
+                  key={start}
+                  className="absolute inset-y-0 gradient-bg transition-all duration-300"
+                  style={{ left: `${(start / duration) * 100}%`, width: `${((end - start) / duration) * 100}%` }}
+                />
+              ))}
+              {duration > 0 && currentVideoId === todo.video_id && checkpoints.map((checkpoint) => (
+                <div
+                  key={checkpoint.id}
+                  title={`Checkpoint: ${checkpoint.title}`}
+                  className="absolute inset-y-0 w-0.5 bg-foreground/70"
+                  style={{ left: `${Math.min(100, (checkpoint.pauseAtSeconds / duration) * 100)}%` }}
+                />
+              ))}
             </div>
             <div className="flex justify-between mt-2 text-sm text-muted-foreground">
-              <span>Progress</span>
-              <span>{Math.round(progress)}%</span>
+              <span>Watched</span>
+              <span>{Math.round(watchedPercent)}%</span>
             </div>
           </div>
 
           {/* Video Info */}
           <div className="max-w-5xl mx-auto px-4 pb-8">
-            <h1 className="text-2xl font-bold mb-2">{todo.title}</h1>
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+              <h1 className="text-2xl font-bold">{todo.title}</h1>
+              <VideoFeedbackBar
+                videoId={currentVideoId || todo.video_id}
+                todoId={todoId}
+                onReplaced={handleVideoReplaced}
+              />
+            </div>
             {todo.description && (
               <p className="text-muted-foreground">{todo.description}</p>
             )}
@@ -391,6 +540,26 @@ const VideoPlayer = () => {
                 <FileText className="h-4 w-4 mr-2" />
                 View Full Notes
               </Button>
+              {notes.length > 0 && checkpoints.length === 0 && (
+                <Button variant="outline" onClick={generateCheckpoints} disabled={generatingCheckpoints}>
+                  {generatingCheckpoints ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Flag className="h-4 w-4 mr-2" />
+                  )}
+                  Quiz Me As I Watch
+                </Button>
+              )}
+            </div>
+
+            <div className="mt-6">
+              <TimestampedNotes
+                annotations={annotations}
+                currentTime={currentTime}
+                onAdd={handleAddAnnotation}
+                onSeek={handleSeekAnnotation}
+                onDelete={deleteAnnotation}
+              />
             </div>
           </div>
         </div>
@@ -409,11 +578,65 @@ const VideoPlayer = () => {
             </div>
 
             <div className="p-4 space-y-3 max-h-[60vh] lg:max-h-[calc(100vh-200px)] overflow-y-auto">
+              <input
+                ref={captionsInputRef}
+                type="file"
+                accept=".vtt,.srt"
+                className="hidden"
+                onChange={handleCaptionsFile}
+              />
               {isGeneratingNotes ? (
-                <div className="flex flex-col items-center justify-center py-12">
-                  <Loader2 className="h-8 w-8 text-primary animate-spin mb-4" />
-                  <p className="text-muted-foreground">Generating AI notes...</p>
+                <div className="flex flex-col items-center justify-center py-12 gap-3">
+                  <Loader2 className="h-8 w-8 text-primary animate-spin mb-1" />
+                  <p className="text-muted-foreground">
+                    {notesJob?.progress_message || 'Generating AI notes...'}
+                  </p>
+                  {notesJob && notesJob.progress > 0 && (
+                    <Progress value={notesJob.progress} className="h-1.5 w-48" />
+                  )}
+                  <p className="text-xs text-muted-foreground text-center">
+                    Keep watching or leave this page, we'll let you know when they're ready.
+                  </p>
+                </div>
+              ) : captionsNeeded ? (
+                <div className="py-6 text-center space-y-4">
+                  <AlertCircle className="h-8 w-8 text-primary mx-auto" />
+                  <p className="text-sm text-muted-foreground">
+                    We couldn't read captions for this video. Upload a .vtt or .srt file so your
+                    notes match what the video actually says.
+                  </p>
+                  <Button variant="neon" className="w-full" onClick={() => captionsInputRef.current?.click()}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload Captions
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => handleGenerateNotes({ allowResearchFallback: true })}
+                  >
+                    <Search className="h-4 w-4 mr-2" />
+                    Use Web Research Instead
+                  </Button>
                 </div>
+              ) : noteSections.length > 0 ? (
+                noteSections.map((section, index) => (
+                  <button
+                    key={index}
+                    onClick={() => seekTo(section.startSeconds)}
+                    className="w-full text-left p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors animate-fade-in"
+                    style={{ animationDelay: `${index * 100}ms` }}
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <p className="text-sm font-semibold">{section.title}</p>
+                      <span className="text-xs font-mono text-primary flex-shrink-0">
+                        {formatTimestamp(section.startSeconds)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground whitespace-pre-line">
+                      {section.content.replace(/^- /gm, '• ')}
+                    </p>
+                  </button>
+                ))
               ) : (
                 notes.slice(0, 15).map((note, index) => (
                   <div
@@ -430,6 +653,13 @@ const VideoPlayer = () => {
           </div>
         )}
       </div>
+
+      <CheckpointDialog
+        checkpoint={activeCheckpoint}
+        onSubmit={submitCheckpointAnswer}
+        onRewind={handleCheckpointRewind}
+        onContinue={handleCheckpointContinue}
+      />
     </div>
   );
 };
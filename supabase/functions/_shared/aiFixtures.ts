@@ -0,0 +1,202 @@
+/**
+ * Mock AI fixtures
+ *
+ * Canned responses for the mock provider, keyed by the `task` each edge
+ * function passes to callAI. An array picks a variant from a hash of the
+ * prompt; a function can shape the response from the messages.
+ */
+
+import type { AIMessage } from "./aiProvider.ts";
+
+export type AIFixture = string | string[] | ((messages: AIMessage[]) => string);
+
+const lastUserMessage = (messages: AIMessage[]) =>
+  [...messages].reverse().find((m) => m.role === "user")?.content || "";
+
+export const AI_FIXTURES: Record<string, AIFixture> = {
+  "generate-quiz": JSON.stringify([
+    {
+      id: 1,
+      type: "concept_check",
+      difficulty: "easy",
+      question: "Which statement best describes the main idea of the notes?",
+      options: [
+        "It explains how the core process works step by step",
+        "It lists unrelated historical facts",
+        "It only covers exam registration rules",
+        "It describes a single worked example without theory",
+      ],
+      correctAnswer: 0,
+      explanation: "The notes are organised around explaining the core process.",
+    },
+    {
+      id: 2,
+      type: "mechanism_check",
+      difficulty: "medium",
+      question: "What happens first in the process described?",
+      options: ["The final result is measured", "The inputs are prepared", "The output is discarded", "Nothing happens"],
+      correctAnswer: 1,
+      explanation: "Every process in the notes starts by preparing its inputs.",
+    },
+    {
+      id: 3,
+      type: "application_check",
+      difficulty: "medium",
+      question: "Where would you apply this concept in practice?",
+      options: ["Only in exams", "Nowhere outside class", "In a real-world problem of the same kind", "Only when memorising definitions"],
+      correctAnswer: 2,
+      explanation: "Applying the idea to a real problem shows understanding.",
+    },
+    {
+      id: 4,
+      type: "misconception_trap",
+      difficulty: "hard",
+      question: "Which of these is a common misconception about the topic?",
+      options: ["Steps can be done in any order", "Inputs matter", "Results can be checked", "Definitions help"],
+      correctAnswer: 0,
+      explanation: "The order of steps matters; assuming otherwise is a common mistake.",
+    },
+    {
+      id: 5,
+      type: "why_question",
+      difficulty: "hard",
+      question: "Why is this concept important?",
+      options: ["It is rarely used", "It underpins later topics", "It replaces all other topics", "It has no exceptions"],
+      correctAnswer: 1,
+      explanation: "Later topics build directly on this concept.",
+    },
+  ]),
+
+  "adaptive-question": JSON.stringify({
+    id: 1,
+    type: "adaptive",
+    difficulty: "medium",
+    question: "Which step would you check first if the result looks wrong?",
+    options: ["The prepared inputs", "The page numbers", "The font size", "The date"],
+    correctAnswer: 0,
+    explanation: "Errors usually come from the inputs, so check them first.",
+  }),
+
+  "generate-notes": JSON.stringify({
+    summary: "The video walks through the core process, its steps and how to verify the result.",
+    keyPoints: ["Prepare the inputs before starting.", "Follow the steps in order.", "Check the result against the expected output."],
+    sections: [
+      {
+        title: "Key Concepts",
+        content: "The core idea is the main process explained in the video: what goes in, what comes out, and how one becomes the other.",
+        points: ["Inputs and outputs define the process.", "Each step uses the result of the one before it."],
+      },
+      {
+        title: "Study Tips",
+        content: "",
+        points: ["Redo the worked example without looking.", "Explain each step aloud in your own words."],
+      },
+    ],
+    definitions: [{ term: "Input", meaning: "What the process starts from." }],
+    formulas: [{ name: "Result", expression: "output = process(input)", explanation: "The output depends only on the prepared input." }],
+    examples: [{ title: "Worked example", description: "Prepare one input, apply each step in order and compare the result with the expected output." }],
+    misconceptions: [{ misconception: "Steps can be done in any order.", correction: "Each step depends on the previous one, so order matters." }],
+  }),
+
+  "generate-notes-transcript": (messages) => {
+    const range = lastUserMessage(messages).match(/seconds (\d+) to (\d+)/);
+    const start = Number(range?.[1] || 0);
+    const end = Number(range?.[2] || 600);
+    const middle = Math.round((start + end) / 2);
+    return JSON.stringify({
+      summary: "This part of the video introduces the core process and walks through its steps.",
+      sections: [
+        {
+          title: "Core idea",
+          startSeconds: start,
+          endSeconds: middle,
+          points: ["The main process turns prepared inputs into a checked result.", "Inputs must be ready before starting."],
+        },
+        {
+          title: "Working through the steps",
+          startSeconds: middle,
+          endSeconds: end,
+          points: ["Follow the steps in order.", "Check the result against the expected output."],
+        },
+      ],
+      keyPoints: ["Inputs must be ready before the process starts."],
+      definitions: [{ term: "Input", meaning: "What the process starts from." }],
+      formulas: [],
+      examples: [],
+      misconceptions: [{ misconception: "Steps can be done in any order.", correction: "Each step depends on the previous one." }],
+    });
+  },
+
+  "find-video": (messages) => {
+    const topic = lastUserMessage(messages).match(/Topic: "([^"]+)"/)?.[1] || "the topic";
+    return JSON.stringify({
+      subtasks: [
+        { title: `Introduction to ${topic}`, searchQuery: `${topic} introduction tutorial` },
+        { title: `Core concepts of ${topic}`, searchQuery: `${topic} explained for beginners` },
+        { title: `Practice ${topic}`, searchQuery: `${topic} examples practice` },
+      ],
+      mainSearchQuery: `${topic} tutorial explained`,
+    });
+  },
+
+  "analyze-weakness": (messages) => {
+    const count = lastUserMessage(messages).split("\n---\n").length;
+    const topics = ["Core Concepts", "Process Steps", "Applications"];
+    return JSON.stringify(Array.from({ length: count }, (_, i) => topics[i % topics.length]));
+  },
+
+  "generate-flashcards": JSON.stringify({
+    cards: [
+      { front: "What is the core idea of the topic?", back: "The main process explained in the video, from inputs to a checked result.", topicName: "Core Concepts" },
+      { front: "What is the first step of the process?", back: "Prepare the inputs.", topicName: "Process Steps" },
+      { front: "Why does the order of steps matter?", back: "Each step uses the result of the one before it.", topicName: "Process Steps" },
+      { front: "How do you know the result is right?", back: "Compare it against the expected output.", topicName: "Applications" },
+      { front: "Name one way to practise this topic.", back: "Redo the worked example without looking, explaining each step aloud.", topicName: "Applications" },
+    ],
+  }),
+
+  "fix-weak-areas-quiz": JSON.stringify({
+    questions: [
+      {
+        topicName: "Core Concepts",
+        difficulty: "easy",
+        question: "What is the first thing to identify when solving a problem on this topic?",
+        options: ["The known inputs", "The answer key", "The page number", "The author"],
+        correctAnswer: 0,
+        explanation: "Identifying what you know is the first step in any solution.",
+      },
+      {
+        topicName: "Core Concepts",
+        difficulty: "medium",
+        question: "Why does the order of steps matter?",
+        options: ["It doesn't", "Each step depends on the previous one", "It is a convention only", "To save paper"],
+        correctAnswer: 1,
+        explanation: "Later steps use the results of earlier ones.",
+      },
+    ],
+  }),
+
+  "generate-checkpoints": (messages) => {
+    const count = lastUserMessage(messages).split("\n---\n").length;
+    return JSON.stringify({
+      checkpoints: Array.from({ length: count }, (_, i) => ({
+        chapter: i + 1,
+        questions: [
+          {
+            type: "concept_check",
+            difficulty: "easy",
+            question: `What was the main point of chapter ${i + 1}?`,
+            options: [
+              "The idea the chapter explained step by step",
+              "An unrelated historical fact",
+              "The video's sponsor",
+              "Nothing, it was an introduction only",
+            ],
+            correctAnswer: 0,
+            explanation: "Each chapter builds up one idea; rewatch it if this wasn't clear.",
+          },
+        ],
+      })),
+    });
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Background AI jobs
+ *
+ * generate-notes, generate-quiz and analyze-weakness can run either as a
+ * normal request or as a queued ai_jobs row picked up by process-ai-jobs.
+ * Their handlers take a JobContext so the same code serves both; when run
+ * as a job, reportProgress writes progress to the row for Realtime clients.
+ */
+
+import { AIError } from "./aiProvider.ts";
+import { GuardContext, RequestError } from "./requestGuard.ts";
+
+/**
+ * supabaseClient acts as the student, except in the scheduled worker run,
+ * which has no session and passes the service client. Handlers therefore
+ * scope their own queries to userId rather than relying on RLS.
+ */
+export type JobContext = Pick<GuardContext, "body" | "userId" | "supabaseClient" | "serviceClient"> & {
+  /** Only set when running as a background job */
+  reportProgress?: (progress: number, message: string) => Promise<void>;
+};
+
+export type AIJobKind = "generate-notes" | "generate-quiz" | "analyze-weakness";
+
+export interface AIJob {
+  id: string;
+  user_id: string;
+  kind: AIJobKind;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+/**
+ * Whether a failed attempt is worth retrying. Bad input, missing data and
+ * the student's own usage limits won't change on a retry; provider outages,
+ * timeouts and unexpected errors might.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof RequestError) return error.status >= 500;
+  if (error instanceof AIError) return error.retryable;
+  return true;
+}
+
+export function describeJobError(error: unknown): { code: string; message: string } {
+  if (error instanceof RequestError || error instanceof AIError) {
+    return { code: error.code, message: error.message };
+  }
+  return {
+    code: "internal_error",
+    message: error instanceof Error ? error.message : "Unknown error",
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * AI Provider
+ *
+ * Single entry point for chat completions from edge functions. The backend is
+ * chosen with the AI_PROVIDER env var:
+ *
+ * - "lovable" (default): Lovable AI Gateway using LOVABLE_API_KEY
+ * - "openai": any OpenAI-compatible endpoint (AI_BASE_URL, AI_API_KEY, AI_MODEL)
+ * - "mock": deterministic fixtures from aiFixtures.ts, for offline runs and tests.
+ *   AI_MOCK_FIXTURES_PATH can point at a JSON file of { task: response } overrides.
+ *
+ * AI_TIMEOUT_MS and AI_MAX_RETRIES tune request timeouts and retries.
+ */
+
+import { AIFixture, AI_FIXTURES } from "./aiFixtures.ts";
+
+const LOVABLE_AI_GATEWAY = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DEFAULT_LOVABLE_MODEL = "google/gemini-3-flash-preview";
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface AICompletionOptions {
+  /** Name of the calling operation, used for logging and mock fixture lookup */
+  task: string;
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  timeoutMs?: number;
+}
+
+export interface AIProvider {
+  name: string;
+  complete(messages: AIMessage[], options: AICompletionOptions): Promise<string>;
+}
+
+export type AIErrorCode =
+  | "not_configured"
+  | "unauthorized"
+  | "rate_limited"
+  | "payment_required"
+  | "timeout"
+  | "upstream_error"
+  | "empty_response"
+  | "invalid_output";
+
+/**
+ * Error raised by every provider. `status` is the HTTP status edge functions
+ * should respond with; `retryable` marks transient failures.
+ */
+export class AIError extends Error {
+  code: AIErrorCode;
+  status: number;
+  retryable: boolean;
+
+  constructor(code: AIErrorCode, message: string, status = 500, retryable = false) {
+    super(message);
+    this.name = "AIError";
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+function errorForStatus(status: number): AIError {
+  if (status === 429) {
+    return new AIError("rate_limited", "Rate limit exceeded. Please try again later.", 429, true);
+  }
+  if (status === 402) {
+    return new AIError("payment_required", "Payment required. Please add funds to your AI workspace.", 402);
+  }
+  if (status === 401 || status === 403) {
+    return new AIError("unauthorized", "Invalid API key or authentication failed.", 500);
+  }
+  return new AIError("upstream_error", `AI gateway error: ${status}`, 502, status >= 500);
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  endpoint: string;
+  apiKey: string | undefined;
+  apiKeyName: string;
+  defaultModel: string;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  return {
+    name: config.name,
+    async complete(messages, options) {
+      if (!config.apiKey) {
+        throw new AIError("not_configured", `${config.apiKeyName} is not configured`);
+      }
+
+      const {
+        model = config.defaultModel,
+        temperature = 0.7,
+        max_tokens = 2000,
+        timeoutMs = Number(Deno.env.get("AI_TIMEOUT_MS")) || DEFAULT_TIMEOUT_MS,
+      } = options;
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(config.endpoint, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${config.apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ model, messages, temperature, max_tokens }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new AIError("timeout", `AI request timed out after ${timeoutMs}ms`, 504, true);
+        }
+        throw new AIError("upstream_error", `AI request failed: ${error instanceof Error ? error.message : error}`, 502, true);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        console.error(`${config.name} AI error:`, response.status);
+        throw errorForStatus(response.status);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new AIError("empty_response", "No content generated from AI", 502, true);
+      }
+      return content;
+    },
+  };
+}
+
+// Stable string hash so the mock picks the same fixture variant for the same prompt
+function hashMessages(messages: AIMessage[]): number {
+  const text = messages.map((m) => `${m.role}:${m.content}`).join("\n");
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+export function createMockProvider(overridesPath?: string): AIProvider {
+  let overrides: Record<string, string | string[]> | null = null;
+
+  return {
+    name: "mock",
+    async complete(messages, options) {
+      if (overridesPath && overrides === null) {
+        overrides = JSON.parse(await Deno.readTextFile(overridesPath));
+      }
+
+      const fixture: AIFixture | undefined = overrides?.[options.task] ?? AI_FIXTURES[options.task];
+      if (fixture === undefined) {
+        throw new AIError("not_configured", `No mock AI fixture for task "${options.task}"`);
+      }
+
+      if (typeof fixture === "function") return fixture(messages);
+      if (Array.isArray(fixture)) return fixture[hashMessages(messages) % fixture.length];
+      return fixture;
+    },
+  };
+}
+
+let cachedProvider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = (Deno.env.get("AI_PROVIDER") || "lovable").toLowerCase();
+
+  switch (providerName) {
+    case "mock":
+      cachedProvider = createMockProvider(Deno.env.get("AI_MOCK_FIXTURES_PATH"));
+      break;
+    case "openai": {
+      const baseUrl = (Deno.env.get("AI_BASE_URL") || "https://api.openai.com/v1").replace(/\/$/, "");
+      cachedProvider = createOpenAICompatibleProvider({
+        name: "openai",
+        endpoint: `${baseUrl}/chat/completions`,
+        apiKey: Deno.env.get("AI_API_KEY"),
+        apiKeyName: "AI_API_KEY",
+        defaultModel: Deno.env.get("AI_MODEL") || "gpt-4o-mini",
+      });
+      break;
+    }
+    case "lovable":
+      cachedProvider = createOpenAICompatibleProvider({
+        name: "lovable",
+        endpoint: LOVABLE_AI_GATEWAY,
+        apiKey: Deno.env.get("LOVABLE_API_KEY"),
+        apiKeyName: "LOVABLE_API_KEY",
+        defaultModel: Deno.env.get("AI_MODEL") || DEFAULT_LOVABLE_MODEL,
+      });
+      break;
+    default:
+      throw new AIError("not_configured", `Unknown AI_PROVIDER "${providerName}"`);
+  }
+
+  return cachedProvider;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a chat completion on the configured provider, retrying transient
+ * failures with exponential backoff.
+ */
+export async function callAI(messages: AIMessage[], options: AICompletionOptions): Promise<string> {
+  const provider = getAIProvider();
+  const maxRetries = Number(Deno.env.get("AI_MAX_RETRIES") ?? DEFAULT_MAX_RETRIES);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      console.log(`Calling AI provider "${provider.name}" for ${options.task}...`);
+      return await provider.complete(messages, options);
+    } catch (error) {
+      const aiError = error instanceof AIError
+        ? error
+        : new AIError("upstream_error", error instanceof Error ? error.message : "Unknown AI error", 502);
+
+      if (!aiError.retryable || attempt >= maxRetries) {
+        throw aiError;
+      }
+
+      const delay = 500 * 2 ** attempt;
+      console.warn(`AI ${aiError.code} on ${options.task}, retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Schemas for structured AI output
+ *
+ * Every JSON payload we ask a model for is validated against one of these
+ * before it is stored or shown to a student. Light-touch repairs (trimming,
+ * "B" -> 1 for correctAnswer, numeric strings) happen in preprocess steps;
+ * anything else fails validation and triggers a re-prompt.
+ */
+
+import { z } from "https://esm.sh/zod@3.25.76";
+
+const LETTER_INDEX: Record<string, number> = { a: 0, b: 1, c: 2, d: 3 };
+
+const trimmedString = z.string().trim().min(1);
+
+const answerIndex = z.preprocess((value) => {
+  if (typeof value === "string") {
+    const key = value.trim().toLowerCase();
+    if (key in LETTER_INDEX) return LETTER_INDEX[key];
+    if (/^\d+$/.test(key)) return Number(key);
+  }
+  return value;
+}, z.number().int().min(0).max(3));
+
+const difficulty = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+  z.enum(["easy", "medium", "hard"])
+);
+
+const options = z
+  .array(trimmedString)
+  .length(4, "Each question must have exactly 4 options")
+  .refine(
+    (opts) => new Set(opts.map((o) => o.toLowerCase())).size === opts.length,
+    "Options must be distinct"
+  )
+  .refine(
+    (opts) => !opts.some((o) => /^(all|none) of the above$/i.test(o)),
+    'Options must not be "All of the above" or "None of the above"'
+  );
+
+export const QUIZ_QUESTION_TYPES = [
+  "concept_check",
+  "mechanism_check",
+  "application_check",
+  "misconception_trap",
+  "why_question",
+] as const;
+
+export const QuizQuestionSchema = z.object({
+  id: z.coerce.number().int().positive().optional(),
+  type: z.enum(QUIZ_QUESTION_TYPES).catch("concept_check"),
+  difficulty: difficulty.optional(),
+  question: trimmedString,
+  options,
+  correctAnswer: answerIndex,
+  explanation: trimmedString,
+});
+
+export const QuizQuestionsSchema = z
+  .array(QuizQuestionSchema)
+  .min(3, "Return at least 3 questions")
+  .max(10)
+  .transform((questions) => questions.map((q, index) => ({ ...q, id: index + 1 })));
+
+export const AdaptiveQuestionSchema = QuizQuestionSchema.extend({
+  type: z.literal("adaptive").catch("adaptive"),
+});
+
+export const WeakAreaQuestionSchema = QuizQuestionSchema.omit({ type: true, id: true }).extend({
+  topicName: trimmedString,
+  difficulty,
+});
+
+export const WeakAreasQuizSchema = z.object({
+  questions: z.array(WeakAreaQuestionSchema).min(1),
+});
+
+export const CheckpointQuestionsSchema = z.object({
+  checkpoints: z
+    .array(
+      z.object({
+        chapter: z.coerce.number().int().min(1),
+        questions: z.array(QuizQuestionSchema.omit({ id: true }).extend({ difficulty })).min(1).max(2),
+      })
+    )
+    .min(1),
+});
+
+export const SubtaskPlanSchema = z.object({
+  subtasks: z
+    .array(z.object({ title: trimmedString, searchQuery: trimmedString }))
+    .min(1)
+    .max(5),
+  mainSearchQuery: trimmedString,
+});
+
+export const FlashcardDeckSchema = z.object({
+  cards: z
+    .array(
+      z.object({
+        front: trimmedString.max(300),
+        back: trimmedString.max(1000),
+        topicName: z.string().trim().min(1).max(60).optional(),
+      })
+    )
+    .min(4, "Return at least 4 cards")
+    .max(30),
+});
+
+const seconds = z.coerce.number().min(0);
+
+const notePoints = z.array(trimmedString.max(500)).max(12);
+
+/** The parts of a notes document besides its sections */
+const notesExtras = {
+  keyPoints: notePoints.default([]),
+  definitions: z
+    .array(z.object({ term: trimmedString.max(120), meaning: trimmedString.max(600) }))
+    .max(20)
+    .default([]),
+  formulas: z
+    .array(
+      z.object({
+        name: trimmedString.max(120),
+        expression: trimmedString.max(300),
+        explanation: z.string().trim().min(1).max(600).optional(),
+      })
+    )
+    .max(20)
+    .default([]),
+  examples: z
+    .array(z.object({ title: trimmedString.max(120), description: trimmedString.max(1500) }))
+    .max(10)
+    .default([]),
+  misconceptions: z
+    .array(z.object({ misconception: trimmedString.max(300), correction: trimmedString.max(600) }))
+    .max(10)
+    .default([]),
+};
+
+export const NotesDocumentSchema = z.object({
+  summary: trimmedString.max(1000),
+  sections: z
+    .array(
+      z.object({
+        title: trimmedString.max(120),
+        content: z.string().trim().max(4000).default(""),
+        points: notePoints.default([]),
+      })
+    )
+    .min(1)
+    .max(12),
+  ...notesExtras,
+});
+
+/** Notes for one transcript chunk; times are seconds from the start of the video */
+export const TranscriptNotesSchema = z.object({
+  summary: trimmedString.max(600),
+  sections: z
+    .array(
+      z.object({
+        title: trimmedString.max(120),
+        startSeconds: seconds,
+        endSeconds: seconds,
+        points: notePoints.min(1),
+      })
+    )
+    .min(1)
+    .max(8),
+  ...notesExtras,
+});
+
+/** One topic name per classified question, in the same order */
+export const topicClassificationSchema = (questionCount: number) =>
+  z
+    .array(z.string().trim().min(1).max(60))
+    .length(questionCount, `Return exactly ${questionCount} topic names`);
+
+export type QuizQuestionOutput = z.infer<typeof QuizQuestionSchema>;
+export type WeakAreaQuestionOutput = z.infer<typeof WeakAreaQuestionSchema>;
+export type SubtaskPlan = z.infer<typeof SubtaskPlanSchema>;
+export type FlashcardDeck = z.infer<typeof FlashcardDeckSchema>;
+export type NotesDocumentOutput = z.infer<typeof NotesDocumentSchema>;
+export type TranscriptNotes = z.infer<typeof TranscriptNotesSchema>;
@@ -1,6 +1,6 @@
 // CORS configuration utility for secure cross-origin requests
 
-const ALLOWED_ORIGINS = [
+const DEFAULT_ALLOWED_ORIGINS = [
   // Production
   'https://edurank.app',
   'https://www.edurank.app',
@@ -13,6 +13,19 @@ const ALLOWED_ORIGINS = [
   'https://lovable.dev',
 ];
 
+/**
+ * Origins come from the comma-separated ALLOWED_ORIGINS secret when set,
+ * so adding a preview or staging domain needs no code change
+ */
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+if (ALLOWED_ORIGINS.length === 0) {
+  ALLOWED_ORIGINS.push(...DEFAULT_ALLOWED_ORIGINS);
+}
+
 /**
  * Get CORS headers with origin validation
  * Prevents CSRF attacks by only allowing requests from trusted origins
@@ -0,0 +1,193 @@
+/**
+ * Learning plan video search
+ *
+ * Splits a topic into 3-5 subtasks with the AI planner, then searches the
+ * configured video providers for the main topic and each subtask, ranked for
+ * the student's preferences, leaving out videos they have flagged. Shared by find-video (search only) and
+ * create-learning-plan (search, then save the plan).
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AIError } from "./aiProvider.ts";
+import { SubtaskPlan, SubtaskPlanSchema } from "./aiSchemas.ts";
+import { callAIForJSON } from "./structuredOutput.ts";
+import { getVideoProviders, searchVideos } from "./videoProviders.ts";
+import {
+  describePreferences,
+  fetchFlaggedVideoIds,
+  rankVideos,
+  searchOptionsFor,
+  searchQueryFor,
+  VideoPreferences,
+} from "./videoRanking.ts";
+
+// Ranking picks the best few out of a wider set of candidates
+const CANDIDATES_PER_SEARCH = 10;
+const VIDEOS_PER_SEARCH = 5;
+
+function formatDuration(totalSeconds: number | null): string {
+  if (totalSeconds === null) return '';
+
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function formatViewCount(count: number | null): string {
+  if (count === null) return '';
+  if (count >= 1000000) {
+    return `${(count / 1000000).toFixed(1)}M`;
+  }
+  if (count >= 1000) {
+    return `${(count / 1000).toFixed(1)}K`;
+  }
+  return count.toString();
+}
+
+export interface PlannedVideo {
+  videoId: string;
+  title: string;
+  channel: string;
+  views: string;
+  duration: string;
+  thumbnail: string | null;
+  engagementScore: number;
+  reason: string;
+}
+
+export interface PlannedSubtask {
+  title: string;
+  description: string;
+  videos: PlannedVideo[];
+}
+
+export interface LearningPlanVideos {
+  videoId: string;
+  title: string;
+  channel: string;
+  /** Length of the main video, as the provider reports it */
+  durationSeconds: number | null;
+  reason: string;
+  subtasks: PlannedSubtask[];
+}
+
+export type LearningPlanStep = "planning" | "searching";
+
+export async function planLearningVideos(
+  serviceClient: SupabaseClient,
+  userId: string,
+  sanitizedTopic: string,
+  preferences: VideoPreferences,
+  onProgress?: (step: LearningPlanStep, message: string) => void
+): Promise<LearningPlanVideos> {
+  const providers = getVideoProviders(serviceClient);
+  const student = describePreferences(preferences);
+  const flagged = await fetchFlaggedVideoIds(serviceClient, userId);
+
+  const findVideos = async (query: string) => {
+    const candidates = await searchVideos(
+      providers,
+      searchQueryFor(query, preferences),
+      searchOptionsFor(preferences, CANDIDATES_PER_SEARCH)
+    );
+    const ranked = await rankVideos(serviceClient, candidates, query, preferences, flagged);
+    return ranked.slice(0, VIDEOS_PER_SEARCH);
+  };
+
+  onProgress?.("planning", "Breaking the topic into subtasks");
+  const parsedData: SubtaskPlan = await callAIForJSON([
+    {
+      role: "system",
+      content: `You are an educational content planner. Break down learning topics into 3-5 logical subtasks/subtopics that someone would need to learn to master the main topic.
+
+You must respond with ONLY a valid JSON object, no markdown, no code blocks.
+The JSON must have this exact structure:
+{
+"subtasks": [
+{
+  "title": "Subtask title",
+  "searchQuery": "optimized video search query for this subtask"
+}
+],
+"mainSearchQuery": "best video search query for the main topic"
+}
+
+Add "tutorial", "explained", or "for beginners" to make searches more educational.`
+    },
+    {
+      role: "user",
+      content: `Topic: "${sanitizedTopic}"
+${student ? `Student: ${student}\n` : ""}
+Break this into 3-5 subtasks and provide optimized search queries for educational videos on each.${student ? " Match the queries to the student's syllabus level." : ""}`
+    }
+  ], SubtaskPlanSchema, { task: "find-video" }).catch((planError) => {
+    // A generic plan still finds videos when the model keeps returning bad JSON
+    if (!(planError instanceof AIError) || planError.code !== 'invalid_output') throw planError;
+    console.error('Falling back to default subtask plan:', planError.message);
+    return {
+      subtasks: [
+        { title: `Introduction to ${sanitizedTopic}`, searchQuery: `${sanitizedTopic} introduction tutorial` },
+        { title: `Core concepts of ${sanitizedTopic}`, searchQuery: `${sanitizedTopic} explained for beginners` },
+        { title: `Practice ${sanitizedTopic}`, searchQuery: `${sanitizedTopic} examples practice` }
+      ],
+      mainSearchQuery: `${sanitizedTopic} tutorial explained`
+    };
+  });
+
+  console.log('AI response received');
+
+  const subtasks = parsedData.subtasks.slice(0, 5);
+  onProgress?.("searching", `Finding videos for ${subtasks.length} subtasks`);
+
+  const mainVideos = await findVideos(parsedData.mainSearchQuery || `${sanitizedTopic} tutorial`);
+  const primaryVideo = mainVideos[0];
+
+  if (!primaryVideo) {
+    throw new Error('No videos found for this topic');
+  }
+
+  const subtasksWithVideos = await Promise.all(
+    subtasks.map(async (subtask, idx: number) => {
+      try {
+        const videos = await findVideos(subtask.searchQuery || `${sanitizedTopic} ${subtask.title}`);
+        return {
+          title: subtask.title || `Part ${idx + 1}`,
+          description: subtask.searchQuery || '',
+          videos: videos.map((v) => ({
+            videoId: v.videoId,
+            title: v.title,
+            channel: v.channel,
+            views: formatViewCount(v.viewCount),
+            duration: formatDuration(v.durationSeconds),
+            thumbnail: v.thumbnail,
+            engagementScore: v.engagementScore,
+            reason: v.reason
+          }))
+        };
+      } catch (err) {
+        console.error(`Error searching for subtask ${subtask.title}:`, err);
+        return {
+          title: subtask.title || `Part ${idx + 1}`,
+          description: subtask.searchQuery || '',
+          videos: []
+        };
+      }
+    })
+  );
+
+  console.log(`Found ${mainVideos.length} main videos and ${subtasksWithVideos.length} subtasks`);
+
+  return {
+    videoId: primaryVideo.videoId,
+    title: primaryVideo.title,
+    channel: primaryVideo.channel,
+    durationSeconds: primaryVideo.durationSeconds,
+    reason: `Best match for "${sanitizedTopic}". ${primaryVideo.reason}`,
+    subtasks: subtasksWithVideos,
+  };
+}
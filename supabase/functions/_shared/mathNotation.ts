@@ -0,0 +1,50 @@
+/**
+ * Math and chemistry notation in AI output
+ *
+ * The app renders LaTeX between $...$ (inline) and $$...$$ (display) with
+ * KaTeX, and chemistry with the mhchem \ce{} macro. Prompts that produce
+ * student-facing text include MATH_NOTATION_RULES so the model uses those
+ * delimiters.
+ */
+
+export const MATH_NOTATION_RULES = `MATH AND CHEMISTRY NOTATION:
+- Write every equation, symbol or expression in LaTeX: inline as $...$, standalone equations as $$...$$
+- Write chemical formulas and reactions with mhchem inside math, e.g. $\\ce{H2SO4}$ or $\\ce{2H2 + O2 -> 2H2O}$
+- Inside JSON strings every backslash must be doubled, e.g. "$\\\\frac{a}{b}$"
+- Write currency as "5 dollars" or "USD 5", never with a bare $ sign
+- Leave plain prose without math delimiters`;
+
+// JSON.parse turns an unescaped "\frac" into a form feed + "rac", "\times"
+// into a tab + "imes" and so on. These control characters never belong in
+// generated study text when a letter follows, so put the backslash back.
+const BROKEN_ESCAPES: Record<string, string> = {
+  "\f": "\\f",
+  "\b": "\\b",
+  "\t": "\\t",
+  "\r": "\\r",
+};
+
+// A real newline is normal in prose, so "\n" is only restored inside $...$
+// (e.g. \nu, \neq, \nabla)
+const MATH_SPAN = /\$[^$]+\$/g;
+
+function repairString(text: string): string {
+  let repaired = "";
+  for (let i = 0; i < text.length; i++) {
+    const escape = BROKEN_ESCAPES[text[i]];
+    repaired += escape && /[a-zA-Z]/.test(text[i + 1] ?? "") ? escape : text[i];
+  }
+  return repaired.replace(MATH_SPAN, (span) => span.replace(/\n(?=[a-zA-Z])/g, "\\n"));
+}
+
+/** Restore LaTeX backslashes that JSON.parse consumed, anywhere in a parsed value */
+export function repairLatexEscapes(value: unknown): unknown {
+  if (typeof value === "string") return repairString(value);
+  if (Array.isArray(value)) return value.map(repairLatexEscapes);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, repairLatexEscapes(entry)])
+    );
+  }
+  return value;
+}
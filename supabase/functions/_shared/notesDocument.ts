@@ -0,0 +1,73 @@
+/**
+ * Structured notes document
+ *
+ * generate-notes stores notes twice: as a versioned JSON document
+ * (notes.document), which Notes.tsx renders field by field, and as markdown
+ * (notes.content) rendered from that document, which quiz and flashcard
+ * generation read as plain text. Bump NOTES_DOCUMENT_VERSION when the shape
+ * changes and teach src/lib/notesDocument.ts to upgrade the old version.
+ */
+
+import { formatTimestamp } from "./transcript.ts";
+
+export const NOTES_DOCUMENT_VERSION = 1;
+
+export interface NotesDocumentSection {
+  title: string;
+  content: string;
+  points: string[];
+  /** Seconds from the start of the video, for transcript-based notes */
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export interface NotesDocument {
+  version: typeof NOTES_DOCUMENT_VERSION;
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  sections: NotesDocumentSection[];
+  definitions: { term: string; meaning: string }[];
+  formulas: { name: string; expression: string; explanation?: string }[];
+  examples: { title: string; description: string }[];
+  misconceptions: { misconception: string; correction: string }[];
+}
+
+const bullets = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+
+export function renderNotesMarkdown(doc: NotesDocument): string {
+  const blocks: string[] = [`# ${doc.title}`, doc.summary];
+
+  if (doc.keyPoints.length > 0) {
+    blocks.push(`## Key Points\n${bullets(doc.keyPoints)}`);
+  }
+
+  for (const section of doc.sections) {
+    const range = section.startSeconds !== undefined
+      ? ` [${formatTimestamp(section.startSeconds)}–${formatTimestamp(section.endSeconds ?? section.startSeconds)}]`
+      : "";
+    blocks.push([`## ${section.title}${range}`, section.content, bullets(section.points)].filter(Boolean).join("\n"));
+  }
+
+  if (doc.definitions.length > 0) {
+    blocks.push(`## Definitions\n${bullets(doc.definitions.map((d) => `**${d.term}**: ${d.meaning}`))}`);
+  }
+
+  if (doc.formulas.length > 0) {
+    blocks.push(`## Formulas\n${bullets(doc.formulas.map((f) =>
+      `**${f.name}**: ${f.expression}${f.explanation ? ` (${f.explanation})` : ""}`
+    ))}`);
+  }
+
+  if (doc.examples.length > 0) {
+    blocks.push(`## Examples\n${doc.examples.map((e) => `### ${e.title}\n${e.description}`).join("\n\n")}`);
+  }
+
+  if (doc.misconceptions.length > 0) {
+    blocks.push(`## Common Misconceptions\n${bullets(doc.misconceptions.map((m) =>
+      `**Misconception:** ${m.misconception} **Correction:** ${m.correction}`
+    ))}`);
+  }
+
+  return blocks.join("\n\n");
+}
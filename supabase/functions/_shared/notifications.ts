@@ -0,0 +1,292 @@
+/**
+ * Notification delivery
+ *
+ * Sends study reminders as Web Push messages and emails. The transports are
+ * chosen with env vars so local runs need no outside services:
+ *
+ * - PUSH_TRANSPORT: "webpush" (default) signs with VAPID_PUBLIC_KEY /
+ *   VAPID_PRIVATE_KEY (base64url, as printed by `npx web-push generate-vapid-keys`)
+ *   and VAPID_SUBJECT; "log" prints each message instead of sending it.
+ * - EMAIL_TRANSPORT: "resend" (RESEND_API_KEY), "smtp" for a plain,
+ *   unauthenticated SMTP server such as the Inbucket/Mailpit instance that
+ *   `supabase start` runs (SMTP_HOST, SMTP_PORT), or "log" (default).
+ *   EMAIL_FROM sets the sender.
+ */
+
+export interface PushTarget {
+  endpoint: string;
+  /** Browser's P-256 public key, base64url */
+  p256dh: string;
+  /** Browser's auth secret, base64url */
+  auth: string;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Page to open when the notification is clicked */
+  url?: string;
+  /** Notifications with the same tag replace each other */
+  tag?: string;
+}
+
+/** "gone" means the browser dropped the subscription and it should be deleted */
+export type PushResult = "sent" | "gone" | "failed";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const PUSH_TTL_SECONDS = 60 * 60;
+const DEFAULT_EMAIL_FROM = "EduRank <reminders@edurank.app>";
+
+// ---------------------------------------------------------------------------
+// Web Push (RFC 8030) with VAPID (RFC 8292) and aes128gcm payloads (RFC 8291)
+// ---------------------------------------------------------------------------
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+// HKDF with a single expand block, which covers every length used here (<= 32 bytes)
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const prk = await hmacSha256(salt, ikm);
+  const okm = await hmacSha256(prk, concat(info, new Uint8Array([1])));
+  return okm.slice(0, length);
+}
+
+let vapidKey: Promise<CryptoKey> | null = null;
+
+function getVapidKey(publicKey: string, privateKey: string): Promise<CryptoKey> {
+  if (!vapidKey) {
+    const publicBytes = base64UrlDecode(publicKey);
+    vapidKey = crypto.subtle.importKey(
+      "jwk",
+      {
+        kty: "EC",
+        crv: "P-256",
+        d: privateKey,
+        x: base64UrlEncode(publicBytes.slice(1, 33)),
+        y: base64UrlEncode(publicBytes.slice(33, 65)),
+      },
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["sign"]
+    );
+  }
+  return vapidKey;
+}
+
+async function vapidAuthorization(endpoint: string): Promise<string> {
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  if (!publicKey || !privateKey) {
+    throw new Error("VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set to send push notifications");
+  }
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: Deno.env.get("VAPID_SUBJECT") || "mailto:support@edurank.app",
+  })));
+
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    await getVapidKey(publicKey, privateKey),
+    encoder.encode(`${header}.${claims}`)
+  );
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(new Uint8Array(signature))}, k=${publicKey}`;
+}
+
+async function encryptPayload(target: PushTarget, payload: Uint8Array): Promise<Uint8Array> {
+  const clientPublicKey = base64UrlDecode(target.p256dh);
+  const authSecret = base64UrlDecode(target.auth);
+
+  const serverKeys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+  const serverPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", serverKeys.publicKey));
+  const clientKey = await crypto.subtle.importKey("raw", clientPublicKey, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: clientKey }, serverKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), clientPublicKey, serverPublicKey);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+
+  const aesKey = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["encrypt"]);
+  // A single record: the payload followed by the 0x02 last-record delimiter
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, aesKey, concat(payload, new Uint8Array([2])))
+  );
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, 4096);
+  return concat(salt, recordSize, new Uint8Array([serverPublicKey.length]), serverPublicKey, ciphertext);
+}
+
+async function sendWebPush(target: PushTarget, message: PushMessage): Promise<PushResult> {
+  const body = await encryptPayload(target, encoder.encode(JSON.stringify(message)));
+
+  const response = await fetch(target.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: await vapidAuthorization(target.endpoint),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: "normal",
+    },
+    body,
+  });
+
+  if (response.ok) return "sent";
+  if (response.status === 404 || response.status === 410) return "gone";
+
+  console.error(`Push service returned ${response.status}: ${await response.text()}`);
+  return "failed";
+}
+
+export async function sendPush(target: PushTarget, message: PushMessage): Promise<PushResult> {
+  const transport = (Deno.env.get("PUSH_TRANSPORT") || "webpush").toLowerCase();
+
+  if (transport === "log") {
+    console.log(`[push] ${new URL(target.endpoint).host}: ${message.title} - ${message.body}`);
+    return "sent";
+  }
+
+  try {
+    return await sendWebPush(target, message);
+  } catch (error) {
+    console.error("Error sending push notification:", error);
+    return "failed";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Email
+// ---------------------------------------------------------------------------
+
+async function sendWithResend(message: EmailMessage, from: string) {
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("RESEND_API_KEY") ?? ""}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text, html: message.html }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Resend returned ${response.status}: ${await response.text()}`);
+  }
+}
+
+// Just enough SMTP to hand a message to a local test server
+async function sendWithSmtp(message: EmailMessage, from: string) {
+  const connection = await Deno.connect({
+    hostname: Deno.env.get("SMTP_HOST") || "localhost",
+    port: Number(Deno.env.get("SMTP_PORT")) || 2500,
+  });
+  const reader = connection.readable.pipeThrough(new TextDecoderStream()).getReader();
+  const writer = connection.writable.getWriter();
+
+  let buffered = "";
+  // Replies end with a line whose code is followed by a space ("250 OK")
+  const expect = async (code: string) => {
+    while (!/^\d{3} .*\r?\n/m.test(buffered)) {
+      const { done, value } = await reader.read();
+      if (done) throw new Error("SMTP server closed the connection");
+      buffered += value;
+    }
+    const reply = buffered;
+    buffered = "";
+    if (!reply.split(/\r?\n/).some((line) => line.startsWith(`${code} `))) {
+      throw new Error(`Unexpected SMTP reply: ${reply.trim()}`);
+    }
+  };
+  const send = async (line: string, code: string) => {
+    await writer.write(encoder.encode(`${line}\r\n`));
+    await expect(code);
+  };
+
+  const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value;
+  const boundary = `edurank-${crypto.randomUUID()}`;
+  const data = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    message.html,
+    `--${boundary}--`,
+  ]
+    .join("\r\n")
+    // Dot-stuffing, so a line starting with "." isn't read as the end of the message
+    .replace(/\r\n\./g, "\r\n..");
+
+  try {
+    await expect("220");
+    await send("EHLO edurank", "250");
+    await send(`MAIL FROM:<${address(from)}>`, "250");
+    await send(`RCPT TO:<${address(message.to)}>`, "250");
+    await send("DATA", "354");
+    await send(`${data}\r\n.`, "250");
+    await send("QUIT", "221");
+  } finally {
+    connection.close();
+  }
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const transport = (Deno.env.get("EMAIL_TRANSPORT") || "log").toLowerCase();
+  const from = Deno.env.get("EMAIL_FROM") || DEFAULT_EMAIL_FROM;
+
+  switch (transport) {
+    case "resend":
+      return sendWithResend(message, from);
+    case "smtp":
+      return sendWithSmtp(message, from);
+    default:
+      console.log(`[email] to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Quiz answer key helpers
+ *
+ * The full question objects (with correctAnswer and explanation) live only in
+ * the quizzes table. Anything sent to the browser goes through redactQuestion
+ * first; grading happens in submit-quiz-answer / submit-quiz.
+ */
+
+export interface QuizQuestion {
+  id: number;
+  type?: string;
+  difficulty?: string;
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  explanation?: string;
+}
+
+export type RedactedQuestion = Omit<QuizQuestion, "correctAnswer" | "explanation">;
+
+export interface GradedAnswer {
+  questionId: number;
+  selectedAnswer: number;
+  isCorrect: boolean;
+  timeTakenSeconds: number;
+  difficulty: string;
+  questionText: string;
+}
+
+export interface StoredQuiz {
+  questions: QuizQuestion[];
+  adaptive_questions?: QuizQuestion[];
+}
+
+export function redactQuestion(question: QuizQuestion): RedactedQuestion {
+  const { correctAnswer: _correctAnswer, explanation: _explanation, ...rest } = question;
+  return rest;
+}
+
+export function redactQuestions(questions: QuizQuestion[]): RedactedQuestion[] {
+  return (questions || []).map(redactQuestion);
+}
+
+/**
+ * Look up a question by id across the base quiz and any adaptive follow-ups
+ */
+export function findQuestion(quiz: StoredQuiz, questionId: number): QuizQuestion | null {
+  const all = [...(quiz.questions || []), ...(quiz.adaptive_questions || [])];
+  return all.find((q) => q.id === questionId) || null;
+}
+
+/**
+ * Next free question id, so adaptive questions never collide with base ones
+ */
+export function nextQuestionId(quiz: StoredQuiz): number {
+  const all = [...(quiz.questions || []), ...(quiz.adaptive_questions || [])];
+  return all.reduce((max, q) => Math.max(max, Number(q.id) || 0), 0) + 1;
+}
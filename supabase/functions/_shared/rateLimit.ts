@@ -1,155 +1,29 @@
 /**
- * Rate Limiting Utility for Supabase Edge Functions
- * 
- * Prevents abuse of expensive AI operations and protects against DoS attacks.
- * Uses Supabase to track request counts per user and operation type.
+ * Rate Limiting and Credits for Supabase Edge Functions
+ *
+ * Every AI operation has a credit cost and hourly/daily limits below.
+ * withUsage() checks the limits and debits the credits in a single database
+ * call (reserve_ai_usage) before any model is called, and refunds them if the
+ * work fails. Rejections are thrown as RequestError, so callers get the
+ * standard error envelope:
+ *
+ *   429 rate_limited          details: { limit: "hourly" | "daily", max, resetAt }
+ *   402 insufficient_credits  details: { required, remaining, resetAt }
+ *   503 usage_unavailable     details: { operation }  (the check itself failed)
  */
 
-// Type definition for Supabase client
-type SupabaseClient = any;
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RequestError } from "./requestGuard.ts";
 
-export interface RateLimitConfig {
-  operation: string;
-  userId: string;
+export interface OperationLimits {
   limitsPerHour: number;
   limitsPerDay: number;
-}
-
-export interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  resetAtHour: Date;
-  resetAtDay: Date;
-  message?: string;
-}
-
-/**
- * Check if a user has exceeded rate limits for an operation
- * Creates audit trail for monitoring abuse patterns
- */
-export async function checkRateLimit(
-  supabaseClient: SupabaseClient,
-  config: RateLimitConfig
-): Promise<RateLimitResult> {
-  const now = new Date();
-  const hourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-  const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-  try {
-    // Get hourly count
-    const { count: hourlyCount, error: hourlyError } = await supabaseClient
-      .from('rate_limit_logs')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', config.userId)
-      .eq('operation', config.operation)
-      .gte('created_at', hourAgo.toISOString());
-
-    if (hourlyError) {
-      console.error('Error checking hourly rate limit:', hourlyError);
-      // Fail open - allow request but log the error
-      return {
-        allowed: true,
-        remaining: config.limitsPerHour,
-        resetAtHour: new Date(now.getTime() + 60 * 60 * 1000),
-        resetAtDay: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-        message: 'Rate limit check failed (allowing request)'
-      };
-    }
-
-    // Get daily count
-    const { count: dailyCount, error: dailyError } = await supabaseClient
-      .from('rate_limit_logs')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', config.userId)
-      .eq('operation', config.operation)
-      .gte('created_at', dayAgo.toISOString());
-
-    if (dailyError) {
-      console.error('Error checking daily rate limit:', dailyError);
-      // Fail-open: allow request on error to prevent service disruption
-      return {
-        allowed: true,
-        remaining: config.limitsPerDay,
-        resetAtHour: new Date(now.getTime() + 60 * 60 * 1000),
-        resetAtDay: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-        message: 'Rate limit check failed (allowing request)'
-      };
-    }
-
-    const hourlyUsed = hourlyCount || 0;
-    const dailyUsed = dailyCount || 0;
-
-    // Check limits
-    if (hourlyUsed >= config.limitsPerHour) {
-      // Conservative estimate: user can retry after the window expires
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAtHour: new Date(now.getTime() + 60 * 60 * 1000),
-        resetAtDay: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-        message: `Rate limit exceeded for ${config.operation}. Max ${config.limitsPerHour} requests per hour. Try again in an hour.`
-      };
-    }
-
-    if (dailyUsed >= config.limitsPerDay) {
-      // Conservative estimate: user can retry after the window expires
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAtHour: new Date(now.getTime() + 60 * 60 * 1000),
-        resetAtDay: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-        message: `Daily limit exceeded for ${config.operation}. Max ${config.limitsPerDay} requests per day. Try again tomorrow.`
-      };
-    }
-
-    // Request is allowed
-    return {
-      allowed: true,
-      remaining: config.limitsPerHour - hourlyUsed - 1,
-      resetAtHour: new Date(now.getTime() + 60 * 60 * 1000),
-      resetAtDay: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-    };
-
-  } catch (error) {
-    console.error('Unexpected error in rate limit check:', error);
-    // Fail open to prevent service degradation
-    return {
-      allowed: true,
-      remaining: config.limitsPerHour,
-      resetAtHour: new Date(now.getTime() + 60 * 60 * 1000),
-      resetAtDay: new Date(now.getTime() + 24 * 60 * 60 * 1000),
-    };
-  }
+  costCredits: number;
+  description: string;
 }
 
 /**
- * Log a request for rate limiting and auditing
- */
-export async function logRateLimitRequest(
-  supabaseClient: SupabaseClient,
-  userId: string,
-  operation: string,
-  success: boolean,
-  metadata?: Record<string, any>
-): Promise<void> {
-  try {
-    await supabaseClient
-      .from('rate_limit_logs')
-      .insert({
-        user_id: userId,
-        operation,
-        success,
-        metadata,
-        ip_address: null, // Can be populated from request headers
-      });
-  } catch (error) {
-    console.error('Error logging rate limit request:', error);
-    // Don't throw - this is a logging operation
-  }
-}
-
-/**
- * Suggested rate limits for different operations
+ * Limits and costs for each AI operation
  * Adjust based on API costs and desired user experience
  */
 export const DEFAULT_RATE_LIMITS = {
@@ -188,5 +62,148 @@ export const DEFAULT_RATE_LIMITS = {
     limitsPerDay: 10,
     costCredits: 4,
     description: 'Weak areas quiz generation'
+  },
+  'generate-flashcards': {
+    limitsPerHour: 5,
+    limitsPerDay: 20,
+    costCredits: 2,
+    description: 'Flashcard generation from notes'
+  },
+  'generate-checkpoints': {
+    limitsPerHour: 5,
+    limitsPerDay: 20,
+    costCredits: 2,
+    description: 'In-video checkpoint questions'
+  },
+  'flag-video': {
+    limitsPerHour: 10,
+    limitsPerDay: 30,
+    costCredits: 0,
+    description: 'Replacing flagged videos'
+  }
+} satisfies Record<string, OperationLimits>;
+
+export type AIOperation = keyof typeof DEFAULT_RATE_LIMITS;
+
+interface ReserveUsageResult {
+  allowed: boolean;
+  reason?: "hourly_limit" | "daily_limit" | "insufficient_credits";
+  usage_id?: string;
+  cost?: number;
+  credits_remaining?: number;
+  limit?: number;
+  required?: number;
+  reset_at?: string;
+}
+
+export interface UsageReservation {
+  id: string;
+  operation: AIOperation;
+  cost: number;
+  creditsRemaining: number;
+}
+
+function usageUnavailable(operation: AIOperation): RequestError {
+  return new RequestError(
+    503,
+    'usage_unavailable',
+    'Usage limits could not be checked right now. Please try again in a moment.',
+    { operation }
+  );
+}
+
+/**
+ * Check the caller's limits for an operation and debit its cost.
+ * If the check itself fails the operation is refused, since nothing could be
+ * debited for it.
+ */
+export async function reserveUsage(
+  serviceClient: SupabaseClient,
+  userId: string,
+  operation: AIOperation
+): Promise<UsageReservation> {
+  const limits: OperationLimits = DEFAULT_RATE_LIMITS[operation];
+
+  const { data, error } = await serviceClient.rpc('reserve_ai_usage', {
+    p_user_id: userId,
+    p_operation: operation,
+    p_cost: limits.costCredits,
+    p_hourly_limit: limits.limitsPerHour,
+    p_daily_limit: limits.limitsPerDay,
+  });
+
+  if (error || !data) {
+    console.error(`Usage check failed for ${operation}:`, error);
+    throw usageUnavailable(operation);
   }
-};
+
+  const result = data as ReserveUsageResult;
+
+  if (result.reason === 'hourly_limit' || result.reason === 'daily_limit') {
+    const window = result.reason === 'hourly_limit' ? 'hourly' : 'daily';
+    throw new RequestError(
+      429,
+      'rate_limited',
+      `You've reached the ${window} limit of ${result.limit} for ${limits.description.toLowerCase()}.`,
+      { operation, limit: window, max: result.limit, resetAt: result.reset_at }
+    );
+  }
+
+  if (result.reason === 'insufficient_credits') {
+    throw new RequestError(
+      402,
+      'insufficient_credits',
+      `${limits.description} needs ${result.required} credits and you have ${result.credits_remaining} left.`,
+      { operation, required: result.required, remaining: result.credits_remaining, resetAt: result.reset_at }
+    );
+  }
+
+  if (!result.allowed || !result.usage_id) {
+    console.error(`Unexpected usage check result for ${operation}:`, result);
+    throw usageUnavailable(operation);
+  }
+
+  return {
+    id: result.usage_id,
+    operation,
+    cost: result.cost ?? limits.costCredits,
+    creditsRemaining: result.credits_remaining ?? 0,
+  };
+}
+
+/**
+ * Give back the credits of a reservation whose work failed
+ */
+export async function refundUsage(
+  serviceClient: SupabaseClient,
+  reservation: UsageReservation | null
+): Promise<void> {
+  if (!reservation) return;
+
+  const { error } = await serviceClient.rpc('refund_ai_usage', { p_usage_id: reservation.id });
+  if (error) {
+    // Don't throw - the original failure is what the caller needs to see
+    console.error(`Error refunding ${reservation.operation} usage ${reservation.id}:`, error);
+  } else {
+    console.log(`Refunded ${reservation.cost} credits for failed ${reservation.operation}`);
+  }
+}
+
+/**
+ * Reserve usage for an operation, run the work and refund if it throws
+ */
+export async function withUsage<T>(
+  serviceClient: SupabaseClient,
+  userId: string,
+  operation: AIOperation,
+  work: () => Promise<T>
+): Promise<T> {
+  const reservation = await reserveUsage(serviceClient, userId, operation);
+
+  try {
+    return await work();
+  } catch (error) {
+    await refundUsage(serviceClient, reservation);
+    throw error;
+  }
+}
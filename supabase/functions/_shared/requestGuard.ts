@@ -0,0 +1,388 @@
+/**
+ * Request Guard for Supabase Edge Functions
+ *
+ * Wraps a handler with the checks every function needs: CORS (origins from
+ * cors.ts), POST-only, bearer auth, a body size limit and JSON parsing.
+ * Handlers return a plain object for a 200 response or throw RequestError;
+ * every failure is sent back in the same envelope:
+ *
+ *   { "error": "Human readable message", "code": "machine_code", "details"?: {...} }
+ *
+ * The field validators below screen free text for prompt injection before it
+ * reaches a model.
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCORSHeaders } from "./cors.ts";
+import { AIError } from "./aiProvider.ts";
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const MAX_ID_LENGTH = 100;
+
+const FORBIDDEN_PATTERNS = [
+  /ignore\s+(all\s+)?previous\s+instructions/i,
+  /disregard\s+(all\s+)?previous/i,
+  /forget\s+(all\s+)?previous/i,
+  /system\s*:\s*/i,
+  /\[\s*INST\s*\]/i,
+  /<\s*\|\s*im_start\s*\|\s*>/i,
+  /<\s*\|\s*im_end\s*\|\s*>/i,
+  /\{\{\s*system/i,
+  /pretend\s+you\s+are/i,
+  /act\s+as\s+if/i,
+  /you\s+are\s+now/i,
+  /new\s+instructions/i,
+  /override\s+instructions/i,
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class RequestError extends Error {
+  status: number;
+  code: string;
+  details?: Record<string, unknown>;
+
+  constructor(status: number, code: string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export type RequestBody = Record<string, unknown>;
+
+export interface GuardContext {
+  req: Request;
+  body: RequestBody;
+  userId: string;
+  authHeader: string;
+  /** Client acting as the caller, so RLS applies */
+  supabaseClient: SupabaseClient;
+  serviceClient: SupabaseClient;
+  corsHeaders: Record<string, string>;
+}
+
+export interface GuardOptions {
+  /** Function name used in logs */
+  name: string;
+  maxBodyBytes?: number;
+}
+
+export function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  corsHeaders: Record<string, string>,
+  details?: Record<string, unknown>
+): Response {
+  return jsonResponse({ error: message, code, ...(details ? { details } : {}) }, corsHeaders, status);
+}
+
+async function readJsonBody(req: Request, maxBytes: number): Promise<RequestBody> {
+  const declaredLength = Number(req.headers.get("content-length") || 0);
+  if (declaredLength > maxBytes) {
+    throw new RequestError(413, "payload_too_large", `Request body exceeds ${maxBytes} bytes`);
+  }
+
+  const raw = await req.text();
+  if (new TextEncoder().encode(raw).length > maxBytes) {
+    throw new RequestError(413, "payload_too_large", `Request body exceeds ${maxBytes} bytes`);
+  }
+  if (!raw.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new RequestError(400, "invalid_json", "Request body must be valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new RequestError(400, "invalid_json", "Request body must be a JSON object");
+  }
+  return parsed as RequestBody;
+}
+
+export function guard(
+  options: GuardOptions,
+  handler: (ctx: GuardContext) => Promise<unknown>
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    const corsHeaders = getCORSHeaders(req.headers.get("origin"));
+
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      if (req.method !== "POST") {
+        throw new RequestError(405, "method_not_allowed", "Method not allowed");
+      }
+
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader?.startsWith("Bearer ")) {
+        throw new RequestError(401, "unauthorized", "No authorization header");
+      }
+
+      const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+      const supabaseClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const token = authHeader.replace("Bearer ", "");
+      const { data: claimsData, error: claimsError } = await supabaseClient.auth.getClaims(token);
+      if (claimsError || !claimsData?.claims?.sub) {
+        console.error(`Auth error in ${options.name}:`, claimsError);
+        throw new RequestError(401, "unauthorized", "Unauthorized");
+      }
+
+      const body = await readJsonBody(req, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+      const serviceClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+      const result = await handler({
+        req,
+        body,
+        userId: claimsData.claims.sub as string,
+        authHeader,
+        supabaseClient,
+        serviceClient,
+        corsHeaders,
+      });
+
+      return result instanceof Response ? result : jsonResponse(result, corsHeaders);
+    } catch (error) {
+      return handleError(error, options.name, corsHeaders);
+    }
+  };
+}
+
+export interface ScheduledContext {
+  req: Request;
+  body: RequestBody;
+  serviceClient: SupabaseClient;
+}
+
+/**
+ * Guard for functions run by pg_cron rather than a signed-in user. The
+ * caller must send the CRON_SECRET secret as its bearer token.
+ */
+export function scheduledGuard(
+  options: GuardOptions,
+  handler: (ctx: ScheduledContext) => Promise<unknown>
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    const corsHeaders = getCORSHeaders(req.headers.get("origin"));
+
+    try {
+      if (req.method !== "POST") {
+        throw new RequestError(405, "method_not_allowed", "Method not allowed");
+      }
+
+      const cronSecret = Deno.env.get("CRON_SECRET");
+      if (!cronSecret || req.headers.get("Authorization") !== `Bearer ${cronSecret}`) {
+        throw new RequestError(401, "unauthorized", "Unauthorized");
+      }
+
+      const body = await readJsonBody(req, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+      const serviceClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+      );
+
+      const result = await handler({ req, body, serviceClient });
+      return result instanceof Response ? result : jsonResponse(result, corsHeaders);
+    } catch (error) {
+      return handleError(error, options.name, corsHeaders);
+    }
+  };
+}
+
+function handleError(error: unknown, name: string, corsHeaders: Record<string, string>): Response {
+  if (error instanceof RequestError) {
+    return errorResponse(error.status, error.code, error.message, corsHeaders, error.details);
+  }
+  if (error instanceof AIError) {
+    console.error(`AI error in ${name}:`, error.code, error.message);
+    return errorResponse(error.status, error.code, error.message, corsHeaders);
+  }
+  console.error(`Error in ${name} function:`, error);
+  return errorResponse(
+    500,
+    "internal_error",
+    error instanceof Error ? error.message : "Unknown error",
+    corsHeaders
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Field validators
+// ---------------------------------------------------------------------------
+
+function invalidField(field: string, message: string): RequestError {
+  return new RequestError(400, "invalid_field", message, { field });
+}
+
+// ASCII control characters other than tab, line feed and carriage return
+function stripControlChars(text: string): string {
+  return Array.from(text)
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      return !((code <= 0x1f && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f);
+    })
+    .join("");
+}
+
+export function containsPromptInjection(text: string): boolean {
+  return FORBIDDEN_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+export interface StringFieldOptions {
+  maxLength: number;
+  /** Screen for prompt-injection phrases (default true) */
+  screen?: boolean;
+  /** Remove <, > and backslashes, for short plain-text fields like titles */
+  stripMarkup?: boolean;
+}
+
+export function optionalString(
+  body: RequestBody,
+  field: string,
+  options: StringFieldOptions
+): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw invalidField(field, `${field} must be a string`);
+  }
+
+  let sanitized = value.trim();
+  if (sanitized.length > options.maxLength) {
+    throw invalidField(field, `${field} exceeds maximum length of ${options.maxLength} characters`);
+  }
+  if ((options.screen ?? true) && containsPromptInjection(sanitized)) {
+    console.warn(`Potential prompt injection detected in ${field}`);
+    throw invalidField(field, "Invalid input detected");
+  }
+
+  sanitized = stripControlChars(sanitized);
+  if (options.stripMarkup) {
+    sanitized = sanitized.replace(/[<>]/g, "").replace(/\\/g, "");
+  }
+  sanitized = sanitized.trim();
+  return sanitized || undefined;
+}
+
+export function requireString(body: RequestBody, field: string, options: StringFieldOptions): string {
+  const value = optionalString(body, field, options);
+  if (value === undefined) {
+    throw invalidField(field, `Missing required field: ${field}`);
+  }
+  return value;
+}
+
+/** Opaque ids such as YouTube video ids: letters, digits, _ and - */
+export function requireId(body: RequestBody, field: string): string {
+  const value = body[field];
+  if (!value || typeof value !== "string") {
+    throw invalidField(field, `Missing required field: ${field}`);
+  }
+  if (value.length > MAX_ID_LENGTH || !/^[a-zA-Z0-9_-]+$/.test(value)) {
+    throw invalidField(field, `Invalid ${field} format`);
+  }
+  return value;
+}
+
+export function optionalUUID(body: RequestBody, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !UUID_PATTERN.test(value)) {
+    throw invalidField(field, `Invalid ${field} format`);
+  }
+  return value;
+}
+
+export function requireUUID(body: RequestBody, field: string): string {
+  const value = optionalUUID(body, field);
+  if (value === undefined) {
+    throw invalidField(field, `Missing required field: ${field}`);
+  }
+  return value;
+}
+
+export interface NumberFieldOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export function optionalNumber(
+  body: RequestBody,
+  field: string,
+  options: NumberFieldOptions = {}
+): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw invalidField(field, `${field} must be a number`);
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    throw invalidField(field, `${field} must be an integer`);
+  }
+  if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+    throw invalidField(field, `${field} must be between ${options.min ?? "-∞"} and ${options.max ?? "∞"}`);
+  }
+  return value;
+}
+
+export function requireNumber(body: RequestBody, field: string, options: NumberFieldOptions = {}): number {
+  const value = optionalNumber(body, field, options);
+  if (value === undefined) {
+    throw invalidField(field, `Missing required field: ${field}`);
+  }
+  return value;
+}
+
+export function optionalBoolean(body: RequestBody, field: string): boolean | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") {
+    throw invalidField(field, `${field} must be a boolean`);
+  }
+  return value;
+}
+
+export function optionalEnum<T extends string>(
+  body: RequestBody,
+  field: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    throw invalidField(field, `${field} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+export function requireArray(body: RequestBody, field: string, maxItems: number): unknown[] {
+  const value = body[field];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalidField(field, `Missing required field: ${field}`);
+  }
+  if (value.length > maxItems) {
+    throw invalidField(field, `${field} cannot have more than ${maxItems} items`);
+  }
+  return value;
+}
@@ -0,0 +1,83 @@
+/**
+ * SM-2 review scheduling
+ *
+ * review_items and flashcards rows carry the SM-2 state for one question or
+ * card. A review is graded 0-5 (answerQuality for quiz questions,
+ * ratingQuality for self-rated flashcards) and nextReviewState works out the
+ * new ease factor, interval and due date.
+ */
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  last_quality: number;
+  due_at: string;
+}
+
+/**
+ * A wrong answer is a lapse (1). Correct answers score 5/4/3 depending on
+ * how long the student needed, since there is no self-rating step.
+ */
+export function answerQuality(isCorrect: boolean, timeTakenSeconds: number): number {
+  if (!isCorrect) return 1;
+  if (timeTakenSeconds <= 20) return 5;
+  if (timeTakenSeconds <= 60) return 4;
+  return 3;
+}
+
+export const FLASHCARD_RATINGS = ["again", "hard", "good", "easy"] as const;
+export type FlashcardRating = typeof FLASHCARD_RATINGS[number];
+
+const RATING_QUALITY: Record<FlashcardRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function ratingQuality(rating: FlashcardRating): number {
+  return RATING_QUALITY[rating];
+}
+
+export function nextReviewState(state: ReviewState, quality: number, now = new Date()): ScheduledReview {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Number(state.ease_factor) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  let lapses = state.lapses;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  } else {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(Math.max(1, state.interval_days) * easeFactor);
+    }
+  }
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapses,
+    last_quality: quality,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Structured AI output
+ *
+ * callAIForJSON asks the configured provider for JSON, validates it against
+ * a schema from aiSchemas.ts and, if the first answer is unusable, re-prompts
+ * once with the validation errors. A second failure raises an AIError with
+ * code "invalid_output" so callers can respond with a clear error. LaTeX
+ * backslashes that JSON.parse swallowed are restored before validation.
+ */
+
+import type { ZodType, ZodTypeDef } from "https://esm.sh/zod@3.25.76";
+import { AICompletionOptions, AIError, AIMessage, callAI } from "./aiProvider.ts";
+import { repairLatexEscapes } from "./mathNotation.ts";
+
+const MAX_ATTEMPTS = 2;
+
+/**
+ * Pull the JSON value out of a model response, tolerating markdown fences
+ * and prose around it.
+ */
+export function extractJSON(text: string): unknown {
+  let clean = text.trim();
+  const fenced = clean.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) clean = fenced[1].trim();
+
+  try {
+    return JSON.parse(clean);
+  } catch {
+    const start = clean.search(/[[{]/);
+    const end = Math.max(clean.lastIndexOf("]"), clean.lastIndexOf("}"));
+    if (start === -1 || end <= start) {
+      throw new Error("Response did not contain JSON");
+    }
+    return JSON.parse(clean.slice(start, end + 1));
+  }
+}
+
+function describeIssues(error: unknown): string {
+  const issues = (error as { issues?: { path: (string | number)[]; message: string }[] })?.issues;
+  if (Array.isArray(issues)) {
+    return issues
+      .slice(0, 10)
+      .map((issue) => `- ${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+      .join("\n");
+  }
+  return `- ${error instanceof Error ? error.message : String(error)}`;
+}
+
+export async function callAIForJSON<T>(
+  messages: AIMessage[],
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: AICompletionOptions
+): Promise<T> {
+  const conversation = [...messages];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const content = await callAI(conversation, options);
+
+    let problem: unknown;
+    try {
+      const result = schema.safeParse(repairLatexEscapes(extractJSON(content)));
+      if (result.success) return result.data;
+      problem = result.error;
+    } catch (parseError) {
+      problem = parseError;
+    }
+
+    const issues = describeIssues(problem);
+    console.warn(`Invalid structured output for ${options.task} (attempt ${attempt}):\n${issues}`);
+
+    conversation.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your previous response could not be used:\n${issues}\n\nReturn ONLY the corrected JSON in the required format, with no markdown or commentary.`,
+      }
+    );
+  }
+
+  throw new AIError(
+    "invalid_output",
+    `AI returned invalid ${options.task} output twice. Please try again.`,
+    502
+  );
+}
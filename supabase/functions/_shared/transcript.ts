@@ -0,0 +1,182 @@
+/**
+ * Video transcripts
+ *
+ * Notes are grounded in what the video actually says. Captions are read from
+ * YouTube's own caption tracks, or parsed from a .vtt/.srt file the student
+ * uploads when a video has none. Long lectures are split into chunks that
+ * each keep the time range they cover, so generated sections can link back
+ * to the moment they came from.
+ */
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the video */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptChunk {
+  start: number;
+  end: number;
+  /** Transcript lines prefixed with [mm:ss] timestamps */
+  text: string;
+}
+
+const CAPTION_FETCH_TIMEOUT_MS = 10_000;
+const CHUNK_CHARS = 12_000;
+const MAX_CHUNKS = 8;
+/** Short caption cues are merged into lines of roughly this length */
+const LINE_SECONDS = 20;
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, " ");
+
+const cleanCueText = (text: string) =>
+  decodeEntities(text.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+
+interface CaptionTrack {
+  baseUrl: string;
+  languageCode?: string;
+  kind?: string;
+}
+
+/** Manual English captions, then auto-generated English, then anything */
+function pickCaptionTrack(tracks: CaptionTrack[]): CaptionTrack | undefined {
+  const english = tracks.filter((t) => t.languageCode?.startsWith("en"));
+  return english.find((t) => t.kind !== "asr") || english[0] || tracks[0];
+}
+
+/**
+ * Read the captions of a YouTube video. Returns an empty list when the video
+ * has no captions or YouTube can't be reached, so callers can ask for an upload.
+ */
+export async function fetchYouTubeTranscript(videoId: string): Promise<TranscriptSegment[]> {
+  try {
+    const page = await fetch(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}&hl=en`, {
+      headers: { "Accept-Language": "en-US,en;q=0.9" },
+      signal: AbortSignal.timeout(CAPTION_FETCH_TIMEOUT_MS),
+    });
+    if (!page.ok) {
+      console.error("YouTube watch page error:", page.status);
+      return [];
+    }
+
+    const html = await page.text();
+    const match = html.match(/"captionTracks":(\[.*?\])/);
+    if (!match) {
+      console.log(`No caption tracks found for ${videoId}`);
+      return [];
+    }
+
+    const track = pickCaptionTrack(JSON.parse(match[1]) as CaptionTrack[]);
+    if (!track?.baseUrl) return [];
+
+    const captions = await fetch(`${track.baseUrl}&fmt=json3`, {
+      signal: AbortSignal.timeout(CAPTION_FETCH_TIMEOUT_MS),
+    });
+    if (!captions.ok) {
+      console.error("YouTube captions error:", captions.status);
+      return [];
+    }
+
+    const data = await captions.json();
+    const segments: TranscriptSegment[] = [];
+    for (const event of data.events || []) {
+      if (!event.segs) continue;
+      const text = cleanCueText(event.segs.map((s: { utf8?: string }) => s.utf8 || "").join(""));
+      if (!text) continue;
+      const start = (event.tStartMs || 0) / 1000;
+      segments.push({ start, end: start + (event.dDurationMs || 0) / 1000, text });
+    }
+
+    console.log(`Fetched ${segments.length} caption segments for ${videoId} (${track.languageCode || "unknown"})`);
+    return segments;
+  } catch (error) {
+    console.error("Error fetching captions:", error instanceof Error ? error.message : "Unknown error");
+    return [];
+  }
+}
+
+const parseCueTime = (value: string): number => {
+  const parts = value.trim().replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Parse a WebVTT or SubRip file. Auto-generated captions repeat the previous
+ * line at the start of each cue, so consecutive duplicates are dropped.
+ */
+export function parseSubtitleFile(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(" "));
+    if (!text || text === segments[segments.length - 1]?.text) continue;
+
+    segments.push({ start: parseCueTime(start), end: parseCueTime(end), text });
+  }
+
+  return segments;
+}
+
+/**
+ * Merge segments into timestamped lines and split them into chunks small
+ * enough for one model call. Very long videos get larger chunks rather than
+ * more of them.
+ */
+export function chunkTranscript(segments: TranscriptSegment[]): TranscriptChunk[] {
+  const lines: TranscriptSegment[] = [];
+  for (const segment of segments) {
+    const current = lines[lines.length - 1];
+    if (current && segment.start - current.start < LINE_SECONDS) {
+      current.text += ` ${segment.text}`;
+      current.end = Math.max(current.end, segment.end);
+    } else {
+      lines.push({ ...segment });
+    }
+  }
+
+  const totalChars = lines.reduce((sum, line) => sum + line.text.length, 0);
+  const chunkChars = Math.max(CHUNK_CHARS, Math.ceil(totalChars / MAX_CHUNKS));
+
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptChunk | null = null;
+  for (const line of lines) {
+    const entry = `[${formatTimestamp(line.start)}] ${line.text}`;
+    if (current && current.text.length + entry.length > chunkChars) {
+      chunks.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { start: line.start, end: line.end, text: entry };
+    } else {
+      current.text += `\n${entry}`;
+      current.end = Math.max(current.end, line.end);
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
@@ -0,0 +1,393 @@
+/**
+ * Video providers
+ *
+ * Where video search looks for lessons. VIDEO_PROVIDERS lists the providers
+ * to search, in order and comma separated (default "youtube"):
+ *
+ * - "youtube": YouTube Data API using youtube_api_key
+ * - "library": the lecture_videos catalogue of recordings that teachers and
+ *   admins uploaded to the lecture-videos bucket or linked as direct MP4/HLS
+ *   URLs
+ * - "fixture": deterministic made-up results, for offline runs and tests.
+ *   VIDEO_FIXTURES_PATH can point at a JSON file of { query: results }
+ *   overrides, with "*" matching any query.
+ *
+ * "library,youtube" searches a school's own recordings first and lets
+ * YouTube fill the remaining slots; videoRanking.ts then orders the lot.
+ *
+ * Every result is identified by a video ref, the string todos, subtask
+ * videos, progress and notes keep as their video_id:
+ *
+ * - a bare YouTube video id, e.g. "dQw4w9WgXcQ"
+ * - "url:<https URL of an .mp4 file or .m3u8 playlist>"
+ * - "storage:<object name in the lecture-videos bucket>"
+ * - "fixture:<slug>", played from /video-fixtures/<slug>.mp4 by the app
+ *
+ * src/lib/videoSources.ts reads the same format in the browser.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RequestBody, RequestError } from "./requestGuard.ts";
+
+const MAX_REF_LENGTH = 1024;
+const YOUTUBE_ID_PATTERN = /^[a-zA-Z0-9_-]{1,100}$/;
+const STORAGE_PATH_PATTERN = /^[\w\-. /]{1,500}$/;
+const FIXTURE_ID_PATTERN = /^[a-z0-9-]{1,100}$/;
+const LIBRARY_CANDIDATES = 50;
+// Words the planner adds to make YouTube queries more educational; they say
+// nothing about the topic, so topic matching ignores them
+const QUERY_FILLER_WORDS = new Set([
+  "and", "the", "for", "with", "tutorial", "explained", "beginners", "introduction", "examples", "practice", "video",
+  "lesson",
+]);
+
+export type VideoSource =
+  | { provider: "youtube"; id: string }
+  | { provider: "url"; url: string }
+  | { provider: "storage"; path: string }
+  | { provider: "fixture"; id: string };
+
+/** Reads a video ref, or returns null when it isn't one */
+export function parseVideoRef(ref: string): VideoSource | null {
+  if (ref.length > MAX_REF_LENGTH) return null;
+
+  const separator = ref.indexOf(":");
+  if (separator === -1) {
+    return YOUTUBE_ID_PATTERN.test(ref) ? { provider: "youtube", id: ref } : null;
+  }
+
+  const value = ref.slice(separator + 1);
+  switch (ref.slice(0, separator)) {
+    case "url": {
+      try {
+        return new URL(value).protocol === "https:" ? { provider: "url", url: value } : null;
+      } catch {
+        return null;
+      }
+    }
+    case "storage":
+      return STORAGE_PATH_PATTERN.test(value) && !value.split("/").includes("..")
+        ? { provider: "storage", path: value }
+        : null;
+    case "fixture":
+      return FIXTURE_ID_PATTERN.test(value) ? { provider: "fixture", id: value } : null;
+    default:
+      return null;
+  }
+}
+
+export function requireVideoRef(body: RequestBody, field: string): VideoSource & { ref: string } {
+  const value = body[field];
+  if (!value || typeof value !== "string") {
+    throw new RequestError(400, "invalid_field", `Missing required field: ${field}`, { field });
+  }
+  const source = parseVideoRef(value);
+  if (!source) {
+    throw new RequestError(400, "invalid_field", `Invalid ${field} format`, { field });
+  }
+  return { ...source, ref: value };
+}
+
+export interface VideoSearchResult {
+  /** Video ref of the result */
+  videoId: string;
+  title: string;
+  description: string | null;
+  channel: string;
+  /** ISO 639-1 code of the spoken language, when the provider knows it */
+  language: string | null;
+  viewCount: number | null;
+  publishedAt: string | null;
+  durationSeconds: number | null;
+  thumbnail: string | null;
+  /** 1-100; how strongly the provider recommends the video */
+  engagementScore: number;
+}
+
+export interface DurationRange {
+  minSeconds: number;
+  maxSeconds: number | null;
+}
+
+export interface VideoSearchOptions {
+  maxResults: number;
+  /** ISO 639-1 code of the preferred language */
+  language?: string | null;
+  /** Preferred length; providers that can't filter on it leave it to ranking */
+  duration?: DurationRange | null;
+}
+
+/** Lower-cased words of a search query that say something about its topic */
+export function topicTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])]
+    .filter((term) => term.length > 1 && !QUERY_FILLER_WORDS.has(term));
+}
+
+/** Whether a topic term appears in text, ignoring a plural "s" */
+export function mentionsTerm(text: string, term: string): boolean {
+  return text.includes(term.replace(/s$/, ""));
+}
+
+export interface VideoProvider {
+  name: string;
+  search(query: string, options: VideoSearchOptions): Promise<VideoSearchResult[]>;
+}
+
+function parseISODuration(isoDuration: string): number | null {
+  const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return null;
+  return parseInt(match[1] || "0") * 3600 + parseInt(match[2] || "0") * 60 + parseInt(match[3] || "0");
+}
+
+// YouTube only filters on short (< 4 min), medium (4-20 min) and long (> 20 min)
+function youtubeDurationFilter(range: DurationRange | null | undefined): "medium" | "long" | "any" {
+  if (!range) return "medium";
+  if (range.minSeconds >= 4 * 60 && range.maxSeconds !== null && range.maxSeconds <= 20 * 60) return "medium";
+  if (range.minSeconds >= 20 * 60) return "long";
+  return "any";
+}
+
+// The parts of the YouTube Data API responses the provider reads
+interface YouTubeSearchResponse {
+  items?: { id: { videoId: string } }[];
+}
+
+interface YouTubeVideosResponse {
+  items?: {
+    id: string;
+    snippet: {
+      title: string;
+      description?: string;
+      channelTitle: string;
+      publishedAt: string;
+      defaultAudioLanguage?: string;
+      defaultLanguage?: string;
+      thumbnails?: Record<string, { url: string } | undefined>;
+    };
+    statistics?: { viewCount?: string; likeCount?: string };
+    contentDetails: { duration: string };
+  }[];
+}
+
+export function createYouTubeProvider(apiKey: string | undefined): VideoProvider {
+  if (!apiKey) {
+    throw new Error("YouTube API key is not configured");
+  }
+
+  return {
+    name: "youtube",
+    async search(query, { maxResults, language, duration }) {
+      console.log(`Searching YouTube for: "${query}"`);
+
+      const params = new URLSearchParams({
+        part: "snippet",
+        q: query,
+        type: "video",
+        videoDuration: youtubeDurationFilter(duration),
+        videoEmbeddable: "true",
+        maxResults: String(maxResults),
+        key: apiKey,
+      });
+      if (language) params.set("relevanceLanguage", language);
+      const searchUrl = `https://www.googleapis.com/youtube/v3/search?${params}`;
+
+      const searchResponse = await fetch(searchUrl);
+      if (!searchResponse.ok) {
+        console.error("YouTube search error:", searchResponse.status);
+        throw new Error(`YouTube API error: ${searchResponse.status}`);
+      }
+
+      const searchData: YouTubeSearchResponse = await searchResponse.json();
+      const videoIds = searchData.items?.map((item) => item.id.videoId).join(",");
+
+      if (!videoIds) {
+        return [];
+      }
+
+      const detailsUrl = `https://www.googleapis.com/youtube/v3/videos?part=statistics,contentDetails,snippet&id=${videoIds}&key=${apiKey}`;
+
+      const detailsResponse = await fetch(detailsUrl);
+      if (!detailsResponse.ok) {
+        console.error("YouTube details error:", detailsResponse.status);
+        throw new Error("Failed to get video details");
+      }
+
+      const detailsData: YouTubeVideosResponse = await detailsResponse.json();
+
+      const videos: VideoSearchResult[] = detailsData.items?.map((item) => {
+        const viewCount = parseInt(item.statistics?.viewCount || "0");
+        const likeCount = parseInt(item.statistics?.likeCount || "0");
+
+        const publishDate = new Date(item.snippet.publishedAt);
+        const daysSincePublish = Math.max(1, (Date.now() - publishDate.getTime()) / (1000 * 60 * 60 * 24));
+        const engagementScore = Math.round(
+          (viewCount / daysSincePublish * 0.5) +
+          (likeCount * 10) +
+          (viewCount > 100000 ? 50 : 0)
+        );
+
+        const thumbnails = item.snippet.thumbnails;
+
+        return {
+          videoId: item.id,
+          title: item.snippet.title,
+          description: item.snippet.description || null,
+          channel: item.snippet.channelTitle,
+          language: (item.snippet.defaultAudioLanguage || item.snippet.defaultLanguage || "").slice(0, 2) || null,
+          viewCount,
+          publishedAt: item.snippet.publishedAt,
+          durationSeconds: parseISODuration(item.contentDetails.duration),
+          thumbnail: thumbnails?.medium?.url || thumbnails?.default?.url || null,
+          engagementScore: Math.min(100, Math.max(1, engagementScore / 1000)),
+        };
+      }) || [];
+
+      return videos.sort((a, b) => b.engagementScore - a.engagementScore);
+    },
+  };
+}
+
+interface LectureVideoRow {
+  title: string;
+  description: string | null;
+  channel: string | null;
+  language: string | null;
+  storage_path: string | null;
+  source_url: string | null;
+  thumbnail_url: string | null;
+  duration_seconds: number | null;
+  created_at: string;
+}
+
+export function createLibraryProvider(serviceClient: SupabaseClient): VideoProvider {
+  return {
+    name: "library",
+    async search(query, { maxResults }) {
+      const terms = topicTerms(query);
+      if (terms.length === 0) return [];
+
+      // Any topic word may match; recordings matching more of them rank first
+      const { data, error } = await serviceClient
+        .from("lecture_videos")
+        .select("title, description, channel, language, storage_path, source_url, thumbnail_url, duration_seconds, created_at")
+        .textSearch("search_vector", terms.join(" or "), { type: "websearch", config: "english" })
+        .limit(LIBRARY_CANDIDATES);
+
+      if (error) {
+        console.error("Lecture library search error:", error);
+        throw new Error("Failed to search the lecture library");
+      }
+
+      return ((data || []) as LectureVideoRow[])
+        .map((row) => {
+          const text = `${row.title} ${row.description ?? ""} ${row.channel ?? ""}`.toLowerCase();
+          const matched = terms.filter((term) => mentionsTerm(text, term)).length;
+          return {
+            videoId: row.storage_path ? `storage:${row.storage_path}` : `url:${row.source_url}`,
+            title: row.title,
+            description: row.description,
+            channel: row.channel || "Lecture library",
+            language: row.language,
+            viewCount: null,
+            publishedAt: row.created_at,
+            durationSeconds: row.duration_seconds === null ? null : Number(row.duration_seconds),
+            thumbnail: row.thumbnail_url,
+            engagementScore: Math.max(1, Math.round((matched / terms.length) * 100)),
+          };
+        })
+        .sort((a, b) => b.engagementScore - a.engagementScore)
+        .slice(0, maxResults);
+    },
+  };
+}
+
+function fixtureSlug(query: string): string {
+  return query.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 80) || "video";
+}
+
+export function createFixtureProvider(overridesPath?: string): VideoProvider {
+  let overrides: Record<string, VideoSearchResult[]> | null = null;
+
+  return {
+    name: "fixture",
+    async search(query, { maxResults }) {
+      if (overridesPath && overrides === null) {
+        overrides = JSON.parse(await Deno.readTextFile(overridesPath));
+      }
+
+      const fixed = overrides?.[query] ?? overrides?.["*"];
+      if (fixed) return fixed.slice(0, maxResults);
+
+      const slug = fixtureSlug(query);
+      return Array.from({ length: Math.min(maxResults, 3) }, (_, i) => ({
+        videoId: `fixture:${slug}-${i + 1}`,
+        title: `${query} (part ${i + 1})`,
+        description: `Fixture video about ${query}`,
+        channel: "Fixture Channel",
+        language: "en",
+        viewCount: 1000 * (3 - i),
+        publishedAt: "2026-01-01T00:00:00Z",
+        durationSeconds: 600,
+        thumbnail: null,
+        engagementScore: 90 - i * 10,
+      }));
+    },
+  };
+}
+
+let cachedFixtureProvider: VideoProvider | null = null;
+
+/**
+ * The providers named in VIDEO_PROVIDERS. Throws straight away when one is
+ * unknown or not configured, before any work is spent on a search.
+ */
+export function getVideoProviders(serviceClient: SupabaseClient): VideoProvider[] {
+  const names = (Deno.env.get("VIDEO_PROVIDERS") || "youtube")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    switch (name) {
+      case "youtube":
+        return createYouTubeProvider(Deno.env.get("youtube_api_key"));
+      case "library":
+        return createLibraryProvider(serviceClient);
+      case "fixture":
+        cachedFixtureProvider ??= createFixtureProvider(Deno.env.get("VIDEO_FIXTURES_PATH"));
+        return cachedFixtureProvider;
+      default:
+        throw new Error(`Unknown video provider "${name}"`);
+    }
+  });
+}
+
+/**
+ * Search the providers in order until maxResults videos are found. A
+ * provider that fails is skipped; the search only fails if nothing was found
+ * and at least one provider failed.
+ */
+export async function searchVideos(
+  providers: VideoProvider[],
+  query: string,
+  options: VideoSearchOptions
+): Promise<VideoSearchResult[]> {
+  const results: VideoSearchResult[] = [];
+  let lastError: unknown = null;
+
+  for (const provider of providers) {
+    const remaining = options.maxResults - results.length;
+    if (remaining <= 0) break;
+
+    try {
+      const found = await provider.search(query, { ...options, maxResults: remaining });
+      results.push(...found.filter((video) => !results.some((r) => r.videoId === video.videoId)));
+    } catch (error) {
+      console.error(`Video provider "${provider.name}" failed:`, error);
+      lastError = error;
+    }
+  }
+
+  if (results.length === 0 && lastError) throw lastError;
+  return results;
+}
@@ -0,0 +1,285 @@
+/**
+ * Video ranking
+ *
+ * Applies the student's Dashboard filters to video search. Preferences shape
+ * the search itself (language and length for the providers, the video style
+ * as an extra query word) and then order the candidates. Each candidate gets
+ * a 0-1 score per signal, combined with RANKING_WEIGHTS:
+ *
+ * - relevance: topic words in the title and description, plus naming the
+ *   student's board, class or subject
+ * - outcomes: how many past students who started the video finished it, how
+ *   they did on its questions and on their first quiz after watching it
+ *   (video_outcome_stats). Each is pulled towards a neutral prior, so a few
+ *   watchers can't make or break a video
+ * - feedback: students' thumbs up and down, less the share who flagged it
+ * - language: the spoken language is the preferred one
+ * - duration: the length falls in the preferred range
+ * - engagement: the provider's own popularity score
+ *
+ * Videos flagged by a good share of their watchers are dropped altogether, as
+ * are any the student flagged themselves.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { optionalEnum, optionalString, RequestBody } from "./requestGuard.ts";
+import {
+  DurationRange,
+  mentionsTerm,
+  topicTerms,
+  VideoSearchOptions,
+  VideoSearchResult,
+} from "./videoProviders.ts";
+
+const MAX_CONTEXT_LENGTH = 100;
+
+// The choices offered by the Dashboard filters (src/contexts/FilterContext.tsx)
+const LANGUAGE_CODES: Record<string, string> = {
+  English: "en",
+  Hindi: "hi",
+  Tamil: "ta",
+  Telugu: "te",
+  Kannada: "kn",
+  Marathi: "mr",
+  Gujarati: "gu",
+};
+
+const VIDEO_TYPE_QUERY_WORDS = {
+  "Animated": "animation",
+  "Whiteboard": "whiteboard",
+  "Teacher-led": "class",
+  "Revision": "revision",
+  "Detailed Lecture": "full lecture",
+} as const;
+
+const DURATION_RANGES = {
+  "Short (5-10 min)": { minSeconds: 5 * 60, maxSeconds: 10 * 60 },
+  "Medium (15-30 min)": { minSeconds: 15 * 60, maxSeconds: 30 * 60 },
+  "Long (45+ min)": { minSeconds: 45 * 60, maxSeconds: null },
+} as const satisfies Record<string, DurationRange>;
+
+type VideoType = keyof typeof VIDEO_TYPE_QUERY_WORDS;
+type VideoDuration = keyof typeof DURATION_RANGES;
+
+const RANKING_WEIGHTS = {
+  relevance: 0.3,
+  outcomes: 0.25,
+  feedback: 0.1,
+  language: 0.15,
+  duration: 0.08,
+  engagement: 0.12,
+};
+
+// Priors as [value, weight in pseudo-students]
+const COMPLETION_PRIOR = [0.5, 5] as const;
+const ACCURACY_PRIOR = [0.6, 10] as const;
+const QUIZ_SCORE_PRIOR = [0.6, 5] as const;
+const RATING_PRIOR = [0.5, 4] as const;
+const FLAG_PRIOR = [0, 5] as const;
+// Outcomes and ratings only explain a ranking once this many students are behind them
+const MIN_WATCHERS_TO_CITE = 5;
+// Dropped once at least this many students, and this share of its watchers, flagged it
+const MIN_FLAGS_TO_DROP = 3;
+const FLAG_SHARE_TO_DROP = 0.25;
+// How far outside the preferred length a video can be before it scores zero
+const DURATION_TOLERANCE_SECONDS = 10 * 60;
+
+export interface VideoPreferences {
+  classLevel: string | null;
+  subject: string | null;
+  board: string | null;
+  language: string | null;
+  videoType: VideoType | null;
+  videoDuration: VideoDuration | null;
+}
+
+export interface RankedVideo extends VideoSearchResult {
+  /** 0-100 */
+  score: number;
+  reason: string;
+}
+
+interface OutcomeStats {
+  video_id: string;
+  watchers: number;
+  completions: number;
+  quiz_answers: number;
+  quiz_correct: number;
+  quiz_takers: number;
+  /** Percent, null without takers */
+  quiz_score_avg: number | null;
+  thumbs_up: number;
+  thumbs_down: number;
+  flags: number;
+}
+
+export function readVideoPreferences(body: RequestBody): VideoPreferences {
+  return {
+    classLevel: optionalString(body, "classLevel", { maxLength: MAX_CONTEXT_LENGTH }) ?? null,
+    subject: optionalString(body, "subject", { maxLength: MAX_CONTEXT_LENGTH }) ?? null,
+    board: optionalString(body, "board", { maxLength: MAX_CONTEXT_LENGTH }) ?? null,
+    language: optionalEnum(body, "language", Object.keys(LANGUAGE_CODES)) ?? null,
+    videoType: optionalEnum(body, "videoType", Object.keys(VIDEO_TYPE_QUERY_WORDS) as VideoType[]) ?? null,
+    videoDuration: optionalEnum(body, "videoDuration", Object.keys(DURATION_RANGES) as VideoDuration[]) ?? null,
+  };
+}
+
+/** One line describing the student, for prompts that write search queries */
+export function describePreferences(preferences: VideoPreferences): string | null {
+  const parts = [
+    preferences.classLevel && `Class: ${preferences.classLevel}`,
+    preferences.board && `Board: ${preferences.board}`,
+    preferences.subject && `Subject: ${preferences.subject}`,
+    preferences.language && `Language: ${preferences.language}`,
+    preferences.videoType && `Preferred style: ${preferences.videoType}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("; ") : null;
+}
+
+export function searchOptionsFor(preferences: VideoPreferences, maxResults: number): VideoSearchOptions {
+  return {
+    maxResults,
+    language: preferences.language ? LANGUAGE_CODES[preferences.language] : null,
+    duration: preferences.videoDuration ? DURATION_RANGES[preferences.videoDuration] : null,
+  };
+}
+
+/** The query with the preferred style and (non-English) language added */
+export function searchQueryFor(query: string, preferences: VideoPreferences): string {
+  const lower = query.toLowerCase();
+  const extra = [
+    preferences.videoType && VIDEO_TYPE_QUERY_WORDS[preferences.videoType],
+    preferences.language && preferences.language !== "English" && preferences.language,
+  ].filter((word): word is string => !!word && !lower.includes(word.toLowerCase()));
+  return [query, ...extra].join(" ");
+}
+
+// How the text refers to the student's class, e.g. "Class 10", "10th" or "JEE"
+function classPattern(classLevel: string): RegExp | null {
+  const grade = classLevel.match(/\d+/)?.[0];
+  if (grade) return new RegExp(`\\b(class|std|grade)\\s*${grade}\\b|\\b${grade}th\\b`);
+  const exams = classLevel.match(/JEE|NEET/gi);
+  return exams ? new RegExp(`\\b(${exams.join("|")})\\b`, "i") : null;
+}
+
+function relevanceScore(video: VideoSearchResult, terms: string[], preferences: VideoPreferences): number {
+  const text = `${video.title} ${video.description ?? ""}`.toLowerCase();
+  const topicMatch = terms.length > 0 ? terms.filter((term) => mentionsTerm(text, term)).length / terms.length : 0.5;
+
+  const syllabusChecks: boolean[] = [];
+  if (preferences.board) syllabusChecks.push(text.includes(preferences.board.toLowerCase()));
+  if (preferences.subject) syllabusChecks.push(text.includes(preferences.subject.toLowerCase()));
+  const classMention = preferences.classLevel ? classPattern(preferences.classLevel) : null;
+  if (classMention) syllabusChecks.push(classMention.test(text));
+  if (syllabusChecks.length === 0) return topicMatch;
+
+  const syllabusMatch = syllabusChecks.filter(Boolean).length / syllabusChecks.length;
+  return 0.75 * topicMatch + 0.25 * syllabusMatch;
+}
+
+const smoothed = (hits: number, total: number, [prior, weight]: readonly [number, number]) =>
+  (hits + prior * weight) / (total + weight);
+
+function durationScore(durationSeconds: number | null, range: DurationRange | null): number {
+  if (!range) return 1;
+  if (durationSeconds === null) return 0.5;
+  const gap = durationSeconds < range.minSeconds
+    ? range.minSeconds - durationSeconds
+    : range.maxSeconds !== null && durationSeconds > range.maxSeconds
+      ? durationSeconds - range.maxSeconds
+      : 0;
+  return Math.max(0, 1 - gap / DURATION_TOLERANCE_SECONDS);
+}
+
+async function fetchOutcomeStats(serviceClient: SupabaseClient, videoIds: string[]): Promise<Map<string, OutcomeStats>> {
+  const { data, error } = await serviceClient.rpc("video_outcome_stats", { p_video_ids: videoIds });
+  if (error) {
+    // Ranking still works on the other signals
+    console.error("Error fetching video outcome stats:", error);
+    return new Map();
+  }
+  return new Map(((data || []) as OutcomeStats[]).map((stats) => [stats.video_id, stats]));
+}
+
+/** Videos the student has flagged, which their searches should never offer again */
+export async function fetchFlaggedVideoIds(serviceClient: SupabaseClient, userId: string): Promise<Set<string>> {
+  const { data, error } = await serviceClient
+    .from("video_feedback")
+    .select("video_id")
+    .eq("user_id", userId)
+    .not("flag_reason", "is", null);
+
+  if (error) {
+    console.error("Error fetching flagged videos:", error);
+    return new Set();
+  }
+  return new Set((data || []).map((row: { video_id: string }) => row.video_id));
+}
+
+function isWidelyFlagged(stats: OutcomeStats | undefined): boolean {
+  if (!stats || stats.flags < MIN_FLAGS_TO_DROP) return false;
+  return stats.flags >= FLAG_SHARE_TO_DROP * Math.max(stats.watchers, stats.flags);
+}
+
+/**
+ * Candidates ordered best first, each with a score and a one-line reason.
+ * Videos in exclude, and ones flagged by many students, are left out.
+ */
+export async function rankVideos(
+  serviceClient: SupabaseClient,
+  videos: VideoSearchResult[],
+  query: string,
+  preferences: VideoPreferences,
+  exclude: ReadonlySet<string> = new Set()
+): Promise<RankedVideo[]> {
+  const candidates = videos.filter((video) => !exclude.has(video.videoId));
+  if (candidates.length === 0) return [];
+
+  const terms = topicTerms(query);
+  const options = searchOptionsFor(preferences, candidates.length);
+  const outcomes = await fetchOutcomeStats(serviceClient, candidates.map((video) => video.videoId));
+
+  return candidates
+    .filter((video) => !isWidelyFlagged(outcomes.get(video.videoId)))
+    .map((video) => {
+      const stats = outcomes.get(video.videoId);
+      const completionRate = smoothed(stats?.completions ?? 0, stats?.watchers ?? 0, COMPLETION_PRIOR);
+      const accuracy = smoothed(stats?.quiz_correct ?? 0, stats?.quiz_answers ?? 0, ACCURACY_PRIOR);
+      const quizTakers = stats?.quiz_takers ?? 0;
+      const quizScore = smoothed(((stats?.quiz_score_avg ?? 0) / 100) * quizTakers, quizTakers, QUIZ_SCORE_PRIOR);
+      const thumbsUp = stats?.thumbs_up ?? 0;
+      const ratings = thumbsUp + (stats?.thumbs_down ?? 0);
+      const flags = stats?.flags ?? 0;
+      const flagShare = smoothed(flags, Math.max(stats?.watchers ?? 0, flags), FLAG_PRIOR);
+      const languageMatch = !options.language
+        ? 1
+        : video.language === null ? 0.5 : video.language === options.language ? 1 : 0;
+
+      const signals = {
+        relevance: relevanceScore(video, terms, preferences),
+        outcomes: (completionRate + accuracy + quizScore) / 3,
+        feedback: smoothed(thumbsUp, ratings, RATING_PRIOR) * (1 - flagShare),
+        language: languageMatch,
+        duration: durationScore(video.durationSeconds, options.duration ?? null),
+        engagement: video.engagementScore / 100,
+      };
+      const score = (Object.keys(RANKING_WEIGHTS) as (keyof typeof RANKING_WEIGHTS)[])
+        .reduce((total, signal) => total + RANKING_WEIGHTS[signal] * signals[signal], 0);
+
+      let reason = signals.relevance >= 0.75 ? "Closely matches the topic" : "Popular with learners";
+      if (stats && stats.quiz_score_avg !== null && quizTakers >= MIN_WATCHERS_TO_CITE && quizScore >= 0.75) {
+        reason = `Students averaged ${Math.round(stats.quiz_score_avg)}% on their quiz after watching it`;
+      } else if (stats && stats.watchers >= MIN_WATCHERS_TO_CITE && completionRate >= 0.6) {
+        reason = `${Math.round((stats.completions / stats.watchers) * 100)}% of students who started it finished it`;
+      } else if (ratings >= MIN_WATCHERS_TO_CITE && thumbsUp / ratings >= 0.8) {
+        reason = `Rated helpful by ${thumbsUp} students`;
+      } else if (preferences.language && languageMatch === 1 && preferences.language !== "English") {
+        reason = `Taught in ${preferences.language}`;
+      } else if (preferences.videoDuration && signals.duration === 1 && video.durationSeconds !== null) {
+        reason = `Fits your ${preferences.videoDuration.toLowerCase()} preference`;
+      }
+
+      return { ...video, score: Math.round(score * 100), reason };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,432 @@
+import { RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import type { JobContext } from "../_shared/aiJobs.ts";
+import { topicClassificationSchema } from "../_shared/aiSchemas.ts";
+import { callAIForJSON } from "../_shared/structuredOutput.ts";
+import { withUsage } from "../_shared/rateLimit.ts";
+import { getVideoProviders, searchVideos, VideoProvider, VideoSearchResult } from "../_shared/videoProviders.ts";
+
+interface QuestionAttempt {
+  attemptRowId: string;
+  questionText: string;
+  isCorrect: boolean;
+  timeTakenSeconds: number;
+  difficulty: string;
+  topicName?: string;
+}
+
+interface TopicPerformance {
+  topicId: string;
+  topicName: string;
+  totalQuestions: number;
+  correctAnswers: number;
+  totalTimeSeconds: number;
+  wrongOnEasy: number;
+  wrongOnMedium: number;
+  wrongOnHard: number;
+  repeatedMistakes: number;
+}
+
+interface WeakTopic {
+  topicId: string;
+  topicName: string;
+  weaknessScore: number;
+  accuracy: number;
+}
+
+// A recommendation_queue row
+interface Recommendation {
+  user_id: string;
+  topic_id: string;
+  todo_id: string | null;
+  recommendation_type: "weak_topic_quiz";
+  title: string;
+  description: string;
+  priority: number;
+  weakness_score: number;
+  video_id: string | null;
+  video_title: string | null;
+  video_channel: string | null;
+  expires_at: string;
+}
+
+// Best single video for re-learning a topic, or null when none can be found
+async function findVideoForTopic(providers: VideoProvider[], topic: string): Promise<VideoSearchResult | null> {
+  try {
+    const [video] = await searchVideos(providers, `${topic} tutorial explained for beginners`, { maxResults: 1 });
+    return video ?? null;
+  } catch (error) {
+    console.error('Error searching for a topic video:', error);
+    return null;
+  }
+}
+
+// Compute weakness score
+function computeWeaknessScore(
+  accuracy: number,
+  avgTimeUser: number,
+  avgTimeGlobal: number,
+  repeatedMistakes: number,
+  wrongOnEasy: number,
+  wrongOnMedium: number,
+  wrongOnHard: number
+): number {
+  const accuracyPenalty = (1 - accuracy) * 50;
+  
+  let timePenalty = 0;
+  if (avgTimeGlobal > 0 && avgTimeUser > avgTimeGlobal) {
+    timePenalty = Math.min(20, ((avgTimeUser - avgTimeGlobal) / avgTimeGlobal) * 20);
+  }
+  
+  const consistencyPenalty = repeatedMistakes >= 2 ? 15 : 0;
+  
+  let difficultyPenalty = 0;
+  if (wrongOnHard > 0) {
+    difficultyPenalty = 15;
+  } else if (wrongOnMedium > 0) {
+    difficultyPenalty = 8;
+  } else if (wrongOnEasy > 0) {
+    difficultyPenalty = 5;
+  }
+  
+  return Math.min(100, accuracyPenalty + timePenalty + consistencyPenalty + difficultyPenalty);
+}
+
+function classifyStrength(weaknessScore: number, totalQuestions: number): string {
+  if (totalQuestions < 3) return "insufficient_data";
+  if (weaknessScore <= 25) return "strong";
+  if (weaknessScore <= 50) return "moderate";
+  return "weak";
+}
+
+export async function analyzeWeakness({ body, userId, supabaseClient, serviceClient, reportProgress }: JobContext) {
+  const attemptId = requireUUID(body, "attemptId");
+
+  // Only analyse answers that submit-quiz has already graded
+  const { data: gradedAttempts, error: gradedError } = await serviceClient
+    .from("question_attempts")
+    .select("id, todo_id, video_id, question_text, is_correct, time_taken_seconds, difficulty_level")
+    .eq("quiz_attempt_id", attemptId)
+    .eq("user_id", userId)
+    .order("question_id", { ascending: true });
+
+  if (gradedError || !gradedAttempts || gradedAttempts.length === 0) {
+    throw new RequestError(404, "not_found", "No graded answers found for this attempt");
+  }
+
+  const todoId = gradedAttempts[0].todo_id;
+  const videoId = gradedAttempts[0].video_id;
+  const questions = gradedAttempts.map((a) => ({
+    attemptRowId: a.id,
+    questionText: a.question_text,
+    isCorrect: a.is_correct,
+    timeTakenSeconds: a.time_taken_seconds || 0,
+    difficulty: a.difficulty_level || "medium",
+  }));
+
+  console.log(`Analyzing ${questions.length} questions for user ${userId}, video ${videoId}`);
+
+  await reportProgress?.(20, "Finding the topic behind each question");
+
+  // Step 1: Use AI to extract topics from each question
+  const questionsWithTopics: QuestionAttempt[] = [];
+  
+  try {
+    const questionTexts = questions.map((q) => q.questionText).join("\n---\n");
+    
+    const topics = await withUsage(serviceClient, userId, "analyze-weakness", () =>
+      callAIForJSON([
+        {
+          role: "system",
+          content: `You are an educational topic classifier. For each question, identify the main concept/topic being tested.
+Return a JSON array of topic names, one for each question.
+Topics should be concise (2-4 words), educational, and specific.
+Examples: "Neural Networks", "Backpropagation", "Activation Functions"
+
+IMPORTANT: Return ONLY a valid JSON array of strings, nothing else.`
+        },
+        {
+          role: "user",
+          content: `Extract the main topic for each of these ${questions.length} questions (separated by ---):
+
+${questionTexts}`
+        }
+      ], topicClassificationSchema(questions.length), { task: "analyze-weakness" })
+    );
+
+    questions.forEach((q, i: number) => {
+      questionsWithTopics.push({
+        ...q,
+        topicName: topics[i] || "General Knowledge"
+      });
+    });
+  } catch (aiError) {
+    console.error("AI topic extraction failed:", aiError);
+  }
+
+  if (questionsWithTopics.length === 0) {
+    questions.forEach((q) => {
+      questionsWithTopics.push({
+        ...q,
+        topicName: "General Knowledge"
+      });
+    });
+  }
+
+  // Step 2: Create or get topics
+  const uniqueTopics = [...new Set(questionsWithTopics.map(q => q.topicName || "General Knowledge"))];
+  const topicIdMap: Record<string, string> = {};
+
+  for (const topicName of uniqueTopics) {
+    let { data: topic } = await serviceClient
+      .from("topics")
+      .select("id")
+      .eq("name", topicName)
+      .maybeSingle();
+
+    if (!topic) {
+      const { data: newTopic, error } = await serviceClient
+        .from("topics")
+        .insert({ name: topicName })
+        .select("id")
+        .single();
+      
+      if (error) {
+        console.error("Error creating topic:", error);
+        continue;
+      }
+      topic = newTopic;
+    }
+    
+    if (topic) {
+      topicIdMap[topicName] = topic.id;
+    }
+  }
+
+  // Step 3: Tag the graded question attempts with their topics
+  for (const q of questionsWithTopics) {
+    const topicId = topicIdMap[q.topicName || "General Knowledge"];
+    if (!topicId) continue;
+
+    const { error: updateError } = await serviceClient
+      .from("question_attempts")
+      .update({ topic_id: topicId })
+      .eq("id", q.attemptRowId);
+
+    if (updateError) {
+      console.error("Error tagging attempt topic:", updateError);
+    }
+  }
+
+  // Step 4: Aggregate performance by topic
+  const topicPerformance: Record<string, TopicPerformance> = {};
+
+  questionsWithTopics.forEach(q => {
+    const topicName = q.topicName || "General Knowledge";
+    const topicId = topicIdMap[topicName];
+    
+    if (!topicId) return;
+
+    if (!topicPerformance[topicId]) {
+      topicPerformance[topicId] = {
+        topicId,
+        topicName,
+        totalQuestions: 0,
+        correctAnswers: 0,
+        totalTimeSeconds: 0,
+        wrongOnEasy: 0,
+        wrongOnMedium: 0,
+        wrongOnHard: 0,
+        repeatedMistakes: 0,
+      };
+    }
+
+    const perf = topicPerformance[topicId];
+    perf.totalQuestions++;
+    if (q.isCorrect) {
+      perf.correctAnswers++;
+    } else {
+      if (q.difficulty === "easy") perf.wrongOnEasy++;
+      else if (q.difficulty === "hard") perf.wrongOnHard++;
+      else perf.wrongOnMedium++;
+    }
+    perf.totalTimeSeconds += q.timeTakenSeconds || 0;
+  });
+
+  await reportProgress?.(70, "Updating your weak areas");
+
+  // Step 5: Compute weakness scores and update performance
+  const weakTopics: WeakTopic[] = [];
+  const recommendations: Recommendation[] = [];
+
+  // Recommendations are still made without a video when search isn't configured
+  let videoProviders: VideoProvider[] | null = null;
+  try {
+    videoProviders = getVideoProviders(serviceClient);
+  } catch (error) {
+    console.error('Video search unavailable:', error);
+  }
+
+  for (const [topicId, perf] of Object.entries(topicPerformance)) {
+    const { data: existingPerf } = await supabaseClient
+      .from("user_topic_performance")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("topic_id", topicId)
+      .maybeSingle();
+
+    const { data: globalStats } = await serviceClient
+      .from("global_topic_stats")
+      .select("*")
+      .eq("topic_id", topicId)
+      .maybeSingle();
+
+    const globalAvgTime = globalStats?.avg_time_seconds || 30;
+
+    const newTotalQuestions = (existingPerf?.total_questions || 0) + perf.totalQuestions;
+    const newCorrectAnswers = (existingPerf?.correct_answers || 0) + perf.correctAnswers;
+    const newTotalTime = (existingPerf?.total_time_seconds || 0) + perf.totalTimeSeconds;
+    const newAvgTime = newTotalTime / newTotalQuestions;
+    
+    let repeatedMistakes = existingPerf?.repeated_mistakes || 0;
+    if (!perf.correctAnswers && existingPerf && !existingPerf.correct_answers) {
+      repeatedMistakes++;
+    }
+
+    const newWrongEasy = (existingPerf?.wrong_on_easy || 0) + perf.wrongOnEasy;
+    const newWrongMedium = (existingPerf?.wrong_on_medium || 0) + perf.wrongOnMedium;
+    const newWrongHard = (existingPerf?.wrong_on_hard || 0) + perf.wrongOnHard;
+
+    const accuracy = newCorrectAnswers / newTotalQuestions;
+
+    const weaknessScore = computeWeaknessScore(
+      accuracy,
+      newAvgTime,
+      globalAvgTime,
+      repeatedMistakes,
+      newWrongEasy,
+      newWrongMedium,
+      newWrongHard
+    );
+
+    const previousScore = existingPerf?.weakness_score || 0;
+    const strengthStatus = classifyStrength(weaknessScore, newTotalQuestions);
+
+    await supabaseClient
+      .from("user_topic_performance")
+      .upsert({
+        user_id: userId,
+        topic_id: topicId,
+        total_questions: newTotalQuestions,
+        correct_answers: newCorrectAnswers,
+        total_time_seconds: newTotalTime,
+        avg_time_seconds: newAvgTime,
+        wrong_on_easy: newWrongEasy,
+        wrong_on_medium: newWrongMedium,
+        wrong_on_hard: newWrongHard,
+        repeated_mistakes: repeatedMistakes,
+        weakness_score: weaknessScore,
+        strength_status: strengthStatus,
+        last_updated: new Date().toISOString(),
+      }, {
+        onConflict: "user_id,topic_id"
+      });
+
+    const videoAccuracy = perf.correctAnswers / perf.totalQuestions;
+    const isWeakInVideo = (1 - videoAccuracy) * 100 > 50;
+
+    await supabaseClient
+      .from("video_topic_analysis")
+      .upsert({
+        user_id: userId,
+        video_id: videoId,
+        todo_id: todoId,
+        topic_id: topicId,
+        questions_count: perf.totalQuestions,
+        correct_count: perf.correctAnswers,
+        mastery_score: videoAccuracy * 100,
+        is_weak_topic: isWeakInVideo,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: "user_id,video_id,topic_id"
+      });
+
+    await serviceClient
+      .from("global_topic_stats")
+      .upsert({
+        topic_id: topicId,
+        total_attempts: (globalStats?.total_attempts || 0) + perf.totalQuestions,
+        total_correct: (globalStats?.total_correct || 0) + perf.correctAnswers,
+        avg_accuracy: ((globalStats?.total_correct || 0) + perf.correctAnswers) / 
+                     ((globalStats?.total_attempts || 0) + perf.totalQuestions) * 100,
+        avg_time_seconds: ((globalStats?.avg_time_seconds || 30) * (globalStats?.total_attempts || 1) + perf.totalTimeSeconds) /
+                         ((globalStats?.total_attempts || 0) + perf.totalQuestions),
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: "topic_id"
+      });
+
+    if (strengthStatus === "weak") {
+      weakTopics.push({
+        topicId,
+        topicName: perf.topicName,
+        weaknessScore,
+        accuracy: accuracy * 100,
+      });
+
+      const videoData = videoProviders ? await findVideoForTopic(videoProviders, perf.topicName) : null;
+      if (videoData) {
+        console.log(`Found video for weak topic "${perf.topicName}": ${videoData.title}`);
+      }
+
+      const recommendationTitle = `Fix: ${perf.topicName}`;
+      const minutes = Math.max(3, Math.ceil(weaknessScore / 20));
+      const description = videoData 
+        ? `Watch "${videoData.title}" to fix your weakness in ${perf.topicName} — takes ~${minutes} minutes.`
+        : `You're losing marks in ${perf.topicName} — fix it in ${minutes} minutes.`;
+
+      recommendations.push({
+        user_id: userId,
+        topic_id: topicId,
+        todo_id: todoId,
+        recommendation_type: "weak_topic_quiz",
+        title: recommendationTitle,
+        description,
+        priority: Math.round(weaknessScore),
+        weakness_score: weaknessScore,
+        video_id: videoData?.videoId || null,
+        video_title: videoData?.title || null,
+        video_channel: videoData?.channel || null,
+        expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+    }
+
+    if (previousScore > 0 && weaknessScore > 0) {
+      const improvement = ((previousScore - weaknessScore) / previousScore) * 100;
+      if (improvement >= 30) {
+        console.log(`User ${userId} achieved Comeback King! Improvement: ${improvement}%`);
+        await serviceClient.rpc("check_achievements", { uid: userId });
+      }
+    }
+  }
+
+  if (recommendations.length > 0) {
+    const topicIds = recommendations.map(r => r.topic_id);
+    await supabaseClient
+      .from("recommendation_queue")
+      .delete()
+      .eq("user_id", userId)
+      .in("topic_id", topicIds);
+
+    await supabaseClient
+      .from("recommendation_queue")
+      .insert(recommendations);
+  }
+
+  console.log(`Analysis complete: ${weakTopics.length} weak topics, ${recommendations.length} recommendations`);
+
+  return {
+    success: true,
+    weakTopics,
+    recommendationsAdded: recommendations.length,
+  };
+}
@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, requireString, requireUUID } from "../_shared/requestGuard.ts";
+import { LearningPlanStep, LearningPlanVideos, planLearningVideos } from "../_shared/learningPlan.ts";
+import { refundUsage, reserveUsage } from "../_shared/rateLimit.ts";
+import { readVideoPreferences } from "../_shared/videoRanking.ts";
+
+const MAX_TOPIC_LENGTH = 200;
+
+/**
+ * Streamed to the client as server-sent events, one per step. "done" carries
+ * the saved todo; "error" means nothing was saved and the request can be
+ * retried with the same requestId.
+ */
+type PlanEvent =
+  | { type: "progress"; step: LearningPlanStep | "saving"; message: string }
+  | { type: "done"; todo: Record<string, unknown>; videoFound: boolean }
+  | { type: "error"; code: string; message: string };
+
+serve(guard({ name: "create-learning-plan", maxBodyBytes: 4 * 1024 }, async ({ body, userId, serviceClient, corsHeaders }) => {
+  const requestId = requireUUID(body, "requestId");
+  const topic = requireString(body, "topic", { maxLength: MAX_TOPIC_LENGTH, stripMarkup: true });
+  // Class, subject and board are saved on the task; all preferences steer the video search
+  const preferences = readVideoPreferences(body);
+
+  // A retry after the plan was saved (e.g. the connection dropped before "done") gets the same todo back
+  const { data: existing, error: existingError } = await serviceClient
+    .from("todos")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("request_id", requestId)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  // Limits are checked before the stream opens so they surface as a normal 429
+  const reservation = existing ? null : await reserveUsage(serviceClient, userId, "find-video");
+
+  let charged = reservation !== null;
+  const refund = async () => {
+    if (!charged) return;
+    charged = false;
+    await refundUsage(serviceClient, reservation);
+  };
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: PlanEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      try {
+        if (existing) {
+          send({ type: "done", todo: existing, videoFound: !!existing.video_id });
+          return;
+        }
+
+        console.log(`Creating learning plan ${requestId} for user ${userId}: ${topic}`);
+
+        let videos: LearningPlanVideos | null = null;
+        try {
+          videos = await planLearningVideos(serviceClient, userId, topic, preferences, (step, message) => send({ type: "progress", step, message }));
+        } catch (searchError) {
+          // The task is still created, just without recommended videos
+          console.error("Video search failed, saving the task without videos:", searchError);
+          await refund();
+        }
+
+        send({ type: "progress", step: "saving", message: "Saving your learning plan" });
+
+        const { data, error } = await serviceClient.rpc("create_learning_plan", {
+          p_user_id: userId,
+          p_request_id: requestId,
+          p_title: topic,
+          p_video_id: videos?.videoId ?? null,
+          p_description: videos ? `${videos.title} by ${videos.channel} - ${videos.reason}` : null,
+          p_class_level: preferences.classLevel,
+          p_subject: preferences.subject,
+          p_board: preferences.board,
+          p_subtasks: videos?.subtasks ?? [],
+        });
+
+        if (error) throw error;
+
+        const result = data as { todo: Record<string, unknown>; created: boolean };
+        if (!result.created) {
+          // A concurrent attempt with this request id saved first; don't charge twice
+          await refund();
+        } else if (videos?.durationSeconds) {
+          // Watch progress is measured against this, never the length the app reports
+          const { error: durationError } = await serviceClient
+            .from("todos")
+            .update({ video_duration_seconds: videos.durationSeconds })
+            .eq("id", result.todo.id as string);
+          if (durationError) console.error("Error saving video length:", durationError);
+        }
+
+        send({ type: "done", todo: result.todo, videoFound: !!result.todo.video_id });
+      } catch (error) {
+        console.error(`Error creating learning plan ${requestId}:`, error);
+        await refund();
+        send({ type: "error", code: "internal_error", message: "Failed to save the learning plan. Please try again." });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}));
@@ -0,0 +1,205 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, optionalEnum, RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import { withUsage } from "../_shared/rateLimit.ts";
+import { getVideoProviders, requireVideoRef, searchVideos, VideoProvider } from "../_shared/videoProviders.ts";
+import {
+  fetchFlaggedVideoIds,
+  RankedVideo,
+  rankVideos,
+  readVideoPreferences,
+  searchOptionsFor,
+  searchQueryFor,
+  VideoPreferences,
+} from "../_shared/videoRanking.ts";
+
+const FLAG_REASONS = ["off_topic", "poor_quality", "wrong_language", "broken"] as const;
+const CANDIDATES_PER_SEARCH = 10;
+
+interface Replacement {
+  /** null for the task's main video */
+  subtaskVideoId: string | null;
+  videoId: string;
+  title: string;
+  channel: string;
+  durationSeconds: number | null;
+  engagementScore: number;
+  reason: string;
+}
+
+serve(guard({ name: "flag-video", maxBodyBytes: 4 * 1024 }, async ({ body, userId, serviceClient }) => {
+  const video = requireVideoRef(body, "videoId");
+  const todoId = requireUUID(body, "todoId");
+  const reason = optionalEnum(body, "reason", FLAG_REASONS);
+  if (!reason) {
+    throw new RequestError(400, "invalid_field", "Missing required field: reason", { field: "reason" });
+  }
+  const requested = readVideoPreferences(body);
+  if (reason === "wrong_language" && !requested.language) {
+    throw new RequestError(400, "invalid_field", "Choose the language you want before reporting a video in the wrong language", {
+      field: "language",
+    });
+  }
+
+  const { data: todo } = await serviceClient
+    .from("todos")
+    .select("id, title, video_id, class_level, subject, board")
+    .eq("id", todoId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!todo) {
+    throw new RequestError(404, "not_found", "Task not found");
+  }
+
+  const { data: subtasks, error: subtasksError } = await serviceClient
+    .from("subtasks")
+    .select("title, subtask_videos (id, video_id)")
+    .eq("todo_id", todo.id)
+    .eq("user_id", userId);
+
+  if (subtasksError) {
+    console.error("Error fetching subtasks:", subtasksError);
+    throw new Error("Failed to load the learning plan");
+  }
+
+  const planVideos = (subtasks || []).flatMap((subtask) =>
+    (subtask.subtask_videos as { id: string; video_id: string }[]).map((row) => ({ ...row, query: subtask.title }))
+  );
+  const flaggedSubtaskVideos = planVideos.filter((row) => row.video_id === video.ref);
+  const isMainVideo = todo.video_id === video.ref;
+
+  if (!isMainVideo && flaggedSubtaskVideos.length === 0) {
+    throw new RequestError(404, "not_in_plan", "This video is not part of the task's learning plan");
+  }
+
+  const { error: flagError } = await serviceClient
+    .from("video_feedback")
+    .upsert({
+      user_id: userId,
+      video_id: video.ref,
+      todo_id: todo.id,
+      flag_reason: reason,
+      flagged_at: new Date().toISOString(),
+    }, { onConflict: "user_id,video_id" });
+
+  if (flagError) {
+    console.error("Error saving video flag:", flagError);
+    throw new Error("Failed to flag the video");
+  }
+
+  // Notes and checkpoints are written against the main video's timeline, so
+  // once there are notes it stays and only counts against the video in search
+  let replaceMainVideo = isMainVideo;
+  if (isMainVideo) {
+    const { count: notesCount } = await serviceClient
+      .from("notes")
+      .select("id", { count: "exact", head: true })
+      .eq("todo_id", todo.id)
+      .eq("is_ai_generated", true);
+    replaceMainVideo = !notesCount;
+  }
+
+  if (!replaceMainVideo && flaggedSubtaskVideos.length === 0) {
+    return { flagged: true, replacements: [], keptMainVideo: true };
+  }
+
+  // The task keeps the syllabus it was planned for; the rest comes from the student's filters
+  const preferences: VideoPreferences = {
+    ...requested,
+    classLevel: todo.class_level ?? requested.classLevel,
+    subject: todo.subject ?? requested.subject,
+    board: todo.board ?? requested.board,
+  };
+  const searchOptions = searchOptionsFor(preferences, CANDIDATES_PER_SEARCH);
+
+  // Never swap in a video that is already in the plan or one the student flagged
+  const exclude = await fetchFlaggedVideoIds(serviceClient, userId);
+  exclude.add(video.ref);
+  if (todo.video_id) exclude.add(todo.video_id);
+  planVideos.forEach((row) => exclude.add(row.video_id));
+
+  const targets = [
+    ...(replaceMainVideo ? [{ id: null, query: todo.title }] : []),
+    ...flaggedSubtaskVideos.map((row) => ({ id: row.id, query: row.query })),
+  ];
+
+  const replacements = await withUsage(serviceClient, userId, "flag-video", async () => {
+    const found: Replacement[] = [];
+    let providers: VideoProvider[];
+    try {
+      providers = getVideoProviders(serviceClient);
+    } catch (configError) {
+      console.error("Video search is not configured:", configError);
+      return found;
+    }
+
+    for (const target of targets) {
+      let ranked: RankedVideo[] = [];
+      try {
+        const candidates = await searchVideos(
+          providers,
+          searchQueryFor(target.query, preferences),
+          searchOptions
+        );
+        ranked = await rankVideos(serviceClient, candidates, target.query, preferences, exclude);
+        // A replacement for a wrong-language video has to be known to be in the right one
+        if (reason === "wrong_language") {
+          ranked = ranked.filter((candidate) => candidate.language === searchOptions.language);
+        }
+      } catch (searchError) {
+        // The flag is saved either way; the video just stays until a later search finds one
+        console.error(`No replacement found for "${target.query}":`, searchError);
+      }
+
+      const pick = ranked[0];
+      if (!pick) continue;
+      exclude.add(pick.videoId);
+      found.push({
+        subtaskVideoId: target.id,
+        videoId: pick.videoId,
+        title: pick.title,
+        channel: pick.channel,
+        durationSeconds: pick.durationSeconds,
+        engagementScore: pick.engagementScore,
+        reason: `Replaces a video you flagged. ${pick.reason}`,
+      });
+    }
+
+    return found;
+  });
+
+  for (const replacement of replacements) {
+    const { error: updateError } = replacement.subtaskVideoId
+      ? await serviceClient
+        .from("subtask_videos")
+        .update({
+          video_id: replacement.videoId,
+          title: replacement.title,
+          channel: replacement.channel,
+          engagement_score: replacement.engagementScore,
+          reason: replacement.reason,
+        })
+        .eq("id", replacement.subtaskVideoId)
+      : await serviceClient
+        .from("todos")
+        .update({
+          video_id: replacement.videoId,
+          video_duration_seconds: replacement.durationSeconds,
+          description: `${replacement.title} by ${replacement.channel} - ${replacement.reason}`,
+        })
+        .eq("id", todo.id);
+
+    if (updateError) {
+      console.error("Error replacing flagged video:", updateError);
+      throw new Error("Failed to replace the video");
+    }
+  }
+
+  console.log(`User ${userId} flagged ${video.ref} as ${reason}; ${replacements.length} of ${targets.length} replaced`);
+
+  return {
+    flagged: true,
+    replacements,
+    keptMainVideo: isMainVideo && !replaceMainVideo,
+  };
+}));
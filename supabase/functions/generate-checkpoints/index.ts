@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, optionalBoolean, RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import { CheckpointQuestionsSchema } from "../_shared/aiSchemas.ts";
+import { MATH_NOTATION_RULES } from "../_shared/mathNotation.ts";
+import { QuizQuestion, redactQuestions } from "../_shared/quiz.ts";
+import { callAIForJSON } from "../_shared/structuredOutput.ts";
+import { withUsage } from "../_shared/rateLimit.ts";
+
+const MAX_CHAPTERS = 12;
+const MAX_CHAPTER_CHARS = 2500;
+// Shorter chapters get no checkpoint, so the player doesn't stop every few seconds
+const MIN_CHAPTER_SECONDS = 60;
+
+interface NoteSection {
+  title: string;
+  content: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+interface StoredCheckpoint {
+  id: string;
+  title: string;
+  pause_at_seconds: number;
+  rewind_to_seconds: number;
+  questions: QuizQuestion[];
+}
+
+const toClient = (checkpoint: StoredCheckpoint) => ({
+  id: checkpoint.id,
+  title: checkpoint.title,
+  pauseAtSeconds: Number(checkpoint.pause_at_seconds),
+  rewindToSeconds: Number(checkpoint.rewind_to_seconds),
+  questions: redactQuestions(checkpoint.questions),
+});
+
+serve(guard({ name: "generate-checkpoints", maxBodyBytes: 1024 }, async ({ body, userId, supabaseClient, serviceClient }) => {
+  const todoId = requireUUID(body, "todoId");
+  const existingOnly = optionalBoolean(body, "existingOnly") ?? false;
+
+  // RLS on notes confirms the task belongs to the caller
+  const { data: note } = await supabaseClient
+    .from("notes")
+    .select("video_id, sections")
+    .eq("todo_id", todoId)
+    .eq("is_ai_generated", true)
+    .maybeSingle();
+
+  if (!note?.video_id) {
+    if (existingOnly) return { checkpoints: [] };
+    throw new RequestError(404, "not_found", "Generate notes for this video before adding checkpoints");
+  }
+
+  const { data: existing } = await serviceClient
+    .from("video_checkpoints")
+    .select("id, title, pause_at_seconds, rewind_to_seconds, questions")
+    .eq("user_id", userId)
+    .eq("todo_id", todoId)
+    .eq("video_id", note.video_id)
+    .order("pause_at_seconds");
+
+  if ((existing && existing.length > 0) || existingOnly) {
+    return { checkpoints: (existing || []).map((c) => toClient(c as StoredCheckpoint)) };
+  }
+
+  const chapters = ((note.sections || []) as NoteSection[])
+    .map((section, index) => ({ ...section, index }))
+    .filter((section) => section.endSeconds - section.startSeconds >= MIN_CHAPTER_SECONDS)
+    .slice(0, MAX_CHAPTERS);
+
+  if (chapters.length === 0) {
+    throw new RequestError(422, "no_chapters", "This video's notes have no chapters to check in on");
+  }
+
+  console.log(`Generating checkpoints for ${chapters.length} chapters of todo ${todoId}`);
+
+  const parsed = await withUsage(serviceClient, userId, "generate-checkpoints", () =>
+    callAIForJSON([
+      {
+        role: "system",
+        content: `You write quick comprehension checks that pause a lesson video at the end of each chapter.
+
+For every chapter write 1-2 multiple choice questions that:
+1. Can be answered from that chapter alone
+2. Check understanding of its main idea, not trivia about wording
+3. Have one clearly correct option and plausible distractors
+4. Come with a short explanation that points back to what the chapter said
+
+${MATH_NOTATION_RULES}
+
+Return ONLY a valid JSON object in this exact format:
+{
+"checkpoints": [
+  {
+    "chapter": 1,
+    "questions": [
+      {
+        "type": "concept_check",
+        "difficulty": "easy|medium|hard",
+        "question": "Question text here?",
+        "options": ["Option A", "Option B", "Option C", "Option D"],
+        "correctAnswer": 0,
+        "explanation": "Why this answer is correct."
+      }
+    ]
+  }
+]
+}`
+      },
+      {
+        role: "user",
+        content: `Write checkpoint questions for each of these ${chapters.length} chapters, numbered in order:
+
+${chapters
+  .map((chapter, i) => `Chapter ${i + 1}: ${chapter.title}\n${chapter.content.substring(0, MAX_CHAPTER_CHARS)}`)
+  .join("\n---\n")}`
+      }
+    ], CheckpointQuestionsSchema, { task: "generate-checkpoints" })
+  );
+
+  const rows = chapters.flatMap((chapter, i) => {
+    const generated = parsed.checkpoints.find((c) => c.chapter === i + 1);
+    if (!generated) return [];
+    return [{
+      user_id: userId,
+      todo_id: todoId,
+      video_id: note.video_id,
+      section_index: chapter.index,
+      title: chapter.title,
+      pause_at_seconds: chapter.endSeconds,
+      rewind_to_seconds: chapter.startSeconds,
+      questions: generated.questions.map((q, index) => ({ ...q, id: index + 1 })),
+    }];
+  });
+
+  const { data: saved, error: saveError } = await serviceClient
+    .from("video_checkpoints")
+    .upsert(rows, { onConflict: "user_id,todo_id,video_id,section_index" })
+    .select("id, title, pause_at_seconds, rewind_to_seconds, questions")
+    .order("pause_at_seconds");
+
+  if (saveError || !saved) {
+    console.error("Error saving checkpoints:", saveError);
+    // Without a stored answer key the questions cannot be graded
+    throw new Error("Failed to save checkpoints");
+  }
+
+  console.log(`Saved ${saved.length} checkpoints`);
+
+  return { checkpoints: saved.map((c) => toClient(c as StoredCheckpoint)) };
+}));
@@ -0,0 +1,121 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, optionalBoolean, RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import { FlashcardDeckSchema } from "../_shared/aiSchemas.ts";
+import { callAIForJSON } from "../_shared/structuredOutput.ts";
+import { withUsage } from "../_shared/rateLimit.ts";
+
+const MAX_NOTES_CHARS = 20000;
+const MAX_WEAK_TOPICS = 5;
+
+interface WeakTopic {
+  topicId: string;
+  name: string;
+  weaknessScore: number;
+}
+
+serve(guard({ name: "generate-flashcards", maxBodyBytes: 1024 }, async ({ body, userId, supabaseClient, serviceClient }) => {
+  const todoId = requireUUID(body, "todoId");
+  const regenerate = optionalBoolean(body, "regenerate") ?? false;
+
+  // RLS on notes confirms the task belongs to the caller
+  const { data: note } = await supabaseClient
+    .from("notes")
+    .select("id, content")
+    .eq("todo_id", todoId)
+    .eq("is_ai_generated", true)
+    .maybeSingle();
+
+  if (!note?.content) {
+    throw new RequestError(404, "not_found", "Generate notes for this task before making flashcards");
+  }
+
+  const { count: existingCount } = await serviceClient
+    .from("flashcards")
+    .select("*", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("todo_id", todoId);
+
+  if (existingCount && !regenerate) {
+    throw new RequestError(409, "deck_exists", "Flashcards already exist for this task");
+  }
+
+  const { data: performance } = await serviceClient
+    .from("user_topic_performance")
+    .select("topic_id, weakness_score, topics (name)")
+    .eq("user_id", userId)
+    .in("strength_status", ["weak", "moderate"])
+    .order("weakness_score", { ascending: false })
+    .limit(MAX_WEAK_TOPICS);
+
+  const weakTopics: WeakTopic[] = (performance || []).map((p) => ({
+    topicId: p.topic_id,
+    name: (p.topics as { name?: string } | null)?.name || "",
+    weaknessScore: Number(p.weakness_score) || 0,
+  })).filter((t) => t.name);
+
+  const weakTopicsContext = weakTopics.length > 0
+    ? `\n\nThe student is weakest in these topics (weakness score 0-100). Where the notes cover them, write extra cards on them and set topicName to the exact topic name:\n${weakTopics.map((t) => `- ${t.name} (${Math.round(t.weaknessScore)})`).join("\n")}`
+    : "";
+
+  console.log(`Generating flashcards for todo ${todoId}, user ${userId}`);
+
+  const deck = await withUsage(serviceClient, userId, "generate-flashcards", () =>
+    callAIForJSON([
+      {
+        role: "system",
+        content: `You turn study notes into flashcards for active recall.
+
+Each card must:
+- Ask exactly one thing on the front (a question or a term)
+- Give a short, self-contained answer on the back (1-3 sentences)
+- Cover definitions, mechanisms, cause/effect and common mistakes from the notes
+- Include a short topicName (2-4 words) for the concept it tests
+
+Return ONLY valid JSON, no markdown:
+{
+"cards": [
+  { "front": "Question or term", "back": "Answer", "topicName": "Topic Name" }
+]
+}`
+      },
+      {
+        role: "user",
+        content: `Create 8-20 flashcards from these study notes:
+
+${note.content.substring(0, MAX_NOTES_CHARS)}${weakTopicsContext}`
+      }
+    ], FlashcardDeckSchema, { task: "generate-flashcards" })
+  );
+
+  const topicIdByName = new Map(weakTopics.map((t) => [t.name.toLowerCase(), t.topicId]));
+  const rows = deck.cards.map((card, index) => ({
+    user_id: userId,
+    todo_id: todoId,
+    note_id: note.id,
+    topic_id: card.topicName ? topicIdByName.get(card.topicName.toLowerCase()) ?? null : null,
+    topic_name: card.topicName ?? null,
+    front: card.front,
+    back: card.back,
+    order_index: index,
+  }));
+
+  if (existingCount) {
+    await serviceClient
+      .from("flashcards")
+      .delete()
+      .eq("user_id", userId)
+      .eq("todo_id", todoId);
+  }
+
+  const { data: cards, error: insertError } = await serviceClient
+    .from("flashcards")
+    .insert(rows)
+    .select("*");
+
+  if (insertError) {
+    console.error("Error saving flashcards:", insertError);
+    throw new Error("Failed to save flashcards");
+  }
+
+  return { cards };
+}));
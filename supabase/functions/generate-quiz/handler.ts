@@ -0,0 +1,134 @@
+import { QuizQuestion, redactQuestions } from "../_shared/quiz.ts";
+import { optionalBoolean, optionalString, RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import type { JobContext } from "../_shared/aiJobs.ts";
+import { QuizQuestionsSchema } from "../_shared/aiSchemas.ts";
+import { MATH_NOTATION_RULES } from "../_shared/mathNotation.ts";
+import { callAIForJSON } from "../_shared/structuredOutput.ts";
+import { withUsage } from "../_shared/rateLimit.ts";
+
+const MAX_NOTES_LENGTH = 50000;
+
+const SYSTEM_PROMPT = `You are an assessment designer specializing in conceptual understanding.
+
+Generate quiz questions that test deep comprehension, not surface recall.
+Wrong options must be plausible but incorrect.
+
+QUESTION DESIGN LOGIC:
+1. Identify core concepts from the notes
+2. Identify common misunderstandings
+3. Turn them into distractor options
+4. Ensure only one correct answer
+5. Avoid trick questions or ambiguity
+
+QUESTION TYPES TO INCLUDE:
+1. Concept Check - Tests understanding of main idea
+2. Mechanism Check - Tests how something works
+3. Application Check - Tests real-world usage
+4. Misconception Trap - Uses common wrong belief as an option
+5. "Why" Question - Tests reasoning, not facts
+
+QUALITY RULES:
+- No "All of the above"
+- No "None of the above"
+- Avoid absolute words (always, never)
+- Explanations must be simple and corrective
+
+${MATH_NOTATION_RULES}
+
+You must respond with ONLY a valid JSON array, no markdown, no code blocks.
+Each question must have this structure:
+{
+  "id": 1,
+  "type": "concept_check",
+  "question": "Question text",
+  "options": ["Option A", "Option B", "Option C", "Option D"],
+  "correctAnswer": 0,
+  "explanation": "1-2 lines explaining why the correct answer is right"
+}
+
+Types: concept_check, mechanism_check, application_check, misconception_trap, why_question
+correctAnswer is the 0-based index of the correct option.`;
+
+export async function generateQuiz({ body, userId, supabaseClient, serviceClient, reportProgress }: JobContext) {
+  const todoId = requireUUID(body, "todoId");
+  // Older clients send the notes; stored notes are preferred when present
+  const clientNotes = optionalString(body, "notes", { maxLength: MAX_NOTES_LENGTH });
+  // Only look up a saved quiz; generating a new one is left to a background job
+  const existingOnly = optionalBoolean(body, "existingOnly") ?? false;
+
+  console.log(`Generating quiz for todo: ${todoId}`);
+
+  const { data: todo } = await supabaseClient
+    .from("todos")
+    .select("id")
+    .eq("id", todoId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!todo) {
+    throw new RequestError(404, "not_found", "Todo not found");
+  }
+
+  const { data: existingQuiz } = await serviceClient
+    .from("quizzes")
+    .select("id, questions")
+    .eq("todo_id", todoId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (existingQuiz) {
+    return { quiz: redactQuestions(existingQuiz.questions as QuizQuestion[]), quizId: existingQuiz.id };
+  }
+
+  if (existingOnly) {
+    return { quiz: null, quizId: null };
+  }
+
+  // A student's edited notes take precedence over the AI notes they started from
+  const { data: noteRows } = await supabaseClient
+    .from("notes")
+    .select("content, is_ai_generated")
+    .eq("todo_id", todoId)
+    .eq("user_id", userId);
+
+  const studentNotes = noteRows?.find((n) => !n.is_ai_generated && n.content.trim())?.content;
+  const aiNotes = noteRows?.find((n) => n.is_ai_generated)?.content;
+  const sanitizedNotes = (studentNotes || aiNotes || clientNotes)?.slice(0, MAX_NOTES_LENGTH);
+
+  if (!sanitizedNotes) {
+    throw new RequestError(404, "not_found", "No notes found for this task");
+  }
+
+  console.log(`Generating new quiz for user ${userId} from ${studentNotes ? "edited" : "AI"} notes`);
+
+  await reportProgress?.(30, "Writing quiz questions");
+
+  const { questions, quizId } = await withUsage(serviceClient, userId, "generate-quiz", async () => {
+    const questions: QuizQuestion[] = await callAIForJSON([
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: `Generate 5 MCQ questions based on these study notes:\n\n${sanitizedNotes}` }
+    ], QuizQuestionsSchema, { task: "generate-quiz" });
+
+    console.log("Quiz generated successfully");
+
+    const { data: savedQuiz, error: saveError } = await serviceClient
+      .from("quizzes")
+      .insert({
+        user_id: userId,
+        todo_id: todoId,
+        questions: questions,
+      })
+      .select("id")
+      .single();
+
+    if (saveError) {
+      console.error("Error saving quiz:", saveError);
+      // Without a stored answer key the quiz cannot be graded
+      throw new Error("Failed to save quiz");
+    }
+
+    return { questions, quizId: savedQuiz.id as string };
+  });
+
+  return { quiz: redactQuestions(questions), quizId, saved: true };
+}
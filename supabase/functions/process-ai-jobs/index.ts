@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { guard, scheduledGuard } from "../_shared/requestGuard.ts";
+import { AIJob, AIJobKind, describeJobError, isRetryable, JobContext } from "../_shared/aiJobs.ts";
+import { generateNotes } from "../generate-notes/handler.ts";
+import { generateQuiz } from "../generate-quiz/handler.ts";
+import { analyzeWeakness } from "../analyze-weakness/handler.ts";
+
+// Supabase's edge runtime keeps background work alive after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const RUNNERS: Record<AIJobKind, (ctx: JobContext) => Promise<unknown>> = {
+  "generate-notes": generateNotes,
+  "generate-quiz": generateQuiz,
+  "analyze-weakness": analyzeWeakness,
+};
+
+// Stay well inside the runtime's wall-clock limit; a fresh invocation picks up the rest
+const TIME_BUDGET_MS = 100_000;
+
+interface Worker {
+  /** Whose jobs to claim; null for every user's (the pg_cron run) */
+  userId: string | null;
+  /** Client the job handlers read and write the student's rows with */
+  supabaseClient: SupabaseClient;
+  serviceClient: SupabaseClient;
+  /** For handing over to a new invocation; null for the scheduled run, whose next run picks up the rest */
+  authHeader: string | null;
+}
+
+async function runJob(job: AIJob, { supabaseClient, serviceClient }: Worker) {
+  const userId = job.user_id;
+  console.log(`Running ${job.kind} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  const reportProgress = async (progress: number, message: string) => {
+    const { error } = await serviceClient
+      .from("ai_jobs")
+      .update({ progress, progress_message: message })
+      .eq("id", job.id);
+    if (error) console.error(`Error updating progress for job ${job.id}:`, error);
+  };
+
+  let outcome: { result: unknown; code: string | null; message: string | null; retryable: boolean };
+  try {
+    const result = await RUNNERS[job.kind]({ body: job.payload, userId, supabaseClient, serviceClient, reportProgress });
+    outcome = { result, code: null, message: null, retryable: false };
+  } catch (error) {
+    console.error(`Job ${job.id} failed:`, error);
+    const { code, message } = describeJobError(error);
+    outcome = { result: null, code, message, retryable: isRetryable(error) };
+  }
+
+  const { error } = await serviceClient.rpc("finish_ai_job", {
+    p_job_id: job.id,
+    p_result: outcome.result,
+    p_error_code: outcome.code,
+    p_error_message: outcome.message,
+    p_retryable: outcome.retryable,
+  });
+  if (error) console.error(`Error finishing job ${job.id}:`, error);
+}
+
+/** Run due jobs one after another until none are left or time runs out */
+async function drainQueue(worker: Worker) {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < TIME_BUDGET_MS) {
+    const { data: job, error } = await worker.serviceClient.rpc("claim_ai_job", { p_user_id: worker.userId });
+    if (error) {
+      console.error("Error claiming job:", error);
+      return;
+    }
+    if (!job?.id) return;
+
+    await runJob(job as AIJob, worker);
+  }
+
+  if (!worker.authHeader) return;
+
+  // Out of time with jobs possibly left: hand over to a new invocation
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/process-ai-jobs`, {
+    method: "POST",
+    headers: {
+      Authorization: worker.authHeader,
+      apikey: Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      "Content-Type": "application/json",
+    },
+    body: "{}",
+  });
+  if (!response.ok) console.error(`Error continuing job queue: ${response.status}`);
+}
+
+async function startDraining(worker: Worker) {
+  const work = drainQueue(worker);
+
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(work);
+  } else {
+    await work;
+  }
+
+  return { accepted: true };
+}
+
+// The app pokes the worker for the signed-in student's own jobs
+const handleUserRequest = guard(
+  { name: "process-ai-jobs", maxBodyBytes: 1024 },
+  ({ userId, authHeader, supabaseClient, serviceClient }) =>
+    startDraining({ userId, authHeader, supabaseClient, serviceClient })
+);
+
+// pg_cron runs it for everyone's due jobs. There is no student session to act
+// as, so the handlers get the service client and scope their queries by user.
+const handleScheduledRun = scheduledGuard(
+  { name: "process-ai-jobs", maxBodyBytes: 1024 },
+  ({ serviceClient }) =>
+    startDraining({ userId: null, authHeader: null, supabaseClient: serviceClient, serviceClient })
+);
+
+serve((req) => {
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  const isScheduled = !!cronSecret && req.headers.get("Authorization") === `Bearer ${cronSecret}`;
+  return isScheduled ? handleScheduledRun(req) : handleUserRequest(req);
+});
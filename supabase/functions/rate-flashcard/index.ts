@@ -0,0 +1,45 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, optionalEnum, RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import { FLASHCARD_RATINGS, nextReviewState, ratingQuality } from "../_shared/spacedRepetition.ts";
+
+serve(guard({ name: "rate-flashcard", maxBodyBytes: 1024 }, async ({ body, userId, serviceClient }) => {
+  const cardId = requireUUID(body, "cardId");
+  const rating = optionalEnum(body, "rating", FLASHCARD_RATINGS);
+  if (!rating) {
+    throw new RequestError(400, "invalid_field", "Missing required field: rating", { field: "rating" });
+  }
+
+  const { data: card } = await serviceClient
+    .from("flashcards")
+    .select("*")
+    .eq("id", cardId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!card) {
+    throw new RequestError(404, "not_found", "Flashcard not found");
+  }
+
+  const now = new Date();
+  const { last_quality: _quality, ...next } = nextReviewState(card, ratingQuality(rating), now);
+
+  const { error: updateError } = await serviceClient
+    .from("flashcards")
+    .update({
+      ...next,
+      last_rating: rating,
+      review_count: card.review_count + 1,
+      last_reviewed_at: now.toISOString(),
+    })
+    .eq("id", card.id);
+
+  if (updateError) {
+    console.error("Error updating flashcard:", updateError);
+    throw new Error("Failed to save rating");
+  }
+
+  return {
+    intervalDays: next.interval_days,
+    dueAt: next.due_at,
+  };
+}));
@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { scheduledGuard } from "../_shared/requestGuard.ts";
+import { PushTarget, sendEmail, sendPush } from "../_shared/notifications.ts";
+
+interface DueReminder {
+  reminder_id: string;
+  user_id: string;
+  message: string;
+}
+
+interface DueDigest {
+  user_id: string;
+  local_date: string;
+  local_dow: number;
+}
+
+const APP_URL = (Deno.env.get("APP_URL") || "https://edurank.app").replace(/\/$/, "");
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${hours >= 12 ? "PM" : "AM"}`;
+};
+
+async function deliverReminders(serviceClient: SupabaseClient, now: Date) {
+  const { data, error } = await serviceClient.rpc("claim_due_study_reminders", { p_now: now.toISOString() });
+  if (error) throw error;
+
+  const reminders = (data ?? []) as DueReminder[];
+  if (reminders.length === 0) return { reminders: 0, pushesSent: 0 };
+
+  const { data: subscriptions, error: subscriptionsError } = await serviceClient
+    .from("push_subscriptions")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .in("user_id", [...new Set(reminders.map((r) => r.user_id))]);
+
+  if (subscriptionsError) throw subscriptionsError;
+
+  const deliveries = reminders.flatMap((reminder) =>
+    (subscriptions ?? [])
+      .filter((subscription) => subscription.user_id === reminder.user_id)
+      .map(async (subscription) => ({
+        subscriptionId: subscription.id as string,
+        result: await sendPush(subscription as PushTarget, {
+          title: "EduRank Study Reminder",
+          body: reminder.message,
+          url: "/dashboard",
+          tag: `reminder-${reminder.reminder_id}`,
+        }),
+      }))
+  );
+  const results = await Promise.all(deliveries);
+
+  const sentTo = [...new Set(results.filter((r) => r.result === "sent").map((r) => r.subscriptionId))];
+  const gone = results.filter((r) => r.result === "gone").map((r) => r.subscriptionId);
+
+  if (gone.length > 0) {
+    const { error: deleteError } = await serviceClient.from("push_subscriptions").delete().in("id", gone);
+    if (deleteError) console.error("Error removing expired push subscriptions:", deleteError);
+  }
+  if (sentTo.length > 0) {
+    const { error: updateError } = await serviceClient
+      .from("push_subscriptions")
+      .update({ last_success_at: now.toISOString() })
+      .in("id", sentTo);
+    if (updateError) console.error("Error updating push subscriptions:", updateError);
+  }
+
+  return { reminders: reminders.length, pushesSent: results.filter((r) => r.result === "sent").length };
+}
+
+async function sendDigest(serviceClient: SupabaseClient, digest: DueDigest) {
+  const { data: userData, error: userError } = await serviceClient.auth.admin.getUserById(digest.user_id);
+  if (userError) throw userError;
+  const email = userData.user?.email;
+  if (!email) return false;
+
+  const [{ data: reminders }, { count: openTasks }] = await Promise.all([
+    serviceClient
+      .from("study_reminders")
+      .select("reminder_time, message")
+      .eq("user_id", digest.user_id)
+      .eq("is_enabled", true)
+      .contains("days_of_week", [digest.local_dow])
+      .order("reminder_time"),
+    serviceClient
+      .from("todos")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", digest.user_id)
+      .eq("completed", false),
+  ]);
+
+  const sessions = (reminders ?? []).map((r) => ({
+    time: formatTime(r.reminder_time as string),
+    message: (r.message as string | null) || "Study session",
+  }));
+  const taskLine = openTasks
+    ? `You have ${openTasks} open task${openTasks === 1 ? "" : "s"} waiting.`
+    : "You're all caught up on tasks. Add a new topic to keep learning!";
+
+  const text = [
+    "Here's your study plan for today.",
+    "",
+    ...(sessions.length > 0
+      ? sessions.map((s) => `- ${s.time}: ${s.message}`)
+      : ["No study sessions scheduled today."]),
+    "",
+    taskLine,
+    "",
+    `Open EduRank: ${APP_URL}/dashboard`,
+  ].join("\n");
+
+  const html = `
+    <p>Here's your study plan for today.</p>
+    ${sessions.length > 0
+      ? `<ul>${sessions.map((s) => `<li><strong>${s.time}</strong>: ${escapeHtml(s.message)}</li>`).join("")}</ul>`
+      : "<p>No study sessions scheduled today.</p>"}
+    <p>${escapeHtml(taskLine)}</p>
+    <p><a href="${APP_URL}/dashboard">Open EduRank</a></p>
+  `;
+
+  await sendEmail({ to: email, subject: `Your study plan for ${digest.local_date}`, text, html });
+  return true;
+}
+
+async function deliverDigests(serviceClient: SupabaseClient, now: Date) {
+  const { data, error } = await serviceClient.rpc("claim_due_digests", { p_now: now.toISOString() });
+  if (error) throw error;
+
+  let sent = 0;
+  for (const digest of (data ?? []) as DueDigest[]) {
+    try {
+      if (await sendDigest(serviceClient, digest)) sent++;
+    } catch (digestError) {
+      // Already claimed for today; one failed email shouldn't hold up the rest
+      console.error(`Error sending digest to user ${digest.user_id}:`, digestError);
+    }
+  }
+  return sent;
+}
+
+serve(scheduledGuard({ name: "send-study-reminders", maxBodyBytes: 1024 }, async ({ serviceClient }) => {
+  const now = new Date();
+
+  const { reminders, pushesSent } = await deliverReminders(serviceClient, now);
+  const digestsSent = await deliverDigests(serviceClient, now);
+
+  if (reminders > 0 || digestsSent > 0) {
+    console.log(`Delivered ${reminders} reminder(s) as ${pushesSent} push(es), ${digestsSent} digest(s)`);
+  }
+
+  return { reminders, pushesSent, digestsSent };
+}));
@@ -0,0 +1,67 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, optionalNumber, RequestError, requireNumber, requireUUID } from "../_shared/requestGuard.ts";
+import { QuizQuestion } from "../_shared/quiz.ts";
+
+const MAX_QUESTION_TIME_SECONDS = 3600;
+
+serve(guard({ name: "submit-checkpoint-answer", maxBodyBytes: 4 * 1024 }, async ({ body, userId, serviceClient }) => {
+  const checkpointId = requireUUID(body, "checkpointId");
+  const questionId = requireNumber(body, "questionId", { integer: true, min: 1 });
+  const selectedAnswer = requireNumber(body, "selectedAnswer", { integer: true, min: 0 });
+  const timeTakenSeconds = optionalNumber(body, "timeTakenSeconds", { min: 0 }) ?? 0;
+
+  const { data: checkpoint } = await serviceClient
+    .from("video_checkpoints")
+    .select("id, todo_id, video_id, pause_at_seconds, rewind_to_seconds, questions")
+    .eq("id", checkpointId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!checkpoint) {
+    throw new RequestError(404, "not_found", "Checkpoint not found");
+  }
+
+  const question = ((checkpoint.questions || []) as QuizQuestion[]).find((q) => q.id === questionId);
+  if (!question || selectedAnswer >= question.options.length) {
+    throw new RequestError(400, "invalid_answer", "Invalid question or answer");
+  }
+
+  // Checkpoints can be retaken when the student rewinds, so count earlier tries
+  const { count: previousAttempts } = await serviceClient
+    .from("question_attempts")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("checkpoint_id", checkpoint.id)
+    .eq("question_id", question.id);
+
+  const isCorrect = selectedAnswer === question.correctAnswer;
+
+  const { error: insertError } = await serviceClient
+    .from("question_attempts")
+    .insert({
+      user_id: userId,
+      checkpoint_id: checkpoint.id,
+      todo_id: checkpoint.todo_id,
+      video_id: checkpoint.video_id,
+      video_timestamp_seconds: checkpoint.pause_at_seconds,
+      question_id: question.id,
+      question_text: question.question,
+      selected_answer: selectedAnswer,
+      is_correct: isCorrect,
+      time_taken_seconds: Math.min(MAX_QUESTION_TIME_SECONDS, timeTakenSeconds),
+      difficulty_level: question.difficulty || "medium",
+      attempt_number: (previousAttempts ?? 0) + 1,
+    });
+
+  if (insertError) {
+    console.error("Error recording checkpoint answer:", insertError);
+    throw new Error("Failed to record answer");
+  }
+
+  return {
+    isCorrect,
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation || null,
+    rewindToSeconds: Number(checkpoint.rewind_to_seconds),
+  };
+}));
@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { guard, optionalNumber, optionalUUID, RequestError, requireNumber, requireUUID } from "../_shared/requestGuard.ts";
+import { GradedAnswer, StoredQuiz, findQuestion } from "../_shared/quiz.ts";
+
+const MAX_QUESTION_TIME_SECONDS = 3600;
+const UNIQUE_VIOLATION = "23505";
+
+async function findOpenAttempt(serviceClient: SupabaseClient, userId: string, quizId: string) {
+  const { data } = await serviceClient
+    .from("quiz_attempts")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("quiz_id", quizId)
+    .eq("status", "in_progress")
+    .maybeSingle();
+  return data?.id as string | undefined;
+}
+
+async function openAttemptId(
+  serviceClient: SupabaseClient,
+  userId: string,
+  quizId: string,
+  todoId: string
+): Promise<string> {
+  const existing = await findOpenAttempt(serviceClient, userId, quizId);
+  if (existing) return existing;
+
+  const { data: newAttempt, error: attemptError } = await serviceClient
+    .from("quiz_attempts")
+    .insert({ user_id: userId, quiz_id: quizId, todo_id: todoId })
+    .select("id")
+    .single();
+
+  if (newAttempt) return newAttempt.id;
+
+  // Another request opened one in the meantime
+  const raced = attemptError?.code === UNIQUE_VIOLATION
+    ? await findOpenAttempt(serviceClient, userId, quizId)
+    : undefined;
+  if (raced) return raced;
+
+  console.error("Error creating quiz attempt:", attemptError);
+  throw new Error("Failed to start quiz attempt");
+}
+
+serve(guard({ name: "submit-quiz-answer", maxBodyBytes: 4 * 1024 }, async ({ body, userId, serviceClient }) => {
+  const quizId = requireUUID(body, "quizId");
+  const attemptId = optionalUUID(body, "attemptId");
+  const questionId = requireNumber(body, "questionId", { integer: true, min: 1 });
+  const selectedAnswer = requireNumber(body, "selectedAnswer", { integer: true, min: 0 });
+  const timeTakenSeconds = optionalNumber(body, "timeTakenSeconds", { min: 0 }) ?? 0;
+
+  const { data: quiz } = await serviceClient
+    .from("quizzes")
+    .select("id, todo_id, questions, adaptive_questions")
+    .eq("id", quizId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!quiz) {
+    throw new RequestError(404, "not_found", "Quiz not found");
+  }
+
+  const question = findQuestion(quiz as StoredQuiz, questionId);
+  if (!question || selectedAnswer >= question.options.length) {
+    throw new RequestError(400, "invalid_answer", "Invalid question or answer");
+  }
+
+  // Continue the caller's own attempt, or the one still open for this quiz.
+  // A quiz has at most one open attempt, so dropping attemptId can't be used
+  // to see how answers grade and start over with a clean slate.
+  let currentAttemptId = attemptId;
+  if (currentAttemptId) {
+    const { data: attempt } = await serviceClient
+      .from("quiz_attempts")
+      .select("id, status")
+      .eq("id", currentAttemptId)
+      .eq("quiz_id", quiz.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!attempt || attempt.status !== "in_progress") {
+      throw new RequestError(409, "attempt_not_active", "Quiz attempt is not active");
+    }
+  } else {
+    currentAttemptId = await openAttemptId(serviceClient, userId, quiz.id, quiz.todo_id);
+  }
+
+  const isCorrect = selectedAnswer === question.correctAnswer;
+  const gradedAnswer: GradedAnswer = {
+    questionId: question.id,
+    selectedAnswer,
+    isCorrect,
+    timeTakenSeconds: Math.min(MAX_QUESTION_TIME_SECONDS, timeTakenSeconds),
+    difficulty: question.difficulty || "medium",
+    questionText: question.question,
+  };
+
+  const { data: recorded, error: recordError } = await serviceClient.rpc("record_quiz_answer", {
+    p_attempt_id: currentAttemptId,
+    p_answer: gradedAnswer,
+  });
+
+  if (recordError) {
+    console.error("Error recording answer:", recordError);
+    throw new Error("Failed to record answer");
+  }
+
+  if (!recorded) {
+    throw new RequestError(409, "already_answered", "Question already answered in this attempt");
+  }
+
+  // The answer key and explanation come back from submit-quiz once the attempt is closed
+  return {
+    attemptId: currentAttemptId,
+    isCorrect,
+  };
+}));
@@ -0,0 +1,177 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, RequestError, requireUUID } from "../_shared/requestGuard.ts";
+import { GradedAnswer, QuizQuestion } from "../_shared/quiz.ts";
+
+serve(guard({ name: "submit-quiz", maxBodyBytes: 1024 }, async ({ body, userId, serviceClient }) => {
+  const attemptId = requireUUID(body, "attemptId");
+
+  const { data: attempt } = await serviceClient
+    .from("quiz_attempts")
+    .select("*")
+    .eq("id", attemptId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!attempt) {
+    throw new RequestError(404, "not_found", "Quiz attempt not found");
+  }
+
+  if (attempt.status !== "in_progress") {
+    throw new RequestError(409, "already_submitted", "Quiz attempt already submitted");
+  }
+
+  const answers = (attempt.answers || []) as GradedAnswer[];
+  if (answers.length === 0) {
+    throw new RequestError(400, "no_answers", "No answers submitted");
+  }
+
+  const { data: quiz } = await serviceClient
+    .from("quizzes")
+    .select("questions, adaptive_questions")
+    .eq("id", attempt.quiz_id)
+    .maybeSingle();
+
+  if (!quiz) {
+    throw new RequestError(404, "not_found", "Quiz not found");
+  }
+
+  // Close the attempt first so a concurrent submit cannot record a second result
+  const completedAt = new Date();
+  const { data: closed } = await serviceClient
+    .from("quiz_attempts")
+    .update({ status: "completed", completed_at: completedAt.toISOString() })
+    .eq("id", attempt.id)
+    .eq("status", "in_progress")
+    .select("id")
+    .maybeSingle();
+
+  if (!closed) {
+    throw new RequestError(409, "already_submitted", "Quiz attempt already submitted");
+  }
+
+  // Every base question counts, so skipping the ones you're unsure of scores
+  // them as wrong; adaptive follow-ups count only once answered
+  const baseQuestions = (quiz.questions || []) as QuizQuestion[];
+  const answeredIds = new Set(answers.map((a) => a.questionId));
+  const answeredAdaptive = ((quiz.adaptive_questions || []) as QuizQuestion[])
+    .filter((q) => answeredIds.has(q.id));
+  const gradedQuestions = [...baseQuestions, ...answeredAdaptive];
+  const gradedIds = new Set(gradedQuestions.map((q) => q.id));
+
+  const correctAnswers = answers.filter((a) => a.isCorrect && gradedIds.has(a.questionId)).length;
+  const totalQuestions = gradedQuestions.length;
+  const score = (correctAnswers / totalQuestions) * 100;
+  // Wall-clock time measured by the server, not the sum of client-reported timings
+  const timeTakenSeconds = Math.round((completedAt.getTime() - new Date(attempt.started_at).getTime()) / 1000);
+
+  const { data: previousResult } = await serviceClient
+    .from("quiz_results")
+    .select("score")
+    .eq("user_id", userId)
+    .eq("todo_id", attempt.todo_id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: result, error: resultError } = await serviceClient
+    .from("quiz_results")
+    .insert({
+      user_id: userId,
+      todo_id: attempt.todo_id,
+      score,
+      correct_answers: correctAnswers,
+      total_questions: totalQuestions,
+      answers: answers.map((a) => a.selectedAnswer),
+      time_taken_seconds: timeTakenSeconds,
+      previous_score: previousResult?.score ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (resultError || !result) {
+    console.error("Error saving quiz result:", resultError);
+    await serviceClient
+      .from("quiz_attempts")
+      .update({ status: "in_progress", completed_at: null })
+      .eq("id", attempt.id);
+    throw new Error("Failed to save quiz result");
+  }
+
+  const { data: todo } = await serviceClient
+    .from("todos")
+    .select("video_id")
+    .eq("id", attempt.todo_id)
+    .maybeSingle();
+
+  const { count: completedAttempts } = await serviceClient
+    .from("quiz_attempts")
+    .select("*", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("quiz_id", attempt.quiz_id)
+    .eq("status", "completed");
+
+  const attemptsToInsert = answers.map((a) => ({
+    user_id: userId,
+    quiz_id: attempt.quiz_id,
+    quiz_attempt_id: attempt.id,
+    todo_id: attempt.todo_id,
+    video_id: todo?.video_id || "",
+    question_id: a.questionId,
+    question_text: a.questionText,
+    selected_answer: a.selectedAnswer,
+    is_correct: a.isCorrect,
+    time_taken_seconds: a.timeTakenSeconds,
+    difficulty_level: a.difficulty,
+    attempt_number: completedAttempts || 1,
+  }));
+
+  const { error: attemptsError } = await serviceClient
+    .from("question_attempts")
+    .insert(attemptsToInsert);
+
+  if (attemptsError) {
+    console.error("Error inserting question attempts:", attemptsError);
+  }
+
+  await serviceClient
+    .from("quiz_attempts")
+    .update({ quiz_result_id: result.id })
+    .eq("id", attempt.id);
+
+  // Study time is the graded per-question timings, never more than the attempt took
+  const answeredSeconds = Math.round(answers.reduce((sum, a) => sum + (a.timeTakenSeconds || 0), 0));
+  const studySeconds = Math.min(answeredSeconds, timeTakenSeconds);
+  if (studySeconds > 0) {
+    const { error: sessionError } = await serviceClient
+      .from("study_sessions")
+      .insert({
+        user_id: userId,
+        activity: "quiz",
+        todo_id: attempt.todo_id,
+        started_at: new Date(completedAt.getTime() - studySeconds * 1000).toISOString(),
+        ended_at: completedAt.toISOString(),
+        duration_seconds: studySeconds,
+      });
+
+    if (sessionError) {
+      console.error("Error recording quiz study session:", sessionError);
+    }
+  }
+
+  await serviceClient.rpc("check_achievements", { uid: userId });
+
+  console.log(`Graded quiz attempt ${attempt.id}: ${correctAnswers}/${totalQuestions}`);
+
+  return {
+    resultId: result.id,
+    attemptId: attempt.id,
+    score,
+    correctAnswers,
+    totalQuestions,
+    review: gradedQuestions.map((q) => ({
+      questionId: q.id,
+      correctAnswer: q.correctAnswer,
+      explanation: q.explanation || null,
+    })),
+  };
+}));
@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { guard, optionalNumber, RequestError, requireNumber, requireUUID } from "../_shared/requestGuard.ts";
+import { StoredQuiz, findQuestion } from "../_shared/quiz.ts";
+import { answerQuality, nextReviewState } from "../_shared/spacedRepetition.ts";
+
+const MAX_QUESTION_TIME_SECONDS = 3600;
+
+serve(guard({ name: "submit-review", maxBodyBytes: 1024 }, async ({ body, userId, serviceClient }) => {
+  const reviewItemId = requireUUID(body, "reviewItemId");
+  const selectedAnswer = requireNumber(body, "selectedAnswer", { integer: true, min: 0 });
+  const timeTakenSeconds = Math.min(
+    MAX_QUESTION_TIME_SECONDS,
+    optionalNumber(body, "timeTakenSeconds", { min: 0 }) ?? 0
+  );
+
+  const { data: item } = await serviceClient
+    .from("review_items")
+    .select("*")
+    .eq("id", reviewItemId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!item) {
+    throw new RequestError(404, "not_found", "Review item not found");
+  }
+
+  const now = new Date();
+  if (new Date(item.due_at) > now) {
+    throw new RequestError(409, "not_due", "This question is not due for review yet", { dueAt: item.due_at });
+  }
+
+  const { data: quiz } = await serviceClient
+    .from("quizzes")
+    .select("questions, adaptive_questions")
+    .eq("id", item.quiz_id)
+    .maybeSingle();
+
+  const question = quiz ? findQuestion(quiz as StoredQuiz, item.question_id) : null;
+  if (!question) {
+    throw new RequestError(404, "not_found", "Question no longer exists");
+  }
+  if (selectedAnswer >= question.options.length) {
+    throw new RequestError(400, "invalid_answer", "Invalid answer");
+  }
+
+  const isCorrect = selectedAnswer === question.correctAnswer;
+  const next = nextReviewState(item, answerQuality(isCorrect, timeTakenSeconds), now);
+
+  // Matching on the old due date means a double submit only counts once
+  const { data: updated, error: updateError } = await serviceClient
+    .from("review_items")
+    .update({
+      ...next,
+      review_count: item.review_count + 1,
+      last_reviewed_at: now.toISOString(),
+    })
+    .eq("id", item.id)
+    .eq("due_at", item.due_at)
+    .select("id")
+    .maybeSingle();
+
+  if (updateError) {
+    console.error("Error updating review item:", updateError);
+    throw new Error("Failed to save review");
+  }
+
+  if (!updated) {
+    throw new RequestError(409, "already_reviewed", "This review was already submitted");
+  }
+
+  console.log(`Review ${item.id} for user ${userId}: quality ${next.last_quality}, next in ${next.interval_days}d`);
+
+  return {
+    isCorrect,
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation || null,
+    intervalDays: next.interval_days,
+    dueAt: next.due_at,
+  };
+}));
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { callAI } from "../_shared/aiProvider.ts";
+import { QuizQuestionsSchema } from "../_shared/aiSchemas.ts";
+import { callAIForJSON } from "../_shared/structuredOutput.ts";
+
+const quizPrompt = [
+  { role: "system" as const, content: "You write multiple choice quizzes. Return a JSON array of questions." },
+  { role: "user" as const, content: "Notes: Photosynthesis turns light, water and carbon dioxide into glucose." },
+];
+
+describe("mock AI provider", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock");
+    vi.stubEnv("AI_MAX_RETRIES", "0");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("runs the generate-quiz flow through the quiz schema", async () => {
+    const questions = await callAIForJSON(quizPrompt, QuizQuestionsSchema, { task: "generate-quiz" });
+
+    expect(questions.length).toBeGreaterThanOrEqual(3);
+    questions.forEach((question, index) => {
+      expect(question.id).toBe(index + 1);
+      expect(question.options).toHaveLength(4);
+      expect(question.correctAnswer).toBeGreaterThanOrEqual(0);
+      expect(question.correctAnswer).toBeLessThan(question.options.length);
+      expect(question.explanation).not.toBe("");
+    });
+  });
+
+  it("gives the same answer for the same prompt", async () => {
+    const first = await callAI(quizPrompt, { task: "generate-quiz" });
+    const second = await callAI(quizPrompt, { task: "generate-quiz" });
+
+    expect(second).toBe(first);
+  });
+
+  it("fails clearly for a task without a fixture", async () => {
+    await expect(callAI(quizPrompt, { task: "no-such-task" })).rejects.toMatchObject({
+      code: "not_configured",
+    });
+  });
+});
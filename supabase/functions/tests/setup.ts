@@ -0,0 +1,9 @@
+import { readFile } from "node:fs/promises";
+
+// Env vars and fixture files are read through Deno in the shared modules
+Object.assign(globalThis, {
+  Deno: {
+    env: { get: (key: string) => process.env[key] },
+    readTextFile: (path: string) => readFile(path, "utf8"),
+  },
+});
@@ -0,0 +1,128 @@
+import { fileURLToPath } from "node:url";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getVideoProviders, searchVideos } from "../_shared/videoProviders.ts";
+import { fetchFlaggedVideoIds, rankVideos, VideoPreferences } from "../_shared/videoRanking.ts";
+
+const QUERY = "photosynthesis light reactions";
+const SEARCH_OPTIONS = { maxResults: 10 };
+const NO_PREFERENCES: VideoPreferences = {
+  classLevel: null,
+  subject: null,
+  board: null,
+  language: null,
+  videoType: null,
+  videoDuration: null,
+};
+
+interface FakeDatabase {
+  /** Rows the lecture library search returns, or an error to fail it with */
+  lectureVideos?: Record<string, unknown>[] | Error;
+  /** Video ids the student has flagged */
+  flagged?: string[];
+  outcomeStats?: Record<string, unknown>[];
+}
+
+// Just enough of the Supabase client for the library provider and ranking
+function fakeServiceClient({ lectureVideos = [], flagged = [], outcomeStats = [] }: FakeDatabase): SupabaseClient {
+  const query = (result: { data: unknown; error: unknown }) => {
+    const builder = {
+      select: () => builder,
+      textSearch: () => builder,
+      limit: () => builder,
+      eq: () => builder,
+      not: () => builder,
+      then: (resolve: (value: typeof result) => unknown) => resolve(result),
+    };
+    return builder;
+  };
+
+  return {
+    from: (table: string) => {
+      if (table === "lecture_videos") {
+        return lectureVideos instanceof Error
+          ? query({ data: null, error: lectureVideos })
+          : query({ data: lectureVideos, error: null });
+      }
+      return query({ data: flagged.map((videoId) => ({ video_id: videoId })), error: null });
+    },
+    rpc: async () => ({ data: outcomeStats, error: null }),
+  } as unknown as SupabaseClient;
+}
+
+const lectureRow = (sourceUrl: string, title: string) => ({
+  title,
+  description: "Recorded lecture on photosynthesis",
+  channel: "Biology Department",
+  language: "en",
+  storage_path: null,
+  source_url: sourceUrl,
+  thumbnail_url: null,
+  duration_seconds: 900,
+  created_at: "2026-01-15T00:00:00Z",
+});
+
+describe("video discovery with fixture videos", () => {
+  beforeEach(() => {
+    vi.stubEnv("VIDEO_PROVIDERS", "library,fixture");
+    vi.stubEnv("VIDEO_FIXTURES_PATH", fileURLToPath(new URL("./fixtures/videos.json", import.meta.url)));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("falls back to the next provider when one fails", async () => {
+    const serviceClient = fakeServiceClient({ lectureVideos: new Error("search is down") });
+    const providers = getVideoProviders(serviceClient);
+
+    const results = await searchVideos(providers, QUERY, SEARCH_OPTIONS);
+
+    expect(providers.map((provider) => provider.name)).toEqual(["library", "fixture"]);
+    expect(results.map((video) => video.videoId)).toEqual([
+      "url:https://lectures.example.com/photosynthesis.mp4",
+      "fixture:photosynthesis-light-reactions",
+      "fixture:photosynthesis-calvin-cycle",
+    ]);
+  });
+
+  it("keeps the first copy of a video found by more than one provider", async () => {
+    const serviceClient = fakeServiceClient({
+      lectureVideos: [lectureRow("https://lectures.example.com/photosynthesis.mp4", "Photosynthesis lecture")],
+    });
+
+    const results = await searchVideos(getVideoProviders(serviceClient), QUERY, SEARCH_OPTIONS);
+
+    expect(results).toHaveLength(3);
+    expect(results.filter((video) => video.videoId === "url:https://lectures.example.com/photosynthesis.mp4"))
+      .toEqual([expect.objectContaining({ title: "Photosynthesis lecture", channel: "Biology Department" })]);
+  });
+
+  it("leaves out videos the student flagged and ones flagged by many students", async () => {
+    const serviceClient = fakeServiceClient({
+      flagged: ["fixture:photosynthesis-light-reactions"],
+      outcomeStats: [
+        {
+          video_id: "fixture:photosynthesis-calvin-cycle",
+          watchers: 8,
+          completions: 2,
+          quiz_answers: 0,
+          quiz_correct: 0,
+          quiz_takers: 0,
+          quiz_score_avg: null,
+          thumbs_up: 0,
+          thumbs_down: 3,
+          flags: 4,
+        },
+      ],
+    });
+
+    const candidates = await searchVideos(getVideoProviders(serviceClient), QUERY, SEARCH_OPTIONS);
+    const flagged = await fetchFlaggedVideoIds(serviceClient, "student-1");
+    const ranked = await rankVideos(serviceClient, candidates, QUERY, NO_PREFERENCES, flagged);
+
+    expect(ranked.map((video) => video.videoId)).toEqual(["url:https://lectures.example.com/photosynthesis.mp4"]);
+    expect(ranked[0].score).toBeGreaterThan(0);
+    expect(ranked[0].reason).not.toBe("");
+  });
+});
@@ -0,0 +1,88 @@
+-- Migration: Server-side quiz grading
+-- Date: 2026-02-10
+-- Purpose: Keep quiz answer keys out of the browser and make the grading edge
+-- functions (submit-quiz-answer / submit-quiz) the only writers of quiz_results
+-- and question_attempts, so leaderboard, achievement and daily challenge
+-- triggers only ever see server-graded results.
+
+-- 1. Adaptive follow-up questions are stored next to the base answer key
+ALTER TABLE public.quizzes
+ADD COLUMN IF NOT EXISTS adaptive_questions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Answer keys are only readable by the service role
+DROP POLICY IF EXISTS "Users can view their own quizzes" ON public.quizzes;
+DROP POLICY IF EXISTS "Users can create their own quizzes" ON public.quizzes;
+DROP POLICY IF EXISTS "Users can update their own quizzes" ON public.quizzes;
+
+-- 3. Quiz attempts track answers graded so far for one run through a quiz
+CREATE TABLE IF NOT EXISTS public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  quiz_result_id UUID REFERENCES public.quiz_results(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_quiz
+ON public.quiz_attempts(user_id, quiz_id, started_at DESC);
+
+-- One open attempt per quiz: answering without an attempt id continues it
+-- rather than starting a fresh one
+CREATE UNIQUE INDEX IF NOT EXISTS quiz_attempts_one_open
+ON public.quiz_attempts(user_id, quiz_id)
+WHERE status = 'in_progress';
+
+-- 4. Link question attempts back to the graded quiz attempt and question
+ALTER TABLE public.question_attempts
+ADD COLUMN IF NOT EXISTS quiz_attempt_id UUID REFERENCES public.quiz_attempts(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS question_id INTEGER,
+ADD COLUMN IF NOT EXISTS selected_answer INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_quiz_attempt
+ON public.question_attempts(quiz_attempt_id);
+
+-- 5. Results and attempts can no longer be written from the client
+DROP POLICY IF EXISTS "Users can create their own quiz results" ON public.quiz_results;
+DROP POLICY IF EXISTS "Users can insert their own question attempts" ON public.question_attempts;
+
+-- 6. Derived stats are maintained by SECURITY DEFINER triggers only
+DROP POLICY IF EXISTS "Users can update their own stats" ON public.leaderboard_stats;
+DROP POLICY IF EXISTS "Users can insert their own stats" ON public.leaderboard_stats;
+DROP POLICY IF EXISTS "Users can unlock achievements" ON public.user_achievements;
+DROP POLICY IF EXISTS "Users can create their own daily challenges" ON public.user_daily_challenges;
+DROP POLICY IF EXISTS "Users can update their own daily challenges" ON public.user_daily_challenges;
+
+-- 7. Atomically append a graded answer, refusing duplicates for the same question
+CREATE OR REPLACE FUNCTION public.record_quiz_answer(p_attempt_id uuid, p_answer jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  success boolean;
+BEGIN
+  UPDATE public.quiz_attempts
+  SET answers = answers || jsonb_build_array(p_answer)
+  WHERE id = p_attempt_id
+    AND status = 'in_progress'
+    AND NOT answers @> jsonb_build_array(jsonb_build_object('questionId', p_answer->'questionId'))
+  RETURNING true INTO success;
+
+  RETURN COALESCE(success, false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_quiz_answer(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_quiz_answer(uuid, jsonb) TO service_role;
@@ -0,0 +1,158 @@
+-- Migration: Enforce AI rate limits and credits
+-- Date: 2026-02-12
+-- Purpose: Check the hourly/daily limit and debit credits for an AI operation
+-- in one locked transaction (reserve_ai_usage), refund them when the upstream
+-- call fails (refund_ai_usage), and stop clients from changing their own
+-- credit balance.
+
+-- 1. Credits only change through the functions below
+DROP POLICY IF EXISTS "Users can update their own credits" ON public.user_credits;
+
+REVOKE EXECUTE ON FUNCTION public.consume_credits(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_credits(uuid, integer) TO service_role;
+
+-- 2. Refunded requests do not count towards the limits
+CREATE INDEX IF NOT EXISTS rate_limit_logs_user_operation_success_created
+ON public.rate_limit_logs(user_id, operation, created_at DESC)
+WHERE success;
+
+-- 3. Check limits and debit credits atomically
+CREATE OR REPLACE FUNCTION public.reserve_ai_usage(
+  p_user_id uuid,
+  p_operation text,
+  p_cost integer,
+  p_hourly_limit integer,
+  p_daily_limit integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_credits integer;
+  v_last_reset timestamp with time zone;
+  v_hour_count integer;
+  v_day_count integer;
+  v_oldest_hour timestamp with time zone;
+  v_oldest_day timestamp with time zone;
+  v_usage_id uuid;
+BEGIN
+  INSERT INTO public.user_credits (user_id, credits_remaining, credits_used, last_reset_at)
+  VALUES (p_user_id, 50, 0, now())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Row lock serialises concurrent requests from the same user
+  SELECT uc.credits_remaining, uc.last_reset_at INTO v_credits, v_last_reset
+  FROM public.user_credits uc
+  WHERE uc.user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_last_reset IS NULL OR (now() - v_last_reset) >= interval '30 days' THEN
+    UPDATE public.user_credits
+    SET credits_remaining = 50,
+        credits_used = 0,
+        last_reset_at = now(),
+        updated_at = now()
+    WHERE user_id = p_user_id;
+
+    v_credits := 50;
+    v_last_reset := now();
+  END IF;
+
+  SELECT COUNT(*), MIN(created_at) INTO v_hour_count, v_oldest_hour
+  FROM public.rate_limit_logs
+  WHERE user_id = p_user_id
+    AND operation = p_operation
+    AND success
+    AND created_at > now() - interval '1 hour';
+
+  SELECT COUNT(*), MIN(created_at) INTO v_day_count, v_oldest_day
+  FROM public.rate_limit_logs
+  WHERE user_id = p_user_id
+    AND operation = p_operation
+    AND success
+    AND created_at > now() - interval '1 day';
+
+  IF v_hour_count >= p_hourly_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'hourly_limit',
+      'limit', p_hourly_limit,
+      'reset_at', v_oldest_hour + interval '1 hour'
+    );
+  END IF;
+
+  IF v_day_count >= p_daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'daily_limit',
+      'limit', p_daily_limit,
+      'reset_at', v_oldest_day + interval '1 day'
+    );
+  END IF;
+
+  IF v_credits < p_cost THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'insufficient_credits',
+      'required', p_cost,
+      'credits_remaining', v_credits,
+      'reset_at', v_last_reset + interval '30 days'
+    );
+  END IF;
+
+  IF p_cost > 0 THEN
+    UPDATE public.user_credits
+    SET credits_remaining = credits_remaining - p_cost,
+        credits_used = credits_used + p_cost,
+        updated_at = now()
+    WHERE user_id = p_user_id;
+  END IF;
+
+  INSERT INTO public.rate_limit_logs (user_id, operation, success, metadata)
+  VALUES (p_user_id, p_operation, true, jsonb_build_object('credits', p_cost))
+  RETURNING id INTO v_usage_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'usage_id', v_usage_id,
+    'cost', p_cost,
+    'credits_remaining', v_credits - p_cost
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_usage(uuid, text, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_ai_usage(uuid, text, integer, integer, integer) TO service_role;
+
+-- 4. Give credits back when the AI call behind a reservation fails
+CREATE OR REPLACE FUNCTION public.refund_ai_usage(p_usage_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_cost integer;
+BEGIN
+  UPDATE public.rate_limit_logs
+  SET success = false,
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('refunded', true)
+  WHERE id = p_usage_id
+    AND success
+  RETURNING user_id, COALESCE((metadata->>'credits')::integer, 0) INTO v_user_id, v_cost;
+
+  IF v_user_id IS NOT NULL AND v_cost > 0 THEN
+    UPDATE public.user_credits
+    SET credits_remaining = credits_remaining + v_cost,
+        credits_used = GREATEST(credits_used - v_cost, 0),
+        updated_at = now()
+    WHERE user_id = v_user_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_ai_usage(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_ai_usage(uuid) TO service_role;
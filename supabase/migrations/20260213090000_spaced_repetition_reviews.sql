@@ -0,0 +1,115 @@
+-- Migration: Spaced-repetition reviews
+-- Date: 2026-02-13
+-- Purpose: Bring missed quiz questions back on an SM-2 schedule. Every wrong
+-- answer recorded in question_attempts creates (or lapses) a review_items row
+-- with its own ease factor and due date; submit-review grades the review and
+-- moves the due date.
+
+-- 1. One schedule per user and question
+CREATE TABLE IF NOT EXISTS public.review_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  question_id INTEGER NOT NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE SET NULL,
+  -- Question as shown to the student, without answer key or explanation
+  question JSONB NOT NULL,
+  ease_factor NUMERIC NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  last_quality SMALLINT,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, quiz_id, question_id)
+);
+
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+-- Schedules are only changed by the trigger below and submit-review
+CREATE POLICY "Users can view their own review items"
+ON public.review_items
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS review_items_user_due
+ON public.review_items(user_id, due_at);
+
+CREATE TRIGGER update_review_items_updated_at
+BEFORE UPDATE ON public.review_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Schedule missed questions as they are recorded
+CREATE OR REPLACE FUNCTION public.schedule_review_from_attempt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_question jsonb;
+BEGIN
+  -- analyze-weakness tags topics after the attempt rows are written
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.topic_id IS NOT NULL THEN
+      UPDATE public.review_items
+      SET topic_id = NEW.topic_id
+      WHERE user_id = NEW.user_id
+        AND quiz_id = NEW.quiz_id
+        AND question_id = NEW.question_id
+        AND topic_id IS NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_correct OR NEW.question_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT q INTO v_question
+  FROM public.quizzes z,
+       jsonb_array_elements(z.questions || COALESCE(z.adaptive_questions, '[]'::jsonb)) AS q
+  WHERE z.id = NEW.quiz_id
+    AND (q->>'id')::integer = NEW.question_id
+  LIMIT 1;
+
+  IF v_question IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.review_items (user_id, quiz_id, todo_id, question_id, topic_id, question, interval_days, due_at)
+  VALUES (
+    NEW.user_id,
+    NEW.quiz_id,
+    NEW.todo_id,
+    NEW.question_id,
+    NEW.topic_id,
+    v_question - 'correctAnswer' - 'explanation',
+    1,
+    now() + interval '1 day'
+  )
+  ON CONFLICT (user_id, quiz_id, question_id) DO UPDATE
+  SET repetitions = 0,
+      interval_days = 1,
+      lapses = public.review_items.lapses + 1,
+      ease_factor = GREATEST(1.3, public.review_items.ease_factor - 0.2),
+      due_at = LEAST(public.review_items.due_at, now() + interval '1 day'),
+      question = EXCLUDED.question;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN others THEN
+    RAISE WARNING 'Failed to schedule review for attempt %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_review_on_question_attempt
+AFTER INSERT OR UPDATE OF topic_id ON public.question_attempts
+FOR EACH ROW
+EXECUTE FUNCTION public.schedule_review_from_attempt();
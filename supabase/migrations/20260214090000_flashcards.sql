@@ -0,0 +1,50 @@
+-- Migration: Flashcard decks
+-- Date: 2026-02-14
+-- Purpose: Store front/back cards generated from a todo's notes, each with its
+-- own SM-2 schedule. Cards are written by generate-flashcards and rescheduled
+-- by rate-flashcard; students can read and delete their own.
+
+CREATE TABLE IF NOT EXISTS public.flashcards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES public.notes(id) ON DELETE SET NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE SET NULL,
+  topic_name TEXT,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  ease_factor NUMERIC NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  last_rating TEXT CHECK (last_rating IN ('again', 'hard', 'good', 'easy')),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own flashcards"
+ON public.flashcards
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcards"
+ON public.flashcards
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS flashcards_user_todo
+ON public.flashcards(user_id, todo_id, order_index);
+
+CREATE INDEX IF NOT EXISTS flashcards_user_due
+ON public.flashcards(user_id, due_at);
+
+CREATE TRIGGER update_flashcards_updated_at
+BEFORE UPDATE ON public.flashcards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
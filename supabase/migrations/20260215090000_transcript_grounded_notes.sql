@@ -0,0 +1,15 @@
+-- Migration: Transcript-grounded notes
+-- Date: 2026-02-15
+-- Purpose: Record where a note's content came from and the video time range
+-- of each generated section, so the player can seek to the part of the video
+-- a section describes.
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS transcript_source TEXT
+    CHECK (transcript_source IN ('captions', 'upload', 'web_search'));
+
+COMMENT ON COLUMN public.notes.sections IS
+  'Generated sections: [{ title, content, startSeconds, endSeconds }], times in seconds from the start of the video';
+COMMENT ON COLUMN public.notes.transcript_source IS
+  'captions = YouTube captions, upload = student-provided .vtt/.srt, web_search = title research only';
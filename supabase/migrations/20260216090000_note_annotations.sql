@@ -0,0 +1,59 @@
+-- Migration: Timestamped note annotations
+-- Date: 2026-02-16
+-- Purpose: Let students pin their own notes to a moment in a video while
+-- watching. Each annotation belongs to a todo and the video (main or subtask)
+-- it was written against, so Notes can link back to that exact moment.
+
+CREATE TABLE IF NOT EXISTS public.note_annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL,
+  timestamp_seconds NUMERIC NOT NULL CHECK (timestamp_seconds >= 0),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.note_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own annotations"
+ON public.note_annotations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own annotations"
+ON public.note_annotations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.todos t
+    WHERE t.id = todo_id AND t.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own annotations"
+ON public.note_annotations
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.todos t
+    WHERE t.id = todo_id AND t.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own annotations"
+ON public.note_annotations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS note_annotations_user_todo
+ON public.note_annotations(user_id, todo_id, timestamp_seconds);
+
+CREATE TRIGGER update_note_annotations_updated_at
+BEFORE UPDATE ON public.note_annotations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
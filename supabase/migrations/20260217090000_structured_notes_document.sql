@@ -0,0 +1,14 @@
+-- Migration: Structured notes document
+-- Date: 2026-02-17
+-- Purpose: Store generated notes as a versioned JSON document (summary, key
+-- points, sections, definitions, formulas, examples, misconceptions) next to
+-- the markdown in content. Rows written before this have document = NULL;
+-- Notes.tsx converts their markdown into a version 1 document the first time
+-- they are opened and saves it back, so no backfill is needed here.
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS document JSONB
+    CHECK (document IS NULL OR (jsonb_typeof(document) = 'object' AND document ? 'version'));
+
+COMMENT ON COLUMN public.notes.document IS
+  'Versioned notes document ({ version, title, summary, keyPoints, sections, definitions, formulas, examples, misconceptions }); NULL for notes not yet converted';
@@ -0,0 +1,121 @@
+-- Migration: Editable notes with revision history
+-- Date: 2026-02-18
+-- Purpose: Let students keep their own notes for a todo next to the AI notes
+-- (one row each, told apart by is_ai_generated) and keep a revision history
+-- of the student's version. Autosaves within a few minutes of each other are
+-- folded into one revision so the history stays readable.
+
+ALTER TABLE public.notes
+  DROP CONSTRAINT IF EXISTS notes_todo_user_unique;
+
+ALTER TABLE public.notes
+  ADD CONSTRAINT notes_todo_user_source_unique UNIQUE (todo_id, user_id, is_ai_generated);
+
+CREATE TABLE IF NOT EXISTS public.note_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  is_restore BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger below; students can only read theirs
+CREATE POLICY "Users can view their own note revisions"
+ON public.note_revisions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS note_revisions_note_created
+ON public.note_revisions(note_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_latest public.note_revisions%ROWTYPE;
+  v_is_restore BOOLEAN := coalesce(current_setting('app.note_restore', true), '') = 'on';
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_latest
+  FROM public.note_revisions
+  WHERE note_id = NEW.id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  -- Fold autosaves from the same editing session into the latest revision,
+  -- but never overwrite a restore point
+  IF NOT v_is_restore
+     AND v_latest.id IS NOT NULL
+     AND NOT v_latest.is_restore
+     AND v_latest.created_at > now() - interval '10 minutes' THEN
+    UPDATE public.note_revisions
+    SET content = NEW.content, updated_at = now()
+    WHERE id = v_latest.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.note_revisions (note_id, user_id, content, is_restore)
+  VALUES (NEW.id, NEW.user_id, NEW.content, v_is_restore);
+
+  -- Keep the most recent 100 revisions per note
+  DELETE FROM public.note_revisions
+  WHERE note_id = NEW.id
+    AND id NOT IN (
+      SELECT id FROM public.note_revisions
+      WHERE note_id = NEW.id
+      ORDER BY created_at DESC
+      LIMIT 100
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_note_revision
+AFTER INSERT OR UPDATE OF content ON public.notes
+FOR EACH ROW
+WHEN (NOT NEW.is_ai_generated)
+EXECUTE FUNCTION public.record_note_revision();
+
+-- Put a revision's content back as the current notes, recorded as a new revision
+CREATE OR REPLACE FUNCTION public.restore_note_revision(p_revision_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_revision public.note_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision
+  FROM public.note_revisions
+  WHERE id = p_revision_id AND user_id = auth.uid();
+
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('app.note_restore', 'on', true);
+
+  UPDATE public.notes
+  SET content = v_revision.content
+  WHERE id = v_revision.note_id AND user_id = auth.uid();
+
+  PERFORM set_config('app.note_restore', '', true);
+
+  RETURN v_revision.content;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_note_revision(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_note_revision(uuid) TO authenticated;
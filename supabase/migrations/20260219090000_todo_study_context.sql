@@ -0,0 +1,14 @@
+-- Migration: Study context on todos
+-- Date: 2026-02-19
+-- Purpose: Remember the class, subject and board a todo was created for
+-- (from the dashboard filters) so exported notes can show them on their
+-- title page. Existing todos keep NULL and the export simply omits them.
+
+ALTER TABLE public.todos
+  ADD COLUMN IF NOT EXISTS class_level TEXT CHECK (class_level IS NULL OR char_length(class_level) <= 100),
+  ADD COLUMN IF NOT EXISTS subject TEXT CHECK (subject IS NULL OR char_length(subject) <= 100),
+  ADD COLUMN IF NOT EXISTS board TEXT CHECK (board IS NULL OR char_length(board) <= 100);
+
+COMMENT ON COLUMN public.todos.class_level IS 'Class the todo was created for, e.g. "Class 10"; NULL when no filter was set';
+COMMENT ON COLUMN public.todos.subject IS 'Subject the todo was created for; NULL when no filter was set';
+COMMENT ON COLUMN public.todos.board IS 'Exam board the todo was created for, e.g. "CBSE"; NULL when no filter was set';
@@ -0,0 +1,85 @@
+-- Migration: Atomic learning plan creation
+-- Date: 2026-02-20
+-- Purpose: Build a todo with its subtasks and candidate videos in a single
+-- transaction (create_learning_plan), called by the create-learning-plan edge
+-- function once the plan and videos are known. The client sends a request id
+-- with each attempt; a retry with the same id returns the todo created the
+-- first time instead of building a second one.
+
+-- 1. One todo per client request
+ALTER TABLE public.todos
+  ADD COLUMN IF NOT EXISTS request_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS todos_user_request_unique
+ON public.todos(user_id, request_id);
+
+COMMENT ON COLUMN public.todos.request_id IS
+  'Client-generated id of the create-learning-plan request that built this todo; NULL for older todos';
+
+-- 2. Todo, subtasks and videos together, or nothing
+CREATE OR REPLACE FUNCTION public.create_learning_plan(
+  p_user_id uuid,
+  p_request_id uuid,
+  p_title text,
+  p_video_id text,
+  p_description text,
+  p_class_level text,
+  p_subject text,
+  p_board text,
+  p_subtasks jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_todo public.todos;
+  v_subtask jsonb;
+  v_subtask_index bigint;
+  v_subtask_id uuid;
+BEGIN
+  INSERT INTO public.todos (user_id, request_id, title, video_id, description, class_level, subject, board)
+  VALUES (p_user_id, p_request_id, p_title, p_video_id, p_description, p_class_level, p_subject, p_board)
+  ON CONFLICT (user_id, request_id) DO NOTHING
+  RETURNING * INTO v_todo;
+
+  -- Another attempt with this request id already built the plan
+  IF v_todo.id IS NULL THEN
+    SELECT * INTO v_todo
+    FROM public.todos
+    WHERE user_id = p_user_id AND request_id = p_request_id;
+
+    RETURN jsonb_build_object('todo', to_jsonb(v_todo), 'created', false);
+  END IF;
+
+  FOR v_subtask, v_subtask_index IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(COALESCE(p_subtasks, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    INSERT INTO public.subtasks (todo_id, user_id, title, order_index)
+    VALUES (v_todo.id, p_user_id, v_subtask->>'title', v_subtask_index)
+    RETURNING id INTO v_subtask_id;
+
+    INSERT INTO public.subtask_videos (
+      subtask_id, user_id, video_id, title, channel, engagement_score, reason, order_index
+    )
+    SELECT
+      v_subtask_id,
+      p_user_id,
+      video->>'videoId',
+      video->>'title',
+      video->>'channel',
+      round((video->>'engagementScore')::numeric)::integer,
+      video->>'reason',
+      video_index - 1
+    FROM jsonb_array_elements(COALESCE(v_subtask->'videos', '[]'::jsonb)) WITH ORDINALITY AS v(video, video_index);
+  END LOOP;
+
+  RETURN jsonb_build_object('todo', to_jsonb(v_todo), 'created', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_learning_plan(uuid, uuid, text, text, text, text, text, text, jsonb)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_learning_plan(uuid, uuid, text, text, text, text, text, text, jsonb)
+  TO service_role;
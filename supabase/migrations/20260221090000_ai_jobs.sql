@@ -0,0 +1,228 @@
+-- Migration: Background AI jobs
+-- Date: 2026-02-21
+-- Purpose: Queue notes generation, quiz generation and weakness analysis so
+-- they keep running after the student leaves the page. The browser inserts a
+-- job row and pokes the process-ai-jobs edge function, which claims the
+-- caller's due jobs one at a time (claim_ai_job), writes progress to the row
+-- and records the outcome (finish_ai_job). Failed attempts are retried with
+-- exponential backoff; clients follow their jobs through Realtime. pg_cron
+-- also runs the worker every minute for every user's due jobs, so retries
+-- and jobs left behind by a crashed worker finish without the app open.
+
+CREATE TABLE IF NOT EXISTS public.ai_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('generate-notes', 'generate-quiz', 'analyze-weakness')),
+  todo_id UUID REFERENCES public.todos(id) ON DELETE CASCADE,
+  -- What the job is for, shown in the jobs list (e.g. the todo title)
+  title TEXT CHECK (title IS NULL OR char_length(title) <= 200),
+  -- Request body for the matching edge function; validated again when the job runs
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(payload) = 'object' AND pg_column_size(payload) <= 600000),
+  -- Only runs once this job has succeeded (e.g. a quiz waiting for its notes)
+  depends_on UUID REFERENCES public.ai_jobs(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  progress_message TEXT,
+  result JSONB,
+  error_code TEXT,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts BETWEEN 1 AND 5),
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own jobs"
+ON public.ai_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Clients can only queue fresh jobs for their own todos; everything after
+-- that is written by process-ai-jobs
+CREATE POLICY "Users can queue their own jobs"
+ON public.ai_jobs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'queued'
+  AND attempts = 0
+  AND progress = 0
+  AND result IS NULL
+  AND (todo_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.todos t
+    WHERE t.id = todo_id AND t.user_id = auth.uid()
+  ))
+  AND (depends_on IS NULL OR EXISTS (
+    SELECT 1 FROM public.ai_jobs d
+    WHERE d.id = depends_on AND d.user_id = auth.uid()
+  ))
+  AND (
+    SELECT COUNT(*) FROM public.ai_jobs a
+    WHERE a.user_id = auth.uid() AND a.status IN ('queued', 'running')
+  ) < 20
+);
+
+-- Cancel a queued job or clear finished ones
+CREATE POLICY "Users can delete their own idle jobs"
+ON public.ai_jobs
+FOR DELETE
+USING (auth.uid() = user_id AND status <> 'running');
+
+CREATE INDEX IF NOT EXISTS ai_jobs_user_created
+ON public.ai_jobs(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS ai_jobs_user_due
+ON public.ai_jobs(user_id, run_after)
+WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS ai_jobs_due
+ON public.ai_jobs(run_after)
+WHERE status = 'queued';
+
+CREATE TRIGGER update_ai_jobs_updated_at
+BEFORE UPDATE ON public.ai_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ai_jobs;
+
+-- Claim the next due job of p_user_id, or of any user when it is NULL (the
+-- scheduled worker), oldest first. Jobs stuck in 'running' (the worker was
+-- killed mid-job) go back to the queue, and jobs whose dependency failed are
+-- failed with it.
+CREATE OR REPLACE FUNCTION public.claim_ai_job(p_user_id uuid)
+RETURNS public.ai_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.ai_jobs;
+BEGIN
+  UPDATE public.ai_jobs
+  SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+      error_code = 'timeout',
+      error_message = 'The job stopped responding',
+      completed_at = CASE WHEN attempts < max_attempts THEN NULL ELSE now() END
+  WHERE (p_user_id IS NULL OR user_id = p_user_id)
+    AND status = 'running'
+    AND started_at < now() - interval '10 minutes';
+
+  UPDATE public.ai_jobs j
+  SET status = 'failed',
+      error_code = 'dependency_failed',
+      error_message = 'A job this one was waiting for failed',
+      completed_at = now()
+  FROM public.ai_jobs d
+  WHERE (p_user_id IS NULL OR j.user_id = p_user_id)
+    AND j.status = 'queued'
+    AND d.id = j.depends_on
+    AND d.status = 'failed';
+
+  SELECT * INTO v_job
+  FROM public.ai_jobs j
+  WHERE (p_user_id IS NULL OR j.user_id = p_user_id)
+    AND j.status = 'queued'
+    AND j.run_after <= now()
+    AND (j.depends_on IS NULL OR EXISTS (
+      SELECT 1 FROM public.ai_jobs d
+      WHERE d.id = j.depends_on AND d.status = 'succeeded'
+    ))
+  ORDER BY j.run_after, j.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_job.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.ai_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      progress = 0,
+      progress_message = NULL,
+      started_at = now()
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+-- Record a job's outcome. Retryable failures go back to the queue after
+-- 30s, 2m, 8m... until max_attempts is used up.
+CREATE OR REPLACE FUNCTION public.finish_ai_job(
+  p_job_id uuid,
+  p_result jsonb,
+  p_error_code text,
+  p_error_message text,
+  p_retryable boolean
+)
+RETURNS public.ai_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.ai_jobs;
+BEGIN
+  IF p_error_code IS NULL THEN
+    UPDATE public.ai_jobs
+    SET status = 'succeeded',
+        progress = 100,
+        result = p_result,
+        error_code = NULL,
+        error_message = NULL,
+        completed_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  ELSE
+    UPDATE public.ai_jobs
+    SET status = CASE WHEN p_retryable AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+        run_after = now() + interval '30 seconds' * power(4, GREATEST(attempts - 1, 0)),
+        progress = 0,
+        progress_message = NULL,
+        error_code = p_error_code,
+        error_message = p_error_message,
+        completed_at = CASE WHEN p_retryable AND attempts < max_attempts THEN NULL ELSE now() END
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ai_job(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_ai_job(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.finish_ai_job(uuid, jsonb, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_ai_job(uuid, jsonb, text, text, boolean) TO service_role;
+
+-- Run process-ai-jobs every minute for all users. It uses the same Vault
+-- secrets as send-study-reminders (project_url and cron_secret, which must
+-- match the functions' CRON_SECRET).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-ai-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/process-ai-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,265 @@
+-- Migration: Server-side study reminders
+-- Date: 2026-02-22
+-- Purpose: Deliver study_reminders while the app is closed. The
+-- send-study-reminders edge function runs every minute from pg_cron, claims
+-- the reminders that are due in each student's own timezone and sends them
+-- as Web Push notifications to the browsers stored in push_subscriptions.
+-- Students can also opt into a daily email digest, set quiet hours and
+-- snooze reminders; those settings live in user_preferences.
+
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- IANA name (e.g. "Asia/Kolkata"), kept in sync with the student's browser
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  push_enabled BOOLEAN NOT NULL DEFAULT true,
+  email_digest_enabled BOOLEAN NOT NULL DEFAULT false,
+  digest_time TIME NOT NULL DEFAULT '07:00',
+  -- Local times; a range that wraps past midnight (22:00-07:00) is allowed
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  reminders_snoozed_until TIMESTAMP WITH TIME ZONE,
+  -- Local date of the last digest sent, so each day gets at most one
+  last_digest_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own preferences"
+ON public.user_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own preferences"
+ON public.user_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+ON public.user_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+BEFORE UPDATE ON public.user_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reject timezone names Postgres doesn't know, since the reminder queries
+-- below convert with AT TIME ZONE
+CREATE OR REPLACE FUNCTION public.validate_user_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE NEW.timezone;
+  RETURN NEW;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone USING ERRCODE = 'check_violation';
+END;
+$$;
+
+CREATE TRIGGER validate_user_preferences_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.user_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_user_timezone();
+
+-- One row per browser that accepted push notifications
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE CHECK (char_length(endpoint) <= 1000),
+  p256dh TEXT NOT NULL CHECK (char_length(p256dh) <= 200),
+  auth TEXT NOT NULL CHECK (char_length(auth) <= 100),
+  user_agent TEXT CHECK (user_agent IS NULL OR char_length(user_agent) <= 300),
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user
+ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.study_reminders
+ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- Save this browser's subscription for the signed-in student. A browser
+-- keeps its endpoint across sign-ins, so an existing row moves to whoever
+-- subscribed last.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, left(p_user_agent, 300))
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) TO authenticated;
+
+-- Whether a local time falls inside quiet hours (which may wrap past midnight)
+CREATE OR REPLACE FUNCTION public.is_quiet_time(p_local time, p_start time, p_end time)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN p_start IS NULL OR p_end IS NULL THEN false
+    WHEN p_start <= p_end THEN p_local >= p_start AND p_local < p_end
+    ELSE p_local >= p_start OR p_local < p_end
+  END;
+$$;
+
+-- Mark the reminders due at p_now as sent and return them. A reminder is due
+-- from its reminder_time on one of its days (in the student's timezone) for
+-- 15 minutes, so a late or skipped cron run still delivers it, and is
+-- claimed at most once per day. Snoozed reminders and ones that fall in
+-- quiet hours are skipped for that day.
+CREATE OR REPLACE FUNCTION public.claim_due_study_reminders(p_now timestamptz)
+RETURNS TABLE (reminder_id uuid, user_id uuid, message text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      r.id,
+      p_now AT TIME ZONE COALESCE(p.timezone, 'UTC') AS local_now,
+      COALESCE(p.timezone, 'UTC') AS tz,
+      r.reminder_time,
+      r.days_of_week,
+      r.last_sent_at,
+      p.quiet_hours_start,
+      p.quiet_hours_end,
+      p.reminders_snoozed_until,
+      COALESCE(p.push_enabled, true) AS push_enabled
+    FROM public.study_reminders r
+    LEFT JOIN public.user_preferences p ON p.user_id = r.user_id
+    WHERE r.is_enabled
+  ),
+  due AS (
+    SELECT c.id, c.last_sent_at
+    FROM candidates c
+    WHERE c.push_enabled
+      AND EXTRACT(DOW FROM c.local_now)::int = ANY (c.days_of_week)
+      AND c.local_now >= date_trunc('day', c.local_now) + c.reminder_time
+      AND c.local_now < date_trunc('day', c.local_now) + c.reminder_time + interval '15 minutes'
+      AND (c.last_sent_at IS NULL
+        OR c.last_sent_at < (date_trunc('day', c.local_now) + c.reminder_time) AT TIME ZONE c.tz)
+      AND (c.reminders_snoozed_until IS NULL OR c.reminders_snoozed_until <= p_now)
+      AND NOT public.is_quiet_time(c.local_now::time, c.quiet_hours_start, c.quiet_hours_end)
+  ),
+  claimed AS (
+    UPDATE public.study_reminders r
+    SET last_sent_at = p_now
+    FROM due
+    WHERE r.id = due.id
+      -- An overlapping run that claimed it first wins
+      AND r.last_sent_at IS NOT DISTINCT FROM due.last_sent_at
+    RETURNING r.id, r.user_id, r.message
+  )
+  SELECT claimed.id, claimed.user_id, COALESCE(claimed.message, 'Time to study! Keep your streak going.')
+  FROM claimed;
+END;
+$$;
+
+-- Mark the email digests due at p_now as sent and return who gets one, with
+-- their local date and weekday for building the digest
+CREATE OR REPLACE FUNCTION public.claim_due_digests(p_now timestamptz)
+RETURNS TABLE (user_id uuid, local_date date, local_dow integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT p.user_id, p.last_digest_on, p.digest_time, p.reminders_snoozed_until,
+      p_now AT TIME ZONE p.timezone AS local_now
+    FROM public.user_preferences p
+    WHERE p.email_digest_enabled
+  ),
+  due AS (
+    SELECT c.user_id, c.last_digest_on, c.local_now
+    FROM candidates c
+    WHERE c.local_now >= date_trunc('day', c.local_now) + c.digest_time
+      AND c.local_now < date_trunc('day', c.local_now) + c.digest_time + interval '15 minutes'
+      AND (c.last_digest_on IS NULL OR c.last_digest_on < c.local_now::date)
+      AND (c.reminders_snoozed_until IS NULL OR c.reminders_snoozed_until <= p_now)
+  ),
+  claimed AS (
+    UPDATE public.user_preferences p
+    SET last_digest_on = due.local_now::date
+    FROM due
+    WHERE p.user_id = due.user_id
+      AND p.last_digest_on IS NOT DISTINCT FROM due.last_digest_on
+    RETURNING p.user_id, due.local_now
+  )
+  SELECT claimed.user_id, claimed.local_now::date, EXTRACT(DOW FROM claimed.local_now)::int
+  FROM claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_study_reminders(timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_study_reminders(timestamptz) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_digests(timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_digests(timestamptz) TO service_role;
+
+-- Run send-study-reminders every minute. The project URL and the shared
+-- secret the function checks (its CRON_SECRET) are read from Vault:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<random string>', 'cron_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-study-reminders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-study-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,363 @@
+-- Migration: Timezone-aware streaks and day boundaries
+-- Date: 2026-02-23
+-- Purpose: Streaks, daily challenges and weekly goals were decided with the
+-- database clock (CURRENT_DATE, i.e. UTC), so a student in Asia/Kolkata who
+-- studied at 01:00 local time was credited for the previous day and could
+-- lose a streak they had kept. Every "which day is it" decision now uses the
+-- timezone stored in user_preferences, and existing streaks are recomputed.
+
+-- When true the app keeps timezone in sync with the student's browser;
+-- choosing a timezone on the profile page turns that off
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS timezone_auto BOOLEAN NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION public.user_timezone(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    (SELECT timezone FROM public.user_preferences WHERE user_id = p_user_id),
+    'UTC'
+  )
+$$;
+
+-- The student's calendar date at p_at
+CREATE OR REPLACE FUNCTION public.user_local_date(p_user_id UUID, p_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT (p_at AT TIME ZONE public.user_timezone(p_user_id))::DATE
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_timezone(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_local_date(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Weeks start on Monday. The previous version returned the following Monday
+-- for Sundays, so quizzes taken on a Sunday never counted towards that week's goals.
+CREATE OR REPLACE FUNCTION public.get_week_start(d DATE DEFAULT CURRENT_DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (d - (EXTRACT(ISODOW FROM d)::INTEGER - 1))::DATE
+$$;
+
+-- Lets the app ask which day and week it is for the signed-in student
+CREATE OR REPLACE FUNCTION public.get_local_day()
+RETURNS TABLE (local_date DATE, week_start DATE, timezone TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    public.user_local_date(auth.uid()),
+    public.get_week_start(public.user_local_date(auth.uid())),
+    public.user_timezone(auth.uid())
+  WHERE auth.uid() IS NOT NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_local_day() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_local_day() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_leaderboard_on_quiz()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_display_name text;
+  v_today date := public.user_local_date(NEW.user_id, NEW.created_at);
+  v_last_date date;
+  v_new_streak integer;
+BEGIN
+  -- Get display name from profiles
+  SELECT COALESCE(name, 'Anonymous') INTO v_display_name
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Get last activity date
+  SELECT last_activity_date INTO v_last_date
+  FROM public.leaderboard_stats
+  WHERE user_id = NEW.user_id;
+
+  -- Calculate streak
+  IF v_last_date IS NULL THEN
+    v_new_streak := 1;
+  ELSIF v_last_date >= v_today THEN
+    -- Same day, or a timezone change moved "today" behind the last activity
+    SELECT current_streak INTO v_new_streak
+    FROM public.leaderboard_stats
+    WHERE user_id = NEW.user_id;
+    v_today := v_last_date;
+  ELSIF v_last_date = v_today - 1 THEN
+    SELECT current_streak + 1 INTO v_new_streak
+    FROM public.leaderboard_stats
+    WHERE user_id = NEW.user_id;
+    IF v_new_streak IS NULL THEN v_new_streak := 1; END IF;
+  ELSE
+    v_new_streak := 1;
+  END IF;
+
+  -- Upsert leaderboard stats
+  INSERT INTO public.leaderboard_stats (
+    user_id, display_name, total_quizzes, total_correct, total_questions,
+    average_score, best_score, current_streak, longest_streak, last_activity_date
+  )
+  VALUES (
+    NEW.user_id, COALESCE(v_display_name, 'Anonymous'), 1, NEW.correct_answers,
+    NEW.total_questions, NEW.score, NEW.score, v_new_streak, v_new_streak, v_today
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    display_name = COALESCE(v_display_name, public.leaderboard_stats.display_name),
+    total_quizzes = public.leaderboard_stats.total_quizzes + 1,
+    total_correct = public.leaderboard_stats.total_correct + NEW.correct_answers,
+    total_questions = public.leaderboard_stats.total_questions + NEW.total_questions,
+    average_score = ROUND(
+      ((public.leaderboard_stats.total_correct + NEW.correct_answers)::numeric /
+       NULLIF(public.leaderboard_stats.total_questions + NEW.total_questions, 0)) * 100, 1
+    ),
+    best_score = GREATEST(public.leaderboard_stats.best_score, NEW.score),
+    current_streak = v_new_streak,
+    longest_streak = GREATEST(public.leaderboard_stats.longest_streak, v_new_streak),
+    last_activity_date = v_today,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_goal_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  week_start_date DATE;
+BEGIN
+  week_start_date := public.get_week_start(public.user_local_date(NEW.user_id, NEW.created_at));
+
+  -- Update quizzes goal
+  UPDATE public.weekly_study_goals
+  SET current_value = current_value + 1,
+      updated_at = now(),
+      is_completed = CASE WHEN current_value + 1 >= target_value THEN TRUE ELSE is_completed END,
+      completed_at = CASE WHEN current_value + 1 >= target_value AND NOT is_completed THEN now() ELSE completed_at END
+  WHERE user_id = NEW.user_id
+    AND goal_type = 'quizzes'
+    AND week_start = week_start_date
+    AND NOT is_completed;
+
+  -- Update questions goal
+  UPDATE public.weekly_study_goals
+  SET current_value = current_value + NEW.total_questions,
+      updated_at = now(),
+      is_completed = CASE WHEN current_value + NEW.total_questions >= target_value THEN TRUE ELSE is_completed END,
+      completed_at = CASE WHEN current_value + NEW.total_questions >= target_value AND NOT is_completed THEN now() ELSE completed_at END
+  WHERE user_id = NEW.user_id
+    AND goal_type = 'questions'
+    AND week_start = week_start_date
+    AND NOT is_completed;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Challenges belong to the student's local day and expire at their local midnight
+CREATE OR REPLACE FUNCTION public.assign_daily_challenges(p_user_id UUID)
+RETURNS SETOF public.user_daily_challenges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := public.user_local_date(p_user_id);
+  v_expires TIMESTAMP WITH TIME ZONE := (v_today + 1)::TIMESTAMP AT TIME ZONE public.user_timezone(p_user_id);
+  v_challenge RECORD;
+BEGIN
+  -- Check if user already has challenges for today
+  IF EXISTS (SELECT 1 FROM user_daily_challenges WHERE user_id = p_user_id AND challenge_date = v_today) THEN
+    -- Return existing challenges
+    RETURN QUERY SELECT * FROM user_daily_challenges WHERE user_id = p_user_id AND challenge_date = v_today;
+    RETURN;
+  END IF;
+
+  -- Assign 3 random challenges for today
+  FOR v_challenge IN
+    SELECT * FROM daily_challenges
+    WHERE is_active = true
+    ORDER BY random()
+    LIMIT 3
+  LOOP
+    INSERT INTO user_daily_challenges (user_id, challenge_id, challenge_date, target_value, expires_at)
+    VALUES (p_user_id, v_challenge.id, v_today, v_challenge.target_value, v_expires);
+  END LOOP;
+
+  RETURN QUERY SELECT * FROM user_daily_challenges WHERE user_id = p_user_id AND challenge_date = v_today;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_daily_challenge_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := public.user_local_date(NEW.user_id, NEW.created_at);
+  v_challenge RECORD;
+  v_user_challenge RECORD;
+  v_new_value INTEGER;
+  v_xp_earned INTEGER;
+  v_base_xp INTEGER;
+  v_bonus_mult NUMERIC;
+BEGIN
+  -- Get all active user challenges for today
+  FOR v_user_challenge IN
+    SELECT udc.*, dc.challenge_type, dc.base_xp_reward, dc.bonus_multiplier
+    FROM user_daily_challenges udc
+    JOIN daily_challenges dc ON dc.id = udc.challenge_id
+    WHERE udc.user_id = NEW.user_id
+      AND udc.challenge_date = v_today
+      AND udc.is_completed = false
+      AND udc.expires_at > now()
+  LOOP
+    v_new_value := v_user_challenge.current_value;
+    v_base_xp := v_user_challenge.base_xp_reward;
+    v_bonus_mult := v_user_challenge.bonus_multiplier;
+
+    -- Update based on challenge type
+    CASE v_user_challenge.challenge_type
+      WHEN 'quiz_count' THEN
+        v_new_value := v_new_value + 1;
+      WHEN 'questions_answered' THEN
+        v_new_value := v_new_value + NEW.correct_answers;
+      WHEN 'perfect_quiz' THEN
+        IF NEW.score = 100 THEN
+          v_new_value := v_new_value + 1;
+        END IF;
+      WHEN 'speed_quiz' THEN
+        IF NEW.time_taken_seconds IS NOT NULL AND NEW.time_taken_seconds <= v_user_challenge.target_value THEN
+          v_new_value := v_new_value + 1;
+        END IF;
+      WHEN 'quiz_score' THEN
+        IF NEW.score >= 80 THEN
+          v_new_value := v_new_value + 1;
+        END IF;
+      ELSE
+        v_new_value := v_new_value;
+    END CASE;
+
+    -- Check if challenge is now completed
+    IF v_new_value >= v_user_challenge.target_value AND NOT v_user_challenge.is_completed THEN
+      -- Calculate XP earned (base + bonus based on quiz score)
+      v_xp_earned := FLOOR(v_base_xp * (1 + (NEW.score / 100) * (v_bonus_mult - 1)));
+
+      UPDATE user_daily_challenges
+      SET current_value = v_new_value,
+          is_completed = true,
+          completed_at = now(),
+          xp_earned = v_xp_earned,
+          updated_at = now()
+      WHERE id = v_user_challenge.id;
+
+      -- Award XP to user profile
+      UPDATE profiles
+      SET total_xp = total_xp + v_xp_earned,
+          updated_at = now()
+      WHERE user_id = NEW.user_id;
+    ELSE
+      UPDATE user_daily_challenges
+      SET current_value = v_new_value,
+          updated_at = now()
+      WHERE id = v_user_challenge.id;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill: rebuild each student's streaks from their quiz history, counted in
+-- local days. Consecutive days form a run (date minus its row number is
+-- constant within a run); the current streak is the most recent run, or 0
+-- once a day has passed without activity since it ended.
+WITH activity_days AS (
+  SELECT DISTINCT
+    qr.user_id,
+    public.user_local_date(qr.user_id, qr.created_at) AS day
+  FROM public.quiz_results qr
+),
+runs AS (
+  SELECT
+    user_id,
+    day,
+    day - (ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY day))::INTEGER AS run_key
+  FROM activity_days
+),
+run_lengths AS (
+  SELECT user_id, run_key, COUNT(*)::INTEGER AS length, MAX(day) AS last_day
+  FROM runs
+  GROUP BY user_id, run_key
+),
+recomputed AS (
+  SELECT DISTINCT ON (user_id)
+    user_id,
+    CASE WHEN last_day >= public.user_local_date(user_id) - 1 THEN length ELSE 0 END AS current_streak,
+    MAX(length) OVER (PARTITION BY user_id) AS longest_streak,
+    last_day AS last_activity_date
+  FROM run_lengths
+  ORDER BY user_id, last_day DESC
+)
+UPDATE public.leaderboard_stats ls
+SET current_streak = r.current_streak,
+    longest_streak = r.longest_streak,
+    last_activity_date = r.last_activity_date,
+    updated_at = now()
+FROM recomputed r
+WHERE ls.user_id = r.user_id;
+
+-- The app used to derive week_start from a UTC timestamp, which stored the
+-- Sunday (east of UTC) or Tuesday (west of UTC, late evening) next to the
+-- intended Monday. Move those goals onto the Monday unless one already exists.
+-- A Sunday and a Tuesday goal can point at the same Monday, so only the one
+-- with the most progress moves.
+WITH misdated AS (
+  SELECT
+    g.id,
+    g.user_id,
+    g.goal_type,
+    g.week_start + CASE EXTRACT(ISODOW FROM g.week_start)::INTEGER WHEN 7 THEN 1 ELSE -1 END AS monday,
+    g.is_completed,
+    g.current_value,
+    g.created_at
+  FROM public.weekly_study_goals g
+  WHERE EXTRACT(ISODOW FROM g.week_start)::INTEGER IN (2, 7)
+),
+movable AS (
+  SELECT DISTINCT ON (m.user_id, m.goal_type, m.monday)
+    m.id,
+    m.monday
+  FROM misdated m
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.weekly_study_goals other
+    WHERE other.user_id = m.user_id
+      AND other.goal_type = m.goal_type
+      AND other.week_start = m.monday
+  )
+  ORDER BY m.user_id, m.goal_type, m.monday,
+    m.is_completed DESC NULLS LAST, m.current_value DESC NULLS LAST, m.created_at
+)
+UPDATE public.weekly_study_goals g
+SET week_start = mv.monday
+FROM movable mv
+WHERE g.id = mv.id;
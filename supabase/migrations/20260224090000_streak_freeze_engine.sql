@@ -0,0 +1,323 @@
+-- Migration: Server-enforced streak freezes
+-- Date: 2026-02-24
+-- Purpose: Streak shields (profiles.streak_protections) were only decremented
+-- from the browser and update_leaderboard_on_quiz never looked at them, so
+-- spending one didn't stop the streak from resetting. Streak days are now
+-- recorded in streak_days; a missed day is covered by a frozen day that costs
+-- a shield, either automatically or when the student chooses to, and shields
+-- can only be earned or spent by the database.
+
+-- One row per local day the streak was kept, by studying or by a shield.
+-- Missed days are the gaps.
+CREATE TABLE IF NOT EXISTS public.streak_days (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('active', 'frozen')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE public.streak_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own streak days"
+ON public.streak_days
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Spend shields on missed days without asking; when off, the dashboard asks first
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS auto_streak_freeze BOOLEAN NOT NULL DEFAULT true;
+
+-- Shield balances change only through the SECURITY DEFINER functions below,
+-- which run as the table owner rather than as the signed-in student
+CREATE OR REPLACE FUNCTION public.guard_streak_protections()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.streak_protections IS DISTINCT FROM OLD.streak_protections
+     AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Streak shields can only be changed by the server'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profiles_streak_protections
+BEFORE UPDATE OF streak_protections ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_streak_protections();
+
+CREATE OR REPLACE FUNCTION public.auto_streak_freeze_enabled(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    (SELECT auto_streak_freeze FROM public.user_preferences WHERE user_id = p_user_id),
+    true
+  )
+$$;
+
+-- Counts the days missed between the last kept day and p_today. With
+-- p_use_shields, covers all of them with frozen days if there are enough
+-- shields. Returns the number of missed days left uncovered.
+CREATE OR REPLACE FUNCTION public.protect_missed_days(p_user_id UUID, p_today DATE, p_use_shields BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shields INTEGER;
+  v_streak INTEGER;
+  v_kept_through DATE;
+  v_missed INTEGER;
+BEGIN
+  IF p_use_shields THEN
+    -- Serialize spending so two requests can't cover the same gap twice
+    SELECT streak_protections INTO v_shields
+    FROM public.profiles
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+  END IF;
+
+  SELECT current_streak INTO v_streak
+  FROM public.leaderboard_stats
+  WHERE user_id = p_user_id;
+
+  SELECT MAX(day) INTO v_kept_through
+  FROM public.streak_days
+  WHERE user_id = p_user_id
+    AND day < p_today;
+
+  IF v_kept_through IS NULL OR COALESCE(v_streak, 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_missed := p_today - v_kept_through - 1;
+  IF v_missed <= 0 THEN
+    RETURN 0;
+  END IF;
+  IF NOT p_use_shields OR COALESCE(v_shields, 0) < v_missed THEN
+    RETURN v_missed;
+  END IF;
+
+  UPDATE public.profiles
+  SET streak_protections = streak_protections - v_missed,
+      updated_at = now()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.streak_days (user_id, day, status)
+  SELECT p_user_id, v_kept_through + offset_days, 'frozen'
+  FROM generate_series(1, v_missed) AS offset_days
+  ON CONFLICT (user_id, day) DO NOTHING;
+
+  RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.auto_streak_freeze_enabled(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.protect_missed_days(UUID, DATE, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Settles missed days for the signed-in student and returns their streak.
+-- A gap that won't be covered (no auto freeze possible, or not enough
+-- shields) ends the streak now instead of at the next quiz.
+CREATE OR REPLACE FUNCTION public.get_streak_status()
+RETURNS TABLE (
+  current_streak INTEGER,
+  longest_streak INTEGER,
+  streak_protections INTEGER,
+  missed_days INTEGER,
+  auto_freeze BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_auto BOOLEAN;
+  v_missed INTEGER;
+  v_shields INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_auto := public.auto_streak_freeze_enabled(v_user_id);
+  v_missed := public.protect_missed_days(v_user_id, public.user_local_date(v_user_id), v_auto);
+
+  SELECT p.streak_protections INTO v_shields
+  FROM public.profiles p
+  WHERE p.user_id = v_user_id;
+
+  IF v_missed > 0 AND (v_auto OR COALESCE(v_shields, 0) < v_missed) THEN
+    UPDATE public.leaderboard_stats ls
+    SET current_streak = 0,
+        updated_at = now()
+    WHERE ls.user_id = v_user_id
+      AND ls.current_streak > 0;
+    v_missed := 0;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(ls.current_streak, 0),
+    COALESCE(ls.longest_streak, 0),
+    COALESCE(v_shields, 0),
+    v_missed,
+    v_auto
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.leaderboard_stats ls ON ls.user_id = v_user_id;
+END;
+$$;
+
+-- Spends shields on the signed-in student's missed days. Returns the shields left.
+CREATE OR REPLACE FUNCTION public.use_streak_freeze()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_today DATE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_today := public.user_local_date(v_user_id);
+
+  IF public.protect_missed_days(v_user_id, v_today, false) = 0 THEN
+    RAISE EXCEPTION 'There are no missed days to protect';
+  END IF;
+  IF public.protect_missed_days(v_user_id, v_today, true) > 0 THEN
+    RAISE EXCEPTION 'Not enough streak shields';
+  END IF;
+
+  RETURN (SELECT streak_protections FROM public.profiles WHERE user_id = v_user_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_streak_status() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.use_streak_freeze() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_streak_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.use_streak_freeze() TO authenticated;
+
+-- Frozen days keep the streak alive without adding to it
+CREATE OR REPLACE FUNCTION public.update_leaderboard_on_quiz()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_display_name text;
+  v_today date := public.user_local_date(NEW.user_id, NEW.created_at);
+  v_kept_through date;
+  v_new_streak integer;
+BEGIN
+  -- Get display name from profiles
+  SELECT COALESCE(name, 'Anonymous') INTO v_display_name
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  PERFORM public.protect_missed_days(
+    NEW.user_id, v_today, public.auto_streak_freeze_enabled(NEW.user_id)
+  );
+
+  -- Last day the streak was kept, by activity or a shield
+  SELECT MAX(day) INTO v_kept_through
+  FROM public.streak_days
+  WHERE user_id = NEW.user_id;
+
+  -- Calculate streak
+  IF v_kept_through IS NULL THEN
+    v_new_streak := 1;
+  ELSIF v_kept_through >= v_today THEN
+    -- Same day, or a timezone change moved "today" behind the last kept day
+    SELECT GREATEST(current_streak, 1) INTO v_new_streak
+    FROM public.leaderboard_stats
+    WHERE user_id = NEW.user_id;
+  ELSIF v_kept_through = v_today - 1 THEN
+    SELECT current_streak + 1 INTO v_new_streak
+    FROM public.leaderboard_stats
+    WHERE user_id = NEW.user_id;
+  ELSE
+    v_new_streak := 1;
+  END IF;
+  v_new_streak := COALESCE(v_new_streak, 1);
+
+  INSERT INTO public.streak_days (user_id, day, status)
+  VALUES (NEW.user_id, v_today, 'active')
+  ON CONFLICT (user_id, day) DO UPDATE SET status = 'active';
+
+  -- Upsert leaderboard stats
+  INSERT INTO public.leaderboard_stats (
+    user_id, display_name, total_quizzes, total_correct, total_questions,
+    average_score, best_score, current_streak, longest_streak, last_activity_date
+  )
+  VALUES (
+    NEW.user_id, COALESCE(v_display_name, 'Anonymous'), 1, NEW.correct_answers,
+    NEW.total_questions, NEW.score, NEW.score, v_new_streak, v_new_streak, v_today
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    display_name = COALESCE(v_display_name, public.leaderboard_stats.display_name),
+    total_quizzes = public.leaderboard_stats.total_quizzes + 1,
+    total_correct = public.leaderboard_stats.total_correct + NEW.correct_answers,
+    total_questions = public.leaderboard_stats.total_questions + NEW.total_questions,
+    average_score = ROUND(
+      ((public.leaderboard_stats.total_correct + NEW.correct_answers)::numeric /
+       NULLIF(public.leaderboard_stats.total_questions + NEW.total_questions, 0)) * 100, 1
+    ),
+    best_score = GREATEST(public.leaderboard_stats.best_score, NEW.score),
+    current_streak = v_new_streak,
+    longest_streak = GREATEST(public.leaderboard_stats.longest_streak, v_new_streak),
+    last_activity_date = GREATEST(public.leaderboard_stats.last_activity_date, v_today),
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Completing every daily challenge earns a shield. This replaces the award
+-- the dashboard used to make from the browser.
+CREATE OR REPLACE FUNCTION public.award_daily_challenge_shield()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.is_completed AND NOT OLD.is_completed AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_daily_challenges
+    WHERE user_id = NEW.user_id
+      AND challenge_date = NEW.challenge_date
+      AND NOT is_completed
+  ) THEN
+    UPDATE public.profiles
+    SET streak_protections = streak_protections + 1,
+        updated_at = now()
+    WHERE user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_shield_on_daily_challenges
+AFTER UPDATE OF is_completed ON public.user_daily_challenges
+FOR EACH ROW
+EXECUTE FUNCTION public.award_daily_challenge_shield();
+
+-- Backfill active days from quiz history so the calendar has something to show
+INSERT INTO public.streak_days (user_id, day, status)
+SELECT DISTINCT qr.user_id, public.user_local_date(qr.user_id, qr.created_at), 'active'
+FROM public.quiz_results qr
+ON CONFLICT (user_id, day) DO NOTHING;
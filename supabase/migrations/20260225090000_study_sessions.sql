@@ -0,0 +1,240 @@
+-- Migration: Study sessions
+-- Date: 2026-02-25
+-- Purpose: One record of time spent studying, whatever the activity. Video
+-- watching and note reading are reported by the app as heartbeats through
+-- record_study_time, which never credits more time than has actually passed;
+-- quiz time is recorded by submit-quiz from the graded per-question timings.
+-- Sessions drive the study heatmap and the study_time weekly goal.
+
+CREATE TABLE IF NOT EXISTS public.study_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity TEXT NOT NULL CHECK (activity IN ('video', 'quiz', 'notes')),
+  todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Last heartbeat for sessions still being recorded
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  duration_seconds INTEGER NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  -- The student's calendar day when the session started
+  local_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_sessions_user_date
+ON public.study_sessions(user_id, local_date);
+
+CREATE INDEX IF NOT EXISTS idx_study_sessions_user_ended
+ON public.study_sessions(user_id, ended_at DESC);
+
+ALTER TABLE public.study_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own study sessions"
+ON public.study_sessions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.set_study_session_local_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.local_date := public.user_local_date(NEW.user_id, NEW.started_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_study_sessions_local_date
+BEFORE INSERT ON public.study_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_study_session_local_date();
+
+-- Minutes studied in the week starting p_week_start
+CREATE OR REPLACE FUNCTION public.study_minutes_in_week(p_user_id UUID, p_week_start DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(SUM(duration_seconds), 0)::INTEGER / 60
+  FROM public.study_sessions
+  WHERE user_id = p_user_id
+    AND local_date >= p_week_start
+    AND local_date < p_week_start + 7
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.study_minutes_in_week(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Keep the study_time weekly goal in step with recorded sessions
+CREATE OR REPLACE FUNCTION public.update_study_time_goal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_week_start DATE := public.get_week_start(NEW.local_date);
+  v_minutes INTEGER := public.study_minutes_in_week(NEW.user_id, v_week_start);
+BEGIN
+  UPDATE public.weekly_study_goals
+  SET current_value = v_minutes,
+      updated_at = now(),
+      is_completed = v_minutes >= target_value,
+      completed_at = CASE WHEN v_minutes >= target_value THEN COALESCE(completed_at, now()) END
+  WHERE user_id = NEW.user_id
+    AND goal_type = 'study_time'
+    AND week_start = v_week_start
+    AND NOT is_completed;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_study_time_goal_on_session
+AFTER INSERT OR UPDATE OF duration_seconds ON public.study_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_study_time_goal();
+
+-- A study_time goal set mid-week starts from the time already studied
+CREATE OR REPLACE FUNCTION public.init_study_time_goal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.goal_type = 'study_time' THEN
+    NEW.current_value := public.study_minutes_in_week(NEW.user_id, NEW.week_start);
+    NEW.is_completed := NEW.current_value >= NEW.target_value;
+    NEW.completed_at := CASE WHEN NEW.is_completed THEN now() END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER init_study_time_goal_on_insert
+BEFORE INSERT ON public.weekly_study_goals
+FOR EACH ROW
+EXECUTE FUNCTION public.init_study_time_goal();
+
+-- Adds p_seconds of video or note time to session p_session_id, creating it
+-- on the first heartbeat. Credit is capped by the time since the student's
+-- latest heartbeat in any session, so a modified client can't inflate study
+-- time with fresh session ids, and overlapping video and note sessions don't
+-- count the same minutes twice.
+CREATE OR REPLACE FUNCTION public.record_study_time(
+  p_session_id UUID,
+  p_activity TEXT,
+  p_todo_id UUID,
+  p_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_max_heartbeat_seconds CONSTANT INTEGER := 120;
+  v_todo_id UUID;
+  v_last_ended_at TIMESTAMP WITH TIME ZONE;
+  v_credit INTEGER;
+  v_duration INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_activity NOT IN ('video', 'notes') THEN
+    RAISE EXCEPTION 'Unsupported study activity: %', p_activity USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_seconds IS NULL OR p_seconds <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT id INTO v_todo_id
+  FROM public.todos
+  WHERE id = p_todo_id
+    AND user_id = v_user_id;
+
+  -- One heartbeat per student at a time, so parallel calls can't each claim
+  -- the same stretch of time
+  PERFORM pg_advisory_xact_lock(hashtext('record_study_time:' || v_user_id::TEXT));
+
+  SELECT MAX(s.ended_at) INTO v_last_ended_at
+  FROM public.study_sessions s
+  WHERE s.user_id = v_user_id;
+
+  v_credit := LEAST(
+    p_seconds,
+    v_max_heartbeat_seconds,
+    COALESCE(GREATEST(CEIL(EXTRACT(EPOCH FROM now() - v_last_ended_at))::INTEGER, 0), v_max_heartbeat_seconds)
+  );
+
+  INSERT INTO public.study_sessions AS s (id, user_id, activity, todo_id, started_at, ended_at, duration_seconds)
+  VALUES (
+    p_session_id,
+    v_user_id,
+    p_activity,
+    v_todo_id,
+    now() - make_interval(secs => v_credit),
+    now(),
+    v_credit
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    duration_seconds = s.duration_seconds + v_credit,
+    ended_at = now()
+  WHERE s.user_id = v_user_id
+    AND s.activity = p_activity
+  RETURNING s.duration_seconds INTO v_duration;
+
+  RETURN COALESCE(v_duration, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_study_time(UUID, TEXT, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_study_time(UUID, TEXT, UUID, INTEGER) TO authenticated;
+
+-- Seconds studied per local day and activity for the signed-in student
+CREATE OR REPLACE FUNCTION public.get_study_activity(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  day DATE,
+  video_seconds INTEGER,
+  quiz_seconds INTEGER,
+  notes_seconds INTEGER,
+  session_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    s.local_date,
+    (COALESCE(SUM(s.duration_seconds) FILTER (WHERE s.activity = 'video'), 0))::INTEGER,
+    (COALESCE(SUM(s.duration_seconds) FILTER (WHERE s.activity = 'quiz'), 0))::INTEGER,
+    (COALESCE(SUM(s.duration_seconds) FILTER (WHERE s.activity = 'notes'), 0))::INTEGER,
+    COUNT(*)::INTEGER
+  FROM public.study_sessions s
+  WHERE s.user_id = auth.uid()
+    AND s.local_date BETWEEN p_from AND p_to
+    AND s.duration_seconds > 0
+  GROUP BY s.local_date
+  ORDER BY s.local_date
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_study_activity(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_study_activity(DATE, DATE) TO authenticated;
+
+-- Backfill quiz sessions from past results so the heatmap starts with history.
+-- Older results only have wall-clock time, so cap each at an hour.
+INSERT INTO public.study_sessions (user_id, activity, todo_id, started_at, ended_at, duration_seconds)
+SELECT
+  qr.user_id,
+  'quiz',
+  qr.todo_id,
+  qr.created_at - make_interval(secs => LEAST(qr.time_taken_seconds, 3600)),
+  qr.created_at,
+  LEAST(qr.time_taken_seconds, 3600)
+FROM public.quiz_results qr
+WHERE qr.time_taken_seconds > 0;
@@ -0,0 +1,451 @@
+-- Migration: Genuine video watch tracking
+-- Date: 2026-02-26
+-- Purpose: video_progress used to store the playhead position as a percentage,
+-- so dragging to the middle of a video counted as watching half of it. The
+-- app now reports the ranges of the video that actually played, and
+-- record_video_watch merges them into watched_segments. Progress, completion,
+-- the completion XP and the "videos watched" achievements all come from the
+-- seconds covered by those ranges, measured against the video length the
+-- server saved when it attached the video to the task.
+
+ALTER TABLE public.video_progress
+ADD COLUMN IF NOT EXISTS watched_segments JSONB NOT NULL DEFAULT '[]'::JSONB,
+ADD COLUMN IF NOT EXISTS watched_seconds NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Length of the task's video, from the provider that found it. Only the
+-- edge functions that attach videos set it; the app never does.
+ALTER TABLE public.todos
+ADD COLUMN IF NOT EXISTS video_duration_seconds NUMERIC CHECK (video_duration_seconds > 0);
+
+-- A video the student picks themselves has no known length until the server
+-- attaches one, so changing the video from the app clears it
+CREATE OR REPLACE FUNCTION public.guard_todo_video_duration()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' OR NEW.video_id IS DISTINCT FROM OLD.video_id THEN
+      NEW.video_duration_seconds := NULL;
+    ELSIF NEW.video_duration_seconds IS DISTINCT FROM OLD.video_duration_seconds THEN
+      RAISE EXCEPTION 'Video lengths can only be set by the server'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_todo_video_duration
+BEFORE INSERT OR UPDATE ON public.todos
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_todo_video_duration();
+
+-- Progress is only written through record_video_watch
+DROP POLICY IF EXISTS "Users can create their own video progress" ON public.video_progress;
+DROP POLICY IF EXISTS "Users can update their own video progress" ON public.video_progress;
+
+-- Earlier progress followed the playhead, not what was watched, so it can't
+-- be trusted for completion. Notes that were already generated stay available.
+UPDATE public.video_progress
+SET progress_percent = 0,
+    completed = false
+WHERE watched_segments = '[]'::JSONB;
+
+-- Sorts [start, end] second ranges, clamps them to the video and merges
+-- overlapping or touching ranges
+CREATE OR REPLACE FUNCTION public.merge_watch_segments(p_segments JSONB, p_duration NUMERIC)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  WITH segments AS (
+    SELECT
+      GREATEST((seg->>0)::NUMERIC, 0) AS seg_start,
+      LEAST((seg->>1)::NUMERIC, p_duration) AS seg_end
+    FROM jsonb_array_elements(p_segments) AS seg
+    WHERE jsonb_typeof(seg) = 'array'
+      AND jsonb_typeof(seg->0) = 'number'
+      AND jsonb_typeof(seg->1) = 'number'
+  ),
+  ordered AS (
+    SELECT
+      seg_start,
+      seg_end,
+      MAX(seg_end) OVER (
+        ORDER BY seg_start, seg_end
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ) AS reached
+    FROM segments
+    WHERE seg_end > seg_start
+  ),
+  islands AS (
+    SELECT
+      seg_start,
+      seg_end,
+      SUM(CASE WHEN reached IS NULL OR seg_start > reached THEN 1 ELSE 0 END)
+        OVER (ORDER BY seg_start, seg_end) AS island
+    FROM ordered
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_array(island_start, island_end) ORDER BY island_start), '[]'::JSONB)
+  FROM (
+    SELECT ROUND(MIN(seg_start), 1) AS island_start, ROUND(MAX(seg_end), 1) AS island_end
+    FROM islands
+    GROUP BY island
+  ) merged
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_watch_segments(JSONB, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Seconds covered by already merged ranges
+CREATE OR REPLACE FUNCTION public.watch_segments_seconds(p_segments JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(SUM((seg->>1)::NUMERIC - (seg->>0)::NUMERIC), 0)
+  FROM jsonb_array_elements(p_segments) AS seg
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.watch_segments_seconds(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Adds the parts of p_new not already in p_previous (both merged), earliest
+-- first, until p_allowance seconds of new coverage have been added
+CREATE OR REPLACE FUNCTION public.cap_watch_segments(
+  p_previous JSONB,
+  p_new JSONB,
+  p_allowance NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_remaining NUMERIC := GREATEST(p_allowance, 0);
+  v_added JSONB := '[]'::JSONB;
+  v_new RECORD;
+  v_seen RECORD;
+  v_cursor NUMERIC;
+  v_gap_end NUMERIC;
+BEGIN
+  FOR v_new IN
+    SELECT (seg->>0)::NUMERIC AS seg_start, (seg->>1)::NUMERIC AS seg_end
+    FROM jsonb_array_elements(p_new) AS seg
+    ORDER BY 1
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_cursor := v_new.seg_start;
+
+    -- Walk the gaps that earlier coverage leaves inside this range
+    FOR v_seen IN
+      SELECT (seg->>0)::NUMERIC AS seg_start, (seg->>1)::NUMERIC AS seg_end
+      FROM jsonb_array_elements(p_previous || jsonb_build_array(jsonb_build_array(v_new.seg_end, v_new.seg_end))) AS seg
+      ORDER BY 1
+    LOOP
+      CONTINUE WHEN v_seen.seg_end < v_cursor;
+      v_gap_end := LEAST(v_seen.seg_start, v_new.seg_end);
+      IF v_gap_end > v_cursor THEN
+        v_gap_end := LEAST(v_gap_end, v_cursor + v_remaining);
+        v_added := v_added || jsonb_build_array(jsonb_build_array(v_cursor, v_gap_end));
+        v_remaining := v_remaining - (v_gap_end - v_cursor);
+      END IF;
+      v_cursor := GREATEST(v_cursor, v_seen.seg_end);
+      EXIT WHEN v_cursor >= v_new.seg_end OR v_remaining <= 0;
+    END LOOP;
+  END LOOP;
+
+  RETURN p_previous || v_added;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cap_watch_segments(JSONB, JSONB, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Merges ranges the student played into their progress on a task's video.
+-- New coverage is capped by the time since the previous report at the
+-- fastest playback speed, so a modified client can't mark a video watched;
+-- coverage over the cap is dropped, keeping the earliest ranges up to it.
+-- The merged ranges are returned so the app stops resending dropped ones.
+-- Ranges are measured against the task's saved video length; the app's
+-- p_duration_seconds only stands in for progress on videos without one,
+-- which can't be completed. Reaching 90% of a known length for the first
+-- time awards the completion XP.
+CREATE OR REPLACE FUNCTION public.record_video_watch(
+  p_todo_id UUID,
+  p_video_id TEXT,
+  p_segments JSONB,
+  p_duration_seconds NUMERIC,
+  p_position_seconds NUMERIC
+)
+RETURNS TABLE (
+  watched_seconds NUMERIC,
+  progress_percent NUMERIC,
+  completed BOOLEAN,
+  xp_awarded INTEGER,
+  watched_segments JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_max_rate CONSTANT NUMERIC := 2;
+  v_max_report_gap_seconds CONSTANT INTEGER := 120;
+  v_slack_seconds CONSTANT INTEGER := 5;
+  v_completion_percent CONSTANT INTEGER := 90;
+  v_completion_xp CONSTANT INTEGER := 25;
+  v_existing public.video_progress%ROWTYPE;
+  v_todo_video_id TEXT;
+  v_known_duration NUMERIC;
+  v_duration NUMERIC := p_duration_seconds;
+  v_elapsed NUMERIC := v_max_report_gap_seconds;
+  v_allowance NUMERIC;
+  v_previous JSONB := '[]'::JSONB;
+  v_previous_seconds NUMERIC := 0;
+  v_segments JSONB;
+  v_watched NUMERIC;
+  v_percent NUMERIC;
+  v_completed BOOLEAN;
+  v_xp INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_segments IS NULL OR jsonb_typeof(p_segments) <> 'array' OR jsonb_array_length(p_segments) > 1000 THEN
+    RAISE EXCEPTION 'Invalid watch segments' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF p_duration_seconds IS NULL OR p_duration_seconds <= 0 THEN
+    RAISE EXCEPTION 'Invalid video duration' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT t.video_id, t.video_duration_seconds INTO v_todo_video_id, v_known_duration
+  FROM public.todos t
+  WHERE t.id = p_todo_id AND t.user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_todo_video_id IS DISTINCT FROM p_video_id THEN
+    RAISE EXCEPTION 'Not the task''s video' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM public.video_progress vp
+  WHERE vp.user_id = v_user_id
+    AND vp.todo_id = p_todo_id
+  FOR UPDATE;
+
+  -- Ranges only add up within the same video. Without a saved length the
+  -- first reported duration sticks.
+  IF FOUND AND v_existing.video_id = p_video_id THEN
+    v_duration := COALESCE(v_existing.duration_seconds, p_duration_seconds);
+    v_elapsed := LEAST(EXTRACT(EPOCH FROM now() - v_existing.updated_at), v_max_report_gap_seconds);
+    v_previous := v_existing.watched_segments;
+    v_previous_seconds := v_existing.watched_seconds;
+  END IF;
+
+  v_duration := COALESCE(v_known_duration, v_duration);
+
+  v_segments := public.merge_watch_segments(v_previous || p_segments, v_duration);
+  v_watched := public.watch_segments_seconds(v_segments);
+
+  v_allowance := v_elapsed * v_max_rate + v_slack_seconds;
+  IF v_watched - v_previous_seconds > v_allowance THEN
+    v_segments := public.merge_watch_segments(
+      public.cap_watch_segments(v_previous, public.merge_watch_segments(p_segments, v_duration), v_allowance),
+      v_duration
+    );
+    v_watched := public.watch_segments_seconds(v_segments);
+  END IF;
+
+  v_percent := LEAST(ROUND(v_watched / v_duration * 100, 1), 100);
+  v_completed := v_known_duration IS NOT NULL AND v_percent >= v_completion_percent;
+
+  IF v_completed AND v_existing.completed_at IS NULL THEN
+    v_xp := v_completion_xp;
+  END IF;
+
+  INSERT INTO public.video_progress AS vp (
+    user_id, todo_id, video_id, watched_segments, watched_seconds, duration_seconds,
+    progress_percent, completed, completed_at, last_position_seconds
+  )
+  VALUES (
+    v_user_id, p_todo_id, p_video_id, v_segments, v_watched, v_duration,
+    v_percent, v_completed,
+    CASE WHEN v_xp > 0 THEN now() END,
+    GREATEST(COALESCE(p_position_seconds, 0), 0)
+  )
+  ON CONFLICT (todo_id, user_id) DO UPDATE SET
+    video_id = EXCLUDED.video_id,
+    watched_segments = EXCLUDED.watched_segments,
+    watched_seconds = EXCLUDED.watched_seconds,
+    duration_seconds = EXCLUDED.duration_seconds,
+    progress_percent = EXCLUDED.progress_percent,
+    completed = EXCLUDED.completed,
+    completed_at = COALESCE(vp.completed_at, EXCLUDED.completed_at),
+    last_position_seconds = EXCLUDED.last_position_seconds;
+
+  IF v_xp > 0 THEN
+    UPDATE public.profiles
+    SET total_xp = total_xp + v_xp
+    WHERE user_id = v_user_id;
+
+    PERFORM 1 FROM public.check_achievements_v2(v_user_id);
+  END IF;
+
+  RETURN QUERY SELECT v_watched, v_percent, v_completed, v_xp, v_segments;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_video_watch(UUID, TEXT, JSONB, NUMERIC, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_video_watch(UUID, TEXT, JSONB, NUMERIC, NUMERIC) TO authenticated;
+
+-- Same as before, plus progress for 'videos_watched' achievements from
+-- genuinely completed videos
+CREATE OR REPLACE FUNCTION public.check_achievements_v2(uid uuid)
+RETURNS TABLE(
+  achievement_id uuid,
+  achievement_name text,
+  category text,
+  tier text,
+  just_unlocked boolean,
+  progress numeric,
+  progress_max numeric,
+  reward_type text,
+  reward_value jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_total_quizzes integer;
+  v_current_streak integer;
+  v_longest_streak integer;
+  v_best_score numeric;
+  v_average_score numeric;
+  v_notes_count integer;
+  v_perfect_scores integer;
+  v_unlocked_count integer;
+  v_videos_watched integer;
+  v_achievement record;
+  v_is_unlocked boolean;
+  v_current_progress numeric;
+  v_target numeric;
+BEGIN
+  -- Get comprehensive user stats
+  SELECT ls.total_quizzes, ls.current_streak, ls.longest_streak, ls.best_score, ls.average_score
+  INTO v_total_quizzes, v_current_streak, v_longest_streak, v_best_score, v_average_score
+  FROM public.leaderboard_stats ls
+  WHERE ls.user_id = uid;
+
+  SELECT COUNT(*) INTO v_notes_count
+  FROM public.notes n WHERE n.user_id = uid AND n.is_ai_generated = true;
+
+  SELECT COUNT(*) INTO v_perfect_scores
+  FROM public.quiz_results qr WHERE qr.user_id = uid AND qr.score = 100;
+
+  SELECT COUNT(*) INTO v_unlocked_count
+  FROM public.user_achievements ua WHERE ua.user_id = uid;
+
+  SELECT COUNT(*) INTO v_videos_watched
+  FROM public.video_progress vp WHERE vp.user_id = uid AND vp.completed_at IS NOT NULL;
+
+  -- Set defaults
+  v_total_quizzes := COALESCE(v_total_quizzes, 0);
+  v_current_streak := COALESCE(v_current_streak, 0);
+  v_longest_streak := COALESCE(v_longest_streak, 0);
+  v_best_score := COALESCE(v_best_score, 0);
+  v_average_score := COALESCE(v_average_score, 0);
+  v_notes_count := COALESCE(v_notes_count, 0);
+  v_perfect_scores := COALESCE(v_perfect_scores, 0);
+  v_unlocked_count := COALESCE(v_unlocked_count, 0);
+  v_videos_watched := COALESCE(v_videos_watched, 0);
+
+  FOR v_achievement IN
+    SELECT a.* FROM public.achievements a ORDER BY a.sort_order
+  LOOP
+    v_is_unlocked := EXISTS (
+      SELECT 1 FROM public.user_achievements ua
+      WHERE ua.user_id = uid AND ua.achievement_id = v_achievement.id
+    );
+
+    -- Calculate progress based on requirement type
+    v_target := v_achievement.requirement_value;
+    v_current_progress := 0;
+
+    CASE v_achievement.requirement_type
+      WHEN 'quizzes_completed' THEN v_current_progress := v_total_quizzes;
+      WHEN 'streak_days' THEN v_current_progress := GREATEST(v_current_streak, v_longest_streak);
+      WHEN 'perfect_score' THEN v_current_progress := v_best_score;
+      WHEN 'perfect_count' THEN v_current_progress := v_perfect_scores;
+      WHEN 'notes_created' THEN v_current_progress := v_notes_count;
+      WHEN 'achievements_unlocked' THEN v_current_progress := v_unlocked_count;
+      WHEN 'videos_watched' THEN v_current_progress := v_videos_watched;
+      WHEN 'sustained_accuracy' THEN
+        IF v_total_quizzes >= 20 THEN v_current_progress := v_average_score;
+        ELSE v_current_progress := 0; END IF;
+      ELSE v_current_progress := 0;
+    END CASE;
+
+    -- Update progress tracking
+    PERFORM public.update_achievement_progress(uid, v_achievement.id, LEAST(v_current_progress, v_target), v_target);
+
+    -- Check if should unlock
+    IF NOT v_is_unlocked AND v_current_progress >= v_target THEN
+      INSERT INTO public.user_achievements (user_id, achievement_id, progress, progress_max)
+      VALUES (uid, v_achievement.id, v_target, v_target)
+      ON CONFLICT DO NOTHING;
+
+      -- Grant reward
+      INSERT INTO public.user_rewards (user_id, achievement_id, reward_type, reward_value, expires_at)
+      VALUES (
+        uid,
+        v_achievement.id,
+        v_achievement.reward_type,
+        v_achievement.reward_value,
+        CASE
+          WHEN v_achievement.reward_value->>'duration_hours' IS NOT NULL
+          THEN now() + ((v_achievement.reward_value->>'duration_hours')::integer * interval '1 hour')
+          ELSE NULL
+        END
+      );
+
+      -- Update XP
+      IF v_achievement.reward_type = 'xp_bonus' THEN
+        UPDATE public.profiles
+        SET total_xp = total_xp + (v_achievement.reward_value->>'amount')::integer
+        WHERE public.profiles.user_id = uid;
+      END IF;
+
+      achievement_id := v_achievement.id;
+      achievement_name := v_achievement.name;
+      category := v_achievement.category;
+      tier := v_achievement.tier;
+      just_unlocked := true;
+      progress := v_target;
+      progress_max := v_target;
+      reward_type := v_achievement.reward_type;
+      reward_value := v_achievement.reward_value;
+      RETURN NEXT;
+    ELSE
+      achievement_id := v_achievement.id;
+      achievement_name := v_achievement.name;
+      category := v_achievement.category;
+      tier := v_achievement.tier;
+      just_unlocked := false;
+      progress := LEAST(v_current_progress, v_target);
+      progress_max := v_target;
+      reward_type := v_achievement.reward_type;
+      reward_value := v_achievement.reward_value;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
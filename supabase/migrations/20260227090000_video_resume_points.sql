@@ -0,0 +1,70 @@
+-- Migration: Video resume points
+-- Date: 2026-02-27
+-- Purpose: Remember where the student stopped in every video they open, be it
+-- a task's main video, a subtask video or a recommended video played in a
+-- dialog, so playback picks up from there and the Dashboard can offer to
+-- continue watching. One row per video; the task it was last watched from
+-- (if any) decides where "resume" leads.
+
+CREATE TABLE IF NOT EXISTS public.video_resume_points (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL,
+  todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  title TEXT,
+  channel TEXT,
+  position_seconds NUMERIC NOT NULL DEFAULT 0 CHECK (position_seconds >= 0),
+  duration_seconds NUMERIC CHECK (duration_seconds > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, video_id)
+);
+
+ALTER TABLE public.video_resume_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own resume points"
+ON public.video_resume_points
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own resume points"
+ON public.video_resume_points
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    todo_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.todos t
+      WHERE t.id = todo_id AND t.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can update their own resume points"
+ON public.video_resume_points
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    todo_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.todos t
+      WHERE t.id = todo_id AND t.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can delete their own resume points"
+ON public.video_resume_points
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS video_resume_points_user_recent
+ON public.video_resume_points(user_id, updated_at DESC);
+
+CREATE TRIGGER update_video_resume_points_updated_at
+BEFORE UPDATE ON public.video_resume_points
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,40 @@
+-- Migration: In-video checkpoint questions
+-- Date: 2026-02-28
+-- Purpose: Pause the player at the end of each chapter of a task's video
+-- (the sections generate-notes cut from the transcript) and ask one or two
+-- questions about it. Like quiz answer keys, checkpoint questions are only
+-- readable by the service role: generate-checkpoints hands out redacted
+-- copies and submit-checkpoint-answer grades them into question_attempts,
+-- together with the moment in the video the question was asked.
+
+CREATE TABLE IF NOT EXISTS public.video_checkpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL,
+  -- Position of the chapter in notes.sections
+  section_index INTEGER NOT NULL CHECK (section_index >= 0),
+  title TEXT NOT NULL,
+  -- The player pauses here (end of the chapter)...
+  pause_at_seconds NUMERIC NOT NULL CHECK (pause_at_seconds >= 0),
+  -- ...and a wrong answer offers to rewind here (start of the chapter)
+  rewind_to_seconds NUMERIC NOT NULL CHECK (rewind_to_seconds >= 0),
+  -- Full questions including correctAnswer and explanation
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, todo_id, video_id, section_index)
+);
+
+-- No client policies: answer keys stay with the edge functions
+ALTER TABLE public.video_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- Checkpoint answers are question attempts outside of any quiz
+ALTER TABLE public.question_attempts
+ALTER COLUMN quiz_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS checkpoint_id UUID REFERENCES public.video_checkpoints(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS video_timestamp_seconds NUMERIC,
+ADD CONSTRAINT question_attempts_quiz_or_checkpoint
+  CHECK (quiz_id IS NOT NULL OR checkpoint_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_checkpoint
+ON public.question_attempts(checkpoint_id, question_id);
@@ -0,0 +1,164 @@
+-- Migration: Lecture video library
+-- Date: 2026-03-01
+-- Purpose: Let schools teach from their own lecture recordings next to
+-- YouTube. A recording is either a file uploaded to the lecture-videos
+-- bucket or a direct MP4/HLS link hosted elsewhere; lecture_videos catalogues
+-- both so the "library" video provider can find them by title and topic.
+-- Every signed-in student can browse and stream the library. Since the
+-- library feeds every student's search results, only teachers and admins
+-- (staff_roles) can publish to it: teachers manage their own entries and
+-- files (kept under a folder named after them), admins can fix or remove any.
+
+-- Staff roles are granted with the service role (dashboard or SQL), never
+-- from the app
+CREATE TABLE IF NOT EXISTS public.staff_roles (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('teacher', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.staff_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own staff role"
+ON public.staff_roles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so storage and table policies can check roles without
+-- exposing staff_roles to other users
+CREATE OR REPLACE FUNCTION public.has_staff_role(p_user_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_roles sr
+    WHERE sr.user_id = p_user_id AND sr.role = ANY (p_roles)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_staff_role(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_staff_role(UUID, TEXT[]) TO authenticated;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lecture-videos', 'lecture-videos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff can upload lecture videos to their own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'lecture-videos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin'])
+);
+
+CREATE POLICY "Staff can update their own lecture video files"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'lecture-videos'
+  AND (
+    (auth.uid()::text = (storage.foldername(name))[1] AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin']))
+    OR public.has_staff_role(auth.uid(), ARRAY['admin'])
+  )
+);
+
+CREATE POLICY "Staff can delete their own lecture video files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'lecture-videos'
+  AND (
+    (auth.uid()::text = (storage.foldername(name))[1] AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin']))
+    OR public.has_staff_role(auth.uid(), ARRAY['admin'])
+  )
+);
+
+-- Private bucket: students stream through short-lived signed URLs
+CREATE POLICY "Signed-in users can watch lecture videos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'lecture-videos');
+
+CREATE TABLE IF NOT EXISTS public.lecture_videos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 2000),
+  -- Shown where YouTube shows the channel, e.g. the teacher or school
+  channel TEXT CHECK (channel IS NULL OR char_length(channel) <= 100),
+  -- Object name in the lecture-videos bucket...
+  storage_path TEXT CHECK (storage_path IS NULL OR char_length(storage_path) <= 500),
+  -- ...or an https link to an .mp4 file or .m3u8 playlist (HLS needs a link,
+  -- since a signed playlist URL would not cover its segments)
+  source_url TEXT CHECK (
+    source_url IS NULL OR (char_length(source_url) <= 1000 AND source_url ~ '^https://')
+  ),
+  thumbnail_url TEXT CHECK (thumbnail_url IS NULL OR char_length(thumbnail_url) <= 1000),
+  duration_seconds NUMERIC CHECK (duration_seconds > 0),
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', title || ' ' || coalesce(description, '') || ' ' || coalesce(channel, ''))
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT lecture_videos_one_source CHECK ((storage_path IS NULL) <> (source_url IS NULL))
+);
+
+ALTER TABLE public.lecture_videos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can browse the lecture library"
+ON public.lecture_videos
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Staff can add their own lecture videos"
+ON public.lecture_videos
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin'])
+  AND (storage_path IS NULL OR (storage.foldername(storage_path))[1] = auth.uid()::text)
+);
+
+CREATE POLICY "Staff can update their own lecture videos"
+ON public.lecture_videos
+FOR UPDATE
+TO authenticated
+USING (
+  (auth.uid() = user_id AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin']))
+  OR public.has_staff_role(auth.uid(), ARRAY['admin'])
+)
+WITH CHECK (
+  (
+    auth.uid() = user_id
+    AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin'])
+    AND (storage_path IS NULL OR (storage.foldername(storage_path))[1] = auth.uid()::text)
+  )
+  OR public.has_staff_role(auth.uid(), ARRAY['admin'])
+);
+
+CREATE POLICY "Staff can delete their own lecture videos"
+ON public.lecture_videos
+FOR DELETE
+TO authenticated
+USING (
+  (auth.uid() = user_id AND public.has_staff_role(auth.uid(), ARRAY['teacher', 'admin']))
+  OR public.has_staff_role(auth.uid(), ARRAY['admin'])
+);
+
+CREATE INDEX IF NOT EXISTS lecture_videos_search
+ON public.lecture_videos USING GIN (search_vector);
+
+CREATE TRIGGER update_lecture_videos_updated_at
+BEFORE UPDATE ON public.lecture_videos
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
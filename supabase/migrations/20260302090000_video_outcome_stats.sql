@@ -0,0 +1,69 @@
+-- Migration: Video outcome stats for search ranking
+-- Date: 2026-03-02
+-- Purpose: Let video search rank candidates by how past students did with
+-- them: how many who started a video went on to finish it, and how they
+-- scored on the questions asked about it. Also records the language of
+-- library recordings so they can be matched to the student's preference.
+
+ALTER TABLE public.lecture_videos
+ADD COLUMN IF NOT EXISTS language TEXT CHECK (language IS NULL OR language ~ '^[a-z]{2}$');
+
+COMMENT ON COLUMN public.lecture_videos.language IS 'ISO 639-1 code of the spoken language, e.g. en or hi';
+
+CREATE INDEX IF NOT EXISTS idx_video_progress_video
+ON public.video_progress(video_id);
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_video
+ON public.question_attempts(video_id);
+
+-- Aggregates across all students, so only the edge functions may call it.
+-- Only first attempts count towards quiz results: retakes after reviewing
+-- the answers say little about how well the video taught.
+CREATE OR REPLACE FUNCTION public.video_outcome_stats(p_video_ids TEXT[])
+RETURNS TABLE (
+  video_id TEXT,
+  watchers INTEGER,
+  completions INTEGER,
+  quiz_answers INTEGER,
+  quiz_correct INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH ids AS (
+    SELECT DISTINCT unnest(p_video_ids) AS video_id
+  ),
+  progress AS (
+    SELECT
+      vp.video_id,
+      count(DISTINCT vp.user_id)::INTEGER AS watchers,
+      count(DISTINCT vp.user_id) FILTER (WHERE vp.completed_at IS NOT NULL)::INTEGER AS completions
+    FROM public.video_progress vp
+    JOIN ids ON ids.video_id = vp.video_id
+    WHERE vp.watched_seconds > 0
+    GROUP BY vp.video_id
+  ),
+  answers AS (
+    SELECT
+      qa.video_id,
+      count(*)::INTEGER AS quiz_answers,
+      count(*) FILTER (WHERE qa.is_correct)::INTEGER AS quiz_correct
+    FROM public.question_attempts qa
+    JOIN ids ON ids.video_id = qa.video_id
+    WHERE qa.attempt_number = 1
+    GROUP BY qa.video_id
+  )
+  SELECT
+    ids.video_id,
+    COALESCE(progress.watchers, 0),
+    COALESCE(progress.completions, 0),
+    COALESCE(answers.quiz_answers, 0),
+    COALESCE(answers.quiz_correct, 0)
+  FROM ids
+  LEFT JOIN progress ON progress.video_id = ids.video_id
+  LEFT JOIN answers ON answers.video_id = ids.video_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.video_outcome_stats(TEXT[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,215 @@
+-- Migration: Video feedback and learner outcome aggregate
+-- Date: 2026-03-03
+-- Purpose: Let students rate the videos in their plans with a thumbs up or
+-- down and flag ones that are off-topic, poor quality, in the wrong language
+-- or broken. Flagged videos are swapped out of the student's plan by the
+-- flag-video function. video_outcome_stats now also counts who started
+-- subtask videos (through resume points), the first quiz score after
+-- watching, and the ratings and flags, so find-video ranks on all of them.
+
+CREATE TABLE IF NOT EXISTS public.video_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL,
+  todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  rating SMALLINT CHECK (rating IN (-1, 1)),
+  flag_reason TEXT CHECK (flag_reason IN ('off_topic', 'poor_quality', 'wrong_language', 'broken')),
+  flagged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, video_id),
+  CONSTRAINT video_feedback_flag_time CHECK ((flag_reason IS NULL) = (flagged_at IS NULL))
+);
+
+COMMENT ON COLUMN public.video_feedback.rating IS '1 for thumbs up, -1 for thumbs down, NULL when cleared';
+
+ALTER TABLE public.video_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own video feedback"
+ON public.video_feedback
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Flags are only written by flag-video, which also replaces the video, so
+-- students can rate directly but not flag
+CREATE POLICY "Users can create their own video ratings"
+ON public.video_feedback
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND flag_reason IS NULL
+  AND (
+    todo_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.todos t
+      WHERE t.id = todo_id AND t.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can update their own video ratings"
+ON public.video_feedback
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    todo_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.todos t
+      WHERE t.id = todo_id AND t.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can delete their own video feedback"
+ON public.video_feedback
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Flags change only through flag-video, which writes with the service role,
+-- so rating updates from the app leave an existing flag as it is
+CREATE OR REPLACE FUNCTION public.guard_video_feedback_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF (NEW.flag_reason IS DISTINCT FROM OLD.flag_reason OR NEW.flagged_at IS DISTINCT FROM OLD.flagged_at)
+     AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Video flags can only be changed by the server'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_video_feedback_flag
+BEFORE UPDATE OF flag_reason, flagged_at ON public.video_feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_video_feedback_flag();
+
+CREATE TRIGGER update_video_feedback_updated_at
+BEFORE UPDATE ON public.video_feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_video_feedback_video
+ON public.video_feedback(video_id);
+
+CREATE INDEX IF NOT EXISTS idx_video_resume_points_video
+ON public.video_resume_points(video_id);
+
+-- The return type changes, so the old definition has to go first
+DROP FUNCTION IF EXISTS public.video_outcome_stats(TEXT[]);
+
+-- Aggregates across all students, so only the edge functions may call it.
+--
+-- A student has watched a video once its task progress has watched seconds
+-- (main videos) or its resume point has moved (subtask and dialog videos).
+-- Only progress that record_video_watch completed counts as finishing it:
+-- resume points are written by the client, so they never count as completions.
+--
+-- quiz_score_avg is the average of each watcher's first quiz on the task they
+-- watched the video for, taken after they started it. Only first attempts
+-- count towards quiz_answers: retakes after reviewing the answers say little
+-- about how well the video taught.
+CREATE OR REPLACE FUNCTION public.video_outcome_stats(p_video_ids TEXT[])
+RETURNS TABLE (
+  video_id TEXT,
+  watchers INTEGER,
+  completions INTEGER,
+  quiz_answers INTEGER,
+  quiz_correct INTEGER,
+  quiz_takers INTEGER,
+  quiz_score_avg NUMERIC,
+  thumbs_up INTEGER,
+  thumbs_down INTEGER,
+  flags INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH ids AS (
+    SELECT DISTINCT unnest(p_video_ids) AS video_id
+  ),
+  watches AS (
+    SELECT vp.user_id, vp.video_id, vp.todo_id, vp.created_at AS started_at,
+      vp.completed_at IS NOT NULL AS completed
+    FROM public.video_progress vp
+    JOIN ids ON ids.video_id = vp.video_id
+    WHERE vp.watched_seconds > 0
+    UNION ALL
+    SELECT rp.user_id, rp.video_id, rp.todo_id, rp.created_at, false
+    FROM public.video_resume_points rp
+    JOIN ids ON ids.video_id = rp.video_id
+    WHERE rp.position_seconds > 0
+  ),
+  progress AS (
+    SELECT
+      w.video_id,
+      count(DISTINCT w.user_id)::INTEGER AS watchers,
+      count(DISTINCT w.user_id) FILTER (WHERE w.completed)::INTEGER AS completions
+    FROM watches w
+    GROUP BY w.video_id
+  ),
+  first_quizzes AS (
+    SELECT DISTINCT ON (w.video_id, w.user_id)
+      w.video_id,
+      qr.score
+    FROM watches w
+    JOIN public.quiz_results qr
+      ON qr.user_id = w.user_id
+      AND qr.todo_id = w.todo_id
+      AND qr.created_at >= w.started_at
+    ORDER BY w.video_id, w.user_id, qr.created_at
+  ),
+  quizzes AS (
+    SELECT
+      fq.video_id,
+      count(*)::INTEGER AS quiz_takers,
+      round(avg(fq.score), 1) AS quiz_score_avg
+    FROM first_quizzes fq
+    GROUP BY fq.video_id
+  ),
+  answers AS (
+    SELECT
+      qa.video_id,
+      count(*)::INTEGER AS quiz_answers,
+      count(*) FILTER (WHERE qa.is_correct)::INTEGER AS quiz_correct
+    FROM public.question_attempts qa
+    JOIN ids ON ids.video_id = qa.video_id
+    WHERE qa.attempt_number = 1
+    GROUP BY qa.video_id
+  ),
+  feedback AS (
+    SELECT
+      vf.video_id,
+      count(*) FILTER (WHERE vf.rating = 1)::INTEGER AS thumbs_up,
+      count(*) FILTER (WHERE vf.rating = -1)::INTEGER AS thumbs_down,
+      count(*) FILTER (WHERE vf.flag_reason IS NOT NULL)::INTEGER AS flags
+    FROM public.video_feedback vf
+    JOIN ids ON ids.video_id = vf.video_id
+    GROUP BY vf.video_id
+  )
+  SELECT
+    ids.video_id,
+    COALESCE(progress.watchers, 0),
+    COALESCE(progress.completions, 0),
+    COALESCE(answers.quiz_answers, 0),
+    COALESCE(answers.quiz_correct, 0),
+    COALESCE(quizzes.quiz_takers, 0),
+    quizzes.quiz_score_avg,
+    COALESCE(feedback.thumbs_up, 0),
+    COALESCE(feedback.thumbs_down, 0),
+    COALESCE(feedback.flags, 0)
+  FROM ids
+  LEFT JOIN progress ON progress.video_id = ids.video_id
+  LEFT JOIN answers ON answers.video_id = ids.video_id
+  LEFT JOIN quizzes ON quizzes.video_id = ids.video_id
+  LEFT JOIN feedback ON feedback.video_id = ids.video_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.video_outcome_stats(TEXT[]) FROM PUBLIC, anon, authenticated;
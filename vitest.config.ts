@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+
+// Runs the edge function tests on Node. The esm.sh imports resolve to the
+// same packages in node_modules, and tests/setup.ts stands in for the parts
+// of the Deno runtime the shared modules use.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+      "https://esm.sh/zod@3.25.76": "zod",
+    },
+  },
+  test: {
+    include: ["supabase/functions/tests/**/*.test.ts"],
+    setupFiles: ["supabase/functions/tests/setup.ts"],
+  },
+});